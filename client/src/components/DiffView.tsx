@@ -0,0 +1,86 @@
+import { useState, useEffect } from "react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { apiRequest } from "@/lib/queryClient";
+import type { FileDiff, FileDiffLine, FileDiffRow } from "@shared/schema";
+
+interface DiffViewProps {
+  sessionId: string;
+  left: string;
+  right: string;
+}
+
+// Backgrounds for each side of a row, by what happened to the line
+const ROW_COLORS: Record<FileDiffRow['kind'], { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  changed: { left: 'bg-red-900/40', right: 'bg-green-900/40' },
+  removed: { left: 'bg-red-900/40', right: 'bg-gray-800/60' },
+  added: { left: 'bg-gray-800/60', right: 'bg-green-900/40' },
+};
+
+// Two files side by side, changed lines highlighted, as diff -y lays them out
+export default function DiffView({ sessionId, left, right }: DiffViewProps) {
+  const [diff, setDiff] = useState<FileDiff | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadDiff = async () => {
+      try {
+        const res = await apiRequest("GET", `/api/sessions/${sessionId}/files/diff?left=${encodeURIComponent(left)}&right=${encodeURIComponent(right)}`);
+        const result: FileDiff = await res.json();
+        if (!cancelled) setDiff(result);
+      } catch (error) {
+        console.error('Error comparing files:', error);
+        if (!cancelled) setError(error instanceof Error ? error.message : String(error));
+      }
+    };
+
+    loadDiff();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, left, right]);
+
+  if (error) return <div className="text-red-400 text-sm">{error}</div>;
+  if (!diff) return <div className="text-gray-400 text-sm">Comparing...</div>;
+  if (diff.binary) return <div className="text-gray-400 text-sm">Binary files {diff.left} and {diff.right} differ</div>;
+
+  const removed = diff.rows.filter(row => row.kind === 'removed' || row.kind === 'changed').length;
+  const added = diff.rows.filter(row => row.kind === 'added' || row.kind === 'changed').length;
+
+  const cell = (line: FileDiffLine | undefined, color: string) => (
+    <>
+      <div className={`px-2 text-right text-gray-500 select-none ${color}`}>{line?.number ?? ''}</div>
+      <div className={`px-2 whitespace-pre ${color}`}>{line?.text ?? ''}</div>
+    </>
+  );
+
+  return (
+    <div className="flex flex-col min-h-0">
+      <div className="flex items-center justify-between text-sm mb-2">
+        <div className="grid grid-cols-2 flex-1 gap-4 font-mono text-gray-300">
+          <span className="truncate">{diff.left}</span>
+          <span className="truncate">{diff.right}</span>
+        </div>
+        <span className="ml-4 whitespace-nowrap">
+          <span className="text-red-400">-{removed}</span> <span className="text-green-400">+{added}</span>
+        </span>
+      </div>
+      {removed === 0 && added === 0 ? (
+        <div className="text-gray-400 text-sm">The files are identical</div>
+      ) : (
+        <ScrollArea className="h-[60vh] border border-gray-700 rounded">
+          <div className="grid grid-cols-[auto_1fr_auto_1fr] font-mono text-xs leading-5">
+            {diff.rows.map((row, index) => (
+              <div key={index} className="contents">
+                {cell(row.kind === 'added' ? undefined : row.left, ROW_COLORS[row.kind].left)}
+                {cell(row.kind === 'removed' ? undefined : row.right, ROW_COLORS[row.kind].right)}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
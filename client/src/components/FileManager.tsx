@@ -1,77 +1,56 @@
 import { useState, useEffect } from "react";
-import { Folder, File, Download, Upload, Trash2, Edit3, Copy, Move, Plus, FolderPlus } from "lucide-react";
+import { Folder, File, Download, Upload, Trash2, Edit3, Copy, Move, Plus, FolderPlus, GitCompare } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuTrigger } from "@/components/ui/context-menu";
+import { apiRequest } from "@/lib/queryClient";
+import DiffView from "@/components/DiffView";
 import type { FileManagerItem } from "@shared/schema";
 
 interface FileManagerProps {
+  sessionId: string;
   currentDirectory: string;
   onDirectoryChange: (path: string) => void;
   onFileSelect: (file: FileManagerItem) => void;
 }
 
-export default function FileManager({ currentDirectory, onDirectoryChange, onFileSelect }: FileManagerProps) {
+export default function FileManager({ sessionId, currentDirectory, onDirectoryChange, onFileSelect }: FileManagerProps) {
   const [files, setFiles] = useState<FileManagerItem[]>([]);
   const [selectedFiles, setSelectedFiles] = useState<Set<string>>(new Set());
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [createType, setCreateType] = useState<'file' | 'directory'>('file');
   const [newItemName, setNewItemName] = useState("");
   const [viewMode, setViewMode] = useState<'list' | 'grid'>('list');
+  // The two files shown in the diff view, when it is open
+  const [comparing, setComparing] = useState<[string, string] | null>(null);
 
-  // Mock file data - in real implementation this would come from WebSocket
+  // Load the session's real directory listing whenever the directory changes
   useEffect(() => {
-    const mockFiles: FileManagerItem[] = [
-      {
-        id: "1",
-        name: ".bashrc",
-        path: "/home/user/.bashrc",
-        type: "file",
-        size: 3526,
-        modified: new Date(Date.now() - 86400000),
-        permissions: "-rw-r--r--",
-        owner: "user",
-        group: "user"
-      },
-      {
-        id: "2",
-        name: "Documents",
-        path: "/home/user/Documents",
-        type: "directory",
-        size: 4096,
-        modified: new Date(Date.now() - 172800000),
-        permissions: "drwxr-xr-x",
-        owner: "user",
-        group: "user"
-      },
-      {
-        id: "3",
-        name: "Projects",
-        path: "/home/user/Projects",
-        type: "directory",
-        size: 4096,
-        modified: new Date(Date.now() - 259200000),
-        permissions: "drwxr-xr-x",
-        owner: "user",
-        group: "user"
-      },
-      {
-        id: "4",
-        name: "script.py",
-        path: "/home/user/script.py",
-        type: "file",
-        size: 1024,
-        modified: new Date(Date.now() - 3600000),
-        permissions: "-rwxr-xr-x",
-        owner: "user",
-        group: "user"
+    if (!sessionId) return;
+    let cancelled = false;
+
+    const loadFiles = async () => {
+      try {
+        const res = await apiRequest("GET", `/api/sessions/${sessionId}/files?path=${encodeURIComponent(currentDirectory)}`);
+        const items: FileManagerItem[] = await res.json();
+        if (!cancelled) {
+          setFiles(items.map(item => ({ ...item, modified: new Date(item.modified) })));
+          setSelectedFiles(new Set());
+        }
+      } catch (error) {
+        console.error('Error loading directory:', error);
+        if (!cancelled) setFiles([]);
       }
-    ];
-    setFiles(mockFiles);
-  }, [currentDirectory]);
+    };
+
+    loadFiles();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, currentDirectory]);
 
   const formatSize = (bytes: number) => {
     if (bytes === 0) return '0 B';
@@ -128,6 +107,22 @@ export default function FileManager({ currentDirectory, onDirectoryChange, onFil
     setSelectedFiles(new Set());
   };
 
+  // Downloads go through the server so binary files arrive byte-for-byte
+  const handleDownload = (fileIds: string[]) => {
+    files
+      .filter(file => fileIds.includes(file.id) && file.type === 'file')
+      .forEach(file => {
+        const link = document.createElement('a');
+        link.href = `/api/sessions/${sessionId}/files/download?path=${encodeURIComponent(file.path)}`;
+        link.download = file.name;
+        link.click();
+      });
+  };
+
+  // Exactly two files selected can be compared, in the order they are listed
+  const selectedForDiff = files.filter(file => selectedFiles.has(file.id) && file.type === 'file');
+  const canCompare = selectedFiles.size === 2 && selectedForDiff.length === 2;
+
   const BreadcrumbNavigation = () => {
     const pathParts = currentDirectory.split('/').filter(Boolean);
     
@@ -318,13 +313,37 @@ export default function FileManager({ currentDirectory, onDirectoryChange, onFil
               <Trash2 className="w-4 h-4 mr-1" />
               Delete
             </Button>
-            <Button variant="outline" size="sm">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleDownload(Array.from(selectedFiles))}
+            >
               <Download className="w-4 h-4 mr-1" />
               Download
             </Button>
+            {canCompare && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setComparing([selectedForDiff[0].path, selectedForDiff[1].path])}
+              >
+                <GitCompare className="w-4 h-4 mr-1" />
+                Compare
+              </Button>
+            )}
           </div>
         </div>
       )}
+
+      {/* Diff View */}
+      <Dialog open={comparing !== null} onOpenChange={(open) => !open && setComparing(null)}>
+        <DialogContent className="bg-gray-800 text-white max-w-6xl">
+          <DialogHeader>
+            <DialogTitle>Compare Files</DialogTitle>
+          </DialogHeader>
+          {comparing && <DiffView sessionId={sessionId} left={comparing[0]} right={comparing[1]} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
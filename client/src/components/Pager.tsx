@@ -0,0 +1,162 @@
+import { useState, useEffect, useRef } from "react";
+
+interface PagerProps {
+  title: string;
+  content: string;
+  onClose: () => void;
+}
+
+// Height of one line of text-sm leading-5 text, in pixels
+const LINE_HEIGHT = 20;
+
+// A less-style viewer over the terminal: one screen of text at a time, moved
+// with the usual keys, searched with /, closed with q
+export default function Pager({ title, content, onClose }: PagerProps) {
+  const lines = content.split("\n");
+  const [top, setTop] = useState(0);
+  const [rows, setRows] = useState(20);
+  // What is being typed after "/", or null when not searching
+  const [search, setSearch] = useState<string | null>(null);
+  const [pattern, setPattern] = useState("");
+  const [message, setMessage] = useState("");
+  const containerRef = useRef<HTMLDivElement>(null);
+  const textRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    containerRef.current?.focus();
+    const text = textRef.current;
+    if (!text) return;
+    const measure = () => setRows(Math.max(1, Math.floor(text.clientHeight / LINE_HEIGHT)));
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(text);
+    return () => observer.disconnect();
+  }, []);
+
+  const lastTop = Math.max(0, lines.length - rows);
+  const scrollTo = (line: number) => setTop(Math.min(lastTop, Math.max(0, line)));
+
+  // The next line after (or before) the top one that contains text
+  const find = (text: string, forward: boolean) => {
+    if (!text) return;
+    const step = forward ? 1 : -1;
+    for (let line = top + step; line >= 0 && line < lines.length; line += step) {
+      if (lines[line].includes(text)) {
+        scrollTo(line);
+        setMessage("");
+        return;
+      }
+    }
+    setMessage("Pattern not found");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Leave browser shortcuts like copy alone
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (search !== null) {
+      if (e.key === "Enter") {
+        setPattern(search);
+        setSearch(null);
+        find(search, true);
+      } else if (e.key === "Escape") {
+        setSearch(null);
+      } else if (e.key === "Backspace") {
+        setSearch(search.length > 0 ? search.slice(0, -1) : null);
+      } else if (e.key.length === 1) {
+        setSearch(search + e.key);
+      }
+      return;
+    }
+
+    setMessage("");
+    switch (e.key) {
+      case "q":
+      case "Q":
+      case "Escape":
+        onClose();
+        break;
+      case "j":
+      case "ArrowDown":
+      case "Enter":
+        scrollTo(top + 1);
+        break;
+      case "k":
+      case "ArrowUp":
+        scrollTo(top - 1);
+        break;
+      case " ":
+      case "f":
+      case "PageDown":
+        scrollTo(top + rows);
+        break;
+      case "b":
+      case "PageUp":
+        scrollTo(top - rows);
+        break;
+      case "d":
+        scrollTo(top + Math.ceil(rows / 2));
+        break;
+      case "u":
+        scrollTo(top - Math.ceil(rows / 2));
+        break;
+      case "g":
+      case "Home":
+        scrollTo(0);
+        break;
+      case "G":
+      case "End":
+        scrollTo(lastTop);
+        break;
+      case "/":
+        setSearch("");
+        break;
+      case "n":
+        find(pattern, true);
+        break;
+      case "N":
+        find(pattern, false);
+        break;
+    }
+  };
+
+  const highlight = (line: string) => {
+    if (!pattern || !line.includes(pattern)) return line;
+    return line.split(pattern).map((part, index) => (
+      <span key={index}>
+        {index > 0 && <span className="bg-terminal-yellow text-black">{pattern}</span>}
+        {part}
+      </span>
+    ));
+  };
+
+  const bottom = Math.min(lines.length, top + rows);
+  const status = search !== null
+    ? `/${search}`
+    : message || `${title} lines ${top + 1}-${bottom}/${lines.length}${bottom >= lines.length ? " (END)" : ""} (press q to quit, / to search)`;
+
+  return (
+    <div
+      ref={containerRef}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      onClick={() => containerRef.current?.focus()}
+      className="absolute inset-0 z-10 flex flex-col bg-terminal-bg font-mono text-sm outline-none"
+    >
+      <div className="flex-1 overflow-hidden p-4">
+        <div ref={textRef} className="h-full overflow-hidden leading-5 text-terminal-gray">
+          {lines.slice(top, bottom).map((line, index) => (
+            <div key={top + index} className="whitespace-pre h-5">
+              {highlight(line)}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="px-4 py-1 leading-5 bg-gray-200 text-black whitespace-pre">
+        {status}
+      </div>
+    </div>
+  );
+}
@@ -2,21 +2,32 @@ import { useState, useEffect } from "react";
 import { Activity, Cpu, HardDrive, MemoryStick, Zap, Server, Clock } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import type { SystemResources } from "@shared/schema";
+import type { ProcessInfo, SystemResources, WebSocketMessage } from "@shared/schema";
 
 interface ResourceMonitorProps {
   ws: WebSocket | null;
   connected: boolean;
+  // The latest figures the server sent for this session
+  resources: SystemResources | null;
 }
 
-export default function ResourceMonitor({ ws, connected }: ResourceMonitorProps) {
-  const [resources, setResources] = useState<SystemResources>({
-    cpu: 0,
-    memory: { used: 0, total: 8192, percentage: 0 },
-    disk: { used: 0, total: 102400, percentage: 0 },
-    processes: 0,
-    uptime: 0
-  });
+const EMPTY_RESOURCES: SystemResources = {
+  cpu: 0,
+  memory: { used: 0, total: 8192, percentage: 0 },
+  disk: { used: 0, total: 102400, percentage: 0 },
+  processes: 0,
+  uptime: 0,
+  processList: []
+};
+
+const STATE_COLORS: Record<ProcessInfo['state'], string> = {
+  running: 'text-green-400',
+  sleeping: 'text-gray-400',
+  stopped: 'text-yellow-400'
+};
+
+export default function ResourceMonitor({ ws, connected, resources: latest }: ResourceMonitorProps) {
+  const resources = latest ?? EMPTY_RESOURCES;
 
   const [history, setHistory] = useState<{
     cpu: number[];
@@ -28,45 +39,32 @@ export default function ResourceMonitor({ ws, connected }: ResourceMonitorProps)
     timestamps: []
   });
 
-  // Simulate resource updates
+  // Ask the server for fresh figures every couple of seconds
   useEffect(() => {
-    const interval = setInterval(() => {
-      const newResources: SystemResources = {
-        cpu: Math.random() * 100,
-        memory: {
-          used: Math.floor(Math.random() * 6000) + 1000,
-          total: 8192,
-          percentage: 0
-        },
-        disk: {
-          used: Math.floor(Math.random() * 50000) + 25000,
-          total: 102400,
-          percentage: 0
-        },
-        processes: Math.floor(Math.random() * 50) + 150,
-        uptime: Math.floor(Date.now() / 1000) - Math.floor(Math.random() * 86400)
-      };
-
-      newResources.memory.percentage = (newResources.memory.used / newResources.memory.total) * 100;
-      newResources.disk.percentage = (newResources.disk.used / newResources.disk.total) * 100;
-
-      setResources(newResources);
+    if (!ws || !connected) return;
+    const request = () => {
+      const message: WebSocketMessage = { type: 'resources' };
+      ws.send(JSON.stringify(message));
+    };
+    request();
+    const interval = setInterval(request, 2000);
+    return () => clearInterval(interval);
+  }, [ws, connected]);
 
-      // Update history for mini charts
-      setHistory(prev => {
-        const maxPoints = 20;
-        const newTimestamp = new Date().toLocaleTimeString();
-        
-        return {
-          cpu: [...prev.cpu.slice(-maxPoints + 1), newResources.cpu],
-          memory: [...prev.memory.slice(-maxPoints + 1), newResources.memory.percentage],
-          timestamps: [...prev.timestamps.slice(-maxPoints + 1), newTimestamp]
-        };
-      });
-    }, 2000);
+  // Update history for mini charts
+  useEffect(() => {
+    if (!latest) return;
+    setHistory(prev => {
+      const maxPoints = 20;
+      const newTimestamp = new Date().toLocaleTimeString();
 
-    return () => clearInterval(interval);
-  }, []);
+      return {
+        cpu: [...prev.cpu.slice(-maxPoints + 1), latest.cpu],
+        memory: [...prev.memory.slice(-maxPoints + 1), latest.memory.percentage],
+        timestamps: [...prev.timestamps.slice(-maxPoints + 1), newTimestamp]
+      };
+    });
+  }, [latest]);
 
   const formatUptime = (seconds: number) => {
     const days = Math.floor(seconds / 86400);
@@ -276,18 +274,15 @@ export default function ResourceMonitor({ ws, connected }: ResourceMonitorProps)
 
         <Card className="bg-gray-800 border-gray-700">
           <CardHeader className="pb-2">
-            <CardTitle className="text-sm">Top Processes</CardTitle>
+            <CardTitle className="text-sm">Session Processes</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-1 text-xs">
-              {[
-                { name: 'webtermux', cpu: resources.cpu.toFixed(1) },
-                { name: 'systemd', cpu: (Math.random() * 5).toFixed(1) },
-                { name: 'node', cpu: (Math.random() * 10).toFixed(1) }
-              ].map((process, index) => (
-                <div key={index} className="flex justify-between">
-                  <span className="text-gray-400 truncate">{process.name}</span>
-                  <span>{process.cpu}%</span>
+              {resources.processList.map(process => (
+                <div key={process.pid} className="flex justify-between space-x-2">
+                  <span className="text-gray-500 w-10">{process.pid}</span>
+                  <span className="text-gray-400 truncate flex-1">{process.command}</span>
+                  <span className={STATE_COLORS[process.state]}>{process.state}</span>
                 </div>
               ))}
             </div>
@@ -0,0 +1,47 @@
+// Splits text carrying ANSI SGR sequences (ESC [ ... m) into runs that share
+// a color and weight. Other escape sequences are dropped.
+
+export interface AnsiSegment {
+  text: string;
+  color?: string;
+  bold: boolean;
+}
+
+// Normal colors 30-37 followed by bright ones 90-97, in the terminal's palette
+const COLORS = [
+  "#4d4d4d", "var(--terminal-red)", "var(--terminal-green)", "var(--terminal-yellow)",
+  "var(--terminal-blue)", "#d670d6", "#29b8db", "#e5e5e5",
+  "#808080", "#f14c4c", "#23d18b", "#f5f543", "#3b8eea", "#d670d6", "#29b8db", "#ffffff",
+];
+
+export function parseAnsi(text: string): AnsiSegment[] {
+  const segments: AnsiSegment[] = [];
+  let color: string | undefined;
+  let bold = false;
+
+  const parts = text.split(/\x1b\[([0-9;]*)([A-Za-z])/);
+  for (let i = 0; i < parts.length; i += 3) {
+    const chunk = parts[i].replace(/\x1b/g, "");
+    if (chunk) segments.push({ text: chunk, color, bold });
+
+    if (parts[i + 2] !== "m") continue;
+    const codes = parts[i + 1] === "" ? [0] : parts[i + 1].split(";").map(Number);
+    codes.forEach(code => {
+      if (code === 0) {
+        color = undefined;
+        bold = false;
+      } else if (code === 1) {
+        bold = true;
+      } else if (code === 22) {
+        bold = false;
+      } else if (code === 39) {
+        color = undefined;
+      } else if (code >= 30 && code <= 37) {
+        color = COLORS[code - 30];
+      } else if (code >= 90 && code <= 97) {
+        color = COLORS[code - 90 + 8];
+      }
+    });
+  }
+  return segments;
+}
@@ -3,12 +3,23 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Terminal as TerminalIcon, FolderOpen, Activity, Settings } from "lucide-react";
 import FileManager from "@/components/FileManager";
 import ResourceMonitor from "@/components/ResourceMonitor";
-import type { WebSocketMessage, CommandResult, SystemResources, FileManagerItem } from "@shared/schema";
+import Pager from "@/components/Pager";
+import { parseAnsi } from "@/lib/ansi";
+import type { WebSocketMessage, CommandResult, CompletionResult, SystemResources, FileManagerItem } from "@shared/schema";
+
+const SESSION_STORAGE_KEY = "webtermux.sessionId";
+
+// A path as one shell word, so spaces, quotes, $ and glob characters in it
+// reach the command unchanged
+function shellQuote(text: string): string {
+  return `'${text.replace(/'/g, "'\\''")}'`;
+}
 
 interface CommandEntry {
   command: string;
   result?: CommandResult;
   timestamp: Date;
+  prompt?: string;
 }
 
 export default function Terminal() {
@@ -24,9 +35,30 @@ export default function Terminal() {
   const [currentTime, setCurrentTime] = useState(new Date());
   const [activeTab, setActiveTab] = useState("terminal");
   const [systemResources, setSystemResources] = useState<SystemResources | null>(null);
+  // The prompt the server expanded from PS1; until it arrives the default look is used
+  const [prompt, setPrompt] = useState<string | undefined>(undefined);
+  // Lines typed so far of a command the server found incomplete, e.g. an
+  // open here-document, and the PS2 prompt to show; null when the prompt
+  // starts a new command
+  const [continuation, setContinuation] = useState<{ command: string; prompt: string } | null>(null);
+  // Ctrl-R reverse search: what has been typed, the history entry it found
+  // (shown in the input), whether the last search failed, and the input to
+  // restore if the search is abandoned
+  const [search, setSearch] = useState<{ query: string; index: number; failed: boolean; original: string } | null>(null);
+  // Output from man or less, shown full screen until the user quits
+  const [pager, setPager] = useState<{ title: string; content: string } | null>(null);
 
   const outputRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  // The command last sent, for the socket handler to pick up if it needs more lines
+  const pendingCommandRef = useRef("");
+  // Completions come back through the socket handler, which is set up once,
+  // so it hands them to whatever this points at in the latest render
+  const completionRef = useRef<(result: CompletionResult) => void>(() => {});
+  // A second Tab in a row lists the candidates when there is nothing more
+  // to fill in
+  const lastKeyWasTabRef = useRef(false);
+  const listCandidatesRef = useRef(false);
 
   // Update time every second
   useEffect(() => {
@@ -36,20 +68,49 @@ export default function Terminal() {
     return () => clearInterval(interval);
   }, []);
 
-  // WebSocket connection
+  // WebSocket connection with automatic reconnect. The session id is kept in
+  // localStorage so a dropped connection resumes the same shell.
   useEffect(() => {
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsUrl = `${protocol}//${window.location.host}/ws`;
-    
-    try {
-      const socket = new WebSocket(wsUrl);
-      
-      socket.onopen = () => {
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectAttempts = 0;
+    let disposed = false;
+
+    const scheduleReconnect = () => {
+      if (disposed || reconnectTimer) return;
+      const delay = Math.min(1000 * 2 ** reconnectAttempts, 30000);
+      reconnectAttempts++;
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = undefined;
+        connect();
+      }, delay);
+    };
+
+    const connect = () => {
+      try {
+        socket = new WebSocket(wsUrl);
+      } catch (error) {
+        console.error('Error creating WebSocket:', error);
+        scheduleReconnect();
+        return;
+      }
+      const current = socket;
+
+      current.onopen = () => {
+        reconnectAttempts = 0;
         setConnected(true);
-        setWs(socket);
+        setWs(current);
+
+        const message: WebSocketMessage = {
+          type: 'connect',
+          sessionId: localStorage.getItem(SESSION_STORAGE_KEY) || undefined
+        };
+        current.send(JSON.stringify(message));
       };
 
-      socket.onmessage = (event) => {
+      current.onmessage = (event) => {
         try {
           const message: WebSocketMessage = JSON.parse(event.data);
           
@@ -57,12 +118,30 @@ export default function Terminal() {
             case 'connect':
               if (message.sessionId) {
                 setSessionId(message.sessionId);
+                localStorage.setItem(SESSION_STORAGE_KEY, message.sessionId);
+              }
+              if (message.session) {
+                setCurrentDirectory(message.session.currentDirectory);
+                setPrompt(message.session.prompt);
+                setCommandHistory(message.session.commandHistory);
+                setCommandEntries(message.session.scrollback.map(entry => ({
+                  command: entry.command,
+                  result: entry.result,
+                  timestamp: new Date(entry.timestamp),
+                  prompt: entry.prompt
+                })));
               }
               break;
               
             case 'result':
-              if (message.result) {
+              if (message.result?.incomplete) {
+                setContinuation({ command: pendingCommandRef.current, prompt: message.result.prompt ?? "> " });
+              } else if (message.result) {
                 setCurrentDirectory(message.result.currentDirectory);
+                setPrompt(message.result.prompt);
+                if (message.result.pager !== undefined) {
+                  setPager({ title: message.result.pager, content: message.result.output });
+                }
                 setCommandEntries(prev => {
                   const newEntries = [...prev];
                   const lastEntry = newEntries[newEntries.length - 1];
@@ -74,6 +153,19 @@ export default function Terminal() {
               }
               break;
               
+            case 'history':
+              if (message.history) {
+                setCommandHistory(message.history);
+                setHistoryIndex(-1);
+              }
+              break;
+
+            case 'complete':
+              if (message.completions) {
+                completionRef.current(message.completions);
+              }
+              break;
+
             case 'resources':
               if (message.resources) {
                 setSystemResources(message.resources);
@@ -89,22 +181,25 @@ export default function Terminal() {
         }
       };
 
-      socket.onclose = () => {
+      current.onclose = () => {
         setConnected(false);
         setWs(null);
+        scheduleReconnect();
       };
 
-      socket.onerror = (error) => {
+      current.onerror = (error) => {
         console.error('WebSocket error:', error);
         setConnected(false);
       };
+    };
 
-      return () => {
-        socket.close();
-      };
-    } catch (error) {
-      console.error('Error creating WebSocket:', error);
-    }
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
   }, []);
 
   // Auto-scroll to bottom with improved behavior
@@ -137,20 +232,24 @@ export default function Terminal() {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!currentInput.trim() || !ws || !connected) return;
+    if (!ws || !connected) return;
+    // Blank lines only matter inside a command being continued
+    if (continuation === null && !currentInput.trim()) return;
 
-    const command = currentInput.trim();
-    
-    // Add to history
-    setCommandHistory(prev => [...prev, command]);
+    const command = continuation === null ? currentInput.trim() : `${continuation.command}\n${currentInput}`;
+    pendingCommandRef.current = command;
     setHistoryIndex(-1);
-    
-    // Add command entry
-    const entry: CommandEntry = {
-      command,
-      timestamp: new Date()
-    };
-    setCommandEntries(prev => [...prev, entry]);
+    setSearch(null);
+
+    // A continued command replaces its earlier lines in history and output
+    if (continuation === null) {
+      setCommandHistory(prev => [...prev, command]);
+      setCommandEntries(prev => [...prev, { command, timestamp: new Date(), prompt }]);
+    } else {
+      setCommandHistory(prev => [...prev.slice(0, -1), command]);
+      setCommandEntries(prev => [...prev.slice(0, -1), { ...prev[prev.length - 1], command }]);
+      setContinuation(null);
+    }
     
     // Send command via WebSocket
     const message: WebSocketMessage = {
@@ -162,8 +261,127 @@ export default function Terminal() {
     setCurrentInput("");
   };
 
+  // Looks back through the history from entry start for one containing
+  // query, showing it in the input as bash does
+  const searchHistory = (query: string, start: number, original: string) => {
+    for (let index = Math.min(start, commandHistory.length - 1); index >= 0; index--) {
+      if (commandHistory[index].includes(query)) {
+        setSearch({ query, index, failed: false, original });
+        setCurrentInput(commandHistory[index]);
+        return;
+      }
+    }
+    setSearch(prev => ({ query, index: prev?.index ?? commandHistory.length, failed: true, original }));
+  };
+
+  const handleSearchKey = (e: React.KeyboardEvent) => {
+    if (!search || ["Shift", "Control", "Alt", "Meta"].includes(e.key)) return false;
+
+    if (e.ctrlKey && e.key === "r") {
+      e.preventDefault();
+      searchHistory(search.query, search.failed ? search.index : search.index - 1, search.original);
+    } else if ((e.ctrlKey && e.key === "g") || e.key === "Escape") {
+      e.preventDefault();
+      setCurrentInput(search.original);
+      setSearch(null);
+    } else if (e.ctrlKey && e.key === "c") {
+      e.preventDefault();
+      setCurrentInput("");
+      setSearch(null);
+    } else if (e.key === "Backspace") {
+      e.preventDefault();
+      searchHistory(search.query.slice(0, -1), commandHistory.length - 1, search.original);
+    } else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      e.preventDefault();
+      searchHistory(search.query + e.key, search.index, search.original);
+    } else {
+      // Enter runs the entry found; any other key leaves it in the input to edit
+      setSearch(null);
+      return e.key === "Enter";
+    }
+    return true;
+  };
+
+  // Replaces the word that was completed, or fills in as much as all the
+  // candidates share; a single candidate gets a space after it unless it is
+  // a directory to carry on into
+  const applyCompletion = (result: CompletionResult) => {
+    if (result.line !== currentInput || result.candidates.length === 0) return;
+    const { candidates } = result;
+    const word = result.line.substring(result.start, result.end);
+    const replace = (text: string) => {
+      const position = result.start + text.length;
+      setCurrentInput(result.line.substring(0, result.start) + text + result.line.substring(result.end));
+      requestAnimationFrame(() => inputRef.current?.setSelectionRange(position, position));
+    };
+
+    if (candidates.length === 1) {
+      replace(candidates[0].endsWith("/") ? candidates[0] : candidates[0] + " ");
+      return;
+    }
+    let common = candidates[0];
+    candidates.forEach(candidate => {
+      while (!candidate.startsWith(common)) common = common.slice(0, -1);
+    });
+    if (common.length > word.length) {
+      replace(common);
+    } else if (listCandidatesRef.current) {
+      // Listed under the line as typed, by name only, in columns
+      const names = candidates.map(candidate => candidate.replace(/^.*\/(?=.)/, "").replace(/\\(.)/g, "$1"));
+      const width = Math.max(...names.map(name => name.length)) + 2;
+      const output = names.map(name => name.padEnd(width)).join("").trimEnd();
+      setCommandEntries(prev => [...prev, {
+        command: currentInput,
+        result: { output, currentDirectory, success: true },
+        timestamp: new Date(),
+        prompt
+      }]);
+    }
+  };
+  completionRef.current = applyCompletion;
+
+  // The last command was sent and its result has not come back yet
+  const commandRunning = commandEntries.length > 0 && !commandEntries[commandEntries.length - 1].result && continuation === null;
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'ArrowUp') {
+    if (handleSearchKey(e)) return;
+
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      listCandidatesRef.current = lastKeyWasTabRef.current;
+      lastKeyWasTabRef.current = true;
+      if (ws && connected) {
+        const message: WebSocketMessage = {
+          type: 'complete',
+          completion: { line: currentInput, cursor: inputRef.current?.selectionStart ?? currentInput.length }
+        };
+        ws.send(JSON.stringify(message));
+      }
+      return;
+    }
+    lastKeyWasTabRef.current = false;
+
+    // Ctrl-R starts a reverse search through the history
+    if (e.ctrlKey && e.key === 'r') {
+      e.preventDefault();
+      setSearch({ query: "", index: commandHistory.length, failed: false, original: currentInput });
+      return;
+    }
+
+    // Ctrl-C abandons a command that is still being continued
+    if (e.ctrlKey && e.key === 'c' && continuation !== null) {
+      e.preventDefault();
+      setCommandEntries(prev => prev.slice(0, -1));
+      setContinuation(null);
+      setCurrentInput("");
+    } else if (e.ctrlKey && e.key === 'c' && commandRunning) {
+      // ...and interrupts one that is still running, as a sleep or fg would be
+      e.preventDefault();
+      if (ws && connected) {
+        const message: WebSocketMessage = { type: 'interrupt' };
+        ws.send(JSON.stringify(message));
+      }
+    } else if (e.key === 'ArrowUp') {
       e.preventDefault();
       if (commandHistory.length > 0) {
         const newIndex = historyIndex === -1 ? commandHistory.length - 1 : Math.max(0, historyIndex - 1);
@@ -203,7 +421,7 @@ export default function Terminal() {
     if (ws && connected) {
       const message: WebSocketMessage = {
         type: 'command',
-        command: `cd ${path}`
+        command: `cd ${shellQuote(path)}`
       };
       ws.send(JSON.stringify(message));
     }
@@ -214,21 +432,35 @@ export default function Terminal() {
     if (ws && connected) {
       const message: WebSocketMessage = {
         type: 'command',
-        command: `cat ${file.path}`
+        command: `cat ${shellQuote(file.path)}`
       };
       ws.send(JSON.stringify(message));
     }
     setActiveTab('terminal'); // Switch to terminal to see output
   };
 
-  const renderPrompt = () => (
-    <span className="flex">
-      <span className="text-terminal-yellow">user@webtermux</span>
-      <span className="text-terminal-gray">:</span>
-      <span className="text-terminal-blue">{currentDirectory === "/home/user" ? "~" : currentDirectory}</span>
-      <span className="text-terminal-gray">$ </span>
-    </span>
-  );
+  const renderPrompt = (text = prompt) => {
+    if (text === undefined) {
+      return (
+        <span className="flex">
+          <span className="text-terminal-yellow">user@webtermux</span>
+          <span className="text-terminal-gray">:</span>
+          <span className="text-terminal-blue">{currentDirectory === "/home/user" ? "~" : currentDirectory}</span>
+          <span className="text-terminal-gray">$ </span>
+        </span>
+      );
+    }
+
+    return (
+      <span className="text-terminal-gray whitespace-pre-wrap">
+        {parseAnsi(text).map((segment, index) => (
+          <span key={index} style={{ color: segment.color, fontWeight: segment.bold ? "bold" : undefined }}>
+            {segment.text}
+          </span>
+        ))}
+      </span>
+    );
+  };
 
   const renderOutput = (output: string, isError = false) => {
     if (output === "\x1b[2J\x1b[H") {
@@ -239,7 +471,11 @@ export default function Terminal() {
     
     return (
       <div className={`pl-4 ${isError ? 'text-terminal-red' : 'text-terminal-gray'} whitespace-pre-wrap`}>
-        {output}
+        {parseAnsi(output).map((segment, index) => (
+          <span key={index} style={{ color: segment.color, fontWeight: segment.bold ? "bold" : undefined }}>
+            {segment.text}
+          </span>
+        ))}
       </div>
     );
   };
@@ -302,7 +538,18 @@ export default function Terminal() {
 
           {/* Terminal Tab */}
           <TabsContent value="terminal" className="flex-1 flex flex-col m-0 overflow-hidden">
-            <div className="flex-1 flex flex-col">
+            <div className="relative flex-1 flex flex-col">
+              {pager && (
+                <Pager
+                  title={pager.title}
+                  content={pager.content}
+                  onClose={() => {
+                    setPager(null);
+                    inputRef.current?.focus();
+                  }}
+                />
+              )}
+
               {/* Output Area */}
               <div
                 ref={outputRef}
@@ -334,11 +581,17 @@ export default function Terminal() {
                 {commandEntries.map((entry, index) => (
                   <div key={index} className="mt-2">
                     <div className="flex">
-                      {renderPrompt()}
-                      <span className="text-terminal-green">{entry.command}</span>
+                      {renderPrompt(entry.prompt)}
+                      <span className="text-terminal-green whitespace-pre-wrap">{entry.command}</span>
+                      {entry.result?.exitCode ? (
+                        <span className="ml-auto pl-4 text-terminal-red">[{entry.result.exitCode}]</span>
+                      ) : null}
                     </div>
-                    {entry.result && (
-                      renderOutput(entry.result.output, !entry.result.success)
+                    {entry.result?.stderr && (
+                      renderOutput(entry.result.stderr, true)
+                    )}
+                    {entry.result && entry.result.pager === undefined && (
+                      renderOutput(entry.result.output, !entry.result.success && entry.result.stderr === undefined)
                     )}
                   </div>
                 ))}
@@ -347,7 +600,9 @@ export default function Terminal() {
               {/* Input Area */}
               <div className="border-t border-gray-600 p-4 bg-gray-900">
                 <form onSubmit={handleSubmit} className="flex items-center font-mono">
-                  {renderPrompt()}
+                  {renderPrompt(search
+                    ? `(${search.failed ? "failed " : ""}reverse-i-search)\`${search.query}': `
+                    : continuation === null ? prompt : continuation.prompt)}
                   <input
                     ref={inputRef}
                     type="text"
@@ -368,6 +623,7 @@ export default function Terminal() {
           {/* File Manager Tab */}
           <TabsContent value="files" className="flex-1 m-0 overflow-hidden">
             <FileManager
+              sessionId={sessionId}
               currentDirectory={currentDirectory}
               onDirectoryChange={handleDirectoryChange}
               onFileSelect={handleFileSelect}
@@ -376,7 +632,7 @@ export default function Terminal() {
 
           {/* System Monitor Tab */}
           <TabsContent value="monitor" className="flex-1 m-0 overflow-hidden">
-            <ResourceMonitor ws={ws} connected={connected} />
+            <ResourceMonitor ws={ws} connected={connected} resources={systemResources} />
           </TabsContent>
 
           {/* Settings Tab */}
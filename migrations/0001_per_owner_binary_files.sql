@@ -0,0 +1,35 @@
+ALTER TABLE "file_system" DROP CONSTRAINT "file_system_path_unique";--> statement-breakpoint
+ALTER TABLE "file_system" ALTER COLUMN "content" SET DATA TYPE bytea USING convert_to("content", 'UTF8');--> statement-breakpoint
+ALTER TABLE "file_system" ALTER COLUMN "size" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "file_system" ALTER COLUMN "size" SET DATA TYPE integer USING CASE WHEN "type" = 'directory' THEN 4096 ELSE coalesce(octet_length("content"), 0) END;--> statement-breakpoint
+ALTER TABLE "file_system" ALTER COLUMN "size" SET DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "file_system" ADD COLUMN "owner" text;--> statement-breakpoint
+ALTER TABLE "file_system" ADD COLUMN "parent_path" text;--> statement-breakpoint
+ALTER TABLE "file_system" ADD COLUMN "mime_type" text DEFAULT 'inode/x-empty' NOT NULL;--> statement-breakpoint
+-- Files written before they had owners were shared by every session: give
+-- each owner a session has a copy, then drop the ownerless originals
+INSERT INTO "file_system" ("owner", "path", "name", "type", "content", "permissions", "size", "created_at", "updated_at")
+SELECT "owners"."owner", "file_system"."path", "file_system"."name", "file_system"."type", "file_system"."content",
+	"file_system"."permissions", "file_system"."size", "file_system"."created_at", "file_system"."updated_at"
+FROM "file_system"
+CROSS JOIN (SELECT DISTINCT coalesce("user_id", "id") AS "owner" FROM "terminal_sessions") AS "owners"
+WHERE "file_system"."owner" IS NULL;--> statement-breakpoint
+DELETE FROM "file_system" WHERE "owner" IS NULL;--> statement-breakpoint
+ALTER TABLE "file_system" ALTER COLUMN "owner" SET NOT NULL;--> statement-breakpoint
+UPDATE "file_system" SET
+	"parent_path" = CASE
+		WHEN "path" = '/' THEN NULL
+		WHEN "path" ~ '^/[^/]*$' THEN '/'
+		ELSE regexp_replace("path", '/[^/]*$', '')
+	END,
+	"mime_type" = CASE
+		WHEN "type" = 'directory' THEN 'inode/directory'
+		WHEN "size" = 0 THEN 'inode/x-empty'
+		ELSE 'text/plain'
+	END;--> statement-breakpoint
+ALTER TABLE "terminal_sessions" ADD COLUMN "scrollback" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "terminal_sessions" ADD COLUMN "environment" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "terminal_sessions" ADD COLUMN "aliases" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+CREATE INDEX "file_system_owner_parent_idx" ON "file_system" USING btree ("owner","parent_path");--> statement-breakpoint
+CREATE INDEX "file_system_owner_path_prefix_idx" ON "file_system" USING btree ("owner","path" text_pattern_ops);--> statement-breakpoint
+ALTER TABLE "file_system" ADD CONSTRAINT "file_system_owner_path_unique" UNIQUE("owner","path");
@@ -0,0 +1,63 @@
+// Archive tools, simulated: they report the archive without reading or
+// writing files
+
+import type { CommandResult } from "@shared/schema";
+import type { TerminalProcessor } from "../terminal";
+import type { CommandDefinition } from "./registry";
+
+const category = 'Archive Tools';
+
+export const archiveCommands: CommandDefinition[] = [
+  {
+    name: 'tar',
+    usage: 'tar -c|-x [-f ARCHIVE] [FILE...]',
+    description: 'Archive files',
+    category,
+    flags: [
+      { flag: '-c', description: 'Create an archive' },
+      { flag: '-x', description: 'Extract an archive' },
+      { flag: '-f', description: 'Archive file to use' },
+    ],
+    handler: ({ shell, args }) => executeTar(shell, args),
+  },
+  {
+    name: 'zip',
+    aliases: ['unzip'],
+    usage: 'zip ARCHIVE [FILE...]',
+    description: 'Compress/extract files',
+    category,
+    handler: ({ shell, name, args }) => executeZip(shell, name, args),
+  },
+];
+
+async function executeTar(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  if (args.length === 0) {
+    return { 
+      output: "tar: You must specify one of the '-Acdtrux', '--delete' or '--test-label' options", 
+      error: "Missing options",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  const option = args[0];
+  if (option.includes('c')) {
+    const archiveName = args[args.indexOf('-f') + 1] || 'archive.tar';
+    return { output: `Created archive: ${archiveName}`, currentDirectory: shell.currentDirectory, success: true };
+  } else if (option.includes('x')) {
+    const archiveName = args[args.indexOf('-f') + 1] || 'archive.tar';
+    return { output: `Extracted archive: ${archiveName}`, currentDirectory: shell.currentDirectory, success: true };
+  }
+
+  return { output: "tar: operation completed", currentDirectory: shell.currentDirectory, success: true };
+}
+
+async function executeZip(shell: TerminalProcessor, command: string, args: string[]): Promise<CommandResult> {
+  if (command === 'zip') {
+    const zipName = args[0] || 'archive.zip';
+    return { output: `  adding: files (deflated 50%)\nArchive ${zipName} created successfully.`, currentDirectory: shell.currentDirectory, success: true };
+  } else {
+    const zipName = args[0] || 'archive.zip';
+    return { output: `Archive:  ${zipName}\n  inflating: file1.txt\n  inflating: file2.txt\nExtraction completed.`, currentDirectory: shell.currentDirectory, success: true };
+  }
+}
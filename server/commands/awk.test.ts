@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { newShell, writeFile } from "../testing";
+
+test("awk splits records into fields and runs rules with BEGIN and END", async () => {
+  const shell = await newShell();
+  await writeFile(shell, "sales.txt", "alice north 10\nbob south 5\ncarol north 7\n");
+  const run = async (command: string) => (await shell.executeCommand(command)).output;
+
+  assert.equal(await run("awk '{ print $1, $NF }' sales.txt"), "alice 10\nbob 5\ncarol 7");
+  assert.equal(await run("awk '$2 == \"north\" && $3 > 8' sales.txt"), "alice north 10");
+  assert.equal(await run("awk '/^b/,/^c/ { print NR \": \" $1 }' sales.txt"), "2: bob\n3: carol");
+  assert.equal(await run("awk '{ total[$2] += $3 } END { for (r in total) print r, total[r] }' sales.txt | sort"), "north 17\nsouth 5");
+  assert.equal(await run("awk 'BEGIN { FS = \":\"; OFS = \"-\" } { $1 = $1; print; print NF }' <<< 'a:b:c'"), "a-b-c\n3");
+  assert.equal(await run("printf 'x,1.5\\ny,2\\nz,3\\n' | awk -F, -v limit=2 'NR <= limit { printf \"%-3s|%5.2f\\n\", $1, $2 }' "), "x  | 1.50\ny  | 2.00");
+  assert.equal(await run("awk 'END { print NR }' sales.txt sales.txt"), "6");
+  assert.equal(await run("awk -f prog.awk sales.txt 2>&1 | head -1"), "awk: fatal: can't open source file `prog.awk' for reading: No such file or directory");
+});
+
+test("awk has string functions, control flow and exit", async () => {
+  const shell = await newShell();
+  const run = async (command: string) => (await shell.executeCommand(command)).output;
+
+  assert.equal(await run("awk 'BEGIN { s = \"Hello, World\"; print length(s), toupper(substr(s, 1, 5)), index(s, \"W\") }'"), "12 HELLO 8");
+  assert.equal(await run("awk 'BEGIN { n = split(\"a:b:c\", parts, \":\"); print n, parts[3] }'"), "3 c");
+  assert.equal(await run("echo foo bar foo | awk '{ n = gsub(/foo/, \"baz\"); print n, $0 }'"), "2 baz bar baz");
+  assert.equal(await run("awk 'BEGIN { if (match(\"abc123\", /[0-9]+/)) print RSTART, RLENGTH }'"), "4 3");
+  assert.equal(await run("awk 'BEGIN { x = sprintf(\"%05d\", 42); print x; print 7 % 3, 2 ^ 10, int(-3.7) }'"), "00042\n1 1024 -3");
+  assert.equal(await run("awk 'BEGIN { for (i = 1; i <= 5; i++) { if (i == 2) continue; if (i == 4) break; printf \"%d \", i }; print \"\" }'"), "1 3 ");
+  assert.equal(await run("printf '1\\n2\\n3\\n4\\n5\\n' | awk '$1 == 3 { exit 4 } { print }'; echo $?"), "1\n2\n4");
+
+  const bad = await shell.executeCommand("awk '{ print '");
+  assert.equal(bad.exitCode, 1);
+  assert.match(bad.stderr ?? "", /^awk: /);
+});
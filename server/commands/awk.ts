@@ -0,0 +1,1498 @@
+// awk: a lexer, parser and tree-walking interpreter for the language's
+// common core. Programs run over records split from files or stdin, with
+// BEGIN and END rules, fields, associative arrays and printf.
+
+import { posixToSource, RegexError } from "../shell/regex";
+import { InputStream, resultStreams } from "../shell/io";
+import type { CommandResult } from "@shared/schema";
+import type { TerminalProcessor } from "../terminal";
+import type { CommandDefinition } from "./registry";
+import { readInput, writeOutput, textResult, usageError } from "./text";
+
+const category = 'Text Processing';
+
+export const awkCommands: CommandDefinition[] = [
+  {
+    name: 'awk',
+    aliases: ['gawk', 'mawk'],
+    usage: "awk [-F FS] [-v VAR=VALUE]... ['PROGRAM' | -f FILE] [FILE | VAR=VALUE]...",
+    description: 'Scan records and fields with a pattern-action language',
+    category,
+    flags: [
+      { flag: '-F FS', description: 'Split fields on FS, a single character or a regular expression' },
+      { flag: '-v VAR=VALUE', description: 'Set VAR before the program starts' },
+      { flag: '-f FILE', description: 'Read the program from FILE' },
+    ],
+    handler: ({ shell, name, args, stdin }) => awk(shell, name, args, stdin),
+  },
+];
+
+// The server runs a program start to finish in one go, so loops are capped
+// rather than left to hang it
+const MAX_LOOP_ITERATIONS = 1000000;
+
+class AwkError extends Error {}
+
+// Text from input, which compares as a number when it looks like one
+class StrNum {
+  constructor(readonly text: string) {}
+}
+
+// undefined is the uninitialized value, both "" and 0
+export type AwkValue = number | string | StrNum | undefined;
+
+interface Token {
+  type: 'number' | 'string' | 'regex' | 'name' | 'builtin' | 'keyword' | 'operator' | 'newline' | 'eof';
+  text: string;
+  value?: number | string;
+  line: number;
+  column: number;
+}
+
+const KEYWORDS = ['BEGIN', 'END', 'if', 'else', 'while', 'for', 'do', 'break', 'continue', 'next', 'exit', 'delete', 'in', 'print', 'printf', 'getline', 'function', 'return'];
+
+const BUILTINS = ['length', 'substr', 'index', 'split', 'sub', 'gsub', 'match', 'sprintf', 'tolower', 'toupper', 'int', 'sqrt', 'exp', 'log', 'sin', 'cos', 'atan2', 'rand', 'srand', 'close'];
+
+// Longest first, so that "+=" wins over "+"
+const OPERATORS = ['**=', '+=', '-=', '*=', '/=', '%=', '^=', '**', '==', '<=', '>=', '!=', '++', '--', '&&', '||', '>>', '!~',
+  '{', '}', '(', ')', '[', ']', ';', ',', '+', '-', '*', '/', '%', '^', '!', '>', '<', '|', '?', ':', '~', '$', '='];
+
+const STRING_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', '"': '"', '/': '/', a: '\x07', b: '\b', f: '\f', v: '\v' };
+
+// Escape sequences in strings, and in values given with -v and -F
+function unescapeString(text: string): string {
+  return text.replace(/\\([0-7]{1,3}|.)/g, (match, escaped: string) => {
+    if (/^[0-7]+$/.test(escaped)) return String.fromCharCode(parseInt(escaped, 8));
+    return Object.prototype.hasOwnProperty.call(STRING_ESCAPES, escaped) ? STRING_ESCAPES[escaped] : match;
+  });
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  // A "/" starts a regex unless it follows something that ends an operand
+  const regexAllowed = () => {
+    const last = tokens[tokens.length - 1];
+    if (!last) return true;
+    if (last.type === 'number' || last.type === 'string' || last.type === 'name' || last.type === 'builtin' || last.type === 'regex') return false;
+    return !(last.type === 'operator' && (last.text === ')' || last.text === ']' || last.text === '$' || last.text === '++' || last.text === '--'));
+  };
+
+  while (position < source.length) {
+    const char = source[position];
+    const start = position;
+    const column = position - lineStart;
+    const push = (type: Token['type'], text: string, value?: number | string) => {
+      tokens.push({ type, text, value, line, column });
+    };
+
+    if (char === ' ' || char === '\t' || char === '\r') {
+      position++;
+    } else if (char === '\\' && source[position + 1] === '\n') {
+      position += 2;
+      line++;
+      lineStart = position;
+    } else if (char === '\n') {
+      push('newline', '\n');
+      position++;
+      line++;
+      lineStart = position;
+    } else if (char === '#') {
+      while (position < source.length && source[position] !== '\n') position++;
+    } else if (/[0-9.]/.test(char) && /^(\d+\.?\d*([eE][-+]?\d+)?|\.\d+([eE][-+]?\d+)?)/.test(source.substring(position))) {
+      const text = /^(\d+\.?\d*([eE][-+]?\d+)?|\.\d+([eE][-+]?\d+)?)/.exec(source.substring(position))![0];
+      position += text.length;
+      push('number', text, parseFloat(text));
+    } else if (/[A-Za-z_]/.test(char)) {
+      const text = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.substring(position))![0];
+      position += text.length;
+      push(KEYWORDS.indexOf(text) !== -1 ? 'keyword' : BUILTINS.indexOf(text) !== -1 ? 'builtin' : 'name', text);
+    } else if (char === '"') {
+      position++;
+      let raw = '';
+      while (source[position] !== '"') {
+        if (position >= source.length || source[position] === '\n') throw syntaxError(source, line, column, 'unterminated string');
+        if (source[position] === '\\' && position + 1 < source.length) {
+          if (source[position + 1] === '\n') {
+            position += 2;
+            continue;
+          }
+          raw += source[position++];
+        }
+        raw += source[position++];
+      }
+      position++;
+      push('string', source.substring(start, position), unescapeString(raw));
+    } else if (char === '/' && regexAllowed()) {
+      position++;
+      let pattern = '';
+      let bracket = false;
+      while (bracket || source[position] !== '/') {
+        if (position >= source.length || source[position] === '\n') throw syntaxError(source, line, column, 'unterminated regexp');
+        const next = source[position];
+        if (next === '\\' && source[position + 1] === '/') {
+          pattern += '/';
+          position += 2;
+          continue;
+        }
+        if (next === '\\') {
+          pattern += next + (source[position + 1] ?? '');
+          position += 2;
+          continue;
+        }
+        if (next === '[' && !bracket) {
+          bracket = true;
+          pattern += next;
+          position++;
+          if (source[position] === '^') pattern += source[position++];
+          if (source[position] === ']') pattern += source[position++];
+          continue;
+        }
+        if (next === ']') bracket = false;
+        pattern += next;
+        position++;
+      }
+      position++;
+      push('regex', source.substring(start, position), pattern);
+    } else {
+      const operator = OPERATORS.find(candidate => source.substr(position, candidate.length) === candidate);
+      if (!operator) throw syntaxError(source, line, column, `invalid char '${char}' in expression`);
+      position += operator.length;
+      push('operator', operator === '**' ? '^' : operator === '**=' ? '^=' : operator);
+    }
+  }
+  tokens.push({ type: 'eof', text: '', line, column: position - lineStart });
+  return tokens;
+}
+
+// gawk's report: the source line, then a caret under where things went wrong
+function syntaxError(source: string, line: number, column: number, message: string): AwkError {
+  const text = source.split('\n')[line - 1] ?? '';
+  const prefix = `awk: cmd. line:${line}: `;
+  return new AwkError(`${prefix}${text}\n${prefix}${' '.repeat(column)}^ ${message}`);
+}
+
+type Expression =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'regex'; regex: RegExp }
+  | { type: 'variable'; name: string }
+  | { type: 'field'; index: Expression }
+  | { type: 'element'; name: string; subscripts: Expression[] }
+  | { type: 'assign'; operator: string; target: Expression; value: Expression }
+  | { type: 'conditional'; test: Expression; then: Expression; otherwise: Expression }
+  | { type: 'binary'; operator: string; left: Expression; right: Expression }
+  | { type: 'unary'; operator: string; operand: Expression }
+  | { type: 'increment'; operator: string; prefix: boolean; target: Expression }
+  | { type: 'in'; subscripts: Expression[]; name: string }
+  | { type: 'call'; name: string; args: Expression[] }
+  // (a, b), which only "in" and print take
+  | { type: 'group'; items: Expression[] };
+
+interface Redirect {
+  operator: string;
+  target: Expression;
+}
+
+type Statement =
+  | { type: 'print' | 'printf'; args: Expression[]; redirect?: Redirect }
+  | { type: 'expression'; expression: Expression }
+  | { type: 'if'; test: Expression; then: Statement; otherwise?: Statement }
+  | { type: 'while'; test: Expression; body: Statement }
+  | { type: 'do'; body: Statement; test: Expression }
+  | { type: 'for'; init?: Expression; test?: Expression; step?: Expression; body: Statement }
+  | { type: 'forIn'; variable: string; array: string; body: Statement }
+  | { type: 'block'; body: Statement[] }
+  | { type: 'delete'; name: string; subscripts?: Expression[] }
+  | { type: 'exit'; status?: Expression }
+  | { type: 'next' | 'break' | 'continue' };
+
+interface Rule {
+  kind: 'BEGIN' | 'END' | 'main';
+  pattern?: Expression;
+  // The end of a "start, end" range pattern
+  rangeEnd?: Expression;
+  inRange: boolean;
+  // Without one, a rule prints the records it matches
+  action?: Statement[];
+}
+
+function compileRegex(pattern: string): RegExp {
+  return new RegExp(posixToSource(pattern, true), 'gs');
+}
+
+// Text around each non-empty match of a global regex
+function splitOn(text: string, regex: RegExp): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  regex.lastIndex = 0;
+  for (let match = regex.exec(text); match; match = regex.exec(text)) {
+    if (match[0] === '') {
+      regex.lastIndex++;
+      continue;
+    }
+    parts.push(text.substring(start, match.index));
+    start = match.index + match[0].length;
+  }
+  parts.push(text.substring(start));
+  return parts;
+}
+
+function isLvalue(expression: Expression): boolean {
+  return expression.type === 'variable' || expression.type === 'field' || expression.type === 'element';
+}
+
+class AwkParser {
+  private position = 0;
+  // Inside an unparenthesized print list, where ">" redirects
+  private inPrint = false;
+
+  constructor(private readonly source: string, private readonly tokens: Token[]) {}
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  private is(text: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return (token.type === 'operator' || token.type === 'keyword') && token.text === text;
+  }
+
+  private error(token = this.peek()): AwkError {
+    const message = token.type === 'eof' || token.type === 'newline' ? 'unexpected newline or end of string' : 'syntax error';
+    return syntaxError(this.source, token.line, token.column, message);
+  }
+
+  private expect(text: string): Token {
+    if (!this.is(text)) throw this.error();
+    return this.tokens[this.position++];
+  }
+
+  private skipNewlines() {
+    while (this.peek().type === 'newline') this.position++;
+  }
+
+  private skipTerminators() {
+    while (this.peek().type === 'newline' || this.is(';')) this.position++;
+  }
+
+  parseProgram(): Rule[] {
+    const rules: Rule[] = [];
+    this.skipTerminators();
+    while (this.peek().type !== 'eof') {
+      if (this.is('function')) throw new AwkError('awk: function definitions are not supported');
+      if (this.is('BEGIN') || this.is('END')) {
+        const kind = this.tokens[this.position++].text as 'BEGIN' | 'END';
+        if (!this.is('{')) throw this.error();
+        rules.push({ kind, inRange: false, action: this.parseBlock() });
+      } else if (this.is('{')) {
+        rules.push({ kind: 'main', inRange: false, action: this.parseBlock() });
+      } else {
+        const rule: Rule = { kind: 'main', inRange: false, pattern: this.parseExpression() };
+        if (this.is(',')) {
+          this.position++;
+          this.skipNewlines();
+          rule.rangeEnd = this.parseExpression();
+        }
+        if (this.is('{')) rule.action = this.parseBlock();
+        rules.push(rule);
+      }
+      // Rules are separated by newlines or ";", except after an action
+      const ended = this.tokens[this.position - 1].text === '}';
+      if (!ended && this.peek().type !== 'eof' && this.peek().type !== 'newline' && !this.is(';')) throw this.error();
+      this.skipTerminators();
+    }
+    return rules;
+  }
+
+  private parseBlock(): Statement[] {
+    this.expect('{');
+    const body: Statement[] = [];
+    for (;;) {
+      this.skipTerminators();
+      if (this.is('}')) break;
+      if (this.peek().type === 'eof') throw this.error();
+      body.push(this.parseStatement());
+    }
+    this.position++;
+    return body;
+  }
+
+  // A statement that ends at ";", a newline, or a "}" it leaves alone
+  private endSimple() {
+    if (this.is(';') || this.peek().type === 'newline') {
+      this.position++;
+    } else if (!this.is('}') && this.peek().type !== 'eof') {
+      throw this.error();
+    }
+  }
+
+  // The body of if, while and for, which can start on the next line
+  private parseBody(): Statement {
+    this.skipNewlines();
+    if (this.is(';')) {
+      this.position++;
+      return { type: 'block', body: [] };
+    }
+    return this.parseStatement();
+  }
+
+  private parseCondition(): Expression {
+    this.expect('(');
+    const test = this.parseExpression();
+    this.expect(')');
+    return test;
+  }
+
+  private parseStatement(): Statement {
+    const token = this.peek();
+    if (this.is('{')) return { type: 'block', body: this.parseBlock() };
+
+    if (this.is('if')) {
+      this.position++;
+      const test = this.parseCondition();
+      const then = this.parseBody();
+      // else may follow on a later line, or after the ";" ending the body
+      const saved = this.position;
+      this.skipTerminators();
+      if (this.is('else')) {
+        this.position++;
+        return { type: 'if', test, then, otherwise: this.parseBody() };
+      }
+      this.position = saved;
+      return { type: 'if', test, then };
+    }
+    if (this.is('while')) {
+      this.position++;
+      const test = this.parseCondition();
+      return { type: 'while', test, body: this.parseBody() };
+    }
+    if (this.is('do')) {
+      this.position++;
+      const body = this.parseBody();
+      this.skipTerminators();
+      this.expect('while');
+      const test = this.parseCondition();
+      this.endSimple();
+      return { type: 'do', body, test };
+    }
+    if (this.is('for')) {
+      this.position++;
+      this.expect('(');
+      if (this.peek().type === 'name' && this.is('in', 1) && this.peek(2).type === 'name' && this.is(')', 3)) {
+        const variable = this.peek().text;
+        const array = this.peek(2).text;
+        this.position += 4;
+        return { type: 'forIn', variable, array, body: this.parseBody() };
+      }
+      const init = this.is(';') ? undefined : this.parseExpression();
+      this.expect(';');
+      this.skipNewlines();
+      const test = this.is(';') ? undefined : this.parseExpression();
+      this.expect(';');
+      this.skipNewlines();
+      const step = this.is(')') ? undefined : this.parseExpression();
+      this.expect(')');
+      return { type: 'for', init, test, step, body: this.parseBody() };
+    }
+
+    let statement: Statement;
+    if (this.is('print') || this.is('printf')) {
+      statement = this.parsePrint();
+    } else if (this.is('next') || this.is('break') || this.is('continue')) {
+      this.position++;
+      statement = { type: token.text as 'next' | 'break' | 'continue' };
+    } else if (this.is('exit')) {
+      this.position++;
+      const ends = this.is(';') || this.is('}') || this.peek().type === 'newline' || this.peek().type === 'eof';
+      statement = { type: 'exit', status: ends ? undefined : this.parseExpression() };
+    } else if (this.is('delete')) {
+      this.position++;
+      const name = this.peek();
+      if (name.type !== 'name') throw this.error();
+      this.position++;
+      statement = { type: 'delete', name: name.text, subscripts: this.is('[') ? this.parseSubscripts() : undefined };
+    } else if (this.is('getline') || this.is('return')) {
+      throw new AwkError(`awk: ${token.text} is not supported`);
+    } else {
+      statement = { type: 'expression', expression: this.parseExpression() };
+    }
+    this.endSimple();
+    return statement;
+  }
+
+  private parsePrint(): Statement {
+    const type = this.tokens[this.position++].text as 'print' | 'printf';
+    let args: Expression[] = [];
+    const ends = () => this.is(';') || this.is('}') || this.is('>') || this.is('>>') || this.is('|')
+      || this.peek().type === 'newline' || this.peek().type === 'eof';
+    if (!ends()) {
+      this.inPrint = true;
+      try {
+        args = this.parseExpressionList();
+      } finally {
+        this.inPrint = false;
+      }
+      // print (a, b) is the list a, b
+      if (args.length === 1 && args[0].type === 'group') args = args[0].items;
+    }
+    if (type === 'printf' && args.length === 0) throw this.error();
+    let redirect: Redirect | undefined;
+    if (this.is('>') || this.is('>>') || this.is('|')) {
+      const operator = this.tokens[this.position++].text;
+      redirect = { operator, target: this.parseConcatenation() };
+    }
+    return { type, args, redirect };
+  }
+
+  private parseExpressionList(): Expression[] {
+    const items = [this.parseExpression()];
+    while (this.is(',')) {
+      this.position++;
+      this.skipNewlines();
+      items.push(this.parseExpression());
+    }
+    return items;
+  }
+
+  private parseSubscripts(): Expression[] {
+    this.expect('[');
+    const saved = this.inPrint;
+    this.inPrint = false;
+    const subscripts = this.parseExpressionList();
+    this.inPrint = saved;
+    this.expect(']');
+    return subscripts;
+  }
+
+  parseExpression(): Expression {
+    const left = this.parseConditional();
+    const token = this.peek();
+    if (token.type === 'operator' && /^[-+*\/%^]?=$/.test(token.text) && isLvalue(left)) {
+      this.position++;
+      this.skipNewlines();
+      return { type: 'assign', operator: token.text, target: left, value: this.parseExpression() };
+    }
+    return left;
+  }
+
+  private parseConditional(): Expression {
+    const test = this.parseOr();
+    if (!this.is('?')) return test;
+    this.position++;
+    this.skipNewlines();
+    const then = this.parseExpression();
+    this.skipNewlines();
+    this.expect(':');
+    this.skipNewlines();
+    return { type: 'conditional', test, then, otherwise: this.parseExpression() };
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.is('||')) {
+      this.position++;
+      this.skipNewlines();
+      left = { type: 'binary', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseIn();
+    while (this.is('&&')) {
+      this.position++;
+      this.skipNewlines();
+      left = { type: 'binary', operator: '&&', left, right: this.parseIn() };
+    }
+    return left;
+  }
+
+  private parseIn(): Expression {
+    let left = this.parseMatch();
+    while (this.is('in')) {
+      this.position++;
+      const name = this.peek();
+      if (name.type !== 'name') throw this.error();
+      this.position++;
+      left = { type: 'in', subscripts: left.type === 'group' ? left.items : [left], name: name.text };
+    }
+    return left;
+  }
+
+  private parseMatch(): Expression {
+    let left = this.parseComparison();
+    while (this.is('~') || this.is('!~')) {
+      const operator = this.tokens[this.position++].text;
+      left = { type: 'binary', operator, left, right: this.parseComparison() };
+    }
+    return left;
+  }
+
+  private parseComparison(): Expression {
+    const left = this.parseConcatenation();
+    const token = this.peek();
+    if (token.type === 'operator' && ['<', '<=', '==', '!=', '>=', '>'].indexOf(token.text) !== -1 && !(this.inPrint && token.text === '>')) {
+      this.position++;
+      return { type: 'binary', operator: token.text, left, right: this.parseConcatenation() };
+    }
+    return left;
+  }
+
+  // Whether the next token can begin an operand, making two side by side a
+  // concatenation
+  private startsOperand(): boolean {
+    const token = this.peek();
+    if (token.type === 'number' || token.type === 'string' || token.type === 'regex' || token.type === 'name' || token.type === 'builtin') return true;
+    return token.type === 'operator' && ['$', '(', '!', '++', '--'].indexOf(token.text) !== -1 && !(token.text === '!' && this.is('~', 1));
+  }
+
+  private parseConcatenation(): Expression {
+    let left = this.parseAdditive();
+    while (this.startsOperand() && !this.is('in')) {
+      left = { type: 'binary', operator: 'concat', left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseMultiplicative();
+    while (this.is('+') || this.is('-')) {
+      const operator = this.tokens[this.position++].text;
+      left = { type: 'binary', operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expression {
+    let left = this.parseUnary();
+    while (this.is('*') || this.is('/') || this.is('%')) {
+      const operator = this.tokens[this.position++].text;
+      left = { type: 'binary', operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    if (this.is('!') || this.is('-') || this.is('+')) {
+      const operator = this.tokens[this.position++].text;
+      return { type: 'unary', operator, operand: this.parseUnary() };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): Expression {
+    const base = this.parseIncrement();
+    if (this.is('^')) {
+      this.position++;
+      // Right associative, and the exponent may be negated
+      return { type: 'binary', operator: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parseIncrement(): Expression {
+    if (this.is('++') || this.is('--')) {
+      const operator = this.tokens[this.position++].text;
+      const target = this.parseIncrement();
+      if (!isLvalue(target)) throw this.error();
+      return { type: 'increment', operator, prefix: true, target };
+    }
+    const operand = this.parsePrimary();
+    if ((this.is('++') || this.is('--')) && isLvalue(operand)) {
+      const operator = this.tokens[this.position++].text;
+      return { type: 'increment', operator, prefix: false, target: operand };
+    }
+    return operand;
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+    switch (token.type) {
+      case 'number':
+        this.position++;
+        return { type: 'number', value: token.value as number };
+      case 'string':
+        this.position++;
+        return { type: 'string', value: token.value as string };
+      case 'regex':
+        this.position++;
+        try {
+          return { type: 'regex', regex: compileRegex(token.value as string) };
+        } catch (error) {
+          if (error instanceof RegexError || error instanceof SyntaxError) {
+            throw syntaxError(this.source, token.line, token.column, error.message.replace(/^Invalid regular expression: /, ''));
+          }
+          throw error;
+        }
+      case 'name':
+        this.position++;
+        if (this.is('[')) return { type: 'element', name: token.text, subscripts: this.parseSubscripts() };
+        if (this.is('(') && this.peek().column === token.column + token.text.length) {
+          throw new AwkError(`awk: function \`${token.text}' not defined`);
+        }
+        return { type: 'variable', name: token.text };
+      case 'builtin': {
+        this.position++;
+        if (!this.is('(')) {
+          if (token.text !== 'length') throw this.error();
+          return { type: 'call', name: token.text, args: [] };
+        }
+        this.position++;
+        const saved = this.inPrint;
+        this.inPrint = false;
+        const args = this.is(')') ? [] : this.parseExpressionList();
+        this.inPrint = saved;
+        this.expect(')');
+        return { type: 'call', name: token.text, args };
+      }
+    }
+
+    if (this.is('$')) {
+      this.position++;
+      // $ binds tighter than everything but grouping and increments
+      const index = this.is('++') || this.is('--') || this.is('-') ? this.parseUnary() : this.parsePrimary();
+      return { type: 'field', index };
+    }
+    if (this.is('(')) {
+      this.position++;
+      const saved = this.inPrint;
+      this.inPrint = false;
+      const items = this.parseExpressionList();
+      this.inPrint = saved;
+      this.expect(')');
+      return items.length === 1 ? items[0] : { type: 'group', items };
+    }
+    throw this.error(token);
+  }
+}
+
+const NUMERIC = /^\s*[-+]?(\d+\.?\d*([eE][-+]?\d+)?|\.\d+([eE][-+]?\d+)?)\s*$/;
+const NUMERIC_PREFIX = /^\s*[-+]?(\d+\.?\d*([eE][-+]?\d+)?|\.\d+([eE][-+]?\d+)?)/;
+
+function toNumber(value: AwkValue): number {
+  if (typeof value === 'number') return value;
+  if (value === undefined) return 0;
+  const prefix = NUMERIC_PREFIX.exec(typeof value === 'string' ? value : value.text);
+  return prefix ? parseFloat(prefix[0]) : 0;
+}
+
+// Whether a value takes part in comparisons as a number
+function isNumeric(value: AwkValue): boolean {
+  return typeof value === 'number' || value === undefined || (value instanceof StrNum && NUMERIC.test(value.text));
+}
+
+function isTrue(value: AwkValue): boolean {
+  if (typeof value === 'number') return value !== 0;
+  if (value === undefined) return false;
+  if (typeof value === 'string') return value !== '';
+  return NUMERIC.test(value.text) ? toNumber(value) !== 0 : value.text !== '';
+}
+
+function formatSpecial(value: number): string | undefined {
+  if (isNaN(value)) return 'nan';
+  if (!isFinite(value)) return value < 0 ? '-inf' : 'inf';
+  return undefined;
+}
+
+function trimZeros(text: string): string {
+  return text.indexOf('.') === -1 ? text : text.replace(/0+$/, '').replace(/\.$/, '');
+}
+
+// C's %e, %f and %g for a non-negative number
+function formatFloat(value: number, conversion: string, precision: number, alternate: boolean): string {
+  const exponential = (digits: number) => value.toExponential(digits).replace(/e([+-])(\d)$/, 'e$10$2');
+  switch (conversion.toLowerCase()) {
+    case 'f':
+      return value.toFixed(precision);
+    case 'e':
+      return exponential(precision);
+    default: {
+      const significant = precision === 0 ? 1 : precision;
+      const exponent = value === 0 ? 0 : parseInt(value.toExponential(significant - 1).split('e')[1], 10);
+      if (exponent < -4 || exponent >= significant) {
+        const text = exponential(significant - 1);
+        if (alternate) return text;
+        const [mantissa, power] = text.split('e');
+        return `${trimZeros(mantissa)}e${power}`;
+      }
+      const text = value.toFixed(significant - 1 - exponent);
+      return alternate ? text : trimZeros(text);
+    }
+  }
+}
+
+// printf-style formatting for awk's printf and sprintf, and the printf builtin
+export function formatValue(format: string, args: AwkValue[], toText: (value: AwkValue) => string): string {
+  let result = '';
+  let next = 0;
+  const argument = () => args[next++];
+
+  for (let i = 0; i < format.length; i++) {
+    if (format[i] !== '%') {
+      result += format[i];
+      continue;
+    }
+    const spec = /^%([-+ #0]*)(\*|\d+)?(?:\.(\*|\d*))?([cdieEfFgGosuxX%])/.exec(format.substring(i));
+    if (!spec) {
+      result += '%';
+      continue;
+    }
+    i += spec[0].length - 1;
+    const flags = spec[1];
+    const conversion = spec[4];
+    if (conversion === '%') {
+      result += '%';
+      continue;
+    }
+    let width = spec[2] === '*' ? toNumber(argument()) : spec[2] !== undefined ? parseInt(spec[2], 10) : 0;
+    let left = flags.indexOf('-') !== -1;
+    if (width < 0) {
+      left = true;
+      width = -width;
+    }
+    const precision = spec[3] === undefined ? undefined : spec[3] === '*' ? Math.max(0, toNumber(argument())) : parseInt(spec[3] || '0', 10);
+    const value = argument();
+
+    let body: string;
+    let sign = '';
+    let numeric = true;
+    if (conversion === 's') {
+      body = toText(value);
+      if (precision !== undefined) body = body.substring(0, precision);
+      numeric = false;
+    } else if (conversion === 'c') {
+      body = typeof value === 'number' ? String.fromCharCode(value) : toText(value).charAt(0);
+      numeric = false;
+    } else {
+      const number = toNumber(value);
+      const special = formatSpecial(number);
+      if (number < 0 || (special && special[0] === '-')) sign = '-';
+      else if (flags.indexOf('+') !== -1) sign = '+';
+      else if (flags.indexOf(' ') !== -1) sign = ' ';
+      const magnitude = Math.abs(number);
+
+      if (special) {
+        body = special.replace('-', '');
+        numeric = false;
+      } else if ('dioxXu'.indexOf(conversion) !== -1) {
+        const integer = Math.floor(magnitude);
+        if (conversion === 'd' || conversion === 'i') {
+          body = integer.toFixed(0);
+        } else {
+          // Unsigned conversions show negative numbers as they wrap
+          const unsigned = number < 0 ? Math.pow(2, 64) - integer : integer;
+          sign = '';
+          body = unsigned.toString(conversion === 'o' ? 8 : conversion === 'u' ? 10 : 16);
+          if (conversion === 'X') body = body.toUpperCase();
+          if (flags.indexOf('#') !== -1 && unsigned !== 0) body = (conversion === 'o' ? '0' : conversion === 'x' ? '0x' : conversion === 'X' ? '0X' : '') + body;
+        }
+        if (precision !== undefined) {
+          body = precision === 0 && integer === 0 ? '' : body.padStart(precision, '0');
+          numeric = false;
+        }
+      } else {
+        body = formatFloat(magnitude, conversion, precision ?? 6, flags.indexOf('#') !== -1);
+        if (conversion === 'E' || conversion === 'G' || conversion === 'F') body = body.toUpperCase();
+      }
+    }
+
+    const length = sign.length + body.length;
+    if (length >= width) {
+      result += sign + body;
+    } else if (left) {
+      result += sign + body + ' '.repeat(width - length);
+    } else if (numeric && flags.indexOf('0') !== -1) {
+      result += sign + '0'.repeat(width - length) + body;
+    } else {
+      result += ' '.repeat(width - length) + sign + body;
+    }
+  }
+  return result;
+}
+
+// Control flow, thrown up to the statement that handles it
+class NextRecord {}
+class ExitProgram {
+  constructor(readonly status: number) {}
+}
+class BreakLoop {}
+class ContinueLoop {}
+
+class AwkInterpreter {
+  private variables = new Map<string, AwkValue>();
+  private arrays = new Map<string, Map<string, AwkValue>>();
+  private fields: AwkValue[] = [new StrNum('')];
+  private fieldCount = 0;
+  private iterations = 0;
+  private seed = 0;
+  private random = 0;
+  private dynamicRegexes = new Map<string, RegExp>();
+  output = '';
+  errors: string[] = [];
+  // Text for each file print writes to, and each command it pipes to
+  files: Record<string, { append: boolean; content: string }> = {};
+  pipes: Record<string, string> = {};
+
+  constructor(private readonly rules: Rule[], environment: Record<string, string>) {
+    const defaults: Record<string, AwkValue> = {
+      FS: ' ', OFS: ' ', ORS: '\n', RS: '\n', SUBSEP: '\x1c', CONVFMT: '%.6g', OFMT: '%.6g',
+      NR: 0, FNR: 0, FILENAME: '', RSTART: 0, RLENGTH: -1,
+    };
+    Object.keys(defaults).forEach(name => this.variables.set(name, defaults[name]));
+    const environ = new Map<string, AwkValue>();
+    Object.keys(environment).forEach(name => environ.set(name, new StrNum(environment[name])));
+    this.arrays.set('ENVIRON', environ);
+    this.setRandomSeed(0);
+  }
+
+  private text(value: AwkValue, format = 'CONVFMT'): string {
+    if (value === undefined) return '';
+    if (typeof value === 'string') return value;
+    if (value instanceof StrNum) return value.text;
+    if (Number.isInteger(value) && Math.abs(value) < 1e16) return value.toFixed(0);
+    const special = formatSpecial(value);
+    if (special) return special;
+    return formatValue(this.text(this.variables.get(format)), [value], v => this.text(v));
+  }
+
+  getVariable(name: string): AwkValue {
+    if (name === 'NF') return this.fieldCount;
+    if (this.arrays.has(name)) throw new AwkError(`attempt to use array \`${name}' in a scalar context`);
+    return this.variables.get(name);
+  }
+
+  setVariable(name: string, value: AwkValue) {
+    if (this.arrays.has(name)) throw new AwkError(`attempt to use array \`${name}' in a scalar context`);
+    if (name === 'NF') {
+      this.setFieldCount(Math.max(0, Math.floor(toNumber(value))));
+      return;
+    }
+    this.variables.set(name, value);
+  }
+
+  private array(name: string): Map<string, AwkValue> {
+    let array = this.arrays.get(name);
+    if (!array) {
+      if (name === 'NF' || this.variables.get(name) !== undefined) throw new AwkError(`can't use scalar \`${name}' as array`);
+      array = new Map();
+      this.arrays.set(name, array);
+    }
+    return array;
+  }
+
+  private subscript(subscripts: Expression[]): string {
+    return subscripts.map(subscript => this.text(this.evaluate(subscript))).join(this.text(this.variables.get('SUBSEP')));
+  }
+
+  // Splits text as FS, or a split() separator, says to: on runs of blanks for
+  // " ", on a single other character literally, or else on a regex
+  private splitText(text: string, separator: string, paragraph = false): string[] {
+    if (separator === ' ') {
+      const trimmed = text.replace(/^[ \t\n]+|[ \t\n]+$/g, '');
+      return trimmed === '' ? [] : trimmed.split(/[ \t\n]+/);
+    }
+    if (text === '') return [];
+    if (separator === '') return Array.from(text);
+    const source = separator.length === 1 && separator !== '\\'
+      ? separator.replace(/[.*+?^${}()|[\]\\\/-]/g, '\\$&')
+      : this.regex(separator).source;
+    return splitOn(text, new RegExp(paragraph ? `(?:${source})|\\n` : source, 'gs'));
+  }
+
+  setRecord(text: string) {
+    this.fields = [new StrNum(text)];
+    const separator = this.text(this.variables.get('FS'));
+    const parts = this.splitText(text, separator, this.text(this.variables.get('RS')) === '');
+    parts.forEach(part => this.fields.push(new StrNum(part)));
+    this.fieldCount = parts.length;
+  }
+
+  private rebuildRecord() {
+    const parts: string[] = [];
+    for (let i = 1; i <= this.fieldCount; i++) parts.push(this.text(this.fields[i]));
+    this.fields[0] = new StrNum(parts.join(this.text(this.variables.get('OFS'))));
+  }
+
+  private setFieldCount(count: number) {
+    for (let i = this.fieldCount + 1; i <= count; i++) this.fields[i] = undefined;
+    this.fields.length = count + 1;
+    this.fieldCount = count;
+    this.rebuildRecord();
+  }
+
+  private fieldIndex(expression: Expression): number {
+    const index = Math.floor(toNumber(this.evaluate(expression)));
+    if (index < 0) throw new AwkError(`attempt to access field ${index}`);
+    return index;
+  }
+
+  getField(index: number): AwkValue {
+    return index <= this.fieldCount ? this.fields[index] : undefined;
+  }
+
+  private setField(index: number, value: AwkValue) {
+    if (index === 0) {
+      this.setRecord(this.text(value));
+      return;
+    }
+    if (index > this.fieldCount) this.setFieldCount(index);
+    this.fields[index] = value;
+    this.rebuildRecord();
+  }
+
+  private regex(pattern: string): RegExp {
+    let regex = this.dynamicRegexes.get(pattern);
+    if (!regex) {
+      try {
+        regex = compileRegex(pattern);
+      } catch (error) {
+        if (!(error instanceof RegexError) && !(error instanceof SyntaxError)) throw error;
+        throw new AwkError(`invalid regexp /${pattern}/: ${error.message.replace(/^Invalid regular expression: /, '')}`);
+      }
+      this.dynamicRegexes.set(pattern, regex);
+    }
+    return regex;
+  }
+
+  // A regex literal, or any other expression's value as a dynamic regex
+  private regexOf(expression: Expression): RegExp {
+    const regex = expression.type === 'regex' ? expression.regex : this.regex(this.text(this.evaluate(expression)));
+    regex.lastIndex = 0;
+    return regex;
+  }
+
+  private assign(target: Expression, value: AwkValue): AwkValue {
+    if (target.type === 'variable') this.setVariable(target.name, value);
+    else if (target.type === 'field') this.setField(this.fieldIndex(target.index), value);
+    else if (target.type === 'element') this.array(target.name).set(this.subscript(target.subscripts), value);
+    return value;
+  }
+
+  private setRandomSeed(seed: number) {
+    this.seed = seed;
+    this.random = Math.floor(seed) >>> 0;
+  }
+
+  // A small deterministic generator, so that rand() without srand()
+  // repeats from run to run as it does in awk
+  private nextRandom(): number {
+    this.random = (this.random + 0x6d2b79f5) >>> 0;
+    let t = this.random;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  evaluate(expression: Expression): AwkValue {
+    switch (expression.type) {
+      case 'number':
+        return expression.value;
+      case 'string':
+        return expression.value;
+      case 'regex':
+        expression.regex.lastIndex = 0;
+        return expression.regex.test(this.text(this.fields[0])) ? 1 : 0;
+      case 'variable':
+        return this.getVariable(expression.name);
+      case 'field':
+        return this.getField(this.fieldIndex(expression.index));
+      case 'element': {
+        const array = this.array(expression.name);
+        const key = this.subscript(expression.subscripts);
+        // Referring to an element creates it
+        if (!array.has(key)) array.set(key, undefined);
+        return array.get(key);
+      }
+      case 'group':
+        return this.subscript(expression.items);
+      case 'in':
+        return this.array(expression.name).has(this.subscript(expression.subscripts)) ? 1 : 0;
+      case 'assign': {
+        if (expression.operator === '=') {
+          const value = this.evaluate(expression.value);
+          return this.assign(expression.target, value instanceof StrNum ? new StrNum(value.text) : value);
+        }
+        const right = toNumber(this.evaluate(expression.value));
+        const left = toNumber(this.evaluate(expression.target));
+        return this.assign(expression.target, this.arithmetic(expression.operator.charAt(0), left, right));
+      }
+      case 'increment': {
+        const before = toNumber(this.evaluate(expression.target));
+        const after = expression.operator === '++' ? before + 1 : before - 1;
+        this.assign(expression.target, after);
+        return expression.prefix ? after : before;
+      }
+      case 'conditional':
+        return isTrue(this.evaluate(expression.test)) ? this.evaluate(expression.then) : this.evaluate(expression.otherwise);
+      case 'unary': {
+        const operand = this.evaluate(expression.operand);
+        if (expression.operator === '!') return isTrue(operand) ? 0 : 1;
+        return expression.operator === '-' ? -toNumber(operand) : toNumber(operand);
+      }
+      case 'binary':
+        return this.binary(expression.operator, expression.left, expression.right);
+      case 'call':
+        return this.call(expression.name, expression.args);
+    }
+  }
+
+  private arithmetic(operator: string, left: number, right: number): number {
+    switch (operator) {
+      case '+': return left + right;
+      case '-': return left - right;
+      case '*': return left * right;
+      case '/':
+        if (right === 0) throw new AwkError('division by zero attempted');
+        return left / right;
+      case '%':
+        if (right === 0) throw new AwkError('division by zero attempted in `%\'');
+        return left % right;
+      default: return Math.pow(left, right);
+    }
+  }
+
+  private binary(operator: string, leftExpression: Expression, rightExpression: Expression): AwkValue {
+    switch (operator) {
+      case '&&':
+        return isTrue(this.evaluate(leftExpression)) && isTrue(this.evaluate(rightExpression)) ? 1 : 0;
+      case '||':
+        return isTrue(this.evaluate(leftExpression)) || isTrue(this.evaluate(rightExpression)) ? 1 : 0;
+      case '~':
+      case '!~': {
+        const text = this.text(this.evaluate(leftExpression));
+        const matches = this.regexOf(rightExpression).test(text);
+        return matches === (operator === '~') ? 1 : 0;
+      }
+    }
+
+    const left = this.evaluate(leftExpression);
+    const right = this.evaluate(rightExpression);
+    if (operator === 'concat') return this.text(left) + this.text(right);
+    if (['<', '<=', '==', '!=', '>=', '>'].indexOf(operator) !== -1) {
+      let comparison: number;
+      if (isNumeric(left) && isNumeric(right)) {
+        comparison = toNumber(left) - toNumber(right);
+      } else {
+        const a = this.text(left);
+        const b = this.text(right);
+        comparison = a < b ? -1 : a > b ? 1 : 0;
+      }
+      switch (operator) {
+        case '<': return comparison < 0 ? 1 : 0;
+        case '<=': return comparison <= 0 ? 1 : 0;
+        case '==': return comparison === 0 ? 1 : 0;
+        case '!=': return comparison !== 0 ? 1 : 0;
+        case '>=': return comparison >= 0 ? 1 : 0;
+        default: return comparison > 0 ? 1 : 0;
+      }
+    }
+    return this.arithmetic(operator, toNumber(left), toNumber(right));
+  }
+
+  // sub and gsub: replaces the first match, or all of them, in target. In
+  // the replacement "&" is the matched text and "\&" a literal "&".
+  private substitute(args: Expression[], global: boolean): number {
+    if (args.length < 2 || args.length > 3) throw new AwkError(`${global ? 'gsub' : 'sub'}: wrong number of arguments`);
+    const regex = this.regexOf(args[0]);
+    const replacement = this.text(this.evaluate(args[1]));
+    const target: Expression = args[2] ?? { type: 'field', index: { type: 'number', value: 0 } };
+    const text = this.text(this.evaluate(target));
+
+    let result = '';
+    let copied = 0;
+    let count = 0;
+    let previousEnd = -1;
+    for (let match = regex.exec(text); match; match = regex.exec(text)) {
+      const start = match.index;
+      const end = start + match[0].length;
+      // An empty match right after a replaced one doesn't count
+      if (!(match[0] === '' && start === previousEnd)) {
+        const matched = match[0];
+        result += text.substring(copied, start) + replacement.replace(/\\\\|\\&|&/g, part => part === '&' ? matched : part.charAt(1));
+        copied = end;
+        count++;
+        if (!global) break;
+      }
+      previousEnd = end;
+      if (match[0] === '') {
+        if (end >= text.length) break;
+        regex.lastIndex = end + 1;
+      }
+    }
+    if (count > 0) {
+      if (!isLvalue(target)) return count;
+      this.assign(target, result + text.substring(copied));
+    }
+    return count;
+  }
+
+  private call(name: string, args: Expression[]): AwkValue {
+    const value = (index: number) => this.evaluate(args[index]);
+    const number = (index: number) => toNumber(value(index));
+    const string = (index: number) => this.text(value(index));
+
+    switch (name) {
+      case 'length': {
+        if (args.length === 0) return this.text(this.fields[0]).length;
+        const arg = args[0];
+        if (arg.type === 'variable' && this.arrays.has(arg.name)) return this.arrays.get(arg.name)!.size;
+        return string(0).length;
+      }
+      case 'substr': {
+        const text = string(0);
+        // Positions round to the nearest character, counting from 1
+        const start = Math.round(number(1));
+        const end = args.length > 2 ? start + Math.round(number(2)) : Infinity;
+        const from = Math.max(start, 1);
+        const to = Math.min(end, text.length + 1);
+        return to > from ? text.substring(from - 1, to - 1) : '';
+      }
+      case 'index':
+        return string(0).indexOf(string(1)) + 1;
+      case 'split': {
+        const arg = args[1];
+        if (!arg || arg.type !== 'variable') throw new AwkError('split: second argument is not an array');
+        const text = string(0);
+        let parts: string[];
+        if (args[2]?.type === 'regex') {
+          parts = text === '' ? [] : splitOn(text, args[2].regex);
+        } else {
+          parts = this.splitText(text, args.length > 2 ? string(2) : this.text(this.variables.get('FS')));
+        }
+        const array = this.array(arg.name);
+        array.clear();
+        parts.forEach((part, index) => array.set(String(index + 1), new StrNum(part)));
+        return parts.length;
+      }
+      case 'sub':
+      case 'gsub':
+        return this.substitute(args, name === 'gsub');
+      case 'match': {
+        const match = this.regexOf(args[1]).exec(string(0));
+        this.variables.set('RSTART', match ? match.index + 1 : 0);
+        this.variables.set('RLENGTH', match ? match[0].length : -1);
+        return match ? match.index + 1 : 0;
+      }
+      case 'sprintf':
+        if (args.length === 0) throw new AwkError('sprintf: no arguments');
+        return formatValue(string(0), args.slice(1).map(arg => this.evaluate(arg)), v => this.text(v));
+      case 'tolower':
+        return string(0).toLowerCase();
+      case 'toupper':
+        return string(0).toUpperCase();
+      case 'int':
+        return Math.trunc(number(0));
+      case 'sqrt':
+        return Math.sqrt(number(0));
+      case 'exp':
+        return Math.exp(number(0));
+      case 'log':
+        return Math.log(number(0));
+      case 'sin':
+        return Math.sin(number(0));
+      case 'cos':
+        return Math.cos(number(0));
+      case 'atan2':
+        return Math.atan2(number(0), number(1));
+      case 'rand':
+        return this.nextRandom();
+      case 'srand': {
+        const previous = this.seed;
+        this.setRandomSeed(args.length > 0 ? number(0) : Math.floor(Date.now() / 1000));
+        return previous;
+      }
+      case 'close':
+        // Output is gathered and written once the program ends
+        return 0;
+    }
+    throw new AwkError(`function \`${name}' not defined`);
+  }
+
+  private loop() {
+    if (++this.iterations > MAX_LOOP_ITERATIONS) {
+      throw new AwkError(`loop stopped after ${MAX_LOOP_ITERATIONS} iterations`);
+    }
+  }
+
+  // Runs a loop body, returning false once break ends the loop
+  private loopBody(body: Statement): boolean {
+    this.loop();
+    try {
+      this.execute(body);
+    } catch (signal) {
+      if (signal instanceof BreakLoop) return false;
+      if (!(signal instanceof ContinueLoop)) throw signal;
+    }
+    return true;
+  }
+
+  private print(statement: Extract<Statement, { type: 'print' | 'printf' }>) {
+    let text: string;
+    if (statement.type === 'printf') {
+      const values = statement.args.map(arg => this.evaluate(arg));
+      text = formatValue(this.text(values[0]), values.slice(1), v => this.text(v));
+    } else {
+      const values = statement.args.length > 0 ? statement.args.map(arg => this.evaluate(arg)) : [this.fields[0]];
+      text = values.map(value => this.text(value, 'OFMT')).join(this.text(this.variables.get('OFS'))) + this.text(this.variables.get('ORS'));
+    }
+
+    if (!statement.redirect) {
+      this.output += text;
+      return;
+    }
+    const target = this.text(this.evaluate(statement.redirect.target));
+    if (statement.redirect.operator === '|') {
+      this.pipes[target] = (this.pipes[target] ?? '') + text;
+    } else if (target === '/dev/stdout' || target === '-') {
+      this.output += text;
+    } else if (target === '/dev/stderr') {
+      this.errors.push(text.replace(/\n$/, ''));
+    } else {
+      const file = this.files[target] ?? (this.files[target] = { append: statement.redirect.operator === '>>', content: '' });
+      file.content += text;
+    }
+  }
+
+  execute(statement: Statement) {
+    switch (statement.type) {
+      case 'print':
+      case 'printf':
+        this.print(statement);
+        break;
+      case 'expression':
+        this.evaluate(statement.expression);
+        break;
+      case 'block':
+        statement.body.forEach(inner => this.execute(inner));
+        break;
+      case 'if':
+        if (isTrue(this.evaluate(statement.test))) this.execute(statement.then);
+        else if (statement.otherwise) this.execute(statement.otherwise);
+        break;
+      case 'while':
+        while (isTrue(this.evaluate(statement.test)) && this.loopBody(statement.body));
+        break;
+      case 'do':
+        while (this.loopBody(statement.body) && isTrue(this.evaluate(statement.test)));
+        break;
+      case 'for':
+        if (statement.init) this.evaluate(statement.init);
+        while (!statement.test || isTrue(this.evaluate(statement.test))) {
+          if (!this.loopBody(statement.body)) break;
+          if (statement.step) this.evaluate(statement.step);
+        }
+        break;
+      case 'forIn': {
+        const array = this.array(statement.array);
+        const keys = Array.from(array.keys());
+        for (const key of keys) {
+          // Elements deleted along the way are skipped
+          if (!array.has(key)) continue;
+          this.setVariable(statement.variable, new StrNum(key));
+          if (!this.loopBody(statement.body)) break;
+        }
+        break;
+      }
+      case 'delete':
+        if (statement.subscripts) this.array(statement.name).delete(this.subscript(statement.subscripts));
+        else this.array(statement.name).clear();
+        break;
+      case 'exit':
+        throw new ExitProgram(statement.status ? Math.floor(toNumber(this.evaluate(statement.status))) & 255 : 0);
+      case 'next':
+        throw new NextRecord();
+      case 'break':
+        throw new BreakLoop();
+      case 'continue':
+        throw new ContinueLoop();
+    }
+  }
+
+  private runAction(action: Statement[]) {
+    try {
+      action.forEach(statement => this.execute(statement));
+    } catch (signal) {
+      if (signal instanceof BreakLoop || signal instanceof ContinueLoop) {
+        throw new AwkError(`${signal instanceof BreakLoop ? 'break' : 'continue'} is not allowed outside a loop`);
+      }
+      throw signal;
+    }
+  }
+
+  private matches(rule: Rule): boolean {
+    if (!rule.pattern) return true;
+    if (!rule.rangeEnd) return isTrue(this.evaluate(rule.pattern));
+    if (!rule.inRange) {
+      if (!isTrue(this.evaluate(rule.pattern))) return false;
+      rule.inRange = true;
+    }
+    // The end is checked against the record that starts the range too
+    if (isTrue(this.evaluate(rule.rangeEnd))) rule.inRange = false;
+    return true;
+  }
+
+  runBegin() {
+    this.rules.filter(rule => rule.kind === 'BEGIN').forEach(rule => this.runAction(rule.action!));
+  }
+
+  runEnd() {
+    this.rules.filter(rule => rule.kind === 'END').forEach(rule => this.runAction(rule.action!));
+  }
+
+  // Whether there is anything to read input for
+  get readsInput(): boolean {
+    return this.rules.some(rule => rule.kind !== 'BEGIN');
+  }
+
+  // Splits a file into records by RS: lines by default, paragraphs when RS
+  // is empty, a single character, or else a regex
+  records(content: string): string[] {
+    const separator = this.text(this.variables.get('RS'));
+    if (separator === '') {
+      const trimmed = content.replace(/^\n+/, '').replace(/\n+$/, '');
+      return trimmed === '' ? [] : trimmed.split(/\n\n+/);
+    }
+    const records = separator.length === 1 ? content.split(separator) : splitOn(content, this.regex(separator));
+    if (records[records.length - 1] === '') records.pop();
+    return records;
+  }
+
+  runRecord(record: string) {
+    this.variables.set('NR', toNumber(this.variables.get('NR')) + 1);
+    this.variables.set('FNR', toNumber(this.variables.get('FNR')) + 1);
+    this.setRecord(record);
+    try {
+      this.rules.filter(rule => rule.kind === 'main').forEach(rule => {
+        if (!this.matches(rule)) return;
+        if (rule.action) this.runAction(rule.action);
+        else this.output += this.text(this.fields[0]) + this.text(this.variables.get('ORS'));
+      });
+    } catch (signal) {
+      if (!(signal instanceof NextRecord)) throw signal;
+    }
+  }
+}
+
+// A "name=value" operand or -v argument, or undefined for anything else
+function parseAssignment(text: string): { name: string; value: string } | undefined {
+  const match = /^([A-Za-z_][A-Za-z0-9_]*)=([\s\S]*)$/.exec(text);
+  return match ? { name: match[1], value: unescapeString(match[2]) } : undefined;
+}
+
+async function awk(shell: TerminalProcessor, name: string, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  const sources: string[] = [];
+  const assignments: { name: string; value: string }[] = [];
+  let separator: string | undefined;
+  let index = 0;
+
+  for (; index < args.length; index++) {
+    const arg = args[index];
+    if (arg === '--') {
+      index++;
+      break;
+    }
+    if (!/^-[Fvf]/.test(arg)) {
+      if (arg.startsWith('-') && arg !== '-') return usageError(shell, name, `invalid option -- '${arg.charAt(1)}'`, 2);
+      break;
+    }
+    const value = arg.length > 2 ? arg.substring(2) : args[++index];
+    if (value === undefined) return usageError(shell, name, `option requires an argument -- '${arg.charAt(1)}'`, 2);
+    if (arg[1] === 'F') {
+      // -Ft is a tab, as in every awk
+      separator = value === 't' ? '\t' : unescapeString(value);
+    } else if (arg[1] === 'v') {
+      const assignment = parseAssignment(value);
+      if (!assignment) return shell.failure(`${name}: \`${value}' argument to \`-v' not in \`var=value' form`, 2);
+      assignments.push(assignment);
+    } else {
+      const file = await readInput(shell, name, value, stdin);
+      if ('error' in file) return shell.failure(`${name}: fatal: can't open source file \`${value}' for reading: No such file or directory`, 2);
+      sources.push(file.content);
+    }
+  }
+
+  if (sources.length === 0) {
+    if (index >= args.length) return shell.failure(`Usage: ${name} [POSIX or GNU style options] -f progfile [--] file ...\nUsage: ${name} [POSIX or GNU style options] [--] 'program' file ...`, 2);
+    sources.push(args[index++]);
+  }
+  const operands = args.slice(index);
+  const source = sources.join('\n');
+
+  let interpreter: AwkInterpreter;
+  try {
+    interpreter = new AwkInterpreter(new AwkParser(source, tokenize(source)).parseProgram(), shell.environment);
+  } catch (error) {
+    if (!(error instanceof AwkError)) throw error;
+    return shell.failure(error.message.replace(/^awk: /, `${name}: `), 1);
+  }
+
+  if (separator !== undefined) interpreter.setVariable('FS', separator);
+  assignments.forEach(assignment => interpreter.setVariable(assignment.name, new StrNum(assignment.value)));
+
+  let status = 0;
+  let exited = false;
+  try {
+    try {
+      interpreter.runBegin();
+    } catch (signal) {
+      if (!(signal instanceof ExitProgram)) throw signal;
+      status = signal.status;
+      exited = true;
+    }
+
+    if (!exited && interpreter.readsInput) {
+      try {
+        const files = operands.filter(operand => !parseAssignment(operand));
+        for (const operand of files.length > 0 ? operands : ['-']) {
+          const assignment = parseAssignment(operand);
+          if (assignment) {
+            interpreter.setVariable(assignment.name, new StrNum(assignment.value));
+            continue;
+          }
+          const input = await readInput(shell, name, operand, stdin);
+          if ('error' in input) {
+            interpreter.errors.push(`${name}: cannot open "${operand}" (${input.error.replace(/^.*: /, '')})`);
+            status = 2;
+            continue;
+          }
+          interpreter.setVariable('FILENAME', operand === '-' ? '' : operand);
+          interpreter.setVariable('FNR', 0);
+          interpreter.records(input.content).forEach(record => interpreter.runRecord(record));
+        }
+      } catch (signal) {
+        if (!(signal instanceof ExitProgram)) throw signal;
+        status = signal.status;
+      }
+    }
+
+    // exit outside END still runs END, where another exit ends everything
+    try {
+      interpreter.runEnd();
+    } catch (signal) {
+      if (!(signal instanceof ExitProgram)) throw signal;
+      status = signal.status;
+    }
+  } catch (error) {
+    if (!(error instanceof AwkError)) throw error;
+    interpreter.errors.push(`${name}: fatal: ${error.message}`);
+    status = 2;
+  }
+
+  const errors = interpreter.errors;
+  for (const file of Object.keys(interpreter.files)) {
+    const error = await writeOutput(shell, name, file, interpreter.files[file].content, interpreter.files[file].append);
+    if (error) errors.push(error);
+  }
+  let output = interpreter.output;
+  for (const command of Object.keys(interpreter.pipes)) {
+    const result = await shell.runShell('sh', ['-c', command], new InputStream(interpreter.pipes[command]));
+    const { stdout, stderr } = resultStreams(result);
+    if (stdout) output += stdout.endsWith('\n') ? stdout : stdout + '\n';
+    if (stderr) errors.push(stderr);
+  }
+  return textResult(shell, output, errors, status);
+}
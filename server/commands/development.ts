@@ -0,0 +1,410 @@
+// Simulated compilers, interpreters, package managers and version control
+
+import { storage } from "../storage";
+import { basename } from "@shared/path";
+import type { CommandResult } from "@shared/schema";
+import type { TerminalProcessor } from "../terminal";
+import type { CommandDefinition } from "./registry";
+
+const category = 'Development';
+
+export const developmentCommands: CommandDefinition[] = [
+  {
+    name: 'git',
+    usage: 'git COMMAND [ARG...]',
+    description: 'Git version control',
+    category,
+    handler: ({ shell, args }) => executeGit(shell, args),
+  },
+  {
+    name: 'python',
+    aliases: ['python3'],
+    usage: 'python [FILE]',
+    description: 'Python interpreter',
+    category,
+    handler: ({ shell, args }) => executePython(shell, args),
+  },
+  {
+    name: 'node',
+    aliases: ['nodejs'],
+    usage: 'node [FILE]',
+    description: 'Node.js runtime',
+    category,
+    handler: ({ shell, args }) => executeNode(shell, args),
+  },
+  {
+    name: 'java',
+    usage: 'java CLASS',
+    description: 'Java runtime',
+    category,
+    handler: ({ shell, args }) => executeJava(shell, args),
+  },
+  {
+    name: 'javac',
+    usage: 'javac FILE',
+    description: 'Java compiler',
+    category,
+    handler: ({ shell, args }) => executeJavac(shell, args),
+  },
+  {
+    name: 'gcc',
+    aliases: ['g++'],
+    usage: 'gcc FILE [-o OUTPUT]',
+    description: 'C/C++ compiler',
+    category,
+    flags: [
+      { flag: '-o', description: 'Name of the executable (default a.out)' },
+    ],
+    handler: ({ shell, name, args }) => executeGcc(shell, name, args),
+  },
+  {
+    name: 'make',
+    usage: 'make [TARGET]',
+    description: 'Build automation',
+    category,
+    handler: ({ shell, args }) => executeMake(shell, args),
+  },
+  {
+    name: 'npm',
+    usage: 'npm COMMAND [ARG...]',
+    description: 'Node package manager',
+    category,
+    handler: ({ shell, args }) => executeNpm(shell, args),
+  },
+  {
+    name: 'pip',
+    aliases: ['pip3'],
+    usage: 'pip COMMAND [PACKAGE]',
+    description: 'Python package manager',
+    category,
+    handler: ({ shell, args }) => executePip(shell, args),
+  },
+];
+
+// Stand-ins for compiler output: real magic numbers followed by filler, so the
+// artifacts are detected and handled as binaries
+function compiledClassFile(): Buffer {
+  return Buffer.concat([Buffer.from([0xca, 0xfe, 0xba, 0xbe, 0x00, 0x00, 0x00, 0x37]), Buffer.alloc(1016)]);
+}
+
+function compiledExecutable(): Buffer {
+  return Buffer.concat([Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01, 0x00]), Buffer.alloc(8184)]);
+}
+
+async function executeGit(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  if (args.length === 0) {
+    return { output: "usage: git [--version] [--help] [-C <path>] [-c <name>=<value>]\n           [--exec-path[=<path>]] [--html-path] [--man-path] [--info-path]\n           [-p | --paginate | -P | --no-pager] [--no-replace-objects] [--bare]\n           [--git-dir=<path>] [--work-tree=<path>] [--namespace=<name>]\n           <command> [<args>]", currentDirectory: shell.currentDirectory, success: true };
+  }
+
+  const subcommand = args[0];
+  const subargs = args.slice(1);
+
+  switch (subcommand) {
+    case 'clone':
+      if (subargs.length === 0) {
+        return { output: "fatal: You must specify a repository to clone.", error: "Missing repository URL", currentDirectory: shell.currentDirectory, success: false };
+      }
+      
+      const repoUrl = subargs[0];
+      const repoName = repoUrl.split('/').pop()?.replace('.git', '') || 'repository';
+      
+      const cloneOutput = `Cloning into '${repoName}'...
+remote: Enumerating objects: 156, done.
+remote: Counting objects: 100% (156/156), done.
+remote: Compressing objects: 100% (98/98), done.
+remote: Total 156 (delta 45), reused 132 (delta 34), pack-reused 0
+Receiving objects: 100% (156/156), 45.67 KiB | 1.52 MiB/s, done.
+Resolving deltas: 100% (45/45), done.`;
+
+      // Create repository directory
+      const repoPath = shell.resolvePath(repoName);
+      if (await storage.fileSystemItemExists(shell.owner, repoPath)) {
+        return { output: `fatal: destination path '${repoName}' already exists and is not an empty directory.`, error: "File exists", currentDirectory: shell.currentDirectory, success: false };
+      }
+      await storage.createFileSystemItem(shell.owner, {
+        path: repoPath,
+        name: repoName,
+        type: 'directory',
+        content: null,
+        permissions: 'drwxr-xr-x'
+      });
+
+      // Create basic git structure
+      const gitFiles = [
+        { name: 'README.md', content: `# ${repoName}\n\nCloned from ${repoUrl}` },
+        { name: '.gitignore', content: 'node_modules/\n*.log\n.env' },
+        { name: 'package.json', content: `{\n  "name": "${repoName}",\n  "version": "1.0.0",\n  "description": "Cloned repository"\n}` }
+      ];
+
+      for (const file of gitFiles) {
+        await storage.createFileSystemItem(shell.owner, {
+          path: `${repoPath}/${file.name}`,
+          name: file.name,
+          type: 'file',
+          content: Buffer.from(file.content),
+          permissions: '-rw-r--r--'
+        });
+      }
+
+      return { output: cloneOutput, currentDirectory: shell.currentDirectory, success: true };
+
+    case 'status':
+      return { output: "On branch main\nYour branch is up to date with 'origin/main'.\n\nnothing to commit, working tree clean", currentDirectory: shell.currentDirectory, success: true };
+
+    case 'init':
+      return { output: "Initialized empty Git repository in " + shell.currentDirectory + "/.git/", currentDirectory: shell.currentDirectory, success: true };
+
+    case 'add':
+      return { output: "", currentDirectory: shell.currentDirectory, success: true };
+
+    case 'commit':
+      return { output: "[main 1a2b3c4] Sample commit\n 1 file changed, 1 insertion(+)", currentDirectory: shell.currentDirectory, success: true };
+
+    case 'push':
+      return { output: "Everything up-to-date", currentDirectory: shell.currentDirectory, success: true };
+
+    case 'pull':
+      return { output: "Already up to date.", currentDirectory: shell.currentDirectory, success: true };
+
+    default:
+      return { output: `git: '${subcommand}' is not a git command. See 'git --help'.`, error: "Unknown git command", currentDirectory: shell.currentDirectory, success: false };
+  }
+}
+
+async function executePython(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  if (args.length === 0) {
+    return { 
+      output: `Python 3.11.0 (main, Oct 24 2022, 18:26:48) [GCC 9.4.0] on linux
+Type "help", "copyright", "credits" or "license" for more information.
+>>> exit()`, 
+      currentDirectory: shell.currentDirectory, 
+      success: true 
+    };
+  }
+
+  const filename = args[0];
+  const file = await storage.getFileSystemItem(shell.owner, shell.resolvePath(filename));
+  
+  if (!file) {
+    return { 
+      output: `python: can't open file '${filename}': [Errno 2] No such file or directory`, 
+      error: "File not found",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  if (file.type !== 'file' || !filename.endsWith('.py')) {
+    return { 
+      output: `python: can't open file '${filename}': [Errno 21] Is a directory`, 
+      error: "Invalid file",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  // Simulate Python execution
+  const output = `Running Python script: ${filename}
+Hello from Python!
+Script execution completed successfully.`;
+
+  return { output, currentDirectory: shell.currentDirectory, success: true };
+}
+
+async function executeNode(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  if (args.length === 0) {
+    return { 
+      output: `Welcome to Node.js v18.17.0.
+Type ".help" for more information.
+> .exit`, 
+      currentDirectory: shell.currentDirectory, 
+      success: true 
+    };
+  }
+
+  const filename = args[0];
+  const file = await storage.getFileSystemItem(shell.owner, shell.resolvePath(filename));
+  
+  if (!file) {
+    return { 
+      output: `node: can't open file '${filename}'`, 
+      error: "File not found",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  const output = `Running Node.js script: ${filename}
+Hello from Node.js!
+Script execution completed successfully.`;
+
+  return { output, currentDirectory: shell.currentDirectory, success: true };
+}
+
+async function executeJava(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  if (args.length === 0) {
+    return { 
+      output: `Usage: java [options] <mainclass> [args...]
+       (to execute a class)
+or  java [options] -jar <jarfile> [args...]
+       (to execute a jar file)`, 
+      currentDirectory: shell.currentDirectory, 
+      success: true 
+    };
+  }
+
+  const className = args[0];
+  const output = `Running Java class: ${className}
+Hello from Java!
+Program execution completed successfully.`;
+
+  return { output, currentDirectory: shell.currentDirectory, success: true };
+}
+
+async function executeJavac(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  if (args.length === 0) {
+    return { 
+      output: "Usage: javac <options> <source files>", 
+      currentDirectory: shell.currentDirectory, 
+      success: true 
+    };
+  }
+
+  const filename = args[0];
+  const file = await storage.getFileSystemItem(shell.owner, shell.resolvePath(filename));
+  
+  if (!file || !filename.endsWith('.java')) {
+    return { 
+      output: `javac: file not found: ${filename}`, 
+      error: "File not found",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  // Create .class file
+  const classPath = shell.resolvePath(filename.replace(/\.java$/, '.class'));
+  await storage.createFileSystemItem(shell.owner, {
+    path: classPath,
+    name: basename(classPath),
+    type: 'file',
+    content: compiledClassFile(),
+    permissions: '-rw-r--r--'
+  });
+
+  return { output: `Compiled ${filename} successfully.`, currentDirectory: shell.currentDirectory, success: true };
+}
+
+async function executeGcc(shell: TerminalProcessor, compiler: string, args: string[]): Promise<CommandResult> {
+  if (args.length === 0) {
+    return { 
+      output: `${compiler}: fatal error: no input files\ncompilation terminated.`, 
+      error: "No input files",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  const sourceFile = args[0];
+  const outputFile = args.includes('-o') ? args[args.indexOf('-o') + 1] : 'a.out';
+  
+  const file = await storage.getFileSystemItem(shell.owner, shell.resolvePath(sourceFile));
+  if (!file) {
+    return { 
+      output: `${compiler}: error: ${sourceFile}: No such file or directory`, 
+      error: "File not found",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  // Create executable
+  const outputPath = shell.resolvePath(outputFile);
+  const parentError = await shell.parentDirectoryError(outputPath);
+  if (parentError) {
+    return { 
+      output: `/usr/bin/ld: cannot open output file ${outputFile}: ${parentError}\ncollect2: error: ld returned 1 exit status`, 
+      error: parentError,
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+  await storage.createFileSystemItem(shell.owner, {
+    path: outputPath,
+    name: basename(outputPath),
+    type: 'file',
+    content: compiledExecutable(),
+    permissions: '-rwxr-xr-x'
+  });
+
+  return { output: `Compiled ${sourceFile} to ${outputFile} successfully.`, currentDirectory: shell.currentDirectory, success: true };
+}
+
+async function executeMake(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  const output = `make: Entering directory '${shell.currentDirectory}'
+gcc -o main main.c
+make: Leaving directory '${shell.currentDirectory}'`;
+
+  return { output, currentDirectory: shell.currentDirectory, success: true };
+}
+
+async function executeNpm(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  if (args.length === 0) {
+    return { 
+      output: `npm <command>
+
+Usage:
+
+npm install        install all the dependencies
+npm install <foo>  add the <foo> dependency
+npm test           run this package's tests
+npm run <foo>      run the script named <foo>
+npm <command> -h   quick help on <command>`, 
+      currentDirectory: shell.currentDirectory, 
+      success: true 
+    };
+  }
+
+  const command = args[0];
+  switch (command) {
+    case 'install':
+      return { output: "npm WARN saveError ENOENT: no such file or directory, open 'package.json'\nnpm notice created a lockfile as package-lock.json. You should commit this file.\nnpm WARN enoent ENOENT: no such file or directory, open 'package.json'\nnpm WARN terminal No description\nnpm WARN terminal No repository field.\nnpm WARN terminal No README data\nnpm WARN terminal No license field.\n\naudited 1 package in 0.5s\nfound 0 vulnerabilities", currentDirectory: shell.currentDirectory, success: true };
+    case 'init':
+      return { output: "This utility will walk you through creating a package.json file.\npackage.json created successfully!", currentDirectory: shell.currentDirectory, success: true };
+    case 'start':
+      return { output: "npm ERR! missing script: start", error: "Missing script", currentDirectory: shell.currentDirectory, success: false };
+    default:
+      return { output: `Unknown command: ${command}`, error: "Unknown command", currentDirectory: shell.currentDirectory, success: false };
+  }
+}
+
+async function executePip(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  if (args.length === 0) {
+    return { 
+      output: `
+Usage:   
+pip <command> [options]
+
+Commands:
+install                     Install packages.
+download                    Download packages.
+uninstall                   Uninstall packages.
+freeze                      Output installed packages in requirements format.
+list                        List installed packages.
+show                        Show information about installed packages.`, 
+      currentDirectory: shell.currentDirectory, 
+      success: true 
+    };
+  }
+
+  const command = args[0];
+  switch (command) {
+    case 'install':
+      const package_name = args[1] || 'package';
+      return { output: `Collecting ${package_name}\n  Downloading ${package_name}-1.0.0-py3-none-any.whl (50 kB)\nInstalling collected packages: ${package_name}\nSuccessfully installed ${package_name}-1.0.0`, currentDirectory: shell.currentDirectory, success: true };
+    case 'list':
+      return { output: "Package    Version\n---------- -------\npip        23.0.1\nsetuptools 65.5.0\nwheel      0.38.4", currentDirectory: shell.currentDirectory, success: true };
+    default:
+      return { output: `Unknown command: ${command}`, error: "Unknown command", currentDirectory: shell.currentDirectory, success: false };
+  }
+}
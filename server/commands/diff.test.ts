@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import type { TerminalProcessor } from "../terminal";
+import { newShell, writeFile } from "../testing";
+
+async function diffFixture(): Promise<TerminalProcessor> {
+  const shell = await newShell();
+  await writeFile(shell, "a.txt", "one\ntwo\nthree\n");
+  await writeFile(shell, "b.txt", "one\nTWO\nthree\nfour\n");
+  return shell;
+}
+
+async function contentOf(shell: TerminalProcessor, path: string): Promise<string | undefined> {
+  return (await storage.getFileSystemItem(shell.owner, shell.resolvePath(path)))?.content?.toString("utf8");
+}
+
+test("diff compares files in normal, unified and side-by-side formats", async () => {
+  const shell = await diffFixture();
+  const normal = await shell.executeCommand("diff a.txt b.txt");
+  assert.equal(normal.output, "2c2\n< two\n---\n> TWO\n3a4\n> four");
+  assert.equal(normal.exitCode, 1);
+
+  const unified = (await shell.executeCommand("diff -u a.txt b.txt")).output.split("\n");
+  assert.match(unified[0], /^--- a\.txt\t/);
+  assert.match(unified[1], /^\+\+\+ b\.txt\t/);
+  assert.deepEqual(unified.slice(2), ["@@ -1,3 +1,4 @@", " one", "-two", "+TWO", " three", "+four"]);
+
+  assert.equal((await shell.executeCommand("diff -y -W 30 a.txt b.txt")).output, "one             one\ntwo           | TWO\nthree           three\n              > four");
+  assert.equal((await shell.executeCommand("diff -q a.txt b.txt")).output, "Files a.txt and b.txt differ");
+  assert.equal((await shell.executeCommand("diff -s a.txt a.txt")).output, "Files a.txt and a.txt are identical");
+  assert.equal((await shell.executeCommand("diff -i a.txt b.txt | head -1")).output, "3a4");
+  assert.equal((await shell.executeCommand("diff a.txt missing.txt")).exitCode, 2);
+});
+
+test("patch applies a unified diff, reverses it and can dry-run", async () => {
+  const shell = await diffFixture();
+  await shell.executeCommand("diff -u a.txt b.txt > fix.patch; cp a.txt c.txt");
+
+  assert.equal((await shell.executeCommand("patch c.txt < fix.patch")).output, "patching file c.txt");
+  assert.equal(await contentOf(shell, "c.txt"), "one\nTWO\nthree\nfour\n");
+
+  assert.equal((await shell.executeCommand("patch -R c.txt < fix.patch")).exitCode, 0);
+  assert.equal(await contentOf(shell, "c.txt"), "one\ntwo\nthree\n");
+
+  assert.equal((await shell.executeCommand("patch --dry-run -i fix.patch")).output, "checking file a.txt");
+  assert.equal(await contentOf(shell, "a.txt"), "one\ntwo\nthree\n");
+
+  await shell.executeCommand("patch -b -i fix.patch");
+  assert.equal(await contentOf(shell, "a.txt"), "one\nTWO\nthree\nfour\n");
+  assert.equal(await contentOf(shell, "a.txt.orig"), "one\ntwo\nthree\n");
+});
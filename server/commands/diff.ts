@@ -0,0 +1,628 @@
+// diff, to compare files and directories in normal, context, unified or
+// side-by-side form, and patch, to apply the unified diffs it writes
+
+import { storage } from "../storage";
+import type { InputStream } from "../shell/io";
+import { diffLines, diffHunks, diffRows, hasChanges, isBinary, textLines, type DiffEdit, type DiffHunk, type TextLines } from "../shell/diff";
+import { basename } from "@shared/path";
+import type { CommandResult, FileSystemItem } from "@shared/schema";
+import type { TerminalProcessor } from "../terminal";
+import type { CommandDefinition } from "./registry";
+import { readInput, writeOutput, textResult, usageError } from "./text";
+import { parseOptions } from "./util";
+
+const category = 'Text Processing';
+
+export const diffCommands: CommandDefinition[] = [
+  {
+    name: 'diff',
+    usage: 'diff [-ucyrNqsiwb] [-U N] [-C N] [-W N] FILE1 FILE2',
+    description: 'Compare files line by line',
+    category,
+    flags: [
+      { flag: '-u, -U N, --unified[=N]', description: 'Unified format with N (3) lines of context' },
+      { flag: '-c, -C N, --context[=N]', description: 'Context format with N (3) lines of context' },
+      { flag: '-y, --side-by-side', description: 'Show the files in two columns' },
+      { flag: '-W N, --width=N', description: 'Make side-by-side output N (130) columns wide' },
+      { flag: '--suppress-common-lines', description: 'Leave out unchanged lines side by side' },
+      { flag: '-r, --recursive', description: 'Compare subdirectories too' },
+      { flag: '-N, --new-file', description: 'Treat missing files as empty' },
+      { flag: '-q, --brief', description: 'Only say whether files differ' },
+      { flag: '-s, --report-identical-files', description: 'Say when files are the same' },
+      { flag: '-i, --ignore-case', description: 'Ignore case differences' },
+      { flag: '-w, --ignore-all-space', description: 'Ignore all white space' },
+      { flag: '-b, --ignore-space-change', description: 'Ignore changes in the amount of white space' },
+    ],
+    handler: ({ shell, args, stdin }) => diff(shell, args, stdin),
+  },
+  {
+    name: 'patch',
+    usage: 'patch [-pN] [-R] [-N] [-b] [--dry-run] [-i PATCHFILE] [ORIGFILE [PATCHFILE]]',
+    description: 'Apply a unified diff to files',
+    category,
+    flags: [
+      { flag: '-p N, --strip=N', description: 'Strip N leading directories from file names' },
+      { flag: '-i FILE, --input=FILE', description: 'Read the patch from FILE instead of stdin' },
+      { flag: '-R, --reverse', description: 'Undo the patch' },
+      { flag: '-N, --forward', description: 'Skip patches that seem already applied' },
+      { flag: '-b, --backup', description: 'Keep each original as FILE.orig' },
+      { flag: '--dry-run', description: 'Report what would happen without changing files' },
+      { flag: '-s, --silent', description: 'Only report problems' },
+    ],
+    handler: ({ shell, args, stdin }) => patch(shell, args, stdin),
+  },
+];
+
+interface DiffOptions {
+  format: 'normal' | 'unified' | 'context' | 'side-by-side';
+  context: number;
+  width: number;
+  suppressCommon: boolean;
+  recursive: boolean;
+  newFile: boolean;
+  brief: boolean;
+  reportIdentical: boolean;
+  key: (line: string) => string;
+  // The options as typed, repeated in the "diff ..." line above each pair of
+  // files a directory comparison reports
+  typed: string[];
+}
+
+// A side of a comparison: a file or directory in storage, or stdin
+interface DiffSide {
+  name: string;
+  item?: FileSystemItem;
+  content?: string;
+}
+
+// GNU's timestamps: "2024-05-01 10:00:00.000000000 +0000" for unified
+// output, "Wed May  1 10:00:00 2024" for context
+function diffTimestamp(date: Date, unified: boolean): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  if (unified) {
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} `
+      + `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}.000000000 +0000`;
+  }
+  const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  return `${days[date.getUTCDay()]} ${months[date.getUTCMonth()]} ${String(date.getUTCDate()).padStart(2, ' ')} `
+    + `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} ${date.getUTCFullYear()}`;
+}
+
+const NO_NEWLINE = '\\ No newline at end of file';
+
+// Keys to compare lines by. A last line without a newline never matches one
+// with, so that diff reports the difference.
+function lineKeys(text: TextLines, key: (line: string) => string): string[] {
+  return text.lines.map((line, index) => key(line) + (index === text.lines.length - 1 && !text.finalNewline ? '\n' : ''));
+}
+
+// A hunk in unified form: its @@ header, then its lines marked " ", "-" or "+"
+function unifiedLines(hunk: DiffHunk, before: TextLines, after: TextLines): string[] {
+  const lines: string[] = [];
+  const range = (start: number, count: number) => count === 0 ? `${start},0` : count === 1 ? `${start + 1}` : `${start + 1},${count}`;
+  lines.push(`@@ -${range(hunk.oldStart, hunk.oldCount)} +${range(hunk.newStart, hunk.newCount)} @@`);
+  hunk.edits.forEach(edit => {
+    if (edit.kind === 'insert') {
+      lines.push('+' + after.lines[edit.newIndex]);
+      if (edit.newIndex === after.lines.length - 1 && !after.finalNewline) lines.push(NO_NEWLINE);
+    } else {
+      lines.push((edit.kind === 'equal' ? ' ' : '-') + before.lines[edit.oldIndex]);
+      if (edit.oldIndex === before.lines.length - 1 && !before.finalNewline) lines.push(NO_NEWLINE);
+    }
+  });
+  return lines;
+}
+
+function normalFormat(edits: DiffEdit[], before: TextLines, after: TextLines): string[] {
+  const output: string[] = [];
+  const range = (start: number, count: number) => count === 1 ? `${start + 1}` : `${start + 1},${start + count}`;
+  diffHunks(edits, 0).forEach(hunk => {
+    const command = hunk.oldCount === 0 ? 'a' : hunk.newCount === 0 ? 'd' : 'c';
+    const left = hunk.oldCount === 0 ? `${hunk.oldStart}` : range(hunk.oldStart, hunk.oldCount);
+    const right = hunk.newCount === 0 ? `${hunk.newStart}` : range(hunk.newStart, hunk.newCount);
+    output.push(`${left}${command}${right}`);
+    hunk.edits.filter(edit => edit.kind === 'delete').forEach(edit => {
+      output.push('< ' + before.lines[edit.oldIndex]);
+      if (edit.oldIndex === before.lines.length - 1 && !before.finalNewline) output.push(NO_NEWLINE);
+    });
+    if (command === 'c') output.push('---');
+    hunk.edits.filter(edit => edit.kind === 'insert').forEach(edit => {
+      output.push('> ' + after.lines[edit.newIndex]);
+      if (edit.newIndex === after.lines.length - 1 && !after.finalNewline) output.push(NO_NEWLINE);
+    });
+  });
+  return output;
+}
+
+function contextFormat(edits: DiffEdit[], before: TextLines, after: TextLines, context: number): string[] {
+  const output: string[] = [];
+  const range = (start: number, count: number) => count === 0 ? `${start}` : count === 1 ? `${start + 1}` : `${start + 1},${start + count}`;
+  diffHunks(edits, context).forEach(hunk => {
+    // A run of changes that both removes and adds lines is marked "!"
+    const marks = new Map<DiffEdit, string>();
+    for (let i = 0; i < hunk.edits.length;) {
+      if (hunk.edits[i].kind === 'equal') {
+        i++;
+        continue;
+      }
+      let end = i;
+      while (end < hunk.edits.length && hunk.edits[end].kind !== 'equal') end++;
+      const run = hunk.edits.slice(i, end);
+      const changed = run.some(edit => edit.kind === 'delete') && run.some(edit => edit.kind === 'insert');
+      run.forEach(edit => marks.set(edit, changed ? '! ' : edit.kind === 'delete' ? '- ' : '+ '));
+      i = end;
+    }
+
+    output.push('***************');
+    output.push(`*** ${range(hunk.oldStart, hunk.oldCount)} ****`);
+    if (hunk.edits.some(edit => edit.kind === 'delete')) {
+      hunk.edits.filter(edit => edit.kind !== 'insert').forEach(edit => {
+        output.push((marks.get(edit) ?? '  ') + before.lines[edit.oldIndex]);
+        if (edit.oldIndex === before.lines.length - 1 && !before.finalNewline) output.push(NO_NEWLINE);
+      });
+    }
+    output.push(`--- ${range(hunk.newStart, hunk.newCount)} ----`);
+    if (hunk.edits.some(edit => edit.kind === 'insert')) {
+      hunk.edits.filter(edit => edit.kind !== 'delete').forEach(edit => {
+        output.push((marks.get(edit) ?? '  ') + after.lines[edit.newIndex]);
+        if (edit.newIndex === after.lines.length - 1 && !after.finalNewline) output.push(NO_NEWLINE);
+      });
+    }
+  });
+  return output;
+}
+
+// Two columns split by a gutter: "|" for changed lines, "<" and ">" for
+// lines only one side has
+function sideBySideFormat(edits: DiffEdit[], before: TextLines, after: TextLines, options: DiffOptions): string[] {
+  const column = Math.max(1, Math.floor((options.width - 3) / 2));
+  const fit = (text: string) => text.replace(/\t/g, '        ').substring(0, column);
+  return diffRows(edits)
+    .filter(row => !(options.suppressCommon && row.kind === 'same'))
+    .map(row => {
+      const left = row.oldIndex === undefined || row.kind === 'added' ? '' : fit(before.lines[row.oldIndex]);
+      const right = row.newIndex === undefined || row.kind === 'removed' ? '' : fit(after.lines[row.newIndex]);
+      const gutter = row.kind === 'same' ? ' ' : row.kind === 'changed' ? '|' : row.kind === 'removed' ? '<' : '>';
+      return `${left.padEnd(column)} ${gutter} ${right}`.replace(/\s+$/, '');
+    });
+}
+
+// A name inside a directory, relative if the directory's name was
+function childName(directory: string, name: string): string {
+  return `${directory.replace(/\/+$/, '')}/${name}`;
+}
+
+async function loadSide(shell: TerminalProcessor, name: string, stdin?: InputStream): Promise<DiffSide> {
+  if (name === '-') return { name, content: stdin?.read() ?? '' };
+  const item = await storage.getFileSystemItem(shell.owner, shell.resolvePath(name));
+  return { name, item, content: item?.type === 'file' ? item.content?.toString('utf8') ?? '' : undefined };
+}
+
+class DiffRunner {
+  output: string[] = [];
+  errors: string[] = [];
+  status = 0;
+
+  constructor(private readonly shell: TerminalProcessor, private readonly options: DiffOptions) {}
+
+  private different() {
+    this.status = Math.max(this.status, 1);
+  }
+
+  compareFiles(from: DiffSide, to: DiffSide, header: boolean) {
+    const oldText = from.content ?? '';
+    const newText = to.content ?? '';
+    if (oldText === newText) {
+      if (this.options.reportIdentical) this.output.push(`Files ${from.name} and ${to.name} are identical`);
+      return;
+    }
+
+    if (isBinary(oldText) || isBinary(newText) || this.options.brief) {
+      const before = textLines(oldText);
+      const after = textLines(newText);
+      // Differences the options ignore don't count
+      if (!hasChanges(diffLines(lineKeys(before, this.options.key), lineKeys(after, this.options.key)))) return;
+      this.output.push(isBinary(oldText) || isBinary(newText) ? `Binary files ${from.name} and ${to.name} differ` : `Files ${from.name} and ${to.name} differ`);
+      this.different();
+      return;
+    }
+
+    const before = textLines(oldText);
+    const after = textLines(newText);
+    const edits = diffLines(lineKeys(before, this.options.key), lineKeys(after, this.options.key));
+    if (!hasChanges(edits)) {
+      if (this.options.reportIdentical) this.output.push(`Files ${from.name} and ${to.name} are identical`);
+      return;
+    }
+    this.different();
+
+    if (header) this.output.push(['diff'].concat(this.options.typed, [from.name, to.name]).join(' '));
+    // A file -N treats as empty is dated at the epoch, which tells patch to
+    // create or remove it
+    const time = (side: DiffSide, unified: boolean) => diffTimestamp(
+      side.item ? new Date(side.item.updatedAt) : side.content === undefined ? new Date(0) : new Date(), unified);
+    switch (this.options.format) {
+      case 'unified':
+        this.output.push(`--- ${from.name}\t${time(from, true)}`, `+++ ${to.name}\t${time(to, true)}`);
+        diffHunks(edits, this.options.context).forEach(hunk => this.output.push(...unifiedLines(hunk, before, after)));
+        break;
+      case 'context':
+        this.output.push(`*** ${from.name}\t${time(from, false)}`, `--- ${to.name}\t${time(to, false)}`);
+        this.output.push(...contextFormat(edits, before, after, this.options.context));
+        break;
+      case 'side-by-side':
+        this.output.push(...sideBySideFormat(edits, before, after, this.options));
+        break;
+      default:
+        this.output.push(...normalFormat(edits, before, after));
+    }
+  }
+
+  // Compares two directories entry by entry, descending into common
+  // subdirectories with -r
+  async compareDirectories(from: DiffSide, to: DiffSide) {
+    const oldEntries = await storage.getDirectoryContents(this.shell.owner, from.item!.path);
+    const newEntries = await storage.getDirectoryContents(this.shell.owner, to.item!.path);
+    const names = Array.from(new Set(oldEntries.map(item => item.name).concat(newEntries.map(item => item.name)))).sort();
+
+    for (const name of names) {
+      const oldItem = oldEntries.find(item => item.name === name);
+      const newItem = newEntries.find(item => item.name === name);
+      const oldSide: DiffSide = { name: childName(from.name, name), item: oldItem, content: oldItem?.content?.toString('utf8') };
+      const newSide: DiffSide = { name: childName(to.name, name), item: newItem, content: newItem?.content?.toString('utf8') };
+
+      if (!oldItem || !newItem) {
+        const present = (oldItem ?? newItem)!;
+        if (this.options.newFile && present.type === 'file') {
+          this.compareFiles(oldSide, newSide, true);
+        } else {
+          this.output.push(`Only in ${oldItem ? from.name : to.name}: ${name}`);
+          this.different();
+        }
+      } else if (oldItem.type === 'directory' && newItem.type === 'directory') {
+        if (this.options.recursive) await this.compareDirectories(oldSide, newSide);
+        else this.output.push(`Common subdirectories: ${oldSide.name} and ${newSide.name}`);
+      } else if (oldItem.type !== newItem.type) {
+        const kind = (item: FileSystemItem) => item.type === 'directory' ? 'directory' : 'regular file';
+        this.output.push(`File ${oldSide.name} is a ${kind(oldItem)} while file ${newSide.name} is a ${kind(newItem)}`);
+        this.different();
+      } else {
+        this.compareFiles(oldSide, newSide, true);
+      }
+    }
+  }
+}
+
+async function diff(shell: TerminalProcessor, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  // --unified and --context take an optional count, which parseOptions can't
+  const normalized = args.map(arg => arg.replace(/^--unified=/, '-U').replace(/^--context=/, '-C'));
+  const { flags, values, operands, invalid } = parseOptions(normalized, 'ucyrNqsiwbU:C:W:', {
+    unified: 'u', context: 'c', 'side-by-side': 'y', width: 'W', recursive: 'r', 'new-file': 'N', brief: 'q',
+    'report-identical-files': 's', 'ignore-case': 'i', 'ignore-all-space': 'w', 'ignore-space-change': 'b',
+    'suppress-common-lines': 'S',
+  });
+  if (invalid) return usageError(shell, 'diff', invalid, 2);
+  for (const option of ['U', 'C', 'W']) {
+    if (values[option] !== undefined && !/^\d+$/.test(values[option])) {
+      return usageError(shell, 'diff', `invalid ${option === 'W' ? 'width' : 'context length'} '${values[option]}'`, 2);
+    }
+  }
+  if (operands.length !== 2) {
+    return usageError(shell, 'diff', operands.length < 2 ? `missing operand after '${operands[operands.length - 1] ?? 'diff'}'` : `extra operand '${operands[2]}'`, 2);
+  }
+
+  const ignoreCase = flags.has('i');
+  const options: DiffOptions = {
+    format: flags.has('u') || flags.has('U') ? 'unified' : flags.has('c') || flags.has('C') ? 'context' : flags.has('y') ? 'side-by-side' : 'normal',
+    context: parseInt(values.U ?? values.C ?? '3', 10),
+    width: parseInt(values.W ?? '130', 10),
+    suppressCommon: flags.has('S'),
+    recursive: flags.has('r'),
+    newFile: flags.has('N'),
+    brief: flags.has('q'),
+    reportIdentical: flags.has('s'),
+    key: line => {
+      let key = ignoreCase ? line.toLowerCase() : line;
+      if (flags.has('w')) key = key.replace(/[ \t\r\f\v]+/g, '');
+      else if (flags.has('b')) key = key.replace(/[ \t\r\f\v]+/g, ' ').replace(/ $/, '');
+      return key;
+    },
+    typed: args.filter(arg => arg.startsWith('-') && arg !== '-' && operands.indexOf(arg) === -1),
+  };
+
+  const runner = new DiffRunner(shell, options);
+  let from = await loadSide(shell, operands[0], stdin);
+  let to = await loadSide(shell, operands[1], stdin);
+
+  // A file compared with a directory is compared with its namesake there
+  if (from.item?.type === 'directory' && to.item?.type === 'file') {
+    from = await loadSide(shell, childName(from.name, basename(to.name)));
+  } else if (to.item?.type === 'directory' && from.item?.type === 'file') {
+    to = await loadSide(shell, childName(to.name, basename(from.name)));
+  }
+
+  for (const side of [from, to]) {
+    if (side.name !== '-' && !side.item && !options.newFile) {
+      return textResult(shell, '', [`diff: ${side.name}: No such file or directory`], 2);
+    }
+  }
+  if (from.item?.type === 'directory' && to.item?.type === 'directory') {
+    await runner.compareDirectories(from, to);
+  } else if (from.item?.type === 'directory' || to.item?.type === 'directory') {
+    return textResult(shell, '', [`diff: ${(from.item?.type === 'directory' ? to : from).name}: No such file or directory`], 2);
+  } else {
+    runner.compareFiles(from, to, false);
+  }
+
+  return textResult(shell, runner.output.join('\n'), runner.errors, runner.errors.length > 0 ? 2 : runner.status);
+}
+
+// A hunk of a unified diff as patch reads it
+interface PatchHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  lines: { kind: ' ' | '-' | '+'; text: string }[];
+  // Whether the last line of either side lacks its newline
+  oldNoNewline: boolean;
+  newNoNewline: boolean;
+}
+
+interface FilePatch {
+  oldName: string;
+  newName: string;
+  // The patch line the file's header is on, for messages
+  line: number;
+  hunks: PatchHunk[];
+}
+
+class PatchError extends Error {}
+
+// A file name from a "---" or "+++" line, without the timestamp after it.
+// A file dated at the epoch doesn't exist on that side, like /dev/null.
+function patchFileName(text: string): string {
+  const timestamp = /(\t|\s+(?=\d{4}-\d\d-\d\d \d\d:\d\d:\d\d))(.*)$/.exec(text);
+  if (timestamp && /^(1970-01-01 00:00:00|Thu Jan  1 00:00:00 1970)/.test(timestamp[2])) return '/dev/null';
+  return (timestamp ? text.substring(0, timestamp.index) : text).trim();
+}
+
+function parsePatch(text: string): FilePatch[] {
+  const lines = textLines(text).lines;
+  const patches: FilePatch[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (!(lines[i].startsWith('--- ') && lines[i + 1]?.startsWith('+++ '))) {
+      i++;
+      continue;
+    }
+    const patch: FilePatch = { oldName: patchFileName(lines[i].substring(4)), newName: patchFileName(lines[i + 1].substring(4)), line: i + 1, hunks: [] };
+    i += 2;
+
+    for (let header = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(lines[i] ?? ''); header; header = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(lines[i] ?? '')) {
+      const hunk: PatchHunk = {
+        oldStart: parseInt(header[1], 10),
+        oldCount: header[2] === undefined ? 1 : parseInt(header[2], 10),
+        newStart: parseInt(header[3], 10),
+        newCount: header[4] === undefined ? 1 : parseInt(header[4], 10),
+        lines: [],
+        oldNoNewline: false,
+        newNoNewline: false,
+      };
+      i++;
+      let oldSeen = 0;
+      let newSeen = 0;
+      while (oldSeen < hunk.oldCount || newSeen < hunk.newCount || lines[i]?.startsWith('\\')) {
+        const line = lines[i];
+        if (line === undefined) throw new PatchError(`unexpected end of file in patch`);
+        // Some editors strip the space off blank context lines
+        const kind = line === '' ? ' ' : line[0];
+        if (kind === '\\') {
+          const previous = hunk.lines[hunk.lines.length - 1];
+          if (previous?.kind !== '+') hunk.oldNoNewline = true;
+          if (previous?.kind !== '-') hunk.newNoNewline = true;
+        } else if (kind === ' ' || kind === '-' || kind === '+') {
+          hunk.lines.push({ kind, text: line.substring(1) });
+          if (kind !== '+') oldSeen++;
+          if (kind !== '-') newSeen++;
+        } else {
+          throw new PatchError(`malformed patch at line ${i + 1}: ${line}`);
+        }
+        i++;
+      }
+      patch.hunks.push(hunk);
+    }
+    patches.push(patch);
+  }
+  return patches;
+}
+
+function reverseHunk(hunk: PatchHunk): PatchHunk {
+  return {
+    oldStart: hunk.newStart,
+    oldCount: hunk.newCount,
+    newStart: hunk.oldStart,
+    newCount: hunk.oldCount,
+    lines: hunk.lines.map(line => ({ kind: line.kind === '-' ? '+' : line.kind === '+' ? '-' : ' ', text: line.text })),
+    oldNoNewline: hunk.newNoNewline,
+    newNoNewline: hunk.oldNoNewline,
+  };
+}
+
+// Where a hunk's old lines appear, trying where it says first and then
+// further and further away, but never before from
+function locateHunk(lines: string[], old: string[], expected: number, from: number): number | undefined {
+  const fits = (position: number) => position >= from && position + old.length <= lines.length
+    && old.every((line, index) => lines[position + index] === line);
+  for (let distance = 0; distance <= lines.length; distance++) {
+    if (fits(expected - distance)) return expected - distance;
+    if (distance > 0 && fits(expected + distance)) return expected + distance;
+  }
+  return undefined;
+}
+
+function rejectText(patch: FilePatch, hunks: PatchHunk[]): string {
+  const lines = [`--- ${patch.oldName}`, `+++ ${patch.newName}`];
+  hunks.forEach(hunk => {
+    const range = (start: number, count: number) => count === 1 ? `${start}` : `${start},${count}`;
+    lines.push(`@@ -${range(hunk.oldStart, hunk.oldCount)} +${range(hunk.newStart, hunk.newCount)} @@`);
+    hunk.lines.forEach(line => lines.push(line.kind + line.text));
+  });
+  return lines.join('\n') + '\n';
+}
+
+// Drops count leading directories from a name, or all of them without -p
+function stripName(name: string, count: number | undefined): string | undefined {
+  if (count === undefined) return basename(name);
+  const parts = name.split(/\/+/);
+  return count < parts.length ? parts.slice(count).join('/') : undefined;
+}
+
+async function patch(shell: TerminalProcessor, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  const { flags, values, operands, invalid } = parseOptions(args, 'p:i:RNbsCd:', {
+    strip: 'p', input: 'i', reverse: 'R', forward: 'N', backup: 'b', silent: 's', quiet: 's', 'dry-run': 'C', check: 'C', directory: 'd',
+  });
+  if (invalid) return usageError(shell, 'patch', invalid, 2);
+  if (values.p !== undefined && !/^\d+$/.test(values.p)) return shell.failure(`patch: strip count ${values.p} is not a number`, 2);
+  if (operands.length > 2) return usageError(shell, 'patch', `extra operand '${operands[2]}'`, 2);
+  const strip = values.p === undefined ? undefined : parseInt(values.p, 10);
+  const dryRun = flags.has('C');
+  const directory = values.d;
+
+  const source = values.i ?? operands[1] ?? '-';
+  const input = await readInput(shell, 'patch', source, stdin);
+  if ('error' in input) return shell.failure(`patch: **** Can't open patch file ${source} : No such file or directory`, 2);
+
+  let patches: FilePatch[];
+  try {
+    patches = parsePatch(input.content);
+  } catch (error) {
+    if (!(error instanceof PatchError)) throw error;
+    return shell.failure(`patch: **** ${error.message}`, 2);
+  }
+  if (patches.length === 0) return shell.failure('patch: **** Only garbage was found in the patch input.', 2);
+
+  const output: string[] = [];
+  const errors: string[] = [];
+  let status = 0;
+  const report = (line: string) => {
+    if (!flags.has('s')) output.push(line);
+  };
+
+  for (const filePatch of patches) {
+    const reverse = flags.has('R');
+    const hunks = reverse ? filePatch.hunks.map(reverseHunk) : filePatch.hunks;
+    const oldName = reverse ? filePatch.newName : filePatch.oldName;
+    const newName = reverse ? filePatch.oldName : filePatch.newName;
+    const creating = oldName === '/dev/null';
+    const deleting = newName === '/dev/null';
+
+    // An ORIGFILE operand names the file, else the patch does
+    let target = operands[0];
+    if (target === undefined) {
+      const candidates = [creating ? undefined : stripName(oldName, strip), deleting ? undefined : stripName(newName, strip)]
+        .filter((name): name is string => name !== undefined)
+        .map(name => directory === undefined ? name : childName(directory, name));
+      for (const candidate of candidates.slice().reverse()) {
+        if (await storage.getFileSystemItem(shell.owner, shell.resolvePath(candidate))) target = candidate;
+      }
+      target = target ?? (creating ? candidates[candidates.length - 1] : undefined);
+    }
+    const ignoreAll = (why: string[]) => {
+      why.forEach(line => output.push(line));
+      output.push(`${hunks.length} out of ${hunks.length} hunk${hunks.length === 1 ? '' : 's'} ignored`);
+      status = Math.max(status, 1);
+    };
+    if (target === undefined) {
+      ignoreAll([`can't find file to patch at input line ${filePatch.line}`, 'No file to patch.  Skipping patch.']);
+      continue;
+    }
+
+    const existing = await storage.getFileSystemItem(shell.owner, shell.resolvePath(target));
+    if (existing?.type === 'directory') {
+      errors.push(`patch: **** ${target}: Is a directory`);
+      status = 2;
+      continue;
+    }
+    if (!existing && !creating) {
+      ignoreAll([`can't find file to patch at input line ${filePatch.line}`, 'No file to patch.  Skipping patch.']);
+      continue;
+    }
+    const original = existing?.content?.toString('utf8') ?? '';
+    if (creating && original !== '') {
+      ignoreAll([`The next patch would create the file ${target},`, 'which already exists!  Skipping patch.']);
+      continue;
+    }
+
+    report(`${dryRun ? 'checking' : 'patching'} file ${target}`);
+    const text = textLines(original);
+    const lines = text.lines.slice();
+    let finalNewline = text.finalNewline;
+    const rejected: PatchHunk[] = [];
+    // Set when the patch turns out to be in already
+    let skipped = false;
+    // How far applied hunks have moved the lines after them
+    let shift = 0;
+    let offset = 0;
+    let from = 0;
+
+    hunks.forEach((hunk, index) => {
+      if (skipped) return;
+      const old = hunk.lines.filter(line => line.kind !== '+').map(line => line.text);
+      const replacement = hunk.lines.filter(line => line.kind !== '-').map(line => line.text);
+      // An empty old side means "after line oldStart"
+      const start = hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1;
+      const position = locateHunk(lines, old, start + shift + offset, from);
+      if (position === undefined) {
+        // A first hunk that fits backwards means the patch is already in
+        if (index === 0 && !flags.has('R') && old.join('\n') !== replacement.join('\n')
+          && locateHunk(lines, replacement, start, 0) !== undefined) {
+          skipped = true;
+          output.push('Reversed (or previously applied) patch detected!  Skipping patch.');
+          return;
+        }
+        output.push(`Hunk #${index + 1} FAILED at ${hunk.oldStart}.`);
+        rejected.push(hunk);
+        return;
+      }
+
+      offset = position - (start + shift);
+      if (offset !== 0) {
+        report(`Hunk #${index + 1} succeeded at ${position + 1} (offset ${offset} line${Math.abs(offset) === 1 ? '' : 's'}).`);
+      }
+      const atEnd = position + old.length === lines.length;
+      lines.splice(position, old.length, ...replacement);
+      if (atEnd && (hunk.newNoNewline || hunk.oldNoNewline)) finalNewline = !hunk.newNoNewline;
+      shift += replacement.length - old.length;
+      from = position + replacement.length;
+    });
+
+    if (skipped) rejected.splice(0, rejected.length, ...hunks);
+    if (rejected.length > 0) {
+      const rejectName = `${target}.rej`;
+      output.push(`${rejected.length} out of ${hunks.length} hunk${hunks.length === 1 ? '' : 's'} ${skipped ? 'ignored' : 'FAILED'} -- saving rejects to file ${rejectName}`);
+      if (!dryRun) {
+        const error = await writeOutput(shell, 'patch', rejectName, rejectText(filePatch, rejected));
+        if (error) errors.push(error);
+      }
+      status = Math.max(status, 1);
+      if (skipped) continue;
+    }
+    if (dryRun) continue;
+
+    if (flags.has('b') && existing) {
+      const error = await writeOutput(shell, 'patch', `${target}.orig`, original);
+      if (error) errors.push(error);
+    }
+    if (deleting && lines.length === 0) {
+      await storage.deleteFileSystemItem(shell.owner, shell.resolvePath(target));
+      continue;
+    }
+    const content = lines.length === 0 ? '' : lines.join('\n') + (finalNewline ? '\n' : '');
+    const error = await writeOutput(shell, 'patch', target, content);
+    if (error) errors.push(error);
+  }
+
+  return textResult(shell, output.join('\n'), errors, errors.length > 0 ? 2 : status);
+}
@@ -0,0 +1,26 @@
+// Text editors. There is no full-screen editing in the terminal yet, so
+// opening a file only reports what would happen.
+
+import type { CommandResult } from "@shared/schema";
+import type { TerminalProcessor } from "../terminal";
+import type { CommandDefinition } from "./registry";
+
+export const editorCommands: CommandDefinition[] = [
+  {
+    name: 'nano',
+    aliases: ['vim', 'vi'],
+    usage: 'nano [FILE]',
+    description: 'Text editors',
+    category: 'Text Editors',
+    handler: ({ shell, name, args }) => openEditor(shell, name, args),
+  },
+];
+
+async function openEditor(shell: TerminalProcessor, editor: string, args: string[]): Promise<CommandResult> {
+  const filename = args[0] || 'newfile.txt';
+  const output = `Opening ${filename} with ${editor}...
+${editor}: Editor simulation - file opened successfully.
+Use Ctrl+X to exit (nano) or :q to quit (vim).`;
+
+  return { output, currentDirectory: shell.currentDirectory, success: true };
+}
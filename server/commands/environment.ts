@@ -0,0 +1,268 @@
+// Builtins for shell variables, the environment, aliases and command history
+
+import type { InputStream } from "../shell/io";
+import type { CommandResult } from "@shared/schema";
+import type { TerminalProcessor } from "../terminal";
+import type { CommandDefinition } from "./registry";
+import { lookup } from "./util";
+
+const category = 'Environment';
+
+export const environmentCommands: CommandDefinition[] = [
+  {
+    name: 'export',
+    usage: 'export [-p] [NAME[=VALUE]...]',
+    description: 'Set environment variables',
+    category,
+    builtin: true,
+    flags: [
+      { flag: '-p', description: 'List exported variables' },
+    ],
+    handler: ({ shell, args }) => exportVariables(shell, args),
+  },
+  {
+    name: 'unset',
+    usage: 'unset [-v] NAME...',
+    description: 'Remove variables',
+    category,
+    builtin: true,
+    handler: ({ shell, args }) => unsetVariables(shell, args),
+  },
+  {
+    name: 'env',
+    usage: 'env [NAME=VALUE...] [COMMAND [ARG...]]',
+    description: 'Show or modify the environment',
+    category,
+    handler: ({ shell, name, args, stdin }) => printEnvironment(shell, name, args, stdin),
+  },
+  {
+    name: 'printenv',
+    usage: 'printenv [NAME...]',
+    description: 'Print environment variables',
+    category,
+    handler: ({ shell, name, args, stdin }) => printEnvironment(shell, name, args, stdin),
+  },
+  {
+    name: 'alias',
+    usage: 'alias [-p] [NAME[=VALUE]...]',
+    description: 'Define or list command aliases',
+    category,
+    builtin: true,
+    handler: ({ shell, args }) => defineAliases(shell, args),
+  },
+  {
+    name: 'unalias',
+    usage: 'unalias [-a] NAME...',
+    description: 'Remove aliases',
+    category,
+    builtin: true,
+    flags: [
+      { flag: '-a', description: 'Remove every alias' },
+    ],
+    handler: ({ shell, args }) => removeAliases(shell, args),
+  },
+  {
+    name: 'source',
+    aliases: ['.'],
+    usage: 'source FILE [ARG...]',
+    description: 'Run a file in the current shell',
+    category,
+    builtin: true,
+    handler: ({ shell, name, args, stdin }) => shell.sourceFile(name, args, stdin),
+  },
+  {
+    name: 'history',
+    usage: 'history [-c] [-d OFFSET] [N]',
+    description: 'Show or edit the command history',
+    category,
+    builtin: true,
+    flags: [
+      { flag: '-c', description: 'Clear the history' },
+      { flag: '-d OFFSET', description: 'Delete the entry at OFFSET; a negative OFFSET counts back from the end' },
+    ],
+    handler: ({ shell, args }) => showHistory(shell, args),
+  },
+];
+
+function exportVariables(shell: TerminalProcessor, args: string[]): CommandResult {
+  const names = args.filter(arg => arg !== '-p');
+  if (names.length === 0) {
+    const output = Object.keys(shell.environment).sort()
+      .map(name => `declare -x ${name}="${shell.environment[name].replace(/(["\\$`])/g, '\\$1')}"`)
+      .join('\n');
+    return { output, currentDirectory: shell.currentDirectory, success: true };
+  }
+
+  const errors: string[] = [];
+  names.forEach(arg => {
+    const separator = arg.indexOf('=');
+    const name = separator === -1 ? arg : arg.substring(0, separator);
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+      errors.push(`export: \`${arg}': not a valid identifier`);
+    } else if (separator !== -1) {
+      shell.environment[name] = arg.substring(separator + 1);
+    }
+  });
+
+  return { 
+    output: errors.join('\n'), 
+    error: errors[0],
+    currentDirectory: shell.currentDirectory, 
+    success: errors.length === 0 
+  };
+}
+
+function unsetVariables(shell: TerminalProcessor, args: string[]): CommandResult {
+  args.filter(arg => arg !== '-v').forEach(name => { delete shell.environment[name]; });
+  return { output: "", currentDirectory: shell.currentDirectory, success: true };
+}
+
+// env prints the environment or runs a command with extra NAME=value
+// settings; printenv prints everything or just the named variables
+async function printEnvironment(shell: TerminalProcessor, cmd: string, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  const listing = () => Object.keys(shell.environment).map(name => `${name}=${shell.environment[name]}`).join('\n');
+
+  if (cmd === 'printenv' && args.length > 0) {
+    const values = args.filter(name => name in shell.environment).map(name => shell.environment[name]);
+    return { output: values.join('\n'), currentDirectory: shell.currentDirectory, success: values.length === args.length, exitCode: values.length === args.length ? 0 : 1 };
+  }
+  if (cmd === 'printenv') {
+    return { output: listing(), currentDirectory: shell.currentDirectory, success: true };
+  }
+
+  const assignments: { name: string; value: string }[] = [];
+  let index = 0;
+  while (index < args.length && /^[a-zA-Z_][a-zA-Z0-9_]*=/.test(args[index])) {
+    const separator = args[index].indexOf('=');
+    assignments.push({ name: args[index].substring(0, separator), value: args[index].substring(separator + 1) });
+    index++;
+  }
+  const command = args.slice(index);
+  return shell.withVariables(assignments, async () => command.length > 0
+    ? await shell.runCommand(command[0], command.slice(1), stdin)
+    : { output: listing(), currentDirectory: shell.currentDirectory, success: true });
+}
+
+// alias lists aliases, alias name shows one and alias name=value defines it
+function defineAliases(shell: TerminalProcessor, args: string[]): CommandResult {
+  const show = (name: string) => `alias ${name}='${shell.aliases[name].replace(/'/g, "'\\''")}'`;
+  const names = args.filter(arg => arg !== '-p');
+  if (names.length === 0) {
+    return { output: Object.keys(shell.aliases).sort().map(show).join('\n'), currentDirectory: shell.currentDirectory, success: true };
+  }
+
+  const lines: string[] = [];
+  const errors: string[] = [];
+  names.forEach(arg => {
+    const separator = arg.indexOf('=');
+    const name = separator === -1 ? arg : arg.substring(0, separator);
+    if (separator === -1) {
+      if (lookup(shell.aliases, name) === undefined) {
+        errors.push(`alias: ${name}: not found`);
+      } else {
+        lines.push(show(name));
+      }
+    } else if (!/^[^\s\/$`=\\'"|&;()<>]+$/.test(name)) {
+      errors.push(`alias: \`${name}': invalid alias name`);
+    } else {
+      shell.aliases[name] = arg.substring(separator + 1);
+    }
+  });
+
+  return { 
+    output: lines.join('\n'), 
+    stderr: errors.join('\n'),
+    error: errors[0],
+    currentDirectory: shell.currentDirectory, 
+    success: errors.length === 0 
+  };
+}
+
+function removeAliases(shell: TerminalProcessor, args: string[]): CommandResult {
+  if (args.includes('-a')) {
+    shell.aliases = {};
+    return { output: "", currentDirectory: shell.currentDirectory, success: true };
+  }
+  if (args.length === 0) {
+    return shell.failure('unalias: usage: unalias [-a] name [name ...]', 2);
+  }
+
+  const errors: string[] = [];
+  args.forEach(name => {
+    if (lookup(shell.aliases, name) === undefined) {
+      errors.push(`unalias: ${name}: not found`);
+    } else {
+      delete shell.aliases[name];
+    }
+  });
+  return { 
+    output: "", 
+    stderr: errors.join('\n'),
+    error: errors[0],
+    currentDirectory: shell.currentDirectory, 
+    success: errors.length === 0 
+  };
+}
+
+// Lists the history numbered from 1, as !N refers to it, or just the last N
+// entries. Changes are written straight through to HISTFILE.
+async function showHistory(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  const usage = 'history: usage: history [-c] [-d offset] [n]';
+  let clear = false;
+  let offset: string | undefined;
+  let index = 0;
+  for (; index < args.length && args[index].startsWith('-') && args[index] !== '-'; index++) {
+    const arg = args[index];
+    if (arg === '--') {
+      index++;
+      break;
+    }
+    for (let position = 1; position < arg.length; position++) {
+      const letter = arg[position];
+      if (letter === 'c') {
+        clear = true;
+      } else if (letter === 'd') {
+        offset = position + 1 < arg.length ? arg.substring(position + 1) : args[++index];
+        if (offset === undefined) {
+          return shell.failure(`history: -d: option requires an argument\n${usage}`, 2);
+        }
+        break;
+      } else {
+        return shell.failure(`history: -${letter}: invalid option\n${usage}`, 2);
+      }
+    }
+  }
+  const operands = args.slice(index);
+
+  if (clear) {
+    shell.history = [];
+    await shell.saveHistory();
+    return { output: "", currentDirectory: shell.currentDirectory, success: true };
+  }
+
+  if (offset !== undefined) {
+    if (operands.length > 0) {
+      return shell.failure('history: too many arguments');
+    }
+    const position = /^-?\d+$/.test(offset) ? parseInt(offset, 10) : NaN;
+    const entry = position < 0 ? shell.history.length + position : position - 1;
+    if (isNaN(entry) || entry < 0 || entry >= shell.history.length) {
+      return shell.failure(`history: ${offset}: history position out of range`);
+    }
+    shell.history = shell.history.filter((_, other) => other !== entry);
+    await shell.saveHistory();
+    return { output: "", currentDirectory: shell.currentDirectory, success: true };
+  }
+
+  if (operands.length > 1) {
+    return shell.failure('history: too many arguments');
+  }
+  if (operands.length === 1 && !/^\d+$/.test(operands[0])) {
+    return shell.failure(`history: ${operands[0]}: numeric argument required`);
+  }
+
+  const count = operands.length === 1 ? parseInt(operands[0], 10) : shell.commandHistory.length;
+  const first = Math.max(0, shell.commandHistory.length - count);
+  const lines = shell.commandHistory.slice(first).map((entry, index) => `${String(first + index + 1).padStart(5)}  ${entry}`);
+  return { output: lines.join('\n'), currentDirectory: shell.currentDirectory, success: true };
+}
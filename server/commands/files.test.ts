@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TerminalProcessor } from "../terminal";
+import { newShell, writeFile } from "../testing";
+
+async function findFixture(): Promise<TerminalProcessor> {
+  const shell = await newShell();
+  await shell.executeCommand("mkdir -p tree/src/deep tree/build tree/empty");
+  await writeFile(shell, "tree/README.md", "# readme\n");
+  await writeFile(shell, "tree/src/App.ts", "x".repeat(2048));
+  await writeFile(shell, "tree/src/deep/util.ts", "y\n");
+  await writeFile(shell, "tree/build/out.js", "");
+  await shell.executeCommand("chmod 755 tree/build/out.js");
+  return shell;
+}
+
+test("find walks the tree and tests names, types, sizes and permissions", async () => {
+  const shell = await findFixture();
+  assert.equal((await shell.executeCommand("find tree -name '*.ts'")).output, "tree/src/App.ts\ntree/src/deep/util.ts");
+  assert.equal((await shell.executeCommand("find tree -iname 'app*'")).output, "tree/src/App.ts");
+  assert.equal((await shell.executeCommand("find tree -type d -empty")).output, "tree/empty");
+  assert.equal((await shell.executeCommand("find tree -type f -size +1k")).output, "tree/src/App.ts");
+  assert.equal((await shell.executeCommand("find tree -perm -111 -type f")).output, "tree/build/out.js");
+  assert.equal((await shell.executeCommand("find tree -path '*/deep/*'")).output, "tree/src/deep/util.ts");
+  assert.equal((await shell.executeCommand("find tree -mindepth 2 -maxdepth 2 -type f")).output, "tree/build/out.js\ntree/src/App.ts");
+  assert.equal((await shell.executeCommand("find tree -mmin -5 -name README.md")).output, "tree/README.md");
+
+  const missing = await shell.executeCommand("find nowhere");
+  assert.equal(missing.exitCode, 1);
+  assert.equal(missing.stderr, "find: 'nowhere': No such file or directory");
+});
+
+test("find combines tests with operators and runs actions", async () => {
+  const shell = await findFixture();
+  assert.equal((await shell.executeCommand("find tree \\( -name '*.md' -o -name '*.js' \\) -type f")).output, "tree/build/out.js\ntree/README.md");
+  assert.equal((await shell.executeCommand("find tree ! -type d ! -name '*.ts'")).output, "tree/build/out.js\ntree/README.md");
+  assert.equal((await shell.executeCommand("find tree -name src -prune -o -type f -print")).output, "tree/build/out.js\ntree/README.md");
+  assert.equal((await shell.executeCommand("find tree -name '*.ts' -exec wc -c {} \\;")).output, "2048 tree/src/App.ts\n2 tree/src/deep/util.ts");
+  assert.equal((await shell.executeCommand("find tree -name '*.ts' -exec echo {} +")).output, "tree/src/App.ts tree/src/deep/util.ts");
+
+  await shell.executeCommand("find tree/build -type f -delete");
+  assert.equal((await shell.executeCommand("find tree/build")).output, "tree/build");
+  assert.equal((await shell.executeCommand("find tree -bogus")).exitCode, 1);
+});
@@ -0,0 +1,1162 @@
+// Commands that work on the session's virtual file system
+
+import { storage } from "../storage";
+import { resultStreams, exitStatus, writtenOutput, type InputStream } from "../shell/io";
+import { globToRegExp } from "../shell/glob";
+import { joinPath, isSameOrInside, basename, ancestorsOf } from "@shared/path";
+import type { CommandResult, FileSystemItem } from "@shared/schema";
+import type { TerminalProcessor } from "../terminal";
+import type { CommandDefinition } from "./registry";
+import { expandEscapes } from "./text";
+import { parseOptions } from "./util";
+
+const category = 'File System';
+
+export const fileCommands: CommandDefinition[] = [
+  {
+    name: 'ls',
+    usage: 'ls [-la] [FILE...]',
+    description: 'List directory contents',
+    category,
+    flags: [
+      { flag: '-l', description: 'Long format listing' },
+      { flag: '-a', description: 'Show hidden files' },
+    ],
+    handler: ({ shell, args }) => listDirectory(shell, args),
+  },
+  {
+    name: 'pwd',
+    usage: 'pwd',
+    description: 'Print working directory',
+    category,
+    builtin: true,
+    handler: ({ shell }) => ({ output: shell.currentDirectory, currentDirectory: shell.currentDirectory, success: true }),
+  },
+  {
+    name: 'cd',
+    usage: 'cd [DIRECTORY | -]',
+    description: 'Change directory',
+    category,
+    builtin: true,
+    handler: ({ shell, args }) => changeDirectory(shell, args),
+  },
+  {
+    name: 'mkdir',
+    usage: 'mkdir [-pv] DIRECTORY...',
+    description: 'Create directory',
+    category,
+    flags: [
+      { flag: '-p, --parents', description: 'Create missing parents, no error if it exists' },
+      { flag: '-v, --verbose', description: 'Report each directory created' },
+    ],
+    handler: ({ shell, args }) => makeDirectory(shell, args),
+  },
+  {
+    name: 'touch',
+    usage: 'touch FILE...',
+    description: 'Create file',
+    category,
+    handler: ({ shell, args }) => createFile(shell, args),
+  },
+  {
+    name: 'cat',
+    usage: 'cat [FILE...]',
+    description: 'Display file contents',
+    category,
+    handler: ({ shell, name, args, stdin }) => readFile(shell, name, args, stdin),
+  },
+  {
+    name: 'less',
+    aliases: ['more'],
+    usage: 'less [FILE...]',
+    description: 'View file contents one screen at a time',
+    category,
+    handler: async ({ shell, name, args, stdin }) => {
+      const result = await readFile(shell, name, args, stdin);
+      // Like less, nothing to show means nothing to page through
+      return result.success && result.output !== '' ? { ...result, pager: args.length > 0 ? args.join(' ') : 'standard input' } : result;
+    },
+  },
+  {
+    name: 'echo',
+    usage: 'echo [-neE] [TEXT...]',
+    description: 'Display text',
+    category,
+    builtin: true,
+    noHelpOption: true,
+    flags: [
+      { flag: '-n', description: 'Leave out the final newline' },
+      { flag: '-e', description: 'Read backslash escapes such as \\n and \\t' },
+      { flag: '-E', description: 'Print backslashes as they are (the default)' },
+    ],
+    handler: ({ shell, args }) => echo(shell, args),
+  },
+  {
+    name: 'rm',
+    usage: 'rm [-rRfiv] FILE...',
+    description: 'Remove files',
+    category,
+    flags: [
+      { flag: '-r, -R, --recursive', description: 'Remove directories and their contents' },
+      { flag: '-f, --force', description: 'Ignore missing files, never prompt' },
+      { flag: '-i, --interactive', description: 'Prompt before every removal' },
+      { flag: '-v, --verbose', description: 'Report each file removed' },
+    ],
+    handler: ({ shell, args }) => removeFile(shell, args),
+  },
+  {
+    name: 'cp',
+    usage: 'cp [-rRafinv] SOURCE... DESTINATION',
+    description: 'Copy files/directories',
+    category,
+    flags: [
+      { flag: '-r, -R, --recursive', description: 'Copy directories recursively' },
+      { flag: '-a, --archive', description: 'Copy recursively, keeping permissions' },
+      { flag: '-f, --force', description: 'Overwrite without asking' },
+      { flag: '-i, --interactive', description: 'Prompt before overwriting' },
+      { flag: '-n, --no-clobber', description: 'Never overwrite an existing file' },
+      { flag: '-v, --verbose', description: 'Report each file copied' },
+    ],
+    handler: ({ shell, args }) => copyFile(shell, args),
+  },
+  {
+    name: 'mv',
+    usage: 'mv [-finv] SOURCE... DESTINATION',
+    description: 'Move/rename files',
+    category,
+    flags: [
+      { flag: '-f, --force', description: 'Overwrite without asking' },
+      { flag: '-i, --interactive', description: 'Prompt before overwriting' },
+      { flag: '-n, --no-clobber', description: 'Never overwrite an existing file' },
+      { flag: '-v, --verbose', description: 'Report each file moved' },
+    ],
+    handler: ({ shell, args }) => moveFile(shell, args),
+  },
+  {
+    name: 'chmod',
+    usage: 'chmod MODE FILE...',
+    description: 'Change file permissions',
+    category,
+    handler: ({ shell, args }) => changePermissions(shell, args),
+  },
+  {
+    name: 'find',
+    usage: 'find [PATH...] [EXPRESSION]',
+    description: 'Search directory trees for files matching an expression',
+    category,
+    flags: [
+      { flag: '-name PATTERN, -iname PATTERN', description: 'Base name matches a glob, optionally ignoring case' },
+      { flag: '-path PATTERN', description: 'Whole path matches a glob' },
+      { flag: '-type f|d', description: 'Is a regular file or a directory' },
+      { flag: '-size [+-]N[ckMG]', description: 'Size is more than, less than or exactly N units' },
+      { flag: '-mtime [+-]N, -mmin [+-]N', description: 'Last modified N days or minutes ago' },
+      { flag: '-newer FILE', description: 'Modified more recently than FILE' },
+      { flag: '-empty', description: 'Empty file or directory' },
+      { flag: '-perm [-/]MODE', description: 'Permissions are exactly, all of or any of MODE' },
+      { flag: '-maxdepth N, -mindepth N', description: 'Descend at most, or test only at least, N levels' },
+      { flag: '! EXPR, EXPR -o EXPR, ( EXPR )', description: 'Negate, combine with or, and group' },
+      { flag: '-print', description: 'Print the path (the default action)' },
+      { flag: '-delete', description: 'Delete the file' },
+      { flag: '-exec COMMAND {} ;', description: 'Run COMMAND on each path; with {} + on all of them at once' },
+      { flag: '-prune', description: 'Do not descend into the directory' },
+    ],
+    handler: ({ shell, args }) => findFiles(shell, args),
+  },
+];
+
+// File operands are listed first, by the name given, then each directory's
+// contents, under a "name:" heading when there is more than one operand
+async function listDirectory(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  const { flags, operands, invalid } = parseOptions(args, 'la', { all: 'a' });
+  if (invalid) {
+    return { output: `ls: ${invalid}`, error: invalid, currentDirectory: shell.currentDirectory, success: false, exitCode: 2 };
+  }
+  const showAll = flags.has('a');
+  const longFormat = flags.has('l');
+  const targets = operands.length > 0 ? operands : ['.'];
+
+  const errors: string[] = [];
+  const files: { name: string; item: FileSystemItem }[] = [];
+  const directories: { name: string; path: string }[] = [];
+  for (const target of targets) {
+    const fullPath = shell.resolvePath(target);
+    const item = await storage.getFileSystemItem(shell.owner, fullPath);
+    if (!item) {
+      errors.push(`ls: cannot access '${target}': No such file or directory`);
+    } else if (item.type === 'directory') {
+      directories.push({ name: target, path: fullPath });
+    } else {
+      files.push({ name: target, item });
+    }
+  }
+  files.sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+  directories.sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+
+  const longLine = (item: FileSystemItem, name: string) => {
+    const typeChar = item.type === 'directory' ? 'd' : '-';
+    const permissions = item.permissions.substring(1); // Remove first char if it exists
+    const size = String(item.size).padStart(8);
+    const date = "Jan 15 14:30";
+    return `${typeChar}${permissions} 1 user user ${size} ${date} ${name}`;
+  };
+  const format = (entries: { name: string; item: FileSystemItem }[]) => longFormat
+    ? entries.map(({ name, item }) => longLine(item, name)).join('\n')
+    : entries.map(({ name }) => name).join('  ');
+
+  const sections: string[] = [];
+  if (files.length > 0) sections.push(format(files));
+  for (const directory of directories) {
+    const contents = (await storage.getDirectoryContents(shell.owner, directory.path))
+      .filter(item => showAll || !item.name.startsWith('.'))
+      .map(item => ({ name: item.name, item }))
+      .sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+
+    const lines: string[] = [];
+    if (targets.length > 1) lines.push(`${directory.name}:`);
+    if (longFormat) {
+      lines.push("total " + Math.max(contents.length * 4, 12));
+      // Add . and .. entries for long format
+      if (showAll) {
+        lines.push("drwxr-xr-x 3 user user 4096 Jan 15 14:30 .");
+        if (directory.path !== "/") {
+          lines.push("drwxr-xr-x 3 root root 4096 Jan 15 14:20 ..");
+        }
+      }
+    }
+    const listing = format(contents);
+    if (listing) lines.push(listing);
+    sections.push(lines.join('\n'));
+  }
+
+  const failed = errors.length > 0;
+  return {
+    output: sections.join('\n\n'),
+    stderr: failed ? errors.join('\n') : undefined,
+    error: failed ? 'No such file or directory' : undefined,
+    currentDirectory: shell.currentDirectory,
+    success: !failed,
+    exitCode: failed ? 2 : 0
+  };
+}
+
+async function changeDirectory(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  // "cd -" goes back to OLDPWD and prints where it ended up
+  const variable = args.length === 0 ? 'HOME' : args[0] === '-' ? 'OLDPWD' : undefined;
+  const path = variable ? shell.environment[variable] : args[0];
+  if (!path) {
+    return { output: `cd: ${variable} not set`, error: `${variable} not set`, currentDirectory: shell.currentDirectory, success: false };
+  }
+
+  const fullPath = shell.resolvePath(path);
+  const item = await storage.getFileSystemItem(shell.owner, fullPath);
+  const problem = !item
+    ? (await shell.parentDirectoryError(fullPath)) || 'No such file or directory'
+    : item.type !== 'directory' ? 'Not a directory' : undefined;
+
+  if (problem) {
+    return { 
+      output: `cd: ${path}: ${problem}`, 
+      error: problem,
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  shell.environment.OLDPWD = shell.currentDirectory;
+  shell.currentDirectory = shell.environment.PWD = fullPath;
+  return { output: variable === 'OLDPWD' ? fullPath : "", currentDirectory: shell.currentDirectory, success: true };
+}
+
+async function makeDirectory(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  const { flags, operands, invalid } = parseOptions(args, 'pv', { parents: 'p', verbose: 'v' });
+  if (invalid) {
+    return { output: `mkdir: ${invalid}`, error: invalid, currentDirectory: shell.currentDirectory, success: false };
+  }
+  if (operands.length === 0) {
+    return { 
+      output: "mkdir: missing operand", 
+      error: "Missing operand",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  const lines: string[] = [];
+  let failed = false;
+  for (const arg of operands) {
+    const fullPath = shell.resolvePath(arg);
+    const existing = await storage.getFileSystemItem(shell.owner, fullPath);
+
+    if (existing) {
+      if (!flags.has('p') || existing.type !== 'directory') {
+        lines.push(`mkdir: cannot create directory '${arg}': File exists`);
+        failed = true;
+      }
+      continue;
+    }
+
+    // With -p every missing ancestor is created on the way down; a file
+    // in the middle of the path still stops us
+    const missing = flags.has('p') ? ancestorsOf(fullPath) : [];
+    let parentError: string | undefined;
+    for (const ancestor of missing) {
+      const item = await storage.getFileSystemItem(shell.owner, ancestor);
+      if (item) {
+        if (item.type !== 'directory') {
+          parentError = 'Not a directory';
+          break;
+        }
+        continue;
+      }
+      await storage.createFileSystemItem(shell.owner, {
+        path: ancestor,
+        name: basename(ancestor),
+        type: 'directory',
+        content: null,
+        permissions: 'drwxr-xr-x'
+      });
+      if (flags.has('v')) {
+        const relative = !arg.startsWith('/') && isSameOrInside(ancestor, shell.currentDirectory) && ancestor !== shell.currentDirectory;
+        lines.push(`mkdir: created directory '${relative ? ancestor.substring(shell.currentDirectory.length).replace(/^\//, '') : ancestor}'`);
+      }
+    }
+    parentError = parentError || await shell.parentDirectoryError(fullPath);
+    if (parentError) {
+      lines.push(`mkdir: cannot create directory '${arg}': ${parentError}`);
+      failed = true;
+      continue;
+    }
+
+    await storage.createFileSystemItem(shell.owner, {
+      path: fullPath,
+      name: basename(fullPath),
+      type: 'directory',
+      content: null,
+      permissions: 'drwxr-xr-x'
+    });
+    if (flags.has('v')) {
+      lines.push(`mkdir: created directory '${arg}'`);
+    }
+  }
+
+  return { 
+    output: lines.join('\n'), 
+    error: failed ? lines[lines.length - 1] : undefined,
+    currentDirectory: shell.currentDirectory, 
+    success: !failed 
+  };
+}
+
+async function createFile(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  if (args.length === 0) {
+    return { 
+      output: "touch: missing file operand", 
+      error: "Missing file operand",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  const results: string[] = [];
+  for (const arg of args) {
+    const fullPath = shell.resolvePath(arg);
+    const exists = await storage.fileSystemItemExists(shell.owner, fullPath);
+    
+    if (exists) {
+      // Updating with no changes just bumps the modification time
+      await storage.updateFileSystemItem(shell.owner, fullPath, {});
+      continue;
+    }
+
+    const parentError = await shell.parentDirectoryError(fullPath);
+    if (parentError) {
+      results.push(`touch: cannot touch '${arg}': ${parentError}`);
+      continue;
+    }
+
+    await storage.createFileSystemItem(shell.owner, {
+      path: fullPath,
+      name: basename(fullPath),
+      type: 'file',
+      content: Buffer.alloc(0),
+      permissions: '-rw-r--r--'
+    });
+  }
+
+  return { 
+    output: results.join('\n'), 
+    error: results.length > 0 ? results[0] : undefined,
+    currentDirectory: shell.currentDirectory, 
+    success: results.length === 0 
+  };
+}
+
+async function readFile(shell: TerminalProcessor, cmd: string, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  if (args.length === 0 && stdin === undefined) {
+    return { 
+      output: `${cmd}: missing file operand`, 
+      error: "Missing file operand",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  // With no files, or for "-", cat copies its standard input
+  const contents: string[] = [];
+  const errors: string[] = [];
+  for (const path of args.length > 0 ? args : ['-']) {
+    if (path === '-') {
+      contents.push(stdin?.read() ?? '');
+      continue;
+    }
+
+    const item = await storage.getFileSystemItem(shell.owner, shell.resolvePath(path));
+    if (!item) {
+      errors.push(`${cmd}: ${path}: No such file or directory`);
+    } else if (item.type === 'directory') {
+      errors.push(`${cmd}: ${path}: Is a directory`);
+    } else {
+      contents.push(item.content?.toString('utf8') || "");
+    }
+  }
+
+  return { 
+    ...writtenOutput(contents.join('')), 
+    stderr: errors.length > 0 ? errors.join('\n') : undefined,
+    error: errors.length > 0 ? errors[0] : undefined,
+    currentDirectory: shell.currentDirectory, 
+    success: errors.length === 0 
+  };
+}
+
+async function echo(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  // Like bash, only leading words made of n, e and E letters are options
+  let newline = true;
+  let escapes = false;
+  let first = 0;
+  for (; first < args.length && /^-[neE]+$/.test(args[first]); first++) {
+    args[first].substring(1).split('').forEach(letter => {
+      if (letter === 'n') newline = false;
+      else escapes = letter === 'e';
+    });
+  }
+
+  let text = args.slice(first).join(' ');
+  if (escapes) {
+    const expanded = expandEscapes(text);
+    text = expanded.text;
+    // \c stops everything, the final newline included
+    if (expanded.stopped) newline = false;
+  }
+  return { ...writtenOutput(newline ? text + '\n' : text), currentDirectory: shell.currentDirectory, success: true };
+}
+
+async function removeFile(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  const { flags, operands, invalid } = parseOptions(args, 'rRfiv', {
+    recursive: 'r', force: 'f', interactive: 'i', verbose: 'v'
+  });
+  if (invalid) {
+    return { 
+      output: `rm: ${invalid}`, 
+      error: "Invalid option",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  const recursive = flags.has('r') || flags.has('R');
+  const force = flags.has('f');
+  if (operands.length === 0 && !force) {
+    return { 
+      output: "rm: missing operand", 
+      error: "Missing operand",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  const lines: string[] = [];
+  let failed = false;
+  for (const arg of operands) {
+    const baseName = arg.replace(/\/+$/, '').split('/').pop();
+    if (baseName === '.' || baseName === '..') {
+      lines.push(`rm: refusing to remove '.' or '..' directory: skipping '${arg}'`);
+      failed = true;
+      continue;
+    }
+
+    const fullPath = shell.resolvePath(arg);
+    const item = await storage.getFileSystemItem(shell.owner, fullPath);
+    if (!item) {
+      if (!force) {
+        lines.push(`rm: cannot remove '${arg}': No such file or directory`);
+        failed = true;
+      }
+      continue;
+    }
+
+    if (item.type === 'directory' && !recursive) {
+      lines.push(`rm: cannot remove '${arg}': Is a directory`);
+      failed = true;
+      continue;
+    }
+
+    if (fullPath === '/') {
+      lines.push("rm: it is dangerous to operate recursively on '/'");
+      lines.push("rm: use --no-preserve-root to override this failsafe");
+      failed = true;
+      continue;
+    }
+
+    if (flags.has('i')) {
+      // The web terminal can't answer prompts, so interactive removal always declines
+      lines.push(`rm: remove ${item.type === 'directory' ? 'directory' : 'regular file'} '${arg}'? n`);
+      continue;
+    }
+
+    const removed = item.type === 'directory' ? await storage.getSubtree(shell.owner, fullPath) : [item];
+    await storage.deleteSubtree(shell.owner, fullPath);
+
+    if (flags.has('v')) {
+      const display = arg.replace(/\/+$/, '');
+      removed.reverse().forEach(entry => {
+        const entryName = display + entry.path.substring(fullPath.length);
+        lines.push(entry.type === 'directory' ? `removed directory '${entryName}'` : `removed '${entryName}'`);
+      });
+    }
+  }
+
+  return { 
+    output: lines.join('\n'), 
+    error: failed ? lines.find(line => line.startsWith('rm: ')) : undefined,
+    currentDirectory: shell.currentDirectory, 
+    success: !failed 
+  };
+}
+
+// A file find has reached: the path it prints and how far below the
+// starting point it lies
+interface FindEntry {
+  item: FileSystemItem;
+  path: string;
+  depth: number;
+}
+
+// Part of a find expression, evaluated for one entry. Actions run as a side
+// effect and say whether they succeeded.
+type FindPredicate = (entry: FindEntry) => Promise<boolean>;
+
+class FindError extends Error {}
+
+// Units -size counts in; a bare number counts 512-byte blocks
+const SIZE_UNITS: Record<string, number> = { '': 512, b: 512, c: 1, w: 2, k: 1024, M: 1024 * 1024, G: 1024 * 1024 * 1024 };
+
+// Compares a value against find's numeric arguments: +N more than N, -N
+// fewer than N and N exactly
+function compareNumber(spec: string, value: number): boolean {
+  const number = parseInt(spec.replace(/^[-+]/, ''), 10);
+  if (spec.startsWith('+')) return value > number;
+  if (spec.startsWith('-')) return value < number;
+  return value === number;
+}
+
+// Recursive-descent parser for find's expressions. "-a" binds tighter than
+// "-o", and two primaries side by side are joined by an implicit "-a".
+class FindParser {
+  private position = 0;
+  maxDepth = Infinity;
+  minDepth = 0;
+  // -depth, or -delete, visits a directory's contents before the directory
+  depthFirst = false;
+  // Without an action the whole expression is followed by -print
+  hasAction = false;
+  output: string[] = [];
+  // Messages from find itself and from the commands -exec runs
+  errors: string[] = [];
+  // Only find's own errors, and failures of "-exec ... +", change its status
+  failed = false;
+  // Set by -prune to keep find out of the directory it is looking at
+  pruned = false;
+  // Commands gathered by "-exec ... {} +", run once everything has been seen
+  batches: (() => Promise<void>)[] = [];
+
+  constructor(private readonly shell: TerminalProcessor, private readonly tokens: string[]) {}
+
+  async parse(): Promise<FindPredicate> {
+    if (this.tokens.length === 0) return async () => true;
+    const predicate = await this.parseOr();
+    if (this.position < this.tokens.length) {
+      const token = this.tokens[this.position];
+      throw new FindError(token === ')' ? `invalid expression; you have too many ')'` : `paths must precede expression: \`${token}'`);
+    }
+    return predicate;
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.position];
+  }
+
+  private argument(option: string): string {
+    const value = this.tokens[this.position++];
+    if (value === undefined) throw new FindError(`missing argument to \`${option}'`);
+    return value;
+  }
+
+  private numericArgument(option: string, signed: boolean): string {
+    const value = this.argument(option);
+    if (!(signed ? /^[-+]?\d+$/ : /^\d+$/).test(value)) {
+      throw new FindError(`invalid argument \`${value}' to \`${option}'`);
+    }
+    return value;
+  }
+
+  private async parseOr(): Promise<FindPredicate> {
+    let left = await this.parseAnd();
+    while (this.peek() === '-o' || this.peek() === '-or') {
+      this.position++;
+      const first = left;
+      const second = await this.parseAnd();
+      left = async entry => await first(entry) || await second(entry);
+    }
+    return left;
+  }
+
+  private async parseAnd(): Promise<FindPredicate> {
+    let left = await this.parseNot();
+    for (let token = this.peek(); token !== undefined && token !== ')' && token !== '-o' && token !== '-or'; token = this.peek()) {
+      if (token === '-a' || token === '-and') this.position++;
+      const first = left;
+      const second = await this.parseNot();
+      left = async entry => await first(entry) && await second(entry);
+    }
+    return left;
+  }
+
+  private async parseNot(): Promise<FindPredicate> {
+    if (this.peek() === '!' || this.peek() === '-not') {
+      this.position++;
+      const operand = await this.parseNot();
+      return async entry => !await operand(entry);
+    }
+    return this.parsePrimary();
+  }
+
+  private async parsePrimary(): Promise<FindPredicate> {
+    const token = this.peek();
+    if (token === undefined) throw new FindError('expected an expression');
+    this.position++;
+
+    if (token === '(') {
+      const inner = await this.parseOr();
+      if (this.peek() !== ')') throw new FindError(`invalid expression; I was expecting to find a ')' somewhere but did not see one.`);
+      this.position++;
+      return inner;
+    }
+
+    switch (token) {
+      case '-name':
+      case '-iname': {
+        const pattern = globToRegExp(this.argument(token), token === '-iname' ? 'i' : '', false);
+        return async entry => pattern.test(entry.path.replace(/\/+$/, '').split('/').pop() || '/');
+      }
+      case '-path':
+      case '-wholename':
+      case '-ipath': {
+        const pattern = globToRegExp(this.argument(token), token === '-ipath' ? 'i' : '', false);
+        return async entry => pattern.test(entry.path);
+      }
+      case '-type': {
+        const type = this.argument(token);
+        if (!/^[fdlbcps]$/.test(type)) throw new FindError(`Unknown argument to -type: ${type}`);
+        // The file system has no links, devices, pipes or sockets
+        return async entry => (type === 'f' && entry.item.type === 'file') || (type === 'd' && entry.item.type === 'directory');
+      }
+      case '-size': {
+        const spec = this.argument(token);
+        const match = /^([-+]?\d+)([bcwkMG]?)$/.exec(spec);
+        if (!match) throw new FindError(`invalid -size type \`${spec}'`);
+        const unit = SIZE_UNITS[match[2]];
+        return async entry => compareNumber(match[1], Math.ceil(entry.item.size / unit));
+      }
+      case '-mtime':
+      case '-mmin': {
+        const spec = this.numericArgument(token, true);
+        const period = token === '-mtime' ? 24 * 60 * 60 * 1000 : 60 * 1000;
+        return async entry => compareNumber(spec, Math.floor((Date.now() - new Date(entry.item.updatedAt).getTime()) / period));
+      }
+      case '-newer': {
+        const name = this.argument(token);
+        const reference = await storage.getFileSystemItem(this.shell.owner, this.shell.resolvePath(name));
+        if (!reference) throw new FindError(`'${name}': No such file or directory`);
+        const time = new Date(reference.updatedAt).getTime();
+        return async entry => new Date(entry.item.updatedAt).getTime() > time;
+      }
+      case '-empty':
+        return async entry => entry.item.type === 'directory'
+          ? (await storage.getDirectoryContents(this.shell.owner, entry.item.path)).length === 0
+          : entry.item.size === 0;
+      case '-perm': {
+        const spec = this.argument(token);
+        const prefix = spec[0] === '-' || spec[0] === '/' ? spec[0] : '';
+        const wanted = applyMode('----------', spec.substring(prefix.length));
+        if (wanted === undefined) throw new FindError(`invalid mode \`${spec}'`);
+        const bits = wanted.substring(1).split('').map(char => char !== '-');
+        return async entry => {
+          const have = entry.item.permissions.substring(1, 10).split('').map(char => char !== '-');
+          if (prefix === '-') return bits.every((bit, index) => !bit || have[index]);
+          if (prefix === '/') return bits.every(bit => !bit) || bits.some((bit, index) => bit && have[index]);
+          return bits.every((bit, index) => bit === have[index]);
+        };
+      }
+      case '-maxdepth':
+        this.maxDepth = parseInt(this.numericArgument(token, false), 10);
+        return async () => true;
+      case '-mindepth':
+        this.minDepth = parseInt(this.numericArgument(token, false), 10);
+        return async () => true;
+      case '-depth':
+        this.depthFirst = true;
+        return async () => true;
+      case '-true':
+        return async () => true;
+      case '-false':
+        return async () => false;
+      case '-prune':
+        return async entry => {
+          if (!this.depthFirst && entry.item.type === 'directory') this.pruned = true;
+          return true;
+        };
+      case '-print':
+        this.hasAction = true;
+        return async entry => {
+          this.output.push(entry.path);
+          return true;
+        };
+      case '-delete':
+        this.hasAction = true;
+        this.depthFirst = true;
+        return entry => this.delete(entry);
+      case '-exec':
+        this.hasAction = true;
+        return this.parseExec();
+    }
+    throw new FindError(token.startsWith('-') ? `unknown predicate \`${token}'` : `paths must precede expression: \`${token}'`);
+  }
+
+  private async delete(entry: FindEntry): Promise<boolean> {
+    // find never removes the directory it was started in
+    if (entry.path === '.') return true;
+    if (entry.item.type === 'directory' && (await storage.getDirectoryContents(this.shell.owner, entry.item.path)).length > 0) {
+      this.errors.push(`find: cannot delete '${entry.path}': Directory not empty`);
+      this.failed = true;
+      return false;
+    }
+    await storage.deleteFileSystemItem(this.shell.owner, entry.item.path);
+    return true;
+  }
+
+  // -exec COMMAND ... ; runs COMMAND once per file with {} replaced by its
+  // path and is true when it succeeds. -exec COMMAND ... {} + runs it once
+  // for all the files together.
+  private parseExec(): FindPredicate {
+    const words: string[] = [];
+    let batched = false;
+    for (;;) {
+      const word = this.tokens[this.position++];
+      if (word === undefined) throw new FindError(`missing argument to \`-exec'`);
+      if (word === ';') break;
+      if (word === '+' && words[words.length - 1] === '{}') {
+        batched = true;
+        words.pop();
+        break;
+      }
+      words.push(word);
+    }
+    if (words.length === 0) throw new FindError(`missing argument to \`-exec'`);
+
+    if (batched) {
+      const paths: string[] = [];
+      this.batches.push(async () => {
+        if (paths.length > 0 && !await this.run(words.concat(paths))) this.failed = true;
+      });
+      return async entry => {
+        paths.push(entry.path);
+        return true;
+      };
+    }
+    return async entry => this.run(words.map(word => word.split('{}').join(entry.path)));
+  }
+
+  private async run(command: string[]): Promise<boolean> {
+    const result = await this.shell.dispatchCommand(command[0], command.slice(1));
+    const { stdout, stderr } = resultStreams(result);
+    if (stdout) this.output.push(stdout);
+    if (stderr) this.errors.push(stderr);
+    return exitStatus(result) === 0;
+  }
+}
+
+// find [PATH...] [EXPRESSION]: walks each PATH (or ".") and evaluates the
+// expression for everything below it
+async function findFiles(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  const firstExpression = args.findIndex(arg => arg.startsWith('-') || arg === '!' || arg === '(');
+  const starts = firstExpression === -1 ? args : args.slice(0, firstExpression);
+  const parser = new FindParser(shell, firstExpression === -1 ? [] : args.slice(firstExpression));
+
+  let expression: FindPredicate;
+  try {
+    expression = await parser.parse();
+  } catch (error) {
+    if (!(error instanceof FindError)) throw error;
+    return shell.failure(`find: ${error.message}`);
+  }
+  const evaluate: FindPredicate = parser.hasAction ? expression : async entry => {
+    if (await expression(entry)) parser.output.push(entry.path);
+    return true;
+  };
+
+  const visit = async (entry: FindEntry): Promise<void> => {
+    parser.pruned = false;
+    const inRange = entry.depth >= parser.minDepth;
+    if (inRange && !parser.depthFirst) await evaluate(entry);
+    if (entry.item.type === 'directory' && entry.depth < parser.maxDepth && !parser.pruned) {
+      const contents = (await storage.getDirectoryContents(shell.owner, entry.item.path)).sort((a, b) => a.name.localeCompare(b.name));
+      const parent = entry.path.replace(/\/+$/, '');
+      for (const item of contents) {
+        await visit({ item, path: `${parent}/${item.name}`, depth: entry.depth + 1 });
+      }
+    }
+    if (inRange && parser.depthFirst) await evaluate(entry);
+  };
+
+  for (const start of starts.length > 0 ? starts : ['.']) {
+    const item = await storage.getFileSystemItem(shell.owner, shell.resolvePath(start));
+    if (!item) {
+      parser.errors.push(`find: '${start}': No such file or directory`);
+      parser.failed = true;
+      continue;
+    }
+    await visit({ item, path: start, depth: 0 });
+  }
+  for (const batch of parser.batches) {
+    await batch();
+  }
+
+  return {
+    output: parser.output.join('\n'),
+    stderr: parser.errors.join('\n'),
+    error: parser.failed ? parser.errors[0] : undefined,
+    currentDirectory: shell.currentDirectory,
+    success: !parser.failed,
+    exitCode: parser.failed ? 1 : 0
+  };
+}
+
+// Where a cp/mv source ends up: inside the destination when that is a directory
+function transferTarget(source: FileSystemItem, destArg: string, destPath: string, destItem: FileSystemItem | undefined) {
+  if (destItem?.type === 'directory') {
+    return {
+      path: joinPath(destPath, source.name),
+      display: destArg.replace(/\/+$/, '') + '/' + source.name
+    };
+  }
+  return { path: destPath, display: destArg };
+}
+
+async function copyFile(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  const { flags, operands, invalid } = parseOptions(args, 'rRafinv', {
+    recursive: 'r', archive: 'a', force: 'f', interactive: 'i', 'no-clobber': 'n', verbose: 'v'
+  });
+  if (invalid) {
+    return { 
+      output: `cp: ${invalid}`, 
+      error: "Invalid option",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  if (operands.length < 2) {
+    return { 
+      output: operands.length === 0
+        ? "cp: missing file operand"
+        : `cp: missing destination file operand after '${operands[0]}'`, 
+      error: "Missing destination",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  const recursive = flags.has('r') || flags.has('R') || flags.has('a');
+  const noClobber = flags.has('n') || (flags.has('i') && !flags.has('f'));
+  const sources = operands.slice(0, -1);
+  const destArg = operands[operands.length - 1];
+  const destPath = shell.resolvePath(destArg);
+  const destItem = await storage.getFileSystemItem(shell.owner, destPath);
+
+  if (sources.length > 1 && destItem?.type !== 'directory') {
+    return { 
+      output: `cp: target '${destArg}' is not a directory`, 
+      error: "Not a directory",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  const lines: string[] = [];
+  let failed = false;
+  for (const source of sources) {
+    const sourcePath = shell.resolvePath(source);
+    const sourceItem = await storage.getFileSystemItem(shell.owner, sourcePath);
+    if (!sourceItem) {
+      lines.push(`cp: cannot stat '${source}': No such file or directory`);
+      failed = true;
+      continue;
+    }
+
+    if (sourceItem.type === 'directory' && !recursive) {
+      lines.push(`cp: -r not specified; omitting directory '${source}'`);
+      failed = true;
+      continue;
+    }
+
+    const target = transferTarget(sourceItem, destArg, destPath, destItem);
+    if (target.path === sourcePath) {
+      lines.push(`cp: '${source}' and '${target.display}' are the same file`);
+      failed = true;
+      continue;
+    }
+
+    if (sourceItem.type === 'directory' && isSameOrInside(target.path, sourcePath)) {
+      lines.push(`cp: cannot copy a directory, '${source}', into itself, '${target.display}'`);
+      failed = true;
+      continue;
+    }
+
+    const targetItem = await storage.getFileSystemItem(shell.owner, target.path);
+    if (targetItem) {
+      if (sourceItem.type === 'directory' && targetItem.type !== 'directory') {
+        lines.push(`cp: cannot overwrite non-directory '${target.display}' with directory '${source}'`);
+        failed = true;
+        continue;
+      }
+      if (sourceItem.type !== 'directory' && targetItem.type === 'directory') {
+        lines.push(`cp: cannot overwrite directory '${target.display}' with non-directory`);
+        failed = true;
+        continue;
+      }
+      if (noClobber && sourceItem.type !== 'directory') {
+        if (flags.has('i')) {
+          lines.push(`cp: overwrite '${target.display}'? n`);
+        }
+        continue;
+      }
+    } else {
+      const parentError = await shell.parentDirectoryError(target.path);
+      if (parentError) {
+        const kind = sourceItem.type === 'directory' ? 'directory' : 'regular file';
+        lines.push(`cp: cannot create ${kind} '${target.display}': ${parentError}`);
+        failed = true;
+        continue;
+      }
+    }
+
+    const copied = flags.has('v') ? await storage.getSubtree(shell.owner, sourcePath) : [];
+    await storage.copySubtree(shell.owner, sourcePath, target.path, { overwrite: !noClobber });
+    copied.forEach(entry => {
+      const suffix = entry.path.substring(sourcePath.length);
+      lines.push(`'${source.replace(/\/+$/, '')}${suffix}' -> '${target.display}${suffix}'`);
+    });
+  }
+
+  return { 
+    output: lines.join('\n'), 
+    error: failed ? lines.find(line => line.startsWith('cp: ')) : undefined,
+    currentDirectory: shell.currentDirectory, 
+    success: !failed 
+  };
+}
+
+async function moveFile(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  const { flags, operands, invalid } = parseOptions(args, 'finv', {
+    force: 'f', interactive: 'i', 'no-clobber': 'n', verbose: 'v'
+  });
+  if (invalid) {
+    return { 
+      output: `mv: ${invalid}`, 
+      error: "Invalid option",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  if (operands.length < 2) {
+    return { 
+      output: operands.length === 0
+        ? "mv: missing file operand"
+        : `mv: missing destination file operand after '${operands[0]}'`, 
+      error: "Missing destination",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  const noClobber = flags.has('n') || (flags.has('i') && !flags.has('f'));
+  const sources = operands.slice(0, -1);
+  const destArg = operands[operands.length - 1];
+  const destPath = shell.resolvePath(destArg);
+  const destItem = await storage.getFileSystemItem(shell.owner, destPath);
+
+  if (sources.length > 1 && destItem?.type !== 'directory') {
+    return { 
+      output: `mv: target '${destArg}' is not a directory`, 
+      error: "Not a directory",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  const lines: string[] = [];
+  let failed = false;
+  for (const source of sources) {
+    const sourcePath = shell.resolvePath(source);
+    const sourceItem = await storage.getFileSystemItem(shell.owner, sourcePath);
+    if (!sourceItem) {
+      lines.push(`mv: cannot stat '${source}': No such file or directory`);
+      failed = true;
+      continue;
+    }
+
+    const target = transferTarget(sourceItem, destArg, destPath, destItem);
+    if (target.path === sourcePath) {
+      lines.push(`mv: '${source}' and '${target.display}' are the same file`);
+      failed = true;
+      continue;
+    }
+
+    if (isSameOrInside(target.path, sourcePath)) {
+      lines.push(`mv: cannot move '${source}' to a subdirectory of itself, '${target.display}'`);
+      failed = true;
+      continue;
+    }
+
+    const targetItem = await storage.getFileSystemItem(shell.owner, target.path);
+    if (targetItem) {
+      if (noClobber) {
+        if (flags.has('i')) {
+          lines.push(`mv: overwrite '${target.display}'? n`);
+        }
+        continue;
+      }
+      if (sourceItem.type === 'directory' && targetItem.type !== 'directory') {
+        lines.push(`mv: cannot overwrite non-directory '${target.display}' with directory '${source}'`);
+        failed = true;
+        continue;
+      }
+      if (sourceItem.type !== 'directory' && targetItem.type === 'directory') {
+        lines.push(`mv: cannot overwrite directory '${target.display}' with non-directory`);
+        failed = true;
+        continue;
+      }
+      if (targetItem.type === 'directory' && (await storage.getDirectoryContents(shell.owner, target.path)).length > 0) {
+        lines.push(`mv: cannot move '${source}' to '${target.display}': Directory not empty`);
+        failed = true;
+        continue;
+      }
+    } else {
+      const parentError = await shell.parentDirectoryError(target.path);
+      if (parentError) {
+        lines.push(`mv: cannot move '${source}' to '${target.display}': ${parentError}`);
+        failed = true;
+        continue;
+      }
+    }
+
+    const moved = await storage.moveSubtree(shell.owner, sourcePath, target.path, { replace: targetItem !== undefined });
+    if (!moved) {
+      lines.push(`mv: cannot move '${source}' to '${target.display}': Device or resource busy`);
+      failed = true;
+      continue;
+    }
+
+    // Follow the working directory if it was inside what moved
+    if (isSameOrInside(shell.currentDirectory, sourcePath)) {
+      shell.currentDirectory = shell.environment.PWD = target.path + shell.currentDirectory.substring(sourcePath.length);
+    }
+    if (flags.has('v')) {
+      lines.push(`renamed '${source}' -> '${target.display}'`);
+    }
+  }
+
+  return { 
+    output: lines.join('\n'), 
+    error: failed ? lines.find(line => line.startsWith('mv: ')) : undefined,
+    currentDirectory: shell.currentDirectory, 
+    success: !failed 
+  };
+}
+
+async function changePermissions(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  if (args.length < 2) {
+    return { 
+      output: "chmod: missing operand", 
+      error: "Missing operand",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  const mode = args[0];
+  if (applyMode('-rw-r--r--', mode) === undefined) {
+    return { 
+      output: `chmod: invalid mode: '${mode}'`, 
+      error: "Invalid mode",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  const errors: string[] = [];
+  for (const filename of args.slice(1)) {
+    const filepath = shell.resolvePath(filename);
+    const file = await storage.getFileSystemItem(shell.owner, filepath);
+    if (!file) {
+      errors.push(`chmod: cannot access '${filename}': No such file or directory`);
+      continue;
+    }
+    await storage.updateFileSystemItem(shell.owner, filepath, { permissions: applyMode(file.permissions, mode) });
+  }
+
+  return { 
+    output: errors.join('\n'), 
+    error: errors.length > 0 ? "File not found" : undefined,
+    currentDirectory: shell.currentDirectory, 
+    success: errors.length === 0 
+  };
+}
+
+// Applies an octal mode like 755 or symbolic clauses like u+x,go-w to a
+// permission string such as "-rw-r--r--". Undefined when the mode is invalid.
+function applyMode(permissions: string, mode: string): string | undefined {
+  const bits = permissions.substring(1, 10).split('').map(char => char !== '-');
+  if (/^[0-7]{1,4}$/.test(mode)) {
+    const octal = parseInt(mode, 8);
+    return permissions[0] + 'rwxrwxrwx'.split('').map((char, index) => (octal & (256 >> index)) ? char : '-').join('');
+  }
+
+  for (const clause of mode.split(',')) {
+    const match = /^([ugoa]*)([-+=])([rwx]*)$/.exec(clause);
+    if (!match) return undefined;
+    const who = match[1] === '' || match[1].includes('a') ? 'ugo' : match[1];
+    ['u', 'g', 'o'].forEach((role, group) => {
+      if (!who.includes(role)) return;
+      ['r', 'w', 'x'].forEach((right, offset) => {
+        const index = group * 3 + offset;
+        const named = match[3].includes(right);
+        if (match[2] === '=') bits[index] = named;
+        else if (named) bits[index] = match[2] === '+';
+      });
+    });
+  }
+  return permissions[0] + 'rwxrwxrwx'.split('').map((char, index) => bits[index] ? char : '-').join('');
+}
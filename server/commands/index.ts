@@ -0,0 +1,40 @@
+import { CommandRegistry } from "./registry";
+import { fileCommands } from "./files";
+import { networkCommands } from "./network";
+import { developmentCommands } from "./development";
+import { systemCommands } from "./system";
+import { editorCommands } from "./editors";
+import { archiveCommands } from "./archive";
+import { environmentCommands } from "./environment";
+import { scriptingCommands } from "./scripting";
+import { jobCommands } from "./jobs";
+import { textCommands } from "./text";
+import { sedCommands } from "./sed";
+import { awkCommands } from "./awk";
+import { diffCommands } from "./diff";
+import { utilityCommands } from "./utilities";
+import { manualCommands } from "./manual";
+
+export { CommandRegistry } from "./registry";
+export type { CommandContext, CommandDefinition, CommandFlag } from "./registry";
+
+// A registry holding every built-in command, listed by help in this order
+export function createDefaultRegistry(): CommandRegistry {
+  return new CommandRegistry().register(
+    ...fileCommands,
+    ...textCommands,
+    ...sedCommands,
+    ...awkCommands,
+    ...diffCommands,
+    ...networkCommands,
+    ...developmentCommands,
+    ...systemCommands,
+    ...editorCommands,
+    ...archiveCommands,
+    ...environmentCommands,
+    ...scriptingCommands,
+    ...jobCommands,
+    ...utilityCommands,
+    ...manualCommands,
+  );
+}
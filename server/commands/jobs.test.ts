@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { newShell } from "../testing";
+
+test("& starts a job that jobs lists until it is reported finished", async () => {
+  const shell = await newShell();
+  const started = await shell.executeCommand("sleep 5 &");
+  assert.match(started.stderr ?? "", /^\[1\] \d+$/);
+  await shell.executeCommand("false &");
+
+  assert.equal((await shell.executeCommand("jobs")).output,
+    "[1]-  Running                 sleep 5 &\n[2]+  Exit 1                  false");
+  // A finished job is reported once, then forgotten
+  assert.equal((await shell.executeCommand("jobs")).output, "[1]+  Running                 sleep 5 &");
+  assert.equal((await shell.executeCommand("jobs -p %1")).output, started.stderr?.split(" ")[1]);
+  await shell.executeCommand("kill %1");
+});
+
+test("kill stops, resumes and ends jobs", async () => {
+  const shell = await newShell();
+  await shell.executeCommand("sleep 5 &");
+  assert.equal((await shell.executeCommand("kill -STOP %1")).output, "[1]+  Stopped                 sleep 5");
+  assert.equal((await shell.executeCommand("bg")).output, "[1]+ sleep 5 &");
+  assert.equal((await shell.executeCommand("kill -s TERM %sle")).output, "[1]+  Terminated              sleep 5");
+  assert.equal((await shell.executeCommand("jobs")).output, "");
+
+  assert.equal((await shell.executeCommand("kill -l 9")).output, "KILL");
+  assert.equal((await shell.executeCommand("kill -l TERM")).output, "15");
+  const missing = await shell.executeCommand("kill %9");
+  assert.equal(missing.exitCode, 1);
+  assert.equal(missing.stderr, "kill: %9: no such job");
+  assert.equal((await shell.executeCommand("fg")).stderr, "fg: current: no such job");
+});
+
+test("wait collects a job's output and status", async () => {
+  const shell = await newShell();
+  await shell.executeCommand("(sleep 0.05; echo done) &");
+  assert.equal((await shell.executeCommand("wait; echo $?")).output, "done\n0");
+  assert.equal((await shell.executeCommand("(sleep 0.05; exit 3) & wait $!; echo $?")).output, "3");
+  assert.equal((await shell.executeCommand("sleep 5 & kill $!; wait $!; echo $?")).output, "143");
+});
@@ -0,0 +1,308 @@
+// Job control: background jobs started with "&", signals, and sleep to give
+// them something to wait for
+
+import { resultStreams, exitStatus } from "../shell/io";
+import { SIGNALS, formatJob, type Job, type Process } from "../shell/jobs";
+import type { CommandResult } from "@shared/schema";
+import type { TerminalProcessor } from "../terminal";
+import type { CommandDefinition } from "./registry";
+
+const category = 'Job Control';
+
+export const jobCommands: CommandDefinition[] = [
+  {
+    name: 'jobs',
+    usage: 'jobs [-lp] [JOBSPEC...]',
+    description: 'List background jobs',
+    category,
+    builtin: true,
+    flags: [
+      { flag: '-l', description: 'Show process IDs as well' },
+      { flag: '-p', description: 'Show only the process ID of each job' },
+    ],
+    handler: ({ shell, args }) => listJobs(shell, args),
+  },
+  {
+    name: 'fg',
+    usage: 'fg [JOBSPEC]',
+    description: 'Bring a job to the foreground and wait for it',
+    category,
+    builtin: true,
+    handler: ({ shell, args }) => foreground(shell, args),
+  },
+  {
+    name: 'bg',
+    usage: 'bg [JOBSPEC...]',
+    description: 'Resume stopped jobs in the background',
+    category,
+    builtin: true,
+    handler: ({ shell, args }) => background(shell, args),
+  },
+  {
+    name: 'kill',
+    usage: 'kill [-s SIGNAL | -n NUMBER | -SIGNAL] PID|JOBSPEC... or kill -l [SIGNAL]',
+    description: 'Send a signal to processes or jobs',
+    category,
+    builtin: true,
+    flags: [
+      { flag: '-s SIGNAL', description: 'Send SIGNAL by name, e.g. TERM or SIGSTOP' },
+      { flag: '-n NUMBER', description: 'Send the signal with this number' },
+      { flag: '-l', description: 'List signal names, or translate between a name and its number' },
+    ],
+    handler: ({ shell, args }) => sendSignal(shell, args),
+  },
+  {
+    name: 'wait',
+    usage: 'wait [PID|JOBSPEC...]',
+    description: 'Wait for background jobs to finish',
+    category,
+    builtin: true,
+    handler: ({ shell, args }) => waitForJobs(shell, args),
+  },
+  {
+    name: 'sleep',
+    usage: 'sleep NUMBER[SUFFIX]...',
+    description: 'Pause for NUMBER seconds; SUFFIX may be s, m, h or d',
+    category,
+    handler: ({ shell, args }) => sleep(shell, args),
+  },
+];
+
+// "%1" or a bare "1" both name job 1
+function jobSpec(arg: string): string {
+  return arg.startsWith('%') ? arg : `%${arg}`;
+}
+
+function ok(shell: TerminalProcessor, output = ""): CommandResult {
+  return { output, currentDirectory: shell.currentDirectory, success: true };
+}
+
+function listJobs(shell: TerminalProcessor, args: string[]): CommandResult {
+  const table = shell.processes;
+  const options = args.filter(arg => /^-[lp]+$/.test(arg)).join('');
+  const specs = args.filter(arg => !/^-[lp]+$/.test(arg));
+
+  const errors: string[] = [];
+  let jobs: Job[] = table.jobs;
+  if (specs.length > 0) {
+    jobs = [];
+    specs.forEach(spec => {
+      const job = table.findJob(jobSpec(spec));
+      if (job) jobs.push(job);
+      else errors.push(`jobs: ${spec}: no such job`);
+    });
+  }
+
+  const lines = jobs.map(job => options.includes('p') ? String(job.process.pid) : formatJob(job, table.jobs, options.includes('l')));
+  // Listing a finished or stopped job counts as telling the user about it
+  jobs.forEach(job => {
+    job.reportedStop = true;
+    if (job.result) table.removeJob(job);
+  });
+  return { output: lines.join('\n'), stderr: errors.join('\n'), currentDirectory: shell.currentDirectory, success: errors.length === 0 };
+}
+
+async function foreground(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  const table = shell.processes;
+  const job = table.findJob(jobSpec(args[0] ?? '%+'));
+  if (!job) {
+    return shell.failure(`fg: ${args[0] ?? 'current'}: no such job`);
+  }
+
+  // Ctrl-C reaches a job in the foreground, so waiting here always ends
+  job.foreground = true;
+  table.signal(job.process, 'CONT');
+  while (!job.result) {
+    await table.nextChange();
+  }
+  table.removeJob(job);
+
+  const { stdout, stderr } = resultStreams(job.result);
+  const status = exitStatus(job.result);
+  return {
+    output: [job.command].concat(stdout ? [stdout] : []).join('\n'),
+    stderr,
+    currentDirectory: shell.currentDirectory,
+    success: status === 0,
+    exitCode: status
+  };
+}
+
+function background(shell: TerminalProcessor, args: string[]): CommandResult {
+  const table = shell.processes;
+  const lines: string[] = [];
+  const errors: string[] = [];
+  (args.length > 0 ? args : ['%+']).forEach(spec => {
+    const job = table.findJob(jobSpec(spec));
+    if (!job) {
+      errors.push(`bg: ${args.length > 0 ? spec : 'current'}: no such job`);
+    } else if (!job.process.suspended) {
+      errors.push(`bg: job ${job.number} already in background`);
+    } else {
+      table.signal(job.process, 'CONT');
+      lines.push(formatJob(job, table.jobs).replace(/^(\[\d+\].)\s+Running\s+/, '$1 '));
+    }
+  });
+  return { output: lines.join('\n'), stderr: errors.join('\n'), currentDirectory: shell.currentDirectory, success: lines.length > 0 || errors.length === 0 };
+}
+
+// A signal name with or without SIG, or its number; undefined if neither.
+// "0" sends nothing and only checks that the process exists.
+function signalName(spec: string): string | undefined {
+  if (/^\d+$/.test(spec)) {
+    const number = parseInt(spec, 10);
+    if (number === 0) return '0';
+    return Object.keys(SIGNALS).find(name => SIGNALS[name] === number);
+  }
+  const name = spec.toUpperCase().replace(/^SIG/, '');
+  return name in SIGNALS ? name : undefined;
+}
+
+function listSignals(shell: TerminalProcessor, args: string[]): CommandResult {
+  if (args.length === 0) {
+    const entries = Object.keys(SIGNALS).map(name => `${String(SIGNALS[name]).padStart(2)}) SIG${name}`.padEnd(14));
+    const rows: string[] = [];
+    for (let i = 0; i < entries.length; i += 5) {
+      rows.push(entries.slice(i, i + 5).join('').trimEnd());
+    }
+    return ok(shell, rows.join('\n'));
+  }
+
+  const lines: string[] = [];
+  const errors: string[] = [];
+  args.forEach(arg => {
+    // An exit status above 128 names the signal that caused it
+    const spec = /^\d+$/.test(arg) && parseInt(arg, 10) > 128 ? String(parseInt(arg, 10) - 128) : arg;
+    const name = signalName(spec);
+    if (!name || name === '0') {
+      errors.push(`kill: ${arg}: invalid signal specification`);
+    } else {
+      lines.push(/^\d+$/.test(arg) ? name : String(SIGNALS[name]));
+    }
+  });
+  return { output: lines.join('\n'), stderr: errors.join('\n'), currentDirectory: shell.currentDirectory, success: errors.length === 0 };
+}
+
+function sendSignal(shell: TerminalProcessor, args: string[]): CommandResult {
+  const usage = 'kill: usage: kill [-s sigspec | -n signum | -sigspec] pid | jobspec ... or kill -l [sigspec]';
+  if (args[0] === '-l' || args[0] === '-L') {
+    return listSignals(shell, args.slice(1));
+  }
+
+  let signal = 'TERM';
+  let targets = args;
+  if (args[0] === '-s' || args[0] === '-n') {
+    if (args.length < 2) {
+      return shell.failure(`kill: ${args[0]}: option requires an argument\n${usage}`, 2);
+    }
+    const name = signalName(args[1]);
+    if (!name) {
+      return shell.failure(`kill: ${args[1]}: invalid signal specification`);
+    }
+    signal = name;
+    targets = args.slice(2);
+  } else if (args.length > 0 && /^-./.test(args[0]) && args[0] !== '--') {
+    const name = signalName(args[0].substring(1));
+    if (!name) {
+      return shell.failure(`kill: ${args[0].substring(1)}: invalid signal specification`);
+    }
+    signal = name;
+    targets = args.slice(1);
+  }
+  if (targets[0] === '--') targets = targets.slice(1);
+  if (targets.length === 0) {
+    return shell.failure(usage, 2);
+  }
+
+  const table = shell.processes;
+  const errors: string[] = [];
+  targets.forEach(target => {
+    let process: Process | undefined;
+    if (target.startsWith('%')) {
+      const job = table.findJob(target);
+      if (!job || job.result) {
+        errors.push(`kill: ${target}: no such job`);
+        return;
+      }
+      process = job.process;
+    } else if (/^-?\d+$/.test(target)) {
+      process = table.find(parseInt(target, 10));
+      if (!process) {
+        errors.push(`kill: (${target}) - No such process`);
+        return;
+      }
+    } else {
+      errors.push(`kill: ${target}: arguments must be process or job IDs`);
+      return;
+    }
+    if (signal !== '0') table.signal(process, signal);
+  });
+
+  return { output: "", stderr: errors.join('\n'), error: errors[0], currentDirectory: shell.currentDirectory, success: errors.length === 0 };
+}
+
+// With no arguments waits for every job and succeeds; otherwise the status
+// is that of the last one named. Ctrl-C stops the waiting, not the jobs.
+async function waitForJobs(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  const table = shell.processes;
+  const errors: string[] = [];
+  // Each argument's job, or the status it fails with
+  const targets: (Job | number)[] = args.map(arg => {
+    const job = arg.startsWith('%')
+      ? table.findJob(arg)
+      : table.jobs.find(candidate => String(candidate.process.pid) === arg);
+    if (job) return job;
+    if (arg.startsWith('%')) {
+      errors.push(`wait: ${arg}: no such job`);
+      return 127;
+    }
+    if (/^\d+$/.test(arg)) {
+      errors.push(`wait: pid ${arg} is not a child of this shell`);
+      return 127;
+    }
+    errors.push(`wait: \`${arg}': not a pid or valid job spec`);
+    return 1;
+  });
+  const waiting = args.length === 0 ? table.jobs.slice() : targets.filter((target): target is Job => typeof target !== 'number');
+
+  while (waiting.some(job => !job.result) && !shell.interrupted) {
+    await table.nextChange();
+  }
+  if (shell.interrupted) {
+    return { output: "", stderr: errors.join('\n'), currentDirectory: shell.currentDirectory, success: false, exitCode: 128 + SIGNALS.INT };
+  }
+
+  const output: string[] = [];
+  waiting.forEach(job => {
+    const streams = resultStreams(job.result!);
+    [streams.stdout, streams.stderr].filter(Boolean).forEach(text => output.push(text));
+    table.removeJob(job);
+  });
+  const last = targets[targets.length - 1];
+  const status = last === undefined ? 0 : typeof last === 'number' ? last : exitStatus(last.result!);
+  return { output: output.join('\n'), stderr: errors.join('\n'), currentDirectory: shell.currentDirectory, success: status === 0, exitCode: status };
+}
+
+const UNITS: Record<string, number> = { '': 1, s: 1, m: 60, h: 3600, d: 86400 };
+
+async function sleep(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  if (args.length === 0) {
+    return shell.failure("sleep: missing operand\nTry 'sleep --help' for more information.");
+  }
+
+  let seconds = 0;
+  for (const arg of args) {
+    const match = /^(\d+\.?\d*|\.\d+)([smhd]?)$/.exec(arg);
+    if (!match) {
+      return shell.failure(`sleep: invalid time interval '${arg}'\nTry 'sleep --help' for more information.`);
+    }
+    seconds += parseFloat(match[1]) * UNITS[match[2]];
+  }
+
+  const process = shell.currentProcess ?? shell.processes.shell;
+  const signal = await shell.processes.sleep(process, seconds * 1000);
+  if (signal) {
+    return { output: "", currentDirectory: shell.currentDirectory, success: false, exitCode: 128 + SIGNALS[signal] };
+  }
+  return ok(shell);
+}
@@ -0,0 +1,25 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { newShell, writeFile } from "../testing";
+import { MANUAL_DIRECTORY } from "./manual";
+
+test("man generates pages from the registry without writing them", async () => {
+  const shell = await newShell();
+  const result = await shell.executeCommand('man ls');
+  assert.equal(result.pager, 'ls(1)');
+  assert.match(result.output, /^NAME\n\s+ls - List directory contents$/m);
+  assert.deepEqual(await storage.getDirectoryContents(shell.owner, MANUAL_DIRECTORY), []);
+  assert.equal((await shell.executeCommand('man -f ls')).output, 'ls (1)               - List directory contents');
+  assert.equal((await shell.executeCommand('man nosuchcommand')).exitCode, 16);
+});
+
+test("a page written to the manual directory takes the generated one's place", async () => {
+  const shell = await newShell();
+  await writeFile(shell, `${MANUAL_DIRECTORY}/ls.1`, 'NAME\n       ls - my own listing\n');
+  await writeFile(shell, `${MANUAL_DIRECTORY}/notes.1`, 'NAME\n       notes - things to remember\n');
+
+  assert.match((await shell.executeCommand('man ls')).output, /my own listing/);
+  assert.equal((await shell.executeCommand('man -f ls notes')).output, 'ls (1)               - my own listing\nnotes (1)            - things to remember');
+  assert.match((await shell.executeCommand('man -k remember')).output, /^notes \(1\)/);
+});
@@ -0,0 +1,156 @@
+// Manual pages and --help text, both generated from the command registry.
+// man generates a command's page when asked for it. A page written to
+// /usr/share/man/man1 takes the place of the generated one, so editing a page
+// starts from "man ls > /usr/share/man/man1/ls.1".
+
+import { storage } from "../storage";
+import { joinPath } from "@shared/path";
+import type { CommandResult } from "@shared/schema";
+import type { TerminalProcessor } from "../terminal";
+import type { CommandDefinition, CommandFlag, CommandRegistry } from "./registry";
+
+export const MANUAL_DIRECTORY = '/usr/share/man/man1';
+
+// Where man-db exits when it finds nothing to show
+const NOT_FOUND_STATUS = 16;
+
+export const manualCommands: CommandDefinition[] = [
+  {
+    name: 'man',
+    usage: 'man [-k KEYWORD | -f NAME | [1] NAME...]',
+    description: 'Show the manual page for a command',
+    category: 'Utilities',
+    flags: [
+      { flag: '-k', description: 'List pages whose name or description contains KEYWORD' },
+      { flag: '-f', description: 'Show the one-line description of NAME' },
+    ],
+    handler: ({ shell, args }) => showManual(shell, args),
+  },
+];
+
+// Option descriptions lined up in a column, --help included
+export function formatFlags(flags: CommandFlag[], indent: string): string {
+  const rows = flags.concat([{ flag: '--help', description: 'Display this help and exit' }]);
+  const width = Math.max(...rows.map(row => row.flag.length));
+  return rows.map(row => `${indent}${row.flag.padEnd(width)}  ${row.description}`).join('\n');
+}
+
+// What cmd --help prints
+export function formatUsage(definition: CommandDefinition, name: string): string {
+  const usage = name === definition.name ? definition.usage : definition.usage.replace(definition.name, name);
+  return `Usage: ${usage}\n${definition.description}\n\nOptions:\n${formatFlags(definition.flags ?? [], '  ')}`;
+}
+
+function formatManualPage(definition: CommandDefinition, names: string[]): string {
+  // The title on both sides with the section name centered between, 78 columns wide
+  const title = `${definition.name.toUpperCase()}(1)`;
+  const heading = 'User Commands';
+  const space = Math.max(2, 78 - title.length * 2 - heading.length);
+  const header = title + ' '.repeat(Math.floor(space / 2)) + heading + ' '.repeat(Math.ceil(space / 2)) + title;
+
+  const description = [`${definition.description}.`];
+  if (definition.builtin) {
+    description.push('This command is built into the shell.');
+  }
+  if (names.length > 1) {
+    description.push(`Also available as ${names.slice(1).join(', ')}.`);
+  }
+
+  const sections = [
+    header,
+    `NAME\n       ${names.join(', ')} - ${definition.description}`,
+    `SYNOPSIS\n       ${definition.usage}`,
+    `DESCRIPTION\n${description.map(line => `       ${line}`).join('\n')}`,
+    `OPTIONS\n${formatFlags(definition.flags ?? [], '       ')}`,
+  ];
+  const related = ['help', definition.builtin ? 'bash' : 'which'].filter(name => name !== definition.name);
+  sections.push(`SEE ALSO\n       ${related.map(name => `${name}(1)`).join(', ')}`);
+  return sections.join('\n\n') + '\n';
+}
+
+// The "name - description" line from a page's NAME section
+function summaryOf(page: string): string | undefined {
+  const match = /^NAME\n\s+(.+)$/m.exec(page);
+  return match ? match[1] : undefined;
+}
+
+async function readPage(shell: TerminalProcessor, name: string): Promise<string | undefined> {
+  // Aliases share their command's page
+  const definition = shell.commands.get(name);
+  const page = definition?.name ?? name;
+  const item = await storage.getFileSystemItem(shell.owner, joinPath(MANUAL_DIRECTORY, `${page}.1`));
+  if (item && item.type === 'file') {
+    return item.content?.toString('utf8') ?? '';
+  }
+  return definition ? formatManualPage(definition, shell.commands.namesOf(definition)) : undefined;
+}
+
+// Every page's NAME line, for -k and -f
+async function summaries(shell: TerminalProcessor): Promise<{ names: string[]; description: string }[]> {
+  const pages: Record<string, string> = {};
+  shell.commands.list().forEach(definition => {
+    pages[definition.name] = formatManualPage(definition, shell.commands.namesOf(definition));
+  });
+  (await storage.getDirectoryContents(shell.owner, MANUAL_DIRECTORY))
+    .filter(item => item.type === 'file' && item.name.endsWith('.1'))
+    .forEach(item => {
+      pages[item.name.substring(0, item.name.length - 2)] = item.content?.toString('utf8') ?? '';
+    });
+
+  const entries: { names: string[]; description: string }[] = [];
+  Object.keys(pages).sort().forEach(page => {
+    const summary = summaryOf(pages[page]);
+    const separator = summary ? summary.indexOf(' - ') : -1;
+    if (!summary || separator === -1) return;
+    entries.push({ names: summary.substring(0, separator).split(/,\s*/), description: summary.substring(separator + 3) });
+  });
+  return entries;
+}
+
+async function showManual(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  const mode = args[0] === '-k' || args[0] === '-f' ? args[0] : undefined;
+  // Every page is in section 1
+  const names = (mode ? args.slice(1) : args).filter((arg, index) => !(index === 0 && arg === '1'));
+
+  if (names.length === 0) {
+    return shell.failure(mode === '-k' ? 'apropos what?' : mode === '-f' ? 'whatis what?' : 'What manual page do you want?\nFor example, try \'man man\'.', 1);
+  }
+
+  if (mode) {
+    const entries = await summaries(shell);
+    const lines: string[] = [];
+    const errors: string[] = [];
+    names.forEach(term => {
+      const matches = entries.filter(entry => mode === '-f'
+        ? entry.names.indexOf(term) !== -1
+        : (entry.names.join(' ') + ' ' + entry.description).toLowerCase().includes(term.toLowerCase()));
+      if (matches.length === 0) {
+        errors.push(`${term}: nothing appropriate.`);
+      }
+      matches.forEach(entry => lines.push(`${`${entry.names[0]} (1)`.padEnd(20)} - ${entry.description}`));
+    });
+    const status = errors.length === 0 ? 0 : NOT_FOUND_STATUS;
+    return { output: lines.join('\n'), stderr: errors.join('\n'), currentDirectory: shell.currentDirectory, success: status === 0, exitCode: status };
+  }
+
+  const pages: string[] = [];
+  const errors: string[] = [];
+  for (const name of names) {
+    const page = await readPage(shell, name);
+    if (page === undefined) {
+      errors.push(`No manual entry for ${name}`);
+    } else {
+      pages.push(page.replace(/\n$/, ''));
+    }
+  }
+
+  const status = errors.length === 0 ? 0 : NOT_FOUND_STATUS;
+  return {
+    output: pages.join('\n\n'),
+    stderr: errors.join('\n'),
+    currentDirectory: shell.currentDirectory,
+    success: status === 0,
+    exitCode: status,
+    pager: pages.length > 0 ? `${names.join(', ')}(1)` : undefined
+  };
+}
@@ -0,0 +1,185 @@
+// Commands that would reach other machines. There is no network access, so
+// transfers are simulated and remote logins are refused.
+
+import { storage } from "../storage";
+import type { CommandResult } from "@shared/schema";
+import type { TerminalProcessor } from "../terminal";
+import type { CommandDefinition } from "./registry";
+
+const category = 'Network & Downloads';
+
+export const networkCommands: CommandDefinition[] = [
+  {
+    name: 'curl',
+    usage: 'curl URL',
+    description: 'Transfer data from/to servers',
+    category,
+    handler: ({ shell, args }) => executeCurl(shell, args),
+  },
+  {
+    name: 'wget',
+    usage: 'wget URL',
+    description: 'Download files from web',
+    category,
+    handler: ({ shell, args }) => executeWget(shell, args),
+  },
+  {
+    name: 'ssh',
+    usage: 'ssh HOST',
+    description: 'Secure shell remote access',
+    category,
+    handler: ({ shell, args }) => executeSSH(shell, args),
+  },
+  {
+    name: 'scp',
+    usage: 'scp SOURCE DESTINATION',
+    description: 'Secure copy over SSH',
+    category,
+    handler: ({ shell, args }) => executeSCP(shell, args),
+  },
+  {
+    name: 'rsync',
+    usage: 'rsync SOURCE DESTINATION',
+    description: 'Sync files/directories',
+    category,
+    handler: ({ shell, args }) => executeRsync(shell, args),
+  },
+];
+
+async function executeCurl(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  if (args.length === 0) {
+    return { 
+      output: "curl: missing URL", 
+      error: "Missing URL",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  const url = args[0];
+  if (!url.startsWith('http')) {
+    return { 
+      output: `curl: (1) Protocol "${url.split(':')[0]}" not supported or disabled in libcurl`, 
+      error: "Invalid URL protocol",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  try {
+    // Simulate a basic HTTP request
+    const mockResponse = `HTTP/1.1 200 OK
+Content-Type: application/json
+Content-Length: 85
+
+{
+"message": "Success",
+"url": "${url}",
+"method": "GET",
+"timestamp": "${new Date().toISOString()}"
+}`;
+    
+    return { output: mockResponse, currentDirectory: shell.currentDirectory, success: true };
+  } catch (error) {
+    return { 
+      output: `curl: (7) Failed to connect to ${url.split('/')[2]} port 80: Connection refused`, 
+      error: "Connection failed",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+}
+
+async function executeWget(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  if (args.length === 0) {
+    return { 
+      output: "wget: missing URL", 
+      error: "Missing URL",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  const url = args[0];
+  const filename = url.split('/').pop() || 'index.html';
+  const content = Buffer.from(`<!DOCTYPE html>\n<html>\n<head><title>Downloaded content</title></head>\n<body><h1>Sample content from ${url}</h1></body>\n</html>`);
+  const length = content.length;
+  
+  const output = `--${new Date().toISOString().split('T')[0]} ${new Date().toLocaleTimeString()}--  ${url}
+Resolving ${url.split('/')[2]}... 192.168.1.1
+Connecting to ${url.split('/')[2]}|192.168.1.1|:80... connected.
+HTTP request sent, awaiting response... 200 OK
+Length: ${length} (${(length / 1024).toFixed(1)}K) [text/html]
+Saving to: '${filename}'
+
+${filename}          100%[===================>]   ${(length / 1024).toFixed(2)}K  --.-KB/s    in 0s      
+
+${new Date().toISOString().split('T')[0]} ${new Date().toLocaleTimeString()} (10.2 MB/s) - '${filename}' saved [${length}/${length}]`;
+
+  // Create the downloaded file
+  await storage.createFileSystemItem(shell.owner, {
+    path: shell.resolvePath(filename),
+    name: filename,
+    type: 'file',
+    content,
+    permissions: '-rw-r--r--'
+  });
+
+  return { output, currentDirectory: shell.currentDirectory, success: true };
+}
+
+async function executeSSH(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  if (args.length === 0) {
+    return { 
+      output: "usage: ssh [-46AaCfGgKkMNnqsTtVvXxYy] [-B bind_interface]\n           [-b bind_address] [-c cipher_spec] [-D [bind_address:]port]", 
+      currentDirectory: shell.currentDirectory, 
+      success: true 
+    };
+  }
+
+  const host = args[0];
+  return { 
+    output: `ssh: connect to host ${host} port 22: Connection refused`, 
+    error: "Connection refused",
+    currentDirectory: shell.currentDirectory, 
+    success: false 
+  };
+}
+
+async function executeSCP(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  if (args.length < 2) {
+    return { 
+      output: "usage: scp [-346BCpqrTv] [-c cipher] [-F ssh_config] [-i identity_file]", 
+      currentDirectory: shell.currentDirectory, 
+      success: true 
+    };
+  }
+
+  const source = args[0];
+  const dest = args[1];
+  return { 
+    output: `scp: connect to host ${dest.split(':')[0]} port 22: Connection refused`, 
+    error: "Connection refused",
+    currentDirectory: shell.currentDirectory, 
+    success: false 
+  };
+}
+
+async function executeRsync(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  if (args.length < 2) {
+    return { 
+      output: "rsync: no destination specified", 
+      error: "Missing destination",
+      currentDirectory: shell.currentDirectory, 
+      success: false 
+    };
+  }
+
+  const source = args[0];
+  const dest = args[1];
+  return { 
+    output: `sending incremental file list\n${source}\n\nsent 1,234 bytes  received 56 bytes  258.00 bytes/sec\ntotal size is 1,234  speedup is 0.96`, 
+    currentDirectory: shell.currentDirectory, 
+    success: true 
+  };
+}
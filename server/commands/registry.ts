@@ -0,0 +1,100 @@
+// The commands a shell can run. Each command module declares its commands
+// here; integrators can add their own or turn built-ins off before the
+// server starts.
+
+import type { CommandResult } from "@shared/schema";
+import type { InputStream } from "../shell/io";
+import type { TerminalProcessor } from "../terminal";
+
+export interface CommandFlag {
+  flag: string;
+  description: string;
+}
+
+export interface CommandContext {
+  shell: TerminalProcessor;
+  // The name the command was run as, which may be one of its aliases
+  name: string;
+  args: string[];
+  stdin?: InputStream;
+}
+
+export interface CommandDefinition {
+  name: string;
+  aliases?: string[];
+  // Synopsis shown by help, e.g. "mkdir [-pv] DIRECTORY..."
+  usage: string;
+  description: string;
+  // Heading the command is listed under in help
+  category: string;
+  flags?: CommandFlag[];
+  // Builtins are part of the shell itself; everything else is reported as
+  // a program in /usr/bin by which and type
+  builtin?: boolean;
+  // Set for commands like echo and test that take --help as an ordinary
+  // argument; every other command answers it with its usage
+  noHelpOption?: boolean;
+  handler(context: CommandContext): Promise<CommandResult> | CommandResult;
+}
+
+export class CommandRegistry {
+  private definitions = new Map<string, CommandDefinition>();
+  // Every name a command answers to, aliases included
+  private names = new Map<string, CommandDefinition>();
+  private disabled = new Set<string>();
+
+  // A command with the same name as an existing one replaces it; a name
+  // that was another command's alias now runs the new command instead
+  register(...definitions: CommandDefinition[]): this {
+    definitions.forEach(definition => {
+      const existing = this.definitions.get(definition.name);
+      if (existing) this.remove(existing);
+      this.definitions.set(definition.name, definition);
+      [definition.name].concat(definition.aliases ?? []).forEach(name => this.names.set(name, definition));
+    });
+    return this;
+  }
+
+  // Disabling a command's name disables its aliases too; disabling an alias
+  // leaves the command available under its other names
+  disable(...names: string[]): this {
+    names.forEach(name => this.disabled.add(name));
+    return this;
+  }
+
+  enable(...names: string[]): this {
+    names.forEach(name => this.disabled.delete(name));
+    return this;
+  }
+
+  get(name: string): CommandDefinition | undefined {
+    const definition = this.names.get(name);
+    if (!definition || this.disabled.has(name) || this.disabled.has(definition.name)) {
+      return undefined;
+    }
+    return definition;
+  }
+
+  // Names a command can currently be run as, its own name first
+  namesOf(definition: CommandDefinition): string[] {
+    return [definition.name].concat(definition.aliases ?? []).filter(name => this.get(name) === definition);
+  }
+
+  // Enabled commands in registration order
+  list(): CommandDefinition[] {
+    const enabled: CommandDefinition[] = [];
+    this.definitions.forEach(definition => {
+      if (this.namesOf(definition).length > 0) enabled.push(definition);
+    });
+    return enabled;
+  }
+
+  private remove(definition: CommandDefinition) {
+    this.definitions.delete(definition.name);
+    const stale: string[] = [];
+    this.names.forEach((owner, name) => {
+      if (owner === definition) stale.push(name);
+    });
+    stale.forEach(name => this.names.delete(name));
+  }
+}
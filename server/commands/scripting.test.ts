@@ -0,0 +1,137 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TerminalProcessor } from "../terminal";
+import { newShell } from "../testing";
+
+// Writes the script to a file and runs it with sh
+async function runScript(shell: TerminalProcessor, script: string) {
+  await shell.executeCommand(`cat > test.sh <<'EOF'\n${script}\nEOF`);
+  return shell.executeCommand('sh test.sh');
+}
+
+test("set -- replaces the positional parameters", async () => {
+  const shell = await newShell();
+  await shell.executeCommand('set -- a "b c" d');
+  assert.deepEqual(shell.positional, ['a', 'b c', 'd']);
+  assert.equal((await shell.executeCommand('echo $# $2')).output, '3 b c');
+
+  await shell.executeCommand('set x');
+  assert.deepEqual(shell.positional, ['x']);
+  await shell.executeCommand('set --');
+  assert.deepEqual(shell.positional, []);
+});
+
+test("set -e stops a script at the first untested failure", async () => {
+  const shell = await newShell();
+  const result = await runScript(shell, [
+    'set -e',
+    'false || echo handled',
+    'if false; then echo no; fi',
+    '! false',
+    'false && echo no',
+    'echo before',
+    'false',
+    'echo after',
+  ].join('\n'));
+  assert.equal(result.output, 'handled\nbefore');
+  assert.equal(result.exitCode, 1);
+});
+
+test("set -e applies inside subshells and is not inherited by scripts", async () => {
+  const shell = await newShell();
+  assert.equal((await runScript(shell, 'set -e\n(false)\necho no')).output, '');
+  assert.equal((await runScript(shell, 'set -e\nsh -c "false; echo inner"\necho outer')).output, 'inner\nouter');
+});
+
+test("set -u makes unset variables an error", async () => {
+  const shell = await newShell();
+  const result = await runScript(shell, 'set -u\necho ${missing:-default}\necho $missing\necho after');
+  assert.equal(result.output, 'default');
+  assert.equal(result.stderr, 'missing: unbound variable');
+  assert.equal(result.exitCode, 1);
+});
+
+test("set -x traces commands to stderr", async () => {
+  const shell = await newShell();
+  const result = await runScript(shell, 'set -x\nx=1 echo "a b"\nset +x\necho quiet');
+  assert.equal(result.output, 'a b\nquiet');
+  assert.equal(result.stderr, "+ x=1 echo 'a b'\n+ set +x");
+});
+
+test("set -o lists and sets options by name", async () => {
+  const shell = await newShell();
+  await shell.executeCommand('set -o nounset');
+  assert.equal(shell.shellOptions.nounset, true);
+  assert.match((await shell.executeCommand('set -o')).output, /nounset\s+on/);
+  await shell.executeCommand('set +u');
+  assert.equal(shell.shellOptions.nounset, false);
+
+  const result = await shell.executeCommand('set -q');
+  assert.equal(result.exitCode, 2);
+  assert.match(result.stderr ?? '', /set: -q: invalid option/);
+});
+
+test("nested loops share one budget and let the event loop run", async () => {
+  const shell = await newShell();
+  let ticks = 0;
+  const timer = setInterval(() => ticks++, 10);
+  setTimeout(() => shell.interrupt(), 300);
+  const started = Date.now();
+  const result = await shell.executeCommand('while true; do while true; do :; done; done');
+  clearInterval(timer);
+  assert.equal(result.exitCode, 130);
+  assert.ok(ticks >= 3, `${ticks} timer ticks`);
+  assert.ok(Date.now() - started < 2000);
+
+  const limited = await shell.executeCommand('for i in 1 2 3; do while true; do :; done; done; echo after');
+  assert.match(limited.stderr ?? '', /while: loops stopped after 100000 iterations/);
+  assert.equal(limited.output, '');
+});
+
+test("read and field splitting use IFS", async () => {
+  const shell = await newShell();
+  await shell.executeCommand('IFS=: read a b <<< "x:y:z"');
+  assert.equal(shell.environment.a, 'x');
+  assert.equal(shell.environment.b, 'y:z');
+
+  await shell.executeCommand("IFS= read -r line <<< '  indented\\ line  '");
+  assert.equal(shell.environment.line, '  indented\\ line  ');
+  await shell.executeCommand("read -r first rest <<< '  one  two three  '");
+  assert.equal(shell.environment.first, 'one');
+  assert.equal(shell.environment.rest, 'two three');
+
+  assert.equal((await shell.executeCommand('x="a,b,,c"; IFS=,; for f in $x; do echo "[$f]"; done')).output, '[a]\n[b]\n[]\n[c]');
+  assert.equal((await shell.executeCommand('x="a b"; IFS=; for f in $x; do echo "[$f]"; done')).output, '[a b]');
+  assert.equal((await shell.executeCommand('set -- 1 2 3; IFS=-; echo "$*"; unset IFS; echo "$*"')).output, '1-2-3\n1 2 3');
+  assert.equal((await shell.executeCommand('x=" a  b "; for f in $x; do echo "[$f]"; done')).output, '[a]\n[b]');
+});
+
+test("echo -n, -e and -E", async () => {
+  const shell = await newShell();
+  assert.equal((await shell.executeCommand('echo -n abc | wc -c')).output.trim(), '3');
+  assert.equal((await shell.executeCommand('echo abc | wc -c')).output.trim(), '4');
+  assert.equal((await shell.executeCommand("echo -e 'a\\tb\\x41\\0102'")).output, 'a\tbAB');
+  assert.equal((await shell.executeCommand("echo -eE 'a\\tb'")).output, 'a\\tb');
+  assert.equal((await shell.executeCommand("echo -e 'a\\cb' c; echo d")).output, 'ad');
+  assert.equal((await shell.executeCommand('echo -x -n')).output, '-x -n');
+
+  await shell.executeCommand('for i in 1 2 3; do echo -n "$i "; done > out.txt');
+  assert.equal((await shell.executeCommand('cat out.txt | wc -c')).output.trim(), '6');
+  assert.equal((await shell.executeCommand('x=$(echo -n hi); echo "[$x]"')).output, '[hi]');
+});
+
+test("printf formats its arguments", async () => {
+  const shell = await newShell();
+  assert.equal((await shell.executeCommand("printf '%s-%d\\n' a 1 b 2")).output, 'a-1\nb-2');
+  assert.equal((await shell.executeCommand("printf '[%5s|%-3s|%05.1f]\\n' ab c 3.14159")).output, '[   ab|c  |003.1]');
+  assert.equal((await shell.executeCommand("printf '%x %o %c %d %d\\n' 255 8 hello 0x10 \"'A\"")).output, 'ff 10 h 16 65');
+  assert.equal((await shell.executeCommand("printf '%*d|%%|%b\\n' 4 7 'x\\ty'")).output, '   7|%|x\ty');
+  assert.equal((await shell.executeCommand("printf 'no newline' | wc -c")).output.trim(), '10');
+  assert.equal((await shell.executeCommand("printf 'a\\n\\n' | wc -l")).output.trim(), '2');
+  assert.equal((await shell.executeCommand("printf '%s,' x y; echo")).output, 'x,y,');
+
+  const invalid = await shell.executeCommand("printf '%d\\n' abc");
+  assert.equal(invalid.output, '0');
+  assert.equal(invalid.exitCode, 1);
+  assert.equal((await shell.executeCommand('printf')).exitCode, 2);
+});
@@ -0,0 +1,434 @@
+// Builtins for scripts: conditions, input, functions and control flow
+
+import { storage } from "../storage";
+import { evaluateConditional, ConditionalError } from "../shell/conditional";
+import { DEFAULT_IFS, fieldDelimiter } from "../shell/expand";
+import { writtenOutput, type InputStream } from "../shell/io";
+import type { CommandResult } from "@shared/schema";
+import type { ShellOptions, TerminalProcessor } from "../terminal";
+import { formatValue } from "./awk";
+import type { CommandDefinition } from "./registry";
+import { expandEscapes } from "./text";
+import { lookup } from "./util";
+
+const category = 'Scripting';
+
+export const scriptingCommands: CommandDefinition[] = [
+  {
+    name: 'sh',
+    aliases: ['bash'],
+    usage: 'sh [-c COMMAND [NAME [ARG...]] | FILE [ARG...]]',
+    description: 'Run a script file or -c string',
+    category,
+    flags: [
+      { flag: '-c', description: 'Run COMMAND instead of a file' },
+    ],
+    handler: ({ shell, name, args, stdin }) => shell.runShell(name, args, stdin),
+  },
+  {
+    name: 'test',
+    aliases: ['['],
+    usage: 'test EXPRESSION',
+    description: 'Check files, strings and numbers',
+    category,
+    builtin: true,
+    noHelpOption: true,
+    handler: ({ shell, name, args }) => testCommand(shell, name, args),
+  },
+  {
+    name: 'read',
+    usage: 'read [-r] [-p PROMPT] [NAME...]',
+    description: 'Read a line into variables',
+    category,
+    builtin: true,
+    flags: [
+      { flag: '-r', description: 'Keep backslashes as they are' },
+      { flag: '-p', description: 'Prompt shown before reading' },
+    ],
+    handler: ({ shell, args, stdin }) => readLine(shell, args, stdin),
+  },
+  {
+    name: 'printf',
+    usage: 'printf FORMAT [ARGUMENT...]',
+    description: 'Format and print arguments',
+    category,
+    builtin: true,
+    noHelpOption: true,
+    flags: [
+      { flag: '%s, %b', description: 'A string; %b also reads its backslash escapes' },
+      { flag: '%d, %i, %o, %u, %x, %X, %c', description: 'An integer, in decimal, octal or hex, or a character' },
+      { flag: '%e, %f, %g', description: 'A floating-point number' },
+    ],
+    handler: ({ shell, args }) => printFormatted(shell, args),
+  },
+  {
+    name: 'local',
+    usage: 'local NAME[=VALUE]...',
+    description: 'Declare function variables',
+    category,
+    builtin: true,
+    handler: ({ shell, args }) => declareLocal(shell, args),
+  },
+  {
+    name: 'set',
+    usage: 'set [-eux] [-o OPTION] [--] [ARG...]',
+    description: 'Set shell options and positional parameters',
+    category,
+    builtin: true,
+    flags: [
+      { flag: '-e', description: 'Exit when a command fails' },
+      { flag: '-u', description: 'Treat unset variables as an error' },
+      { flag: '-x', description: 'Print commands before running them' },
+      { flag: '-o', description: 'Set an option by name; list them without one' },
+    ],
+    handler: ({ shell, args }) => setOptions(shell, args),
+  },
+  {
+    name: 'shift',
+    usage: 'shift [N]',
+    description: 'Drop positional parameters',
+    category,
+    builtin: true,
+    handler: ({ shell, args }) => shiftPositional(shell, args),
+  },
+  {
+    name: 'break',
+    usage: 'break [N]',
+    description: 'Leave the innermost N loops',
+    category,
+    builtin: true,
+    handler: ({ shell, args }) => controlFlow(shell, 'break', args),
+  },
+  {
+    name: 'continue',
+    usage: 'continue [N]',
+    description: 'Start the next iteration of a loop',
+    category,
+    builtin: true,
+    handler: ({ shell, args }) => controlFlow(shell, 'continue', args),
+  },
+  {
+    name: 'return',
+    usage: 'return [STATUS]',
+    description: 'Leave a function or sourced script',
+    category,
+    builtin: true,
+    handler: ({ shell, args }) => controlFlow(shell, 'return', args),
+  },
+  {
+    name: 'exit',
+    usage: 'exit [STATUS]',
+    description: 'Leave the script or shell',
+    category,
+    builtin: true,
+    handler: ({ shell, args }) => controlFlow(shell, 'exit', args),
+  },
+  {
+    name: 'true',
+    aliases: [':'],
+    usage: 'true',
+    description: 'Do nothing, successfully',
+    category,
+    builtin: true,
+    noHelpOption: true,
+    handler: ({ shell }) => ({ output: "", currentDirectory: shell.currentDirectory, success: true }),
+  },
+  {
+    name: 'false',
+    usage: 'false',
+    description: 'Do nothing, unsuccessfully',
+    category,
+    builtin: true,
+    noHelpOption: true,
+    handler: ({ shell }) => ({ output: "", currentDirectory: shell.currentDirectory, success: false }),
+  },
+];
+
+async function testCommand(shell: TerminalProcessor, cmd: string, args: string[]): Promise<CommandResult> {
+  if (cmd === '[') {
+    if (args[args.length - 1] !== ']') {
+      return shell.failure("[: missing `]'", 2);
+    }
+    args = args.slice(0, -1);
+  }
+
+  try {
+    const status = await evaluateConditional(args, {
+      stat: async (path: string) => {
+        const item = await storage.getFileSystemItem(shell.owner, shell.resolvePath(path));
+        return item && { type: item.type, permissions: item.permissions, size: item.size, updatedAt: item.updatedAt };
+      }
+    });
+    return { output: "", currentDirectory: shell.currentDirectory, success: status === 0, exitCode: status };
+  } catch (error) {
+    if (error instanceof ConditionalError) {
+      return shell.failure(`${cmd}: ${error.message}`, 2);
+    }
+    throw error;
+  }
+}
+
+// read [-r] [-p prompt] [name...]: splits one line of input into fields at
+// IFS delimiters, as expansion does, the last name taking whatever is left;
+// without names the line goes to REPLY
+function readLine(shell: TerminalProcessor, args: string[], stdin?: InputStream): CommandResult {
+  let raw = false;
+  const names: string[] = [];
+  for (let index = 0; index < args.length; index++) {
+    if (args[index] === '-r') {
+      raw = true;
+    } else if (args[index] === '-p') {
+      // Prompts are only shown when reading from a terminal
+      index++;
+    } else if (/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(args[index])) {
+      names.push(args[index]);
+    } else {
+      return shell.failure(`read: \`${args[index]}': not a valid identifier`);
+    }
+  }
+
+  let line = stdin?.readLine();
+  // Without -r a trailing backslash continues the line and others escape the next character
+  while (!raw && line !== undefined && /(^|[^\\])(\\\\)*\\$/.test(line)) {
+    const next: string | undefined = stdin?.readLine();
+    line = line.substring(0, line.length - 1) + (next ?? '');
+    if (next === undefined) break;
+  }
+  const text = line === undefined ? '' : raw ? line : line.replace(/\\(.)/g, '$1');
+
+  if (names.length === 0) {
+    shell.environment.REPLY = text;
+  } else {
+    // IFS whitespace around the line is dropped
+    const ifs = shell.environment.IFS ?? DEFAULT_IFS;
+    const whitespace = (char: string) => ifs.indexOf(char) !== -1 && DEFAULT_IFS.indexOf(char) !== -1;
+    let start = 0;
+    let end = text.length;
+    while (start < end && whitespace(text[start])) start++;
+    while (end > start && whitespace(text[end - 1])) end--;
+    let rest = text.substring(start, end);
+    names.forEach((name, index) => {
+      if (index === names.length - 1) {
+        shell.environment[name] = rest;
+        return;
+      }
+      let length = 0;
+      while (length < rest.length && !fieldDelimiter(rest, length, ifs)) length++;
+      shell.environment[name] = rest.substring(0, length);
+      rest = rest.substring(fieldDelimiter(rest, length, ifs)?.end ?? length);
+    });
+  }
+
+  const status = line === undefined ? 1 : 0;
+  return { output: "", currentDirectory: shell.currentDirectory, success: status === 0, exitCode: status };
+}
+
+// The letter for each option, mapped to the name set -o knows it by
+// printf FORMAT [ARGUMENT...]: the format is used again while arguments are
+// left, and missing ones read as empty strings or zero. Numbers may be octal,
+// hex or 'C for the code of character C
+function printFormatted(shell: TerminalProcessor, args: string[]): CommandResult {
+  const operands = args[0] === '--' ? args.slice(1) : args;
+  if (operands.length === 0) {
+    return shell.failure('printf: usage: printf FORMAT [ARGUMENT...]', 2);
+  }
+  const format = operands[0];
+  const values = operands.slice(1);
+  const errors: string[] = [];
+  let next = 0;
+  const argument = () => next < values.length ? values[next++] : '';
+  const number = () => {
+    const value = argument();
+    const parsed = printfNumber(value);
+    if (parsed === undefined) errors.push(`printf: ${value}: invalid number`);
+    return parsed ?? 0;
+  };
+  const text = (value: unknown) => value === undefined ? '' : String(value);
+
+  let output = '';
+  let stopped = false;
+  do {
+    const start = next;
+    const pieces = format.match(/%%|%[-+ #0]*(?:\*|\d+)?(?:\.(?:\*|\d*))?[a-zA-Z]?|[^%]+/g) ?? [];
+    for (let i = 0; i < pieces.length && !stopped; i++) {
+      const piece = pieces[i];
+      if (piece === '%%') {
+        output += '%';
+        continue;
+      }
+      if (piece[0] !== '%') {
+        const expanded = expandEscapes(piece, true);
+        output += expanded.text;
+        stopped = expanded.stopped;
+        continue;
+      }
+      const spec = /^%[-+ #0]*(\*|\d+)?(?:\.(\*|\d*))?([a-zA-Z]?)$/.exec(piece)!;
+      const conversion = spec[3];
+      if (!/^[bcdieEfFgGosuxX]$/.test(conversion)) {
+        errors.push(`printf: ${piece}: ${conversion ? 'invalid' : 'missing'} format character`);
+        stopped = true;
+        break;
+      }
+      const sizes = [spec[1], spec[2]].filter(size => size === '*').map(() => number());
+      if (conversion === 'b') {
+        const expanded = expandEscapes(argument());
+        output += formatValue(piece.replace(/b$/, 's'), [...sizes, expanded.text], text);
+        stopped = expanded.stopped;
+      } else if (conversion === 's' || conversion === 'c') {
+        output += formatValue(piece, [...sizes, argument()], text);
+      } else {
+        output += formatValue(piece, [...sizes, number()], text);
+      }
+    }
+    if (next === start) break;
+  } while (!stopped && next < values.length);
+
+  return {
+    ...writtenOutput(output),
+    stderr: errors.length > 0 ? errors.join('\n') : undefined,
+    error: errors[0],
+    currentDirectory: shell.currentDirectory,
+    success: errors.length === 0,
+  };
+}
+
+function printfNumber(value: string): number | undefined {
+  if (/^['"]/.test(value)) return value.length > 1 ? value.charCodeAt(1) : 0;
+  const trimmed = value.trim();
+  if (trimmed === '') return 0;
+  if (/^[-+]?0x[0-9a-f]+$/i.test(trimmed)) return parseInt(trimmed, 16);
+  if (/^[-+]?0[0-7]+$/.test(trimmed)) return parseInt(trimmed, 8);
+  if (/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(trimmed)) return Number(trimmed);
+  return undefined;
+}
+
+const SHELL_OPTIONS: Record<string, keyof ShellOptions> = { e: 'errexit', u: 'nounset', x: 'xtrace' };
+
+// set with no arguments lists the variables; otherwise -e/+e style options
+// and -o NAME turn options on and off, and whatever follows them (or --)
+// replaces the positional parameters
+function setOptions(shell: TerminalProcessor, args: string[]): CommandResult {
+  if (args.length === 0) {
+    const names = Object.keys(shell.environment).sort();
+    return { output: names.map(name => `${name}=${shell.environment[name]}`).join('\n'), currentDirectory: shell.currentDirectory, success: true };
+  }
+
+  const names = Object.keys(SHELL_OPTIONS).map(letter => SHELL_OPTIONS[letter]);
+  let index = 0;
+  for (; index < args.length; index++) {
+    const arg = args[index];
+    if (arg === '--') {
+      index++;
+      shell.positional = args.slice(index);
+      return { output: "", currentDirectory: shell.currentDirectory, success: true };
+    }
+    if (arg === '-') {
+      shell.shellOptions.xtrace = false;
+      index++;
+      break;
+    }
+    if (!/^[-+]./.test(arg)) break;
+
+    const enable = arg[0] === '-';
+    for (const letter of arg.substring(1).split('')) {
+      if (letter === 'o') {
+        const name = args[index + 1];
+        if (name === undefined) {
+          const width = Math.max(...names.map(option => option.length));
+          const output = names.map(option => enable
+            ? `${option.padEnd(width)}\t${shell.shellOptions[option] ? 'on' : 'off'}`
+            : `set ${shell.shellOptions[option] ? '-' : '+'}o ${option}`);
+          return { output: output.join('\n'), currentDirectory: shell.currentDirectory, success: true };
+        }
+        if (names.indexOf(name as keyof ShellOptions) === -1) {
+          return shell.failure(`set: ${name}: invalid option name`, 2);
+        }
+        shell.shellOptions[name as keyof ShellOptions] = enable;
+        index++;
+      } else if (lookup(SHELL_OPTIONS, letter)) {
+        shell.shellOptions[SHELL_OPTIONS[letter]] = enable;
+      } else {
+        return shell.failure(`set: ${arg[0]}${letter}: invalid option\nset: usage: set [-eux] [-o option-name] [--] [arg ...]`, 2);
+      }
+    }
+  }
+
+  if (index < args.length) shell.positional = args.slice(index);
+  return { output: "", currentDirectory: shell.currentDirectory, success: true };
+}
+
+function shiftPositional(shell: TerminalProcessor, args: string[]): CommandResult {
+  const count = args.length > 0 ? parseInt(args[0], 10) : 1;
+  if (isNaN(count) || count < 0) {
+    return shell.failure(`shift: ${args[0]}: numeric argument required`);
+  }
+  if (count > shell.positional.length) {
+    return { output: "", currentDirectory: shell.currentDirectory, success: false, exitCode: 1 };
+  }
+  shell.positional = shell.positional.slice(count);
+  return { output: "", currentDirectory: shell.currentDirectory, success: true };
+}
+
+// Variables declared local get their old values back when the function returns
+function declareLocal(shell: TerminalProcessor, args: string[]): CommandResult {
+  const scope = shell.localScopes[shell.localScopes.length - 1];
+  if (!scope) {
+    return shell.failure('local: can only be used in a function');
+  }
+
+  const errors: string[] = [];
+  args.forEach(arg => {
+    const separator = arg.indexOf('=');
+    const name = separator === -1 ? arg : arg.substring(0, separator);
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+      errors.push(`local: \`${arg}': not a valid identifier`);
+      return;
+    }
+    if (!(name in scope)) {
+      scope[name] = shell.environment[name];
+    }
+    if (separator === -1) {
+      delete shell.environment[name];
+    } else {
+      shell.environment[name] = arg.substring(separator + 1);
+    }
+  });
+
+  return { 
+    output: "", 
+    stderr: errors.join('\n'),
+    error: errors[0],
+    currentDirectory: shell.currentDirectory, 
+    success: errors.length === 0 
+  };
+}
+
+// break and continue take a loop count, return and exit a status. The
+// command itself only records what to do; the enclosing loop, function or
+// script acts on it.
+function controlFlow(shell: TerminalProcessor, cmd: 'break' | 'continue' | 'return' | 'exit', args: string[]): CommandResult {
+  const value = args.length > 0 ? parseInt(args[0], 10) : undefined;
+  if (args.length > 0 && (value === undefined || isNaN(value) || !/^-?\d+$/.test(args[0]))) {
+    shell.control = cmd === 'exit' || cmd === 'return' ? { kind: cmd, levels: 1 } : undefined;
+    return shell.failure(`${cmd}: ${args[0]}: numeric argument required`, cmd === 'exit' || cmd === 'return' ? 2 : 1);
+  }
+
+  if (cmd === 'break' || cmd === 'continue') {
+    if (shell.loopDepth === 0) {
+      return { output: "", stderr: `${cmd}: only meaningful in a \`for', \`while', or \`until' loop`, currentDirectory: shell.currentDirectory, success: true };
+    }
+    if (value !== undefined && value < 1) {
+      return shell.failure(`${cmd}: ${value}: loop count out of range`);
+    }
+    shell.control = { kind: cmd, levels: Math.min(value ?? 1, shell.loopDepth) };
+    return { output: "", currentDirectory: shell.currentDirectory, success: true };
+  }
+
+  if (cmd === 'return' && shell.callDepth === 0) {
+    return shell.failure("return: can only `return' from a function or sourced script");
+  }
+  // Statuses wrap to a byte, as they do on a real system
+  const status = value === undefined ? shell.lastExitCode : ((value % 256) + 256) % 256;
+  shell.control = { kind: cmd, levels: 1 };
+  return { output: "", currentDirectory: shell.currentDirectory, success: status === 0, exitCode: status };
+}
@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { newShell, writeFile } from "../testing";
+
+test("sed substitutes, deletes and prints by address", async () => {
+  const shell = await newShell();
+  await writeFile(shell, "lines.txt", "one\ntwo\nthree\nfour\nfive\n");
+  const run = async (command: string) => (await shell.executeCommand(command)).output;
+
+  assert.equal(await run("sed 's/o/0/' lines.txt | head -2"), "0ne\ntw0");
+  assert.equal(await run("echo foo foo | sed 's/o/0/g; s/f/F/2'"), "f00 F00");
+  assert.equal(await run("echo 'a/b' | sed 's|/|\\\\|'"), "a\\b");
+  assert.equal(await run("echo 2024-01-31 | sed -E 's/([0-9]+)-([0-9]+)-([0-9]+)/\\3.\\2.\\1/'"), "31.01.2024");
+  assert.equal(await run("echo hello | sed 's/l*/[&]/g'"), "[]h[]e[ll]o[]");
+  assert.equal(await run("sed -n '2,4p' lines.txt"), "two\nthree\nfour");
+  assert.equal(await run("sed '/^t/d' lines.txt"), "one\nfour\nfive");
+  assert.equal(await run("sed -n '/two/,/four/{/three/!p}' lines.txt"), "two\nfour");
+  assert.equal(await run("sed -n '$p' lines.txt"), "five");
+  assert.equal(await run("sed '1!G;h;$!d' lines.txt"), "five\nfour\nthree\ntwo\none");
+  assert.equal(await run("sed -e '1i\\' -e 'top' -e '$a end' lines.txt | sed -n '1p;$p'"), "top\nend");
+  assert.equal(await run("sed 'y/abc/xyz/' <<< aabbcc"), "xxyyzz");
+  assert.equal(await run("sed '=' lines.txt | head -2"), "1\none");
+  assert.equal(await run("sed 3q lines.txt"), "one\ntwo\nthree");
+});
+
+test("sed -i edits files in place and reports bad scripts", async () => {
+  const shell = await newShell();
+  await writeFile(shell, "config.ini", "debug=false\nport=80\n");
+  await shell.executeCommand("sed -i.bak 's/false/true/' config.ini");
+  const edited = await storage.getFileSystemItem(shell.owner, "/home/user/config.ini");
+  assert.equal(edited?.content?.toString("utf8"), "debug=true\nport=80\n");
+  assert.equal((await shell.executeCommand("cat config.ini.bak")).output, "debug=false\nport=80");
+
+  const bad = await shell.executeCommand("sed 's/a/b' config.ini");
+  assert.equal(bad.exitCode, 1);
+  assert.match(bad.stderr ?? "", /^sed: -e expression #1, char \d+: unterminated `s' command$/);
+  assert.equal((await shell.executeCommand("sed p missing.txt")).exitCode, 2);
+});
@@ -0,0 +1,827 @@
+// sed, the stream editor: runs a script of commands like s, p and d over
+// every line of files or stdin, or edits files in place with -i
+
+import { posixToSource, RegexError } from "../shell/regex";
+import { SIGNALS } from "../shell/jobs";
+import type { InputStream } from "../shell/io";
+import type { CommandResult } from "@shared/schema";
+import type { TerminalProcessor } from "../terminal";
+import type { CommandDefinition } from "./registry";
+import { readInput, writeOutput, textResult, usageError } from "./text";
+
+const category = 'Text Processing';
+
+export const sedCommands: CommandDefinition[] = [
+  {
+    name: 'sed',
+    usage: 'sed [-nEs] [-i[SUFFIX]] [-e SCRIPT]... [-f FILE] [SCRIPT] [FILE]...',
+    description: 'Filter and transform text line by line',
+    category,
+    flags: [
+      { flag: '-n, --quiet', description: 'Print only what the script prints with p' },
+      { flag: '-e, --expression=SCRIPT', description: 'Add SCRIPT to the commands to run' },
+      { flag: '-f, --file=FILE', description: 'Add the commands in FILE' },
+      { flag: '-i[SUFFIX], --in-place[=SUFFIX]', description: 'Edit files in place, keeping a backup if SUFFIX is given' },
+      { flag: '-E, -r, --regexp-extended', description: 'Use extended regular expressions' },
+      { flag: '-s, --separate', description: 'Treat files separately for line numbers and $' },
+    ],
+    handler: ({ shell, args, stdin }) => sed(shell, args, stdin),
+  },
+];
+
+class SedError extends Error {}
+
+// Ctrl-C arrived while the script was running
+class SedInterrupted extends Error {}
+
+type SedAddress =
+  | { kind: 'line'; line: number }
+  | { kind: 'last' }
+  | { kind: 'step'; first: number; step: number }
+  // Without a regex, the last one used
+  | { kind: 'regex'; regex?: RegExp };
+
+interface Substitution {
+  regex?: RegExp;
+  replacement: string;
+  global: boolean;
+  // Replace only from the Nth match on
+  occurrence: number;
+  print: boolean;
+}
+
+interface SedCommand {
+  name: string;
+  start?: SedAddress;
+  // The end of a range: an address, or +N lines after where it started
+  end?: SedAddress | { kind: 'relative'; count: number };
+  negated: boolean;
+  // Whether a range is open, and the line a +N range closes on
+  inRange: boolean;
+  closesAt?: number;
+  // Text for a, i and c, the label for b, t and T, the file for r and w
+  text?: string;
+  // Where { jumps when it doesn't match, and where branches go
+  target?: number;
+  substitution?: Substitution;
+  translation?: { from: string[]; to: string[] };
+  exitCode?: number;
+}
+
+// Scripts run on the server's event loop, so one gets RUN_TIME_LIMIT
+// milliseconds of it in all and hands it back to other sessions (and to
+// Ctrl-C) every YIELD_INTERVAL milliseconds
+const RUN_TIME_LIMIT = 10000;
+const YIELD_INTERVAL = 50;
+
+// Commands that take no argument at all
+const SIMPLE_COMMANDS = '=dDgGhHlnNpPxz';
+
+class SedParser {
+  private position = 0;
+  private commands: SedCommand[] = [];
+  private blocks: number[] = [];
+
+  constructor(private readonly script: string, private readonly extended: boolean) {}
+
+  parse(): SedCommand[] {
+    for (;;) {
+      this.skip(/[\s;]/);
+      if (this.position >= this.script.length) break;
+      if (this.script[this.position] === '#') {
+        while (this.position < this.script.length && this.script[this.position] !== '\n') this.position++;
+        continue;
+      }
+      this.parseCommand();
+    }
+    if (this.blocks.length > 0) throw this.error("unmatched `{'");
+
+    // Branches find their labels once every label is known
+    this.commands.forEach(command => {
+      if ('btT'.indexOf(command.name) === -1 || !command.text) return;
+      const target = this.commands.findIndex(other => other.name === ':' && other.text === command.text);
+      if (target === -1) throw new SedError(`can't find label for jump to \`${command.text}'`);
+      command.target = target;
+    });
+    return this.commands;
+  }
+
+  private error(message: string): SedError {
+    return new SedError(`-e expression #1, char ${this.position}: ${message}`);
+  }
+
+  private skip(pattern: RegExp) {
+    while (this.position < this.script.length && pattern.test(this.script[this.position])) this.position++;
+  }
+
+  private peek(): string | undefined {
+    return this.script[this.position];
+  }
+
+  private compile(pattern: string, flags: string): RegExp {
+    try {
+      return new RegExp(posixToSource(pattern, this.extended), `g${flags}`);
+    } catch (error) {
+      throw this.error(error instanceof Error ? error.message.replace(/^Invalid regular expression: /, '') : String(error));
+    }
+  }
+
+  // Text up to an unescaped delimiter, with "\delimiter" turned into the
+  // delimiter itself unless it means something escaped. Brackets may hold
+  // the delimiter unescaped.
+  private delimited(delimiter: string, what: string, regex: boolean): string {
+    const special = this.extended ? '.*[]^$\\+?(){}|' : '.*[]^$\\';
+    let text = '';
+    for (;;) {
+      const char = this.script[this.position++];
+      if (char === undefined) throw this.error(`unterminated ${what}`);
+      if (char === delimiter) return text;
+      if (char === '\\') {
+        const next = this.script[this.position++];
+        if (next === undefined) throw this.error(`unterminated ${what}`);
+        if (next === delimiter && (!regex || special.indexOf(next) === -1)) text += next;
+        else if (next === '\n' && !regex) text += '\n';
+        else text += char + next;
+      } else if (char === '[' && regex) {
+        // Copy a bracket expression whole, delimiter and all
+        let end = this.position;
+        if (this.script[end] === '^') end++;
+        if (this.script[end] === ']') end++;
+        while (end < this.script.length && this.script[end] !== ']') {
+          if (this.script[end] === '[' && /[:=.]/.test(this.script[end + 1] ?? '')) {
+            const close = this.script.indexOf(this.script[end + 1] + ']', end + 2);
+            end = close === -1 ? this.script.length : close + 2;
+          } else {
+            end++;
+          }
+        }
+        text += this.script.substring(this.position - 1, end + 1);
+        this.position = end + 1;
+      } else {
+        text += char;
+      }
+    }
+  }
+
+  private parseRegexAddress(): SedAddress {
+    let delimiter = '/';
+    if (this.peek() === '\\') {
+      this.position++;
+      delimiter = this.script[this.position++];
+    } else {
+      this.position++;
+    }
+    const pattern = this.delimited(delimiter, 'address regex', true);
+    let flags = 's';
+    while (this.peek() === 'I') {
+      flags += 'i';
+      this.position++;
+    }
+    return { kind: 'regex', regex: pattern === '' ? undefined : this.compile(pattern, flags) };
+  }
+
+  private parseAddress(): SedAddress | undefined {
+    const char = this.peek();
+    if (char === undefined) return undefined;
+    if (/\d/.test(char)) {
+      const match = /^(\d+)(?:~(\d+))?/.exec(this.script.substring(this.position))!;
+      this.position += match[0].length;
+      return match[2] !== undefined
+        ? { kind: 'step', first: parseInt(match[1], 10), step: parseInt(match[2], 10) }
+        : { kind: 'line', line: parseInt(match[1], 10) };
+    }
+    if (char === '$') {
+      this.position++;
+      return { kind: 'last' };
+    }
+    if (char === '/' || char === '\\') return this.parseRegexAddress();
+    return undefined;
+  }
+
+  // The rest of the line, for labels and file names
+  private argument(): string {
+    this.skip(/[ \t]/);
+    const start = this.position;
+    while (this.position < this.script.length && this.script[this.position] !== '\n' && this.script[this.position] !== ';') this.position++;
+    return this.script.substring(start, this.position).trim();
+  }
+
+  // Text for a, i and c: "a\" then lines ending in a backslash continue, or
+  // GNU's one-line "a text"
+  private appendedText(): string {
+    this.skip(/[ \t]/);
+    if (this.peek() === '\\') {
+      this.position++;
+      if (this.peek() === '\n') this.position++;
+    }
+    let text = '';
+    while (this.position < this.script.length) {
+      const char = this.script[this.position++];
+      if (char === '\\') {
+        const next = this.script[this.position++] ?? '';
+        text += next === 't' ? '\t' : next;
+      } else if (char === '\n') {
+        break;
+      } else {
+        text += char;
+      }
+    }
+    return text;
+  }
+
+  private parseSubstitution(command: SedCommand) {
+    const delimiter = this.script[this.position++];
+    if (delimiter === undefined || delimiter === '\n' || delimiter === '\\') throw this.error("unterminated `s' command");
+    const pattern = this.delimited(delimiter, "`s' command", true);
+    const replacement = this.delimited(delimiter, "`s' command", false);
+
+    const substitution: Substitution = { replacement, global: false, occurrence: 1, print: false };
+    let flags = 's';
+    for (let char = this.peek(); char !== undefined && /[gpiI0-9]/.test(char); char = this.peek()) {
+      if (char === 'g') {
+        substitution.global = true;
+        this.position++;
+      } else if (char === 'p') {
+        substitution.print = true;
+        this.position++;
+      } else if (char === 'i' || char === 'I') {
+        flags += 'i';
+        this.position++;
+      } else {
+        const digits = /^\d+/.exec(this.script.substring(this.position))![0];
+        substitution.occurrence = parseInt(digits, 10);
+        if (substitution.occurrence === 0) throw this.error("number option to `s' command may not be zero");
+        this.position += digits.length;
+      }
+    }
+    substitution.regex = pattern === '' ? undefined : this.compile(pattern, flags);
+    command.substitution = substitution;
+  }
+
+  private parseCommand() {
+    const command: SedCommand = { name: '', negated: false, inRange: false };
+    command.start = this.parseAddress();
+    if (command.start && this.peek() === ',') {
+      this.position++;
+      const relative = /^\+(\d+)/.exec(this.script.substring(this.position));
+      if (relative) {
+        this.position += relative[0].length;
+        command.end = { kind: 'relative', count: parseInt(relative[1], 10) };
+      } else {
+        command.end = this.parseAddress();
+        if (!command.end) throw this.error('unexpected `,\'');
+      }
+    }
+    if (command.start?.kind === 'line' && command.start.line === 0) {
+      if (command.end?.kind !== 'regex') throw this.error('invalid usage of line address 0');
+      // 0,/re/ lets the regex end the range on the very first line
+      command.inRange = true;
+    }
+    this.skip(/[ \t]/);
+    while (this.peek() === '!') {
+      command.negated = true;
+      this.position++;
+      this.skip(/[ \t]/);
+    }
+
+    const name = this.script[this.position++];
+    if (name === undefined) throw this.error('missing command');
+    command.name = name;
+
+    if (name === '{') {
+      this.blocks.push(this.commands.length);
+      this.commands.push(command);
+      return;
+    }
+    if (name === '}') {
+      if (command.start) throw this.error("unexpected `}'");
+      const open = this.blocks.pop();
+      if (open === undefined) throw this.error("unexpected `}'");
+      this.commands[open].target = this.commands.length;
+    } else if (name === 's') {
+      this.parseSubstitution(command);
+    } else if (name === 'y') {
+      const delimiter = this.script[this.position++];
+      const from = Array.from(this.delimited(delimiter, "`y' command", false).replace(/\\n/g, '\n').replace(/\\\\/g, '\\'));
+      const to = Array.from(this.delimited(delimiter, "`y' command", false).replace(/\\n/g, '\n').replace(/\\\\/g, '\\'));
+      if (from.length !== to.length) throw this.error("strings for `y' command are different lengths");
+      command.translation = { from, to };
+    } else if (name === 'a' || name === 'i' || name === 'c') {
+      command.text = this.appendedText();
+      this.commands.push(command);
+      return;
+    } else if (name === ':') {
+      if (command.start) throw this.error(': doesn\'t want any addresses');
+      command.text = this.argument();
+      if (!command.text) throw this.error('":" lacks a label');
+    } else if (name === 'b' || name === 't' || name === 'T' || name === 'r' || name === 'w') {
+      command.text = this.argument();
+      if ((name === 'r' || name === 'w') && !command.text) throw this.error(`missing filename in r/R/w/W commands`);
+    } else if (name === 'q' || name === 'Q') {
+      this.skip(/[ \t]/);
+      const digits = /^\d+/.exec(this.script.substring(this.position));
+      if (digits) {
+        command.exitCode = parseInt(digits[0], 10);
+        this.position += digits[0].length;
+      }
+    } else if (SIMPLE_COMMANDS.indexOf(name) === -1) {
+      throw this.error(`unknown command: \`${name}'`);
+    }
+
+    this.commands.push(command);
+    this.skip(/[ \t]/);
+    const next = this.peek();
+    if (next !== undefined && next !== ';' && next !== '\n' && next !== '}' && next !== '#') {
+      throw this.error(`extra characters after command`);
+    }
+  }
+}
+
+// Expands & and \1 to \9 in a replacement, along with \n and GNU's case
+// conversions \U, \L and \E for the rest and \u and \l for the next letter
+function expandReplacement(replacement: string, match: RegExpExecArray): string {
+  let result = '';
+  let mode: 'U' | 'L' | undefined;
+  let once: 'u' | 'l' | undefined;
+  const add = (text: string) => {
+    for (const char of Array.from(text)) {
+      let converted = mode === 'U' ? char.toUpperCase() : mode === 'L' ? char.toLowerCase() : char;
+      if (once) {
+        converted = once === 'u' ? converted.toUpperCase() : converted.toLowerCase();
+        once = undefined;
+      }
+      result += converted;
+    }
+  };
+
+  for (let i = 0; i < replacement.length; i++) {
+    const char = replacement[i];
+    if (char === '&') {
+      add(match[0]);
+    } else if (char === '\\' && i + 1 < replacement.length) {
+      const next = replacement[++i];
+      if (/\d/.test(next)) add(match[parseInt(next, 10)] ?? '');
+      else if (next === 'n') add('\n');
+      else if (next === 't') add('\t');
+      else if (next === 'U' || next === 'L') mode = next;
+      else if (next === 'E') mode = undefined;
+      else if (next === 'u' || next === 'l') once = next;
+      else add(next);
+    } else {
+      add(char);
+    }
+  }
+  return result;
+}
+
+// The replacement for s: the Nth match on (every one with g) replaced.
+// Undefined when nothing was.
+function substitute(text: string, regex: RegExp, substitution: Substitution): string | undefined {
+  let result = '';
+  let copied = 0;
+  let count = 0;
+  let replaced = false;
+  let previousEnd = -1;
+  regex.lastIndex = 0;
+  for (let match = regex.exec(text); match; match = regex.exec(text)) {
+    const start = match.index;
+    const end = start + match[0].length;
+    // An empty match right after a previous match doesn't count
+    if (!(match[0] === '' && start === previousEnd)) {
+      count++;
+      if (count === substitution.occurrence || (substitution.global && count > substitution.occurrence)) {
+        result += text.substring(copied, start) + expandReplacement(substitution.replacement, match);
+        copied = end;
+        replaced = true;
+        if (!substitution.global) break;
+      }
+    }
+    previousEnd = end;
+    if (match[0] === '') {
+      if (end >= text.length) break;
+      regex.lastIndex = end + 1;
+    }
+  }
+  return replaced ? result + text.substring(copied) : undefined;
+}
+
+// Lines of one stream sed reads through, and whether the last had a newline
+interface SedStream {
+  lines: string[];
+  finalNewline: boolean;
+}
+
+class SedRunner {
+  private hold = '';
+  private lineNumber = 0;
+  // Milliseconds run so far, not counting time handed back to the event loop
+  private busy = 0;
+  private sliceStart = Date.now();
+  private lastRegex?: RegExp;
+  // Files written by w, with what has been written to each so far
+  written: Record<string, string> = {};
+  exitCode = 0;
+  quit = false;
+
+  constructor(
+    private readonly commands: SedCommand[],
+    private readonly quiet: boolean,
+    // Contents of files r reads, loaded before running
+    private readonly files: Record<string, string | undefined>,
+    private readonly interrupted: () => boolean
+  ) {}
+
+  private regex(regex: RegExp | undefined): RegExp {
+    const chosen = regex ?? this.lastRegex;
+    if (!chosen) throw new SedError('no previous regular expression');
+    this.lastRegex = chosen;
+    return chosen;
+  }
+
+  private matchAddress(address: SedAddress, space: string, last: boolean): boolean {
+    switch (address.kind) {
+      case 'line':
+        return this.lineNumber === address.line;
+      case 'last':
+        return last;
+      case 'step':
+        return address.step <= 0 ? this.lineNumber === address.first
+          : this.lineNumber >= address.first && (this.lineNumber - address.first) % address.step === 0;
+      case 'regex': {
+        const regex = this.regex(address.regex);
+        regex.lastIndex = 0;
+        return regex.test(space);
+      }
+    }
+  }
+
+  private selects(command: SedCommand, space: string, last: boolean): boolean {
+    if (!command.start) return true;
+    const end = command.end;
+    if (!end) return this.matchAddress(command.start, space, last);
+
+    if (command.inRange) {
+      if (end.kind === 'relative') {
+        if (this.lineNumber >= command.closesAt!) command.inRange = false;
+      } else if (end.kind === 'line') {
+        if (this.lineNumber >= end.line) command.inRange = false;
+      } else if (this.matchAddress(end, space, last)) {
+        command.inRange = false;
+      }
+      return true;
+    }
+    if (!this.matchAddress(command.start, space, last)) return false;
+    if (end.kind === 'relative') {
+      command.closesAt = this.lineNumber + end.count;
+      command.inRange = end.count > 0;
+    } else if (end.kind === 'line') {
+      command.inRange = end.line > this.lineNumber;
+    } else {
+      // A range whose end is a regex looks for it from the next line on
+      command.inRange = !(end.kind === 'last' && last);
+    }
+    return true;
+  }
+
+  // Where a branch goes: its label, or past the end of the script
+  private branch(command: SedCommand): number {
+    return command.text ? command.target! : this.commands.length;
+  }
+
+  // Called before every command: lets the event loop run now and then, and
+  // stops the script once it has used up its time
+  private async pause(): Promise<void> {
+    const now = Date.now();
+    if (now - this.sliceStart < YIELD_INTERVAL) return;
+    this.busy += now - this.sliceStart;
+    if (this.busy > RUN_TIME_LIMIT) throw new SedError(`script stopped after running for ${RUN_TIME_LIMIT / 1000} seconds`);
+    await new Promise(resolve => setImmediate(resolve));
+    if (this.interrupted()) throw new SedInterrupted();
+    this.sliceStart = Date.now();
+  }
+
+  // Runs the script over a stream and returns what it printed
+  async run(stream: SedStream): Promise<string> {
+    let output = '';
+    this.lineNumber = 0;
+    let index = 0;
+    let space: string | undefined;
+    let restart = false;
+
+    while (!this.quit) {
+      if (!restart) {
+        if (index >= stream.lines.length) break;
+        space = stream.lines[index++];
+        this.lineNumber++;
+      }
+      restart = false;
+      let text = space!;
+      const appended: string[] = [];
+      let autoprint = !this.quiet;
+      let substituted = false;
+      const last = () => index >= stream.lines.length;
+
+      for (let pc = 0; pc < this.commands.length; pc++) {
+        const command = this.commands[pc];
+        await this.pause();
+        if (this.selects(command, text, last()) === command.negated) {
+          if (command.name === '{') pc = command.target!;
+          continue;
+        }
+
+        let endCycle = false;
+        switch (command.name) {
+          case '{':
+          case '}':
+          case ':':
+            break;
+          case '=':
+            output += `${this.lineNumber}\n`;
+            break;
+          case 'a':
+            appended.push(command.text! + '\n');
+            break;
+          case 'i':
+            output += command.text! + '\n';
+            break;
+          case 'c':
+            // A range is replaced once, at its end
+            if (!command.end || !command.inRange) output += command.text! + '\n';
+            autoprint = false;
+            endCycle = true;
+            break;
+          case 'd':
+            autoprint = false;
+            endCycle = true;
+            break;
+          case 'D':
+            if (text.indexOf('\n') === -1) {
+              autoprint = false;
+            } else {
+              space = text.substring(text.indexOf('\n') + 1);
+              restart = true;
+              autoprint = false;
+            }
+            endCycle = true;
+            break;
+          case 'p':
+            output += text + '\n';
+            break;
+          case 'P':
+            output += text.split('\n')[0] + '\n';
+            break;
+          case 'n':
+            if (last()) {
+              this.quit = true;
+              endCycle = true;
+              break;
+            }
+            if (!this.quiet) output += text + '\n';
+            appended.splice(0).forEach(line => { output += line; });
+            text = stream.lines[index++];
+            this.lineNumber++;
+            break;
+          case 'N':
+            // GNU prints the pattern space when there is nothing to append
+            if (last()) {
+              this.quit = true;
+              endCycle = true;
+              break;
+            }
+            text += '\n' + stream.lines[index++];
+            this.lineNumber++;
+            break;
+          case 'g':
+            text = this.hold;
+            break;
+          case 'G':
+            text += '\n' + this.hold;
+            break;
+          case 'h':
+            this.hold = text;
+            break;
+          case 'H':
+            this.hold += '\n' + text;
+            break;
+          case 'x':
+            [text, this.hold] = [this.hold, text];
+            break;
+          case 'z':
+            text = '';
+            break;
+          case 'l':
+            output += text.replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\n/g, '\\n') + '$\n';
+            break;
+          case 'q':
+            this.exitCode = command.exitCode ?? 0;
+            this.quit = true;
+            endCycle = true;
+            break;
+          case 'Q':
+            this.exitCode = command.exitCode ?? 0;
+            this.quit = true;
+            autoprint = false;
+            appended.length = 0;
+            endCycle = true;
+            break;
+          case 'r': {
+            const content = this.files[command.text!];
+            if (content) appended.push(content.endsWith('\n') ? content : content + '\n');
+            break;
+          }
+          case 'w':
+            this.written[command.text!] = (this.written[command.text!] ?? '') + text + '\n';
+            break;
+          case 's': {
+            const result = substitute(text, this.regex(command.substitution!.regex), command.substitution!);
+            if (result !== undefined) {
+              text = result;
+              substituted = true;
+              if (command.substitution!.print) output += text + '\n';
+            }
+            break;
+          }
+          case 'y':
+            text = Array.from(text).map(char => {
+              const at = command.translation!.from.indexOf(char);
+              return at === -1 ? char : command.translation!.to[at];
+            }).join('');
+            break;
+          case 'b':
+            pc = this.branch(command);
+            break;
+          case 't':
+          case 'T':
+            if (substituted === (command.name === 't')) pc = this.branch(command);
+            substituted = false;
+            break;
+        }
+        if (endCycle) break;
+      }
+
+      if (autoprint) output += text + '\n';
+      appended.forEach(line => { output += line; });
+    }
+
+    // A last line without a newline stays without one
+    if (!stream.finalNewline && index >= stream.lines.length && output.endsWith('\n')) output = output.substring(0, output.length - 1);
+    return output;
+  }
+}
+
+function streamOf(content: string): SedStream {
+  const finalNewline = content.endsWith('\n');
+  const body = finalNewline ? content.substring(0, content.length - 1) : content;
+  return { lines: body === '' && !finalNewline ? [] : body.split('\n'), finalNewline };
+}
+
+async function sed(shell: TerminalProcessor, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  const scripts: string[] = [];
+  const operands: string[] = [];
+  let quiet = false;
+  let extended = false;
+  let separate = false;
+  let inPlace: string | undefined;
+  const errors: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      operands.push(...args.slice(i + 1));
+      break;
+    }
+    if (arg === '-' || !arg.startsWith('-')) {
+      operands.push(arg);
+      continue;
+    }
+
+    if (arg.startsWith('--')) {
+      const [option, value] = arg.indexOf('=') === -1 ? [arg, undefined] : [arg.substring(0, arg.indexOf('=')), arg.substring(arg.indexOf('=') + 1)];
+      if (option === '--quiet' || option === '--silent') quiet = true;
+      else if (option === '--regexp-extended') extended = true;
+      else if (option === '--separate') separate = true;
+      else if (option === '--in-place') inPlace = value ?? '';
+      else if (option === '--expression' || option === '--file') {
+        const script = value ?? args[++i];
+        if (script === undefined) return usageError(shell, 'sed', `option '${option}' requires an argument`);
+        if (option === '--file') {
+          const file = await readInput(shell, 'sed', script, stdin);
+          if ('error' in file) return shell.failure(`sed: couldn't open file ${script}: No such file or directory`);
+          scripts.push(file.content.replace(/\n$/, ''));
+        } else {
+          scripts.push(script);
+        }
+      } else {
+        return usageError(shell, 'sed', `unrecognized option '${arg}'`);
+      }
+      continue;
+    }
+
+    for (let j = 1; j < arg.length; j++) {
+      const flag = arg[j];
+      if (flag === 'n') quiet = true;
+      else if (flag === 'E' || flag === 'r') extended = true;
+      else if (flag === 's') separate = true;
+      else if (flag === 'i') {
+        // Anything after -i is the backup suffix
+        inPlace = arg.substring(j + 1);
+        break;
+      } else if (flag === 'e' || flag === 'f') {
+        const value = j + 1 < arg.length ? arg.substring(j + 1) : args[++i];
+        if (value === undefined) return usageError(shell, 'sed', `option requires an argument -- '${flag}'`);
+        if (flag === 'f') {
+          const file = await readInput(shell, 'sed', value, stdin);
+          if ('error' in file) return shell.failure(`sed: couldn't open file ${value}: No such file or directory`);
+          scripts.push(file.content.replace(/\n$/, ''));
+        } else {
+          scripts.push(value);
+        }
+        break;
+      } else {
+        return usageError(shell, 'sed', `invalid option -- '${flag}'`);
+      }
+    }
+  }
+
+  if (scripts.length === 0) {
+    const script = operands.shift();
+    if (script === undefined) {
+      return shell.failure(`Usage: sed [OPTION]... {script-only-if-no-other-script} [input-file]...`, 1);
+    }
+    scripts.push(script);
+  }
+  const script = scripts.join('\n');
+  // "#n" on a line of its own at the very start works like -n
+  if (/^#n(\n|$)/.test(script)) quiet = true;
+
+  let commands: SedCommand[];
+  try {
+    commands = new SedParser(script, extended).parse();
+  } catch (error) {
+    if (!(error instanceof SedError) && !(error instanceof RegexError)) throw error;
+    return shell.failure(`sed: ${error.message}`);
+  }
+  if (inPlace !== undefined && operands.length === 0) {
+    return shell.failure('sed: no input files');
+  }
+
+  // Files r reads, loaded up front so the script itself can run straight through
+  const files: Record<string, string | undefined> = {};
+  for (const command of commands) {
+    if (command.name === 'r' && !(command.text! in files)) {
+      const file = await readInput(shell, 'sed', command.text!);
+      files[command.text!] = 'error' in file ? undefined : file.content;
+    }
+  }
+
+  const runner = new SedRunner(commands, quiet, files, () => shell.interrupted);
+  let output = '';
+  try {
+    if (inPlace !== undefined || separate) {
+      for (const operand of operands) {
+        if (runner.quit) break;
+        const input = await readInput(shell, 'sed', operand, stdin);
+        if ('error' in input) {
+          errors.push(input.error.replace(/^sed: (.*): No such file or directory$/, "sed: can't read $1: No such file or directory"));
+          continue;
+        }
+        const edited = await runner.run(streamOf(input.content));
+        if (inPlace === undefined) {
+          output += edited;
+          continue;
+        }
+        if (inPlace) {
+          const backupError = await writeOutput(shell, 'sed', operand + inPlace, input.content);
+          if (backupError) errors.push(backupError);
+        }
+        const error = await writeOutput(shell, 'sed', operand, edited);
+        if (error) errors.push(error);
+      }
+    } else {
+      // Without -i or -s every file is one long stream
+      let content = '';
+      for (const operand of operands.length > 0 ? operands : ['-']) {
+        const input = await readInput(shell, 'sed', operand, stdin);
+        if ('error' in input) {
+          errors.push(input.error.replace(/^sed: (.*): No such file or directory$/, "sed: can't read $1: No such file or directory"));
+        } else {
+          content += content === '' || content.endsWith('\n') ? input.content : '\n' + input.content;
+        }
+      }
+      output = await runner.run(streamOf(content));
+    }
+  } catch (error) {
+    if (error instanceof SedInterrupted) {
+      return { output: "", currentDirectory: shell.currentDirectory, success: false, exitCode: 128 + SIGNALS.INT };
+    }
+    if (!(error instanceof SedError)) throw error;
+    errors.push(`sed: ${error.message}`);
+  }
+
+  for (const name of Object.keys(runner.written)) {
+    const error = await writeOutput(shell, 'sed', name, runner.written[name]);
+    if (error) errors.push(error);
+  }
+
+  return textResult(shell, output, errors, runner.exitCode || (errors.length > 0 ? 2 : 0));
+}
@@ -0,0 +1,235 @@
+// Commands that report on the (simulated) machine the shell runs on
+
+import * as os from "os";
+import type { CommandResult, ProcessInfo, SystemResources } from "@shared/schema";
+import type { Process } from "../shell/jobs";
+import type { TerminalProcessor } from "../terminal";
+import type { CommandDefinition } from "./registry";
+
+const category = 'System Monitoring';
+
+export const systemCommands: CommandDefinition[] = [
+  {
+    name: 'top',
+    aliases: ['htop'],
+    usage: 'top',
+    description: 'System resource monitor',
+    category,
+    handler: ({ shell }) => showSystemResources(shell),
+  },
+  {
+    name: 'ps',
+    usage: 'ps [-ef] [aux]',
+    description: 'Show the processes of this session',
+    category,
+    flags: [
+      { flag: '-e, -A', description: 'Every process (the session has no others to hide)' },
+      { flag: '-f', description: 'Full listing with parent PIDs and whole command lines' },
+      { flag: 'aux', description: 'BSD-style listing with user, state and start time' },
+    ],
+    handler: ({ shell, args }) => showProcesses(shell, args),
+  },
+  {
+    name: 'df',
+    usage: 'df',
+    description: 'Show disk usage',
+    category,
+    handler: ({ shell }) => showDiskUsage(shell),
+  },
+  {
+    name: 'free',
+    usage: 'free',
+    description: 'Show memory usage',
+    category,
+    handler: ({ shell }) => showMemoryUsage(shell),
+  },
+  {
+    name: 'uname',
+    usage: 'uname [-a]',
+    description: 'System information',
+    category,
+    flags: [
+      { flag: '-a', description: 'Print all information' },
+    ],
+    handler: ({ shell, args }) => showSystemInfo(shell, args),
+  },
+  {
+    name: 'whoami',
+    usage: 'whoami',
+    description: 'Current user',
+    category,
+    handler: ({ shell }) => ({ output: "user", currentDirectory: shell.currentDirectory, success: true }),
+  },
+  {
+    name: 'date',
+    usage: 'date [-u] [+FORMAT]',
+    description: 'Show the date and time',
+    category,
+    flags: [
+      { flag: '-u', description: 'Show Coordinated Universal Time' },
+    ],
+    handler: ({ shell, args }) => showDate(shell, args),
+  },
+];
+
+// System resource monitor
+class ResourceMonitor {
+  getSystemResources(shell: TerminalProcessor): SystemResources {
+    const processList = shell.processes.list().map(process => processInfo(shell, process));
+    const cpuUsage = Math.random() * 100; // Simulated CPU usage
+    const totalMem = os.totalmem();
+    const freeMem = os.freemem();
+    const usedMem = totalMem - freeMem;
+    
+    return {
+      cpu: parseFloat(cpuUsage.toFixed(1)),
+      memory: {
+        used: Math.round(usedMem / 1024 / 1024), // MB
+        total: Math.round(totalMem / 1024 / 1024), // MB
+        percentage: parseFloat(((usedMem / totalMem) * 100).toFixed(1))
+      },
+      disk: {
+        used: 25600, // Simulated 25GB used
+        total: 102400, // Simulated 100GB total
+        percentage: 25.0
+      },
+      processes: processList.length,
+      uptime: os.uptime(),
+      processList
+    };
+  }
+}
+
+const resourceMonitor = new ResourceMonitor();
+
+// What the system monitor shows for a session
+export function systemResources(shell: TerminalProcessor): SystemResources {
+  return resourceMonitor.getSystemResources(shell);
+}
+
+function processInfo(shell: TerminalProcessor, process: Process): ProcessInfo {
+  const state = process.suspended ? 'stopped'
+    : process === shell.processes.shell || process.sleeping ? 'sleeping'
+    : 'running';
+  return {
+    pid: process.pid,
+    ppid: process.parent?.pid ?? 1,
+    command: process.command,
+    state,
+    started: process.startedAt.toISOString()
+  };
+}
+
+// The short name ps and top show, without arguments
+function processName(process: ProcessInfo): string {
+  return process.command.split(' ')[0].replace(/^-/, '');
+}
+
+// State letters as ps and top print them
+const STATE_LETTERS: Record<ProcessInfo['state'], string> = { running: 'R', sleeping: 'S', stopped: 'T' };
+
+function clockTime(iso: string): string {
+  const date = new Date(iso);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+function showSystemResources(shell: TerminalProcessor): CommandResult {
+  const resources = resourceMonitor.getSystemResources(shell);
+  const count = (state: ProcessInfo['state']) => resources.processList.filter(process => process.state === state).length;
+  const rows = resources.processList.map(process =>
+    `${String(process.pid).padStart(7)} user      20   0    8964   5384   3584 ${STATE_LETTERS[process.state]}   0.0   0.1   0:00.00 ${processName(process)}`);
+  const output = `top - ${new Date().toLocaleTimeString()} up ${Math.floor(resources.uptime / 3600)}:${Math.floor((resources.uptime % 3600) / 60)}, 1 user, load average: 0.${Math.floor(Math.random() * 99)}, 0.${Math.floor(Math.random() * 99)}, 0.${Math.floor(Math.random() * 99)}
+Tasks: ${resources.processes} total, ${count('running')} running, ${count('sleeping')} sleeping, ${count('stopped')} stopped, 0 zombie
+%Cpu(s): ${resources.cpu}%us, 2.1%sy, 0.0%ni, ${(97.9 - resources.cpu).toFixed(1)}%id, 0.0%wa, 0.0%hi, 0.0%si, 0.0%st
+MiB Mem : ${resources.memory.total} total, ${resources.memory.total - resources.memory.used} free, ${resources.memory.used} used, 0 buff/cache
+MiB Swap: 2048 total, 2048 free, 0 used. ${resources.memory.total - resources.memory.used} avail Mem
+
+    PID USER      PR  NI    VIRT    RES    SHR S  %CPU  %MEM     TIME+ COMMAND
+${rows.join('\n')}`;
+
+  return { output, currentDirectory: shell.currentDirectory, success: true };
+}
+
+// ps lists the session's processes in the default, -f or BSD "u" format;
+// -e, -A, a and x change nothing since every process belongs to the session
+function showProcesses(shell: TerminalProcessor, args: string[]): CommandResult {
+  const full = args.some(arg => /^-[a-zA-Z]*f/.test(arg));
+  const user = args.some(arg => /^[a-z]*u/.test(arg));
+  const processes = resourceMonitor.getSystemResources(shell).processList;
+
+  let lines: string[];
+  if (user) {
+    lines = ['USER         PID %CPU %MEM    VSZ   RSS TTY      STAT START   TIME COMMAND'].concat(processes.map(process =>
+      `user    ${String(process.pid).padStart(7)}  0.0  0.1   8964  5384 pts/0    ${STATE_LETTERS[process.state].padEnd(4)} ${clockTime(process.started)}   0:00 ${process.command}`));
+  } else if (full) {
+    lines = ['UID          PID    PPID  C STIME TTY          TIME CMD'].concat(processes.map(process =>
+      `user    ${String(process.pid).padStart(8)} ${String(process.ppid).padStart(7)}  0 ${clockTime(process.started)} pts/0    00:00:00 ${process.command}`));
+  } else {
+    lines = ['    PID TTY          TIME CMD'].concat(processes.map(process =>
+      `${String(process.pid).padStart(7)} pts/0    00:00:00 ${processName(process)}`));
+  }
+  return { output: lines.join('\n'), currentDirectory: shell.currentDirectory, success: true };
+}
+
+function showDiskUsage(shell: TerminalProcessor): CommandResult {
+  const resources = resourceMonitor.getSystemResources(shell);
+  const output = `Filesystem     1K-blocks     Used Available Use% Mounted on
+/dev/sda1      ${resources.disk.total * 1024} ${resources.disk.used * 1024} ${(resources.disk.total - resources.disk.used) * 1024}  ${resources.disk.percentage}% /
+tmpfs               ${Math.floor(Math.random() * 1000000)} ${Math.floor(Math.random() * 100000)} ${Math.floor(Math.random() * 900000)}   5% /dev/shm
+/dev/sda2         ${Math.floor(Math.random() * 10000000)} ${Math.floor(Math.random() * 1000000)} ${Math.floor(Math.random() * 9000000)}  10% /home`;
+
+  return { output, currentDirectory: shell.currentDirectory, success: true };
+}
+
+function showMemoryUsage(shell: TerminalProcessor): CommandResult {
+  const resources = resourceMonitor.getSystemResources(shell);
+  const output = `              total        used        free      shared  buff/cache   available
+Mem:          ${resources.memory.total}        ${resources.memory.used}        ${resources.memory.total - resources.memory.used}         0           0        ${resources.memory.total - resources.memory.used}
+Swap:         2048           0        2048`;
+
+  return { output, currentDirectory: shell.currentDirectory, success: true };
+}
+
+function showSystemInfo(shell: TerminalProcessor, args: string[]): CommandResult {
+  if (args.includes('-a')) {
+    return { output: "Linux webtermux 5.15.0-generic #72-Ubuntu SMP Fri Jan 20 10:24:01 UTC 2023 x86_64 x86_64 x86_64 GNU/Linux", currentDirectory: shell.currentDirectory, success: true };
+  }
+  return { output: "Linux", currentDirectory: shell.currentDirectory, success: true };
+}
+
+// date [-u] [+FORMAT] with the common strftime conversions
+function showDate(shell: TerminalProcessor, args: string[]): CommandResult {
+  const utc = args.includes('-u');
+  const format = args.find(arg => arg.startsWith('+'))?.substring(1) ?? '%a %b %e %H:%M:%S %Z %Y';
+  const unknown = args.find(arg => arg !== '-u' && !arg.startsWith('+'));
+  if (unknown) {
+    return { output: `date: invalid date '${unknown}'`, error: "Invalid date", currentDirectory: shell.currentDirectory, success: false };
+  }
+
+  const now = new Date();
+  const part = (local: () => number, universal: () => number) => (utc ? universal : local).call(now);
+  const year = part(now.getFullYear, now.getUTCFullYear);
+  const month = part(now.getMonth, now.getUTCMonth);
+  const day = part(now.getDate, now.getUTCDate);
+  const weekday = part(now.getDay, now.getUTCDay);
+  const hours = part(now.getHours, now.getUTCHours);
+  const minutes = part(now.getMinutes, now.getUTCMinutes);
+  const seconds = part(now.getSeconds, now.getUTCSeconds);
+  const offset = utc ? 0 : -now.getTimezoneOffset();
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+  const months = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+  const zone = offset === 0 ? 'UTC' : `${offset > 0 ? '+' : '-'}${pad(Math.floor(Math.abs(offset) / 60))}${pad(Math.abs(offset) % 60)}`;
+
+  const conversions: Record<string, string> = {
+    Y: String(year), y: pad(year % 100), m: pad(month + 1), d: pad(day), e: String(day).padStart(2, ' '),
+    H: pad(hours), M: pad(minutes), S: pad(seconds), I: pad(hours % 12 || 12), p: hours < 12 ? 'AM' : 'PM',
+    a: days[weekday].substring(0, 3), A: days[weekday], b: months[month].substring(0, 3), B: months[month],
+    j: pad(Math.floor((Date.UTC(year, month, day) - Date.UTC(year, 0, 1)) / 86400000) + 1, 3),
+    s: String(Math.floor(now.getTime() / 1000)), Z: zone, z: offset === 0 ? '+0000' : zone,
+    F: `${year}-${pad(month + 1)}-${pad(day)}`, T: `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`,
+    D: `${pad(month + 1)}/${pad(day)}/${pad(year % 100)}`, n: '\n', t: '\t', '%': '%',
+  };
+  const output = format.replace(/%(.)/g, (match, letter: string) => conversions[letter] ?? match);
+  return { output, currentDirectory: shell.currentDirectory, success: true };
+}
@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TerminalProcessor } from "../terminal";
+import { newShell, writeFile } from "../testing";
+
+async function grepFixture(): Promise<TerminalProcessor> {
+  const shell = await newShell();
+  await shell.executeCommand("mkdir -p src/lib node_modules/dep");
+  await writeFile(shell, "src/main.ts", "import { helper } from './lib/util';\n// TODO: tidy\nhelper(1);\n");
+  await writeFile(shell, "src/lib/util.ts", "export function helper(n) {\n  return n + 1; // todo\n}\n");
+  await writeFile(shell, "src/notes.md", "Nothing to do here\n");
+  await writeFile(shell, "node_modules/dep/index.ts", "// TODO: upstream\n");
+  return shell;
+}
+
+test("grep reads basic, extended and fixed patterns", async () => {
+  const shell = await grepFixture();
+  assert.equal((await shell.executeCommand("grep 'help\\(er\\)*(' src/main.ts")).output, "helper(1);");
+  assert.equal((await shell.executeCommand("grep -E 'n \\+ [0-9]+' src/lib/util.ts")).output, "  return n + 1; // todo");
+  assert.equal((await shell.executeCommand("grep -F '(n)' src/lib/util.ts")).output, "export function helper(n) {");
+  assert.equal((await shell.executeCommand("grep -c '[[:upper:]]' src/main.ts")).output, "1");
+  assert.equal((await shell.executeCommand("grep -iwn todo src/main.ts")).output, "2:// TODO: tidy");
+  assert.equal((await shell.executeCommand("grep -o 'help[a-z]*' src/main.ts")).output, "helper\nhelper");
+  assert.equal((await shell.executeCommand("grep -vx 'helper(1);' src/main.ts | wc -l")).output.trim(), "2");
+  assert.equal((await shell.executeCommand("grep -e nothing -e Nothing -m 1 src/notes.md")).output, "Nothing to do here");
+
+  const invalid = await shell.executeCommand("grep -E 'a(' src/main.ts");
+  assert.equal(invalid.exitCode, 2);
+});
+
+test("grep searches trees and reports through its exit status", async () => {
+  const shell = await grepFixture();
+  assert.equal((await shell.executeCommand("grep -ril todo src node_modules --exclude-dir=dep")).output, "src/lib/util.ts\nsrc/main.ts");
+  assert.equal((await shell.executeCommand("grep -riL todo src")).output, "src/notes.md");
+  assert.equal((await shell.executeCommand("grep -rn --include='*.ts' helper src")).output,
+    "src/lib/util.ts:1:export function helper(n) {\nsrc/main.ts:1:import { helper } from './lib/util';\nsrc/main.ts:3:helper(1);");
+  assert.equal((await shell.executeCommand("grep -h TODO src/main.ts node_modules/dep/index.ts")).output, "// TODO: tidy\n// TODO: upstream");
+  assert.equal((await shell.executeCommand("echo 'a b' | grep --color=always b")).output, "a \x1b[01;31mb\x1b[m");
+
+  assert.equal((await shell.executeCommand("grep -q helper src/main.ts")).exitCode, 0);
+  assert.equal((await shell.executeCommand("grep -q absent src/main.ts")).exitCode, 1);
+  const missing = await shell.executeCommand("grep x missing.txt");
+  assert.equal(missing.exitCode, 2);
+  assert.equal(missing.stderr, "grep: missing.txt: No such file or directory");
+  assert.equal((await shell.executeCommand("grep -s x missing.txt")).stderr, "");
+});
@@ -0,0 +1,1150 @@
+// Commands that search and transform text, from files or their stdin
+
+import { storage } from "../storage";
+import { splitLines, resultStreams, exitStatus, type InputStream } from "../shell/io";
+import { matchGlob } from "../shell/glob";
+import { posixToSource, fixedToSource, RegexError } from "../shell/regex";
+import { joinPath, basename } from "@shared/path";
+import type { CommandResult } from "@shared/schema";
+import type { TerminalProcessor } from "../terminal";
+import type { CommandDefinition } from "./registry";
+import { lookup, parseOptions } from "./util";
+
+const category = 'Text Processing';
+
+export const textCommands: CommandDefinition[] = [
+  {
+    name: 'grep',
+    aliases: ['egrep', 'fgrep'],
+    usage: 'grep [OPTION]... PATTERN [FILE]...',
+    description: 'Print lines that match a pattern',
+    category,
+    flags: [
+      { flag: '-E, --extended-regexp', description: 'PATTERN is an extended regular expression' },
+      { flag: '-F, --fixed-strings', description: 'PATTERN is a plain string' },
+      { flag: '-G, --basic-regexp', description: 'PATTERN is a basic regular expression (the default)' },
+      { flag: '-e, --regexp=PATTERN', description: 'Use PATTERN; may be given more than once' },
+      { flag: '-i, --ignore-case', description: 'Ignore case distinctions' },
+      { flag: '-v, --invert-match', description: 'Select lines that do not match' },
+      { flag: '-w, --word-regexp', description: 'Match only whole words' },
+      { flag: '-x, --line-regexp', description: 'Match only whole lines' },
+      { flag: '-c, --count', description: 'Print only a count of matching lines per file' },
+      { flag: '-l, --files-with-matches', description: 'Print only names of files with matches' },
+      { flag: '-L, --files-without-match', description: 'Print only names of files without matches' },
+      { flag: '-o, --only-matching', description: 'Print only the matched parts of lines' },
+      { flag: '-q, --quiet', description: 'Print nothing; exit with 0 on the first match' },
+      { flag: '-s, --no-messages', description: 'Suppress messages about unreadable files' },
+      { flag: '-m, --max-count=NUM', description: 'Stop after NUM matching lines' },
+      { flag: '-n, --line-number', description: 'Prefix each line with its line number' },
+      { flag: '-H, --with-filename', description: 'Prefix each line with its file name' },
+      { flag: '-h, --no-filename', description: 'Never prefix lines with file names' },
+      { flag: '-r, --recursive', description: 'Search directories recursively' },
+      { flag: '--include=GLOB', description: 'Search only files whose name matches GLOB' },
+      { flag: '--exclude=GLOB', description: 'Skip files whose name matches GLOB' },
+      { flag: '--exclude-dir=GLOB', description: 'Skip directories whose name matches GLOB' },
+      { flag: '--color[=WHEN]', description: 'Highlight matches: never, always or auto' },
+    ],
+    handler: ({ shell, name, args, stdin }) => grepCommand(shell, name, args, stdin),
+  },
+  {
+    name: 'head',
+    usage: 'head [-n [-]NUM] [-c [-]NUM] [-qv] [FILE]...',
+    description: 'Print the first lines of files',
+    category,
+    flags: [
+      { flag: '-n, --lines=[-]NUM', description: 'Print the first NUM lines, or all but the last NUM (default 10)' },
+      { flag: '-c, --bytes=[-]NUM', description: 'Print the first NUM bytes, or all but the last NUM' },
+      { flag: '-q, --quiet', description: 'Never print headers naming the files' },
+      { flag: '-v, --verbose', description: 'Always print headers naming the files' },
+    ],
+    handler: ({ shell, args, stdin }) => headOrTail(shell, 'head', args, stdin),
+  },
+  {
+    name: 'tail',
+    usage: 'tail [-n [+]NUM] [-c [+]NUM] [-qv] [FILE]...',
+    description: 'Print the last lines of files',
+    category,
+    flags: [
+      { flag: '-n, --lines=[+]NUM', description: 'Print the last NUM lines, or from line NUM on (default 10)' },
+      { flag: '-c, --bytes=[+]NUM', description: 'Print the last NUM bytes, or from byte NUM on' },
+      { flag: '-q, --quiet', description: 'Never print headers naming the files' },
+      { flag: '-v, --verbose', description: 'Always print headers naming the files' },
+    ],
+    handler: ({ shell, args, stdin }) => headOrTail(shell, 'tail', args, stdin),
+  },
+  {
+    name: 'wc',
+    usage: 'wc [-lwcm] [FILE]...',
+    description: 'Count lines, words and bytes',
+    category,
+    flags: [
+      { flag: '-l, --lines', description: 'Count newlines' },
+      { flag: '-w, --words', description: 'Count words' },
+      { flag: '-c, --bytes', description: 'Count bytes' },
+      { flag: '-m, --chars', description: 'Count characters' },
+    ],
+    handler: ({ shell, args, stdin }) => wordCount(shell, args, stdin),
+  },
+  {
+    name: 'sort',
+    usage: 'sort [-nrufbs] [-k KEY] [-t SEP] [-o FILE] [FILE]...',
+    description: 'Sort lines of text',
+    category,
+    flags: [
+      { flag: '-n, --numeric-sort', description: 'Compare by numeric value' },
+      { flag: '-r, --reverse', description: 'Reverse the order' },
+      { flag: '-u, --unique', description: 'Output only the first of lines that compare equal' },
+      { flag: '-f, --ignore-case', description: 'Fold lower case to upper case when comparing' },
+      { flag: '-b, --ignore-leading-blanks', description: 'Ignore leading blanks in keys' },
+      { flag: '-s, --stable', description: 'Keep lines with equal keys in input order' },
+      { flag: '-k, --key=F[.C][OPTS][,F[.C][OPTS]]', description: 'Sort on fields F through F, with options n, r, f or b' },
+      { flag: '-t, --field-separator=SEP', description: 'Fields are separated by SEP instead of blanks' },
+      { flag: '-o, --output=FILE', description: 'Write the result to FILE, which may be an input' },
+    ],
+    handler: ({ shell, args, stdin }) => sortLines(shell, args, stdin),
+  },
+  {
+    name: 'uniq',
+    usage: 'uniq [-cdui] [INPUT [OUTPUT]]',
+    description: 'Report or omit repeated adjacent lines',
+    category,
+    flags: [
+      { flag: '-c, --count', description: 'Prefix lines with the number of occurrences' },
+      { flag: '-d, --repeated', description: 'Only print lines that are repeated' },
+      { flag: '-u, --unique', description: 'Only print lines that are not repeated' },
+      { flag: '-i, --ignore-case', description: 'Ignore case when comparing' },
+    ],
+    handler: ({ shell, args, stdin }) => uniqueLines(shell, args, stdin),
+  },
+  {
+    name: 'cut',
+    usage: 'cut -b LIST | -c LIST | -f LIST [-d DELIM] [-s] [FILE]...',
+    description: 'Print selected parts of lines',
+    category,
+    flags: [
+      { flag: '-b, --bytes=LIST', description: 'Select these bytes' },
+      { flag: '-c, --characters=LIST', description: 'Select these characters' },
+      { flag: '-f, --fields=LIST', description: 'Select these fields, e.g. 1,3-5 or 2-' },
+      { flag: '-d, --delimiter=DELIM', description: 'Fields are separated by DELIM instead of a tab' },
+      { flag: '-s, --only-delimited', description: 'Skip lines without the delimiter' },
+    ],
+    handler: ({ shell, args, stdin }) => cutLines(shell, args, stdin),
+  },
+  {
+    name: 'tr',
+    usage: 'tr [-cds] SET1 [SET2]',
+    description: 'Translate, squeeze or delete characters from stdin',
+    category,
+    flags: [
+      { flag: '-c, -C, --complement', description: 'Use the characters not in SET1' },
+      { flag: '-d, --delete', description: 'Delete characters in SET1' },
+      { flag: '-s, --squeeze-repeats', description: 'Replace runs of a repeated character with one' },
+    ],
+    handler: ({ shell, args, stdin }) => translate(shell, args, stdin),
+  },
+  {
+    name: 'tee',
+    usage: 'tee [-a] [FILE]...',
+    description: 'Copy stdin to files and to stdout',
+    category,
+    flags: [
+      { flag: '-a, --append', description: 'Append to the files instead of overwriting them' },
+    ],
+    handler: ({ shell, args, stdin }) => tee(shell, args, stdin),
+  },
+  {
+    name: 'xargs',
+    usage: 'xargs [-n NUM] [-L NUM] [-I REPLACE] [-rt] [COMMAND [ARG]...]',
+    description: 'Run a command with arguments read from stdin',
+    category,
+    flags: [
+      { flag: '-n, --max-args=NUM', description: 'Use at most NUM arguments per command' },
+      { flag: '-L, --max-lines=NUM', description: 'Use the arguments from at most NUM lines per command' },
+      { flag: '-I REPLACE', description: 'Run once per line, replacing REPLACE in the arguments with it' },
+      { flag: '-r, --no-run-if-empty', description: 'Do not run the command when there is no input' },
+      { flag: '-t, --verbose', description: 'Print each command to stderr before running it' },
+    ],
+    handler: ({ shell, args, stdin }) => runWithArguments(shell, args, stdin),
+  },
+  {
+    name: 'nl',
+    usage: 'nl [-b STYLE] [-n FORMAT] [-w WIDTH] [-s SEP] [-v START] [FILE]...',
+    description: 'Number the lines of files',
+    category,
+    flags: [
+      { flag: '-b, --body-numbering=STYLE', description: 'a numbers all lines, t non-empty ones (default), n none' },
+      { flag: '-n, --number-format=FORMAT', description: 'ln left-aligned, rn right-aligned (default), rz zero-padded' },
+      { flag: '-w, --number-width=WIDTH', description: 'Use WIDTH columns for numbers (default 6)' },
+      { flag: '-s, --number-separator=SEP', description: 'Put SEP after numbers (default a tab)' },
+      { flag: '-v, --starting-line-number=START', description: 'Start numbering at START' },
+    ],
+    handler: ({ shell, args, stdin }) => numberLines(shell, args, stdin),
+  },
+  {
+    name: 'rev',
+    usage: 'rev [FILE]...',
+    description: 'Reverse the characters of each line',
+    category,
+    handler: ({ shell, args, stdin }) => reverseLines(shell, args, stdin),
+  },
+  {
+    name: 'paste',
+    usage: 'paste [-s] [-d LIST] [FILE]...',
+    description: 'Merge lines of files side by side',
+    category,
+    flags: [
+      { flag: '-d, --delimiters=LIST', description: 'Join with the characters of LIST in turn instead of tabs' },
+      { flag: '-s, --serial', description: 'Paste each file onto a single line instead' },
+    ],
+    handler: ({ shell, args, stdin }) => pasteLines(shell, args, stdin),
+  },
+];
+
+// GNU grep's default colors: bold red matches, magenta file names, green
+// line numbers and cyan separators
+const GREP_COLORS = { match: '01;31', file: '35', line: '32', separator: '36' };
+
+function paint(text: string, color: string | undefined): string {
+  return color ? `\x1b[${color}m${text}\x1b[m` : text;
+}
+
+interface GrepOptions {
+  patterns: string[];
+  syntax: 'basic' | 'extended' | 'fixed';
+  flags: Set<string>;
+  maxCount?: number;
+  include: string[];
+  exclude: string[];
+  excludeDirectories: string[];
+  color: boolean;
+}
+
+// Short options that stand alone, and their long names
+const GREP_FLAGS = 'EFGivwxclLoqsnHhrRy';
+const GREP_LONG_FLAGS: Record<string, string> = {
+  'extended-regexp': 'E', 'fixed-strings': 'F', 'basic-regexp': 'G', 'ignore-case': 'i',
+  'invert-match': 'v', 'word-regexp': 'w', 'line-regexp': 'x', count: 'c',
+  'files-with-matches': 'l', 'files-without-match': 'L', 'only-matching': 'o', quiet: 'q',
+  silent: 'q', 'no-messages': 's', 'line-number': 'n', 'with-filename': 'H', 'no-filename': 'h',
+  recursive: 'r', 'dereference-recursive': 'R',
+};
+
+// Splits grep's arguments into options and operands; returns an error
+// message for anything it doesn't understand
+function parseGrepArguments(shell: TerminalProcessor, name: string, args: string[]): { options: GrepOptions; operands: string[] } | string {
+  const options: GrepOptions = {
+    patterns: [], syntax: name === 'egrep' ? 'extended' : name === 'fgrep' ? 'fixed' : 'basic',
+    flags: new Set<string>(), include: [], exclude: [], excludeDirectories: [], color: false,
+  };
+  const operands: string[] = [];
+  let patternGiven = false;
+
+  const setMaxCount = (value: string) => {
+    if (!/^-?\d+$/.test(value)) return `invalid max count`;
+    options.maxCount = parseInt(value, 10);
+    return undefined;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      operands.push(...args.slice(i + 1));
+      break;
+    }
+    if (arg === '-' || !arg.startsWith('-')) {
+      operands.push(arg);
+      continue;
+    }
+
+    if (arg.startsWith('--')) {
+      const equals = arg.indexOf('=');
+      const option = equals === -1 ? arg.substring(2) : arg.substring(2, equals);
+      const value = equals === -1 ? undefined : arg.substring(equals + 1);
+      const takesValue = ['regexp', 'max-count', 'include', 'exclude', 'exclude-dir'].indexOf(option) !== -1;
+      const argument = takesValue ? value ?? args[++i] : value;
+      if (takesValue && argument === undefined) {
+        return `option '--${option}' requires an argument`;
+      }
+
+      if (option === 'regexp') {
+        options.patterns.push(argument!);
+        patternGiven = true;
+      } else if (option === 'max-count') {
+        const error = setMaxCount(argument!);
+        if (error) return error;
+      } else if (option === 'include') {
+        options.include.push(argument!);
+      } else if (option === 'exclude') {
+        options.exclude.push(argument!);
+      } else if (option === 'exclude-dir') {
+        options.excludeDirectories.push(argument!);
+      } else if (option === 'color' || option === 'colour') {
+        if (argument === undefined || argument === 'auto' || argument === 'tty' || argument === 'if-tty') {
+          options.color = shell.stdoutIsTerminal;
+        } else if (argument === 'always' || argument === 'yes' || argument === 'force') {
+          options.color = true;
+        } else if (argument === 'never' || argument === 'no' || argument === 'none') {
+          options.color = false;
+        } else {
+          return `invalid argument '${argument}' for '--color'`;
+        }
+      } else if (lookup(GREP_LONG_FLAGS, option) && value === undefined) {
+        options.flags.add(GREP_LONG_FLAGS[option]);
+      } else {
+        return `unrecognized option '${arg}'`;
+      }
+      continue;
+    }
+
+    for (let j = 1; j < arg.length; j++) {
+      const flag = arg[j];
+      if (flag === 'e' || flag === 'm') {
+        // The rest of the word, or else the next argument, is the value
+        const value = j + 1 < arg.length ? arg.substring(j + 1) : args[++i];
+        if (value === undefined) return `option requires an argument -- '${flag}'`;
+        if (flag === 'e') {
+          options.patterns.push(value);
+          patternGiven = true;
+        } else {
+          const error = setMaxCount(value);
+          if (error) return error;
+        }
+        break;
+      }
+      if (GREP_FLAGS.indexOf(flag) === -1) return `invalid option -- '${flag}'`;
+      options.flags.add(flag === 'y' ? 'i' : flag === 'R' ? 'r' : flag);
+    }
+  }
+
+  if (options.flags.has('E')) options.syntax = 'extended';
+  if (options.flags.has('F')) options.syntax = 'fixed';
+  if (options.flags.has('G')) options.syntax = 'basic';
+  if (!patternGiven) {
+    const pattern = operands.shift();
+    if (pattern === undefined) return '';
+    options.patterns.push(pattern);
+  }
+  // A pattern with newlines in it is one pattern per line
+  options.patterns = options.patterns.reduce((all, pattern) => all.concat(pattern.split('\n')), [] as string[]);
+  return { options, operands };
+}
+
+function compilePatterns(options: GrepOptions): RegExp[] {
+  const flags = options.flags.has('i') ? 'gi' : 'g';
+  return options.patterns.map(pattern => {
+    let source = options.syntax === 'fixed' ? fixedToSource(pattern) : posixToSource(pattern, options.syntax === 'extended');
+    if (options.flags.has('x')) {
+      source = `^(?:${source})$`;
+    } else if (options.flags.has('w')) {
+      source = `(?<![A-Za-z0-9_])(?:${source})(?![A-Za-z0-9_])`;
+    }
+    try {
+      return new RegExp(source, flags);
+    } catch (error) {
+      throw new RegexError(error instanceof Error ? error.message.replace(/^Invalid regular expression: /, '') : String(error));
+    }
+  });
+}
+
+// The non-empty matches in a line, leftmost first and longest when several
+// patterns match at the same place
+function findMatches(line: string, patterns: RegExp[]): { start: number; end: number }[] {
+  const matches: { start: number; end: number }[] = [];
+  let position = 0;
+  while (position <= line.length) {
+    let best: { start: number; end: number } | undefined;
+    patterns.forEach(pattern => {
+      pattern.lastIndex = position;
+      let match = pattern.exec(line);
+      // Step past empty matches to find a real one further on
+      while (match && match[0] === '' && pattern.lastIndex < line.length) {
+        pattern.lastIndex++;
+        match = pattern.exec(line);
+      }
+      if (!match || match[0] === '') return;
+      const candidate = { start: match.index, end: match.index + match[0].length };
+      if (!best || candidate.start < best.start || (candidate.start === best.start && candidate.end > best.end)) {
+        best = candidate;
+      }
+    });
+    if (!best) break;
+    matches.push(best);
+    position = best.end;
+  }
+  return matches;
+}
+
+function lineMatches(line: string, patterns: RegExp[]): boolean {
+  return patterns.some(pattern => {
+    pattern.lastIndex = 0;
+    return pattern.test(line);
+  });
+}
+
+// A file to search: its name as grep prints it and its text, or the error
+// reading it ran into
+interface GrepInput {
+  name: string;
+  content?: string;
+  error?: string;
+}
+
+// The files an operand names. Directories are searched through with -r and
+// otherwise reported; the filters apply to names found along the way.
+async function grepInputs(shell: TerminalProcessor, operand: string, options: GrepOptions, stdin?: InputStream, implicit = false): Promise<GrepInput[]> {
+  if (operand === '-') {
+    return [{ name: '(standard input)', content: stdin?.read() ?? '' }];
+  }
+
+  const included = (name: string) =>
+    (options.include.length === 0 || options.include.some(glob => matchGlob(glob, name, false))) &&
+    !options.exclude.some(glob => matchGlob(glob, name, false));
+
+  const path = shell.resolvePath(operand);
+  const item = await storage.getFileSystemItem(shell.owner, path);
+  if (!item) {
+    return [{ name: operand, error: 'No such file or directory' }];
+  }
+  if (item.type !== 'directory') {
+    return included(basename(path)) ? [{ name: operand, content: item.content?.toString('utf8') ?? '' }] : [];
+  }
+  if (!options.flags.has('r')) {
+    return [{ name: operand, error: 'Is a directory' }];
+  }
+
+  // "grep -r pattern" with no operand names files relative to "."
+  const display = (name: string, parent: string) => implicit && parent === '.' ? name : `${parent.replace(/\/+$/, '')}/${name}`;
+  const inputs: GrepInput[] = [];
+  const walk = async (directory: string, shown: string) => {
+    const entries = (await storage.getDirectoryContents(shell.owner, directory)).sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const name = display(entry.name, shown);
+      if (entry.type === 'directory') {
+        if (!options.excludeDirectories.some(glob => matchGlob(glob, entry.name, false))) {
+          await walk(joinPath(directory, entry.name), name);
+        }
+      } else if (included(entry.name)) {
+        inputs.push({ name, content: entry.content?.toString('utf8') ?? '' });
+      }
+    }
+  };
+  await walk(path, operand);
+  return inputs;
+}
+
+async function grepCommand(shell: TerminalProcessor, name: string, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  const usage = `Usage: grep [OPTION]... PATTERNS [FILE]...\nTry 'grep --help' for more information.`;
+  const parsed = parseGrepArguments(shell, name, args);
+  if (typeof parsed === 'string') {
+    return shell.failure(parsed ? `grep: ${parsed}\n${usage}` : usage, 2);
+  }
+  const { options, operands } = parsed;
+  const flags = options.flags;
+
+  let patterns: RegExp[];
+  try {
+    patterns = compilePatterns(options);
+  } catch (error) {
+    if (!(error instanceof RegexError)) throw error;
+    return shell.failure(`grep: ${error.message}`, 2);
+  }
+
+  const recursive = flags.has('r');
+  const implicit = operands.length === 0;
+  const targets = implicit ? [recursive ? '.' : '-'] : operands;
+  const showNames = flags.has('H') || (!flags.has('h') && (targets.length > 1 || recursive));
+  const color = (part: keyof typeof GREP_COLORS) => options.color ? GREP_COLORS[part] : undefined;
+  const separator = paint(':', color('separator'));
+
+  const output: string[] = [];
+  const errors: string[] = [];
+  let selectedAny = false;
+  let listedAny = false;
+
+  search: for (const target of targets) {
+    const inputs = await grepInputs(shell, target, options, stdin, implicit);
+    for (const input of inputs) {
+      if (input.error !== undefined) {
+        if (!flags.has('s')) errors.push(`grep: ${input.name}: ${input.error}`);
+        continue;
+      }
+
+      const prefix = showNames ? paint(input.name, color('file')) + separator : '';
+      const binary = input.content!.indexOf('\0') !== -1;
+      let count = 0;
+      const lines = splitLines(input.content!);
+      for (let index = 0; index < lines.length; index++) {
+        if (options.maxCount !== undefined && options.maxCount >= 0 && count >= options.maxCount) break;
+        const line = lines[index];
+        if (lineMatches(line, patterns) === flags.has('v')) continue;
+
+        count++;
+        selectedAny = true;
+        if (flags.has('q')) break search;
+        if (flags.has('l') || flags.has('L') || flags.has('c') || binary) continue;
+
+        const lead = prefix + (flags.has('n') ? paint(String(index + 1), color('line')) + separator : '');
+        // Inverted lines have nothing in them to highlight
+        const matches = flags.has('v') ? [] : findMatches(line, patterns);
+        if (flags.has('o')) {
+          matches.forEach(({ start, end }) => output.push(lead + paint(line.substring(start, end), color('match'))));
+        } else if (options.color) {
+          let painted = '';
+          let position = 0;
+          matches.forEach(({ start, end }) => {
+            painted += line.substring(position, start) + paint(line.substring(start, end), color('match'));
+            position = end;
+          });
+          output.push(lead + painted + line.substring(position));
+        } else {
+          output.push(lead + line);
+        }
+        if (flags.has('l')) break;
+      }
+
+      const shownName = paint(input.name, color('file'));
+      if (flags.has('c')) {
+        output.push(prefix + count);
+      } else if (flags.has('l')) {
+        if (count > 0) output.push(shownName);
+      } else if (flags.has('L')) {
+        if (count === 0) output.push(shownName);
+        // -L succeeds when it lists a file, not when a line matched
+        listedAny = listedAny || count === 0;
+      } else if (binary && count > 0) {
+        output.push(`Binary file ${input.name} matches`);
+      }
+    }
+  }
+
+  // Errors make the status 2 unless -q already found what it was after
+  const found = flags.has('L') ? listedAny : selectedAny;
+  const status = errors.length > 0 && !(flags.has('q') && found) ? 2 : found ? 0 : 1;
+  return {
+    output: output.join('\n'),
+    stderr: errors.join('\n'),
+    error: errors[0],
+    currentDirectory: shell.currentDirectory,
+    success: status === 0,
+    exitCode: status
+  };
+}
+
+// The text of a file operand, or of stdin for "-"
+export async function readInput(shell: TerminalProcessor, cmd: string, operand: string, stdin?: InputStream): Promise<{ content: string } | { error: string }> {
+  if (operand === '-') {
+    return { content: stdin?.read() ?? '' };
+  }
+  const item = await storage.getFileSystemItem(shell.owner, shell.resolvePath(operand));
+  if (!item) return { error: `${cmd}: ${operand}: No such file or directory` };
+  if (item.type === 'directory') return { error: `${cmd}: ${operand}: Is a directory` };
+  return { content: item.content?.toString('utf8') ?? '' };
+}
+
+// Reads every operand, or stdin when there are none, in order
+async function readInputs(shell: TerminalProcessor, cmd: string, operands: string[], stdin?: InputStream) {
+  const inputs: { name: string; content: string }[] = [];
+  const errors: string[] = [];
+  for (const operand of operands.length > 0 ? operands : ['-']) {
+    const input = await readInput(shell, cmd, operand, stdin);
+    if ('error' in input) errors.push(input.error);
+    else inputs.push({ name: operand, content: input.content });
+  }
+  return { inputs, errors };
+}
+
+// Creates the file or replaces its content, or appends to it
+export async function writeOutput(shell: TerminalProcessor, cmd: string, name: string, content: string, append = false): Promise<string | undefined> {
+  const path = shell.resolvePath(name);
+  const existing = await storage.getFileSystemItem(shell.owner, path);
+  if (existing?.type === 'directory') return `${cmd}: ${name}: Is a directory`;
+  if (existing) {
+    const previous = append ? existing.content ?? Buffer.alloc(0) : Buffer.alloc(0);
+    await storage.updateFileSystemItem(shell.owner, path, { content: Buffer.concat([previous, Buffer.from(content)]) });
+    return undefined;
+  }
+  const parentError = await shell.parentDirectoryError(path);
+  if (parentError) return `${cmd}: ${name}: ${parentError}`;
+  await storage.createFileSystemItem(shell.owner, {
+    path,
+    name: basename(path),
+    type: 'file',
+    content: Buffer.from(content),
+    permissions: '-rw-r--r--'
+  });
+  return undefined;
+}
+
+// Output shown without its final newline, with any errors on stderr
+export function textResult(shell: TerminalProcessor, output: string, errors: string[], status = errors.length > 0 ? 1 : 0): CommandResult {
+  return {
+    output: output.replace(/\n$/, ''),
+    stderr: errors.join('\n'),
+    error: errors[0],
+    currentDirectory: shell.currentDirectory,
+    success: status === 0,
+    exitCode: status
+  };
+}
+
+export function usageError(shell: TerminalProcessor, cmd: string, message: string, status = 1): CommandResult {
+  return shell.failure(`${cmd}: ${message}\nTry '${cmd} --help' for more information.`, status);
+}
+
+// Lines with their newlines kept, so that a missing final one stays missing
+function linesOf(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+// Escapes like \n and \t in the delimiters tr and paste take
+function unescape(text: string): string {
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', f: '\f', v: '\v', a: '\x07', b: '\b', '\\': '\\' };
+  return text.replace(/\\([0-7]{1,3}|.)/g, (match, escaped: string) =>
+    /^[0-7]+$/.test(escaped) ? String.fromCharCode(parseInt(escaped, 8)) : lookup(escapes, escaped) ?? escaped);
+}
+
+// Backslash escapes as echo -e and printf read them. Octal is \0NNN, or \NNN
+// in a printf format; \c ends the output and unknown escapes stay as written.
+export function expandEscapes(text: string, inFormat = false): { text: string; stopped: boolean } {
+  const escapes: Record<string, string> = {
+    n: '\n', t: '\t', r: '\r', f: '\f', v: '\v', a: '\x07', b: '\b', e: '\x1b', '\\': '\\'
+  };
+  if (inFormat) {
+    escapes['"'] = '"';
+    escapes["'"] = "'";
+  }
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] !== '\\' || i + 1 === text.length) {
+      result += text[i];
+      continue;
+    }
+    const rest = text.substring(i + 1);
+    const octal = (inFormat ? /^[0-7]{1,3}/ : /^0[0-7]{0,3}/).exec(rest);
+    const hex = /^x[0-9a-fA-F]{1,2}/.exec(rest);
+    if (octal) {
+      result += String.fromCharCode(parseInt(octal[0], 8) & 0xff);
+      i += octal[0].length;
+    } else if (hex) {
+      result += String.fromCharCode(parseInt(hex[0].substring(1), 16));
+      i += hex[0].length;
+    } else if (rest[0] === 'c') {
+      return { text: result, stopped: true };
+    } else {
+      const escaped = lookup(escapes, rest[0]);
+      result += escaped ?? '\\' + rest[0];
+      i++;
+    }
+  }
+  return { text: result, stopped: false };
+}
+
+async function headOrTail(shell: TerminalProcessor, cmd: 'head' | 'tail', args: string[], stdin?: InputStream): Promise<CommandResult> {
+  // The old form "head -5" means "head -n 5"
+  const normalized = args.length > 0 && /^-\d+$/.test(args[0]) ? ['-n', args[0].substring(1)].concat(args.slice(1)) : args;
+  const { flags, values, operands, invalid } = parseOptions(normalized, 'n:c:qv', {
+    lines: 'n', bytes: 'c', quiet: 'q', silent: 'q', verbose: 'v'
+  });
+  if (invalid) return usageError(shell, cmd, invalid);
+
+  const bytes = flags.has('c');
+  const spec = bytes ? values.c : values.n ?? '10';
+  if (!/^[-+]?\d+$/.test(spec)) {
+    return shell.failure(`${cmd}: invalid number of ${bytes ? 'bytes' : 'lines'}: '${spec}'`);
+  }
+  const count = parseInt(spec.replace(/^[-+]/, ''), 10);
+  // head -n -N drops the last N; tail -n +N starts at the Nth
+  const fromEnd = cmd === 'head' ? spec.startsWith('-') : !spec.startsWith('+');
+
+  const pick = <T>(items: T[]): T[] => cmd === 'head'
+    ? (fromEnd ? items.slice(0, Math.max(items.length - count, 0)) : items.slice(0, count))
+    : (fromEnd ? (count === 0 ? [] : items.slice(-count)) : items.slice(Math.max(count - 1, 0)));
+
+  const { inputs, errors } = await readInputs(shell, cmd, operands, stdin);
+  const headers = flags.has('v') || (!flags.has('q') && operands.length > 1);
+  const output = inputs.map((input, index) => {
+    const body = bytes
+      ? Buffer.from(pick(Array.from(Buffer.from(input.content)))).toString('utf8')
+      : pick(linesOf(input.content)).join('');
+    const name = input.name === '-' ? 'standard input' : input.name;
+    return headers ? `${index > 0 ? '\n' : ''}==> ${name} <==\n${body}` : body;
+  });
+  return textResult(shell, output.join(''), errors);
+}
+
+async function wordCount(shell: TerminalProcessor, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  const { flags, operands, invalid } = parseOptions(args, 'lwcm', { lines: 'l', words: 'w', bytes: 'c', chars: 'm' });
+  if (invalid) return usageError(shell, 'wc', invalid);
+  const shown = flags.size > 0 ? ['l', 'w', 'm', 'c'].filter(flag => flags.has(flag)) : ['l', 'w', 'c'];
+
+  const { inputs, errors } = await readInputs(shell, 'wc', operands, stdin);
+  const rows = inputs.map(input => ({
+    name: input.name === '-' && operands.length === 0 ? '' : input.name,
+    counts: {
+      l: (input.content.match(/\n/g) ?? []).length,
+      w: input.content.split(/\s+/).filter(Boolean).length,
+      m: Array.from(input.content).length,
+      c: Buffer.byteLength(input.content),
+    } as Record<string, number>,
+  }));
+  if (rows.length > 1) {
+    const total: Record<string, number> = { l: 0, w: 0, m: 0, c: 0 };
+    rows.forEach(row => shown.forEach(flag => { total[flag] += row.counts[flag]; }));
+    rows.push({ name: 'total', counts: total });
+  }
+
+  // One count for one input needs no padding; stdin gets coreutils' usual 7
+  const largest = rows.reduce((max, row) => Math.max(max, ...shown.map(flag => row.counts[flag])), 0);
+  const width = shown.length === 1 && rows.length === 1 ? 1
+    : operands.length === 0 || operands.indexOf('-') !== -1 ? 7
+    : String(largest).length;
+  const lines = rows.map(row => shown.map(flag => String(row.counts[flag]).padStart(width)).join(' ') + (row.name ? ` ${row.name}` : ''));
+  return textResult(shell, lines.join('\n'), errors);
+}
+
+interface SortKey {
+  startField: number;
+  startChar: number;
+  // Zero for the end of the line
+  endField: number;
+  endChar: number;
+  options: string;
+}
+
+// A -k argument: F[.C][OPTS][,F[.C][OPTS]]
+function parseSortKey(spec: string): SortKey | undefined {
+  const match = /^(\d+)(?:\.(\d+))?([bfnr]*)(?:,(\d+)(?:\.(\d+))?([bfnr]*))?$/.exec(spec);
+  if (!match || match[1] === '0' || match[2] === '0' || match[4] === '0') return undefined;
+  return {
+    startField: parseInt(match[1], 10),
+    startChar: match[2] ? parseInt(match[2], 10) : 1,
+    endField: match[4] ? parseInt(match[4], 10) : 0,
+    endChar: match[5] ? parseInt(match[5], 10) : 0,
+    options: (match[3] ?? '') + (match[6] ?? ''),
+  };
+}
+
+// The part of a line a key covers. Without a separator each field starts
+// with the blanks before it, as in coreutils.
+function sortKeyText(line: string, key: SortKey, separator: string | undefined): string {
+  const fields = separator !== undefined ? line.split(separator) : line.match(/[ \t]*[^ \t]+|[ \t]+$/g) ?? [];
+  const join = separator ?? '';
+  const start = fields.slice(0, key.startField - 1).join(join).length + (key.startField > 1 && separator !== undefined ? join.length : 0);
+  let field = fields[key.startField - 1] ?? '';
+  if (key.options.indexOf('b') !== -1) field = field.replace(/^[ \t]+/, '');
+  const from = start + (fields[key.startField - 1] ?? '').length - field.length + key.startChar - 1;
+  if (key.endField === 0 || key.endField > fields.length) return line.substring(from);
+  const endStart = fields.slice(0, key.endField - 1).join(join).length + (key.endField > 1 && separator !== undefined ? join.length : 0);
+  const end = key.endChar === 0 ? endStart + fields[key.endField - 1].length : endStart + key.endChar;
+  return line.substring(from, Math.max(from, end));
+}
+
+function compareText(a: string, b: string, options: string): number {
+  if (options.indexOf('b') !== -1) {
+    a = a.replace(/^[ \t]+/, '');
+    b = b.replace(/^[ \t]+/, '');
+  }
+  if (options.indexOf('n') !== -1) {
+    const number = (text: string) => {
+      const match = /^[ \t]*(-?(\d+\.?\d*|\.\d+))/.exec(text);
+      return match ? parseFloat(match[1]) : 0;
+    };
+    return number(a) - number(b);
+  }
+  if (options.indexOf('f') !== -1) {
+    a = a.toUpperCase();
+    b = b.toUpperCase();
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+async function sortLines(shell: TerminalProcessor, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  const { flags, values, operands, invalid } = parseOptions(args, 'nrufbsk:t:o:', {
+    'numeric-sort': 'n', reverse: 'r', unique: 'u', 'ignore-case': 'f', 'ignore-leading-blanks': 'b',
+    stable: 's', key: 'k', 'field-separator': 't', output: 'o'
+  });
+  if (invalid) return usageError(shell, 'sort', invalid, 2);
+
+  const globalOptions = 'nfbr'.split('').filter(flag => flags.has(flag)).join('');
+  let key: SortKey | undefined;
+  if (values.k !== undefined) {
+    key = parseSortKey(values.k);
+    if (!key) return shell.failure(`sort: invalid key specification '${values.k}'`, 2);
+    // A key with options of its own ignores the global ones
+    if (key.options === '') key.options = globalOptions;
+  }
+  const separator = values.t;
+  if (separator !== undefined && separator.length !== 1) {
+    return shell.failure(`sort: multi-character tab '${separator}'`, 2);
+  }
+
+  const { inputs, errors } = await readInputs(shell, 'sort', operands, stdin);
+  if (errors.length > 0) return textResult(shell, '', errors, 2);
+  const lines = inputs.reduce((all, input) => all.concat(splitLines(input.content)), [] as string[]);
+
+  const options = key ? key.options : globalOptions;
+  const sign = options.indexOf('r') !== -1 ? -1 : 1;
+  const compareKeys = (a: string, b: string) => sign * (key
+    ? compareText(sortKeyText(a, key, separator), sortKeyText(b, key, separator), options)
+    : compareText(a, b, options));
+  // Lines whose keys tie fall back on comparing them whole, unless -s or -u
+  const lastResort = flags.has('s') || flags.has('u') ? 0 : 1;
+  const sorted = lines
+    .map((line, index) => ({ line, index }))
+    .sort((a, b) => compareKeys(a.line, b.line)
+      || lastResort * (flags.has('r') ? -1 : 1) * compareText(a.line, b.line, '')
+      || a.index - b.index)
+    .map(entry => entry.line);
+  const result = flags.has('u') ? sorted.filter((line, index) => index === 0 || compareKeys(sorted[index - 1], line) !== 0) : sorted;
+
+  const text = result.join('\n');
+  if (values.o !== undefined) {
+    const error = await writeOutput(shell, 'sort', values.o, text === '' ? '' : text + '\n');
+    return textResult(shell, '', error ? [error] : [], error ? 2 : 0);
+  }
+  return textResult(shell, text, []);
+}
+
+async function uniqueLines(shell: TerminalProcessor, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  const { flags, operands, invalid } = parseOptions(args, 'cdui', { count: 'c', repeated: 'd', unique: 'u', 'ignore-case': 'i' });
+  if (invalid) return usageError(shell, 'uniq', invalid);
+  if (operands.length > 2) return usageError(shell, 'uniq', `extra operand '${operands[2]}'`);
+
+  const input = await readInput(shell, 'uniq', operands[0] ?? '-', stdin);
+  if ('error' in input) return textResult(shell, '', [input.error]);
+
+  const same = (a: string, b: string) => flags.has('i') ? a.toLowerCase() === b.toLowerCase() : a === b;
+  const groups: { line: string; count: number }[] = [];
+  splitLines(input.content).forEach(line => {
+    const last = groups[groups.length - 1];
+    if (last && same(last.line, line)) last.count++;
+    else groups.push({ line, count: 1 });
+  });
+  const lines = groups
+    .filter(group => !(flags.has('d') && group.count === 1) && !(flags.has('u') && group.count > 1))
+    .map(group => flags.has('c') ? `${String(group.count).padStart(7)} ${group.line}` : group.line);
+
+  const text = lines.join('\n');
+  if (operands[1] !== undefined && operands[1] !== '-') {
+    const error = await writeOutput(shell, 'uniq', operands[1], text === '' ? '' : text + '\n');
+    return textResult(shell, '', error ? [error] : []);
+  }
+  return textResult(shell, text, []);
+}
+
+// A cut LIST such as "1,3-5,7-" as a test for 1-based positions
+function parseCutList(list: string): ((position: number) => boolean) | undefined {
+  const ranges: [number, number][] = [];
+  for (const part of list.split(',')) {
+    const match = /^(\d*)(-?)(\d*)$/.exec(part);
+    if (!match || (match[1] === '' && match[3] === '') || match[1] === '0' || match[3] === '0') return undefined;
+    const from = match[1] === '' ? 1 : parseInt(match[1], 10);
+    const to = match[2] === '' ? from : match[3] === '' ? Infinity : parseInt(match[3], 10);
+    if (to < from) return undefined;
+    ranges.push([from, to]);
+  }
+  return position => ranges.some(([from, to]) => position >= from && position <= to);
+}
+
+async function cutLines(shell: TerminalProcessor, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  const { flags, values, operands, invalid } = parseOptions(args, 'b:c:f:d:s', {
+    bytes: 'b', characters: 'c', fields: 'f', delimiter: 'd', 'only-delimited': 's'
+  });
+  if (invalid) return usageError(shell, 'cut', invalid);
+
+  const modes = ['b', 'c', 'f'].filter(flag => flags.has(flag));
+  if (modes.length === 0) return usageError(shell, 'cut', 'you must specify a list of bytes, characters, or fields');
+  if (modes.length > 1) return usageError(shell, 'cut', 'only one type of list may be specified');
+  const mode = modes[0];
+  const selected = parseCutList(values[mode]);
+  if (!selected) return usageError(shell, 'cut', `invalid ${mode === 'f' ? 'field' : 'byte/character'} list '${values[mode]}'`);
+
+  const delimiter = values.d ?? '\t';
+  if (delimiter.length !== 1) return usageError(shell, 'cut', 'the delimiter must be a single character');
+  if (mode !== 'f' && (flags.has('d') || flags.has('s'))) {
+    return usageError(shell, 'cut', 'an input delimiter may be specified only when operating on fields');
+  }
+
+  const { inputs, errors } = await readInputs(shell, 'cut', operands, stdin);
+  const lines: string[] = [];
+  inputs.forEach(input => splitLines(input.content).forEach(line => {
+    if (mode === 'f') {
+      if (line.indexOf(delimiter) === -1) {
+        if (!flags.has('s')) lines.push(line);
+        return;
+      }
+      lines.push(line.split(delimiter).filter((field, index) => selected(index + 1)).join(delimiter));
+    } else {
+      const units = mode === 'b' ? Array.from(Buffer.from(line)) : Array.from(line);
+      const kept = units.filter((unit, index) => selected(index + 1));
+      lines.push(mode === 'b' ? Buffer.from(kept as number[]).toString('utf8') : (kept as string[]).join(''));
+    }
+  }));
+  return textResult(shell, lines.join('\n'), errors);
+}
+
+// The characters a tr SET stands for: ranges like a-z, classes like
+// [:upper:] and escapes like \n
+function expandCharacterSet(spec: string): string[] | string {
+  const characters: string[] = [];
+  const classes: Record<string, string> = {
+    upper: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', lower: 'abcdefghijklmnopqrstuvwxyz', digit: '0123456789',
+    space: ' \t\n\r\f\v', blank: ' \t', punct: '!"#$%&\'()*+,-./:;<=>?@[\\]^_`{|}~',
+  };
+  classes.alpha = classes.upper + classes.lower;
+  classes.alnum = classes.alpha + classes.digit;
+  classes.xdigit = classes.digit + 'ABCDEFabcdef';
+
+  // Each character with escapes resolved, marked when it came from one
+  const units: { char: string; escaped: boolean }[] = [];
+  for (let i = 0; i < spec.length; i++) {
+    const named = /^\[:([a-z]+):\]/.exec(spec.substring(i));
+    if (named) {
+      const members = lookup(classes, named[1]);
+      if (members === undefined) return `invalid character class '${named[1]}'`;
+      members.split('').forEach(char => units.push({ char, escaped: true }));
+      i += named[0].length - 1;
+    } else if (spec[i] === '\\' && i + 1 < spec.length) {
+      const escape = /^\\([0-7]{1,3}|.)/.exec(spec.substring(i))![0];
+      units.push({ char: unescape(escape), escaped: true });
+      i += escape.length - 1;
+    } else {
+      units.push({ char: spec[i], escaped: false });
+    }
+  }
+
+  for (let i = 0; i < units.length; i++) {
+    const next = units[i + 1];
+    if (next && next.char === '-' && !next.escaped && i + 2 < units.length) {
+      const from = units[i].char.charCodeAt(0);
+      const to = units[i + 2].char.charCodeAt(0);
+      if (to < from) return `range-endpoints of '${units[i].char}-${units[i + 2].char}' are in reverse collating sequence order`;
+      for (let code = from; code <= to; code++) characters.push(String.fromCharCode(code));
+      i += 2;
+    } else {
+      characters.push(units[i].char);
+    }
+  }
+  return characters;
+}
+
+function translate(shell: TerminalProcessor, args: string[], stdin?: InputStream): CommandResult {
+  const { flags, operands, invalid } = parseOptions(args, 'cCds', { complement: 'c', delete: 'd', 'squeeze-repeats': 's' });
+  if (invalid) return usageError(shell, 'tr', invalid);
+  const complement = flags.has('c') || flags.has('C');
+  const deleting = flags.has('d');
+  const squeezing = flags.has('s');
+
+  if (operands.length === 0) return usageError(shell, 'tr', 'missing operand');
+  const needed = deleting && squeezing ? 2 : deleting || (squeezing && operands.length === 1) ? 1 : 2;
+  if (operands.length < needed) {
+    const why = deleting ? 'Two strings must be given when both deleting and squeezing repeats.' : 'Two strings must be given when translating.';
+    return shell.failure(`tr: missing operand after '${operands[operands.length - 1]}'\n${why}\nTry 'tr --help' for more information.`);
+  }
+  if (operands.length > needed) return usageError(shell, 'tr', `extra operand '${operands[needed]}'`);
+
+  const first = expandCharacterSet(operands[0]);
+  const second = operands.length > 1 ? expandCharacterSet(operands[1]) : [];
+  if (typeof first === 'string') return shell.failure(`tr: ${first}`);
+  if (typeof second === 'string') return shell.failure(`tr: ${second}`);
+  const inFirst = (char: string) => (first.indexOf(char) !== -1) !== complement;
+
+  let output = '';
+  let last: string | undefined;
+  // Squeezing looks at SET2 once anything was translated or deleted
+  const squeezable = (char: string) => deleting || operands.length > 1 ? second.indexOf(char) !== -1 : inFirst(char);
+  Array.from(stdin?.read() ?? '').forEach(char => {
+    let result = char;
+    if (deleting) {
+      if (inFirst(char)) return;
+    } else if (operands.length > 1 && inFirst(char)) {
+      const index = complement ? second.length - 1 : Math.min(first.indexOf(char), second.length - 1);
+      result = second[index] ?? char;
+    }
+    if (squeezing && result === last && squeezable(result)) return;
+    output += result;
+    last = result;
+  });
+  return { output: output.replace(/\n$/, ''), currentDirectory: shell.currentDirectory, success: true };
+}
+
+async function tee(shell: TerminalProcessor, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  const { flags, operands, invalid } = parseOptions(args, 'a', { append: 'a' });
+  if (invalid) return usageError(shell, 'tee', invalid);
+
+  const text = stdin?.read() ?? '';
+  const errors: string[] = [];
+  for (const operand of operands) {
+    const error = operand === '-' ? undefined : await writeOutput(shell, 'tee', operand, text, flags.has('a'));
+    if (error) errors.push(error);
+  }
+  return textResult(shell, text, errors);
+}
+
+// Splits xargs input into arguments at blanks and newlines, honoring quotes
+// and backslashes
+function splitArguments(text: string): string[] | string {
+  const items: string[] = [];
+  let current = '';
+  let inWord = false;
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = undefined;
+      else if (char === '\n') return `unmatched ${quote === '"' ? 'double' : 'single'} quote; by default quotes are special to xargs unless you use the -0 option`;
+      else current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inWord = true;
+    } else if (char === '\\' && i + 1 < text.length) {
+      current += text[++i];
+      inWord = true;
+    } else if (/\s/.test(char)) {
+      if (inWord) items.push(current);
+      current = '';
+      inWord = false;
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+  if (quote) return `unmatched ${quote === '"' ? 'double' : 'single'} quote; by default quotes are special to xargs unless you use the -0 option`;
+  if (inWord) items.push(current);
+  return items;
+}
+
+async function runWithArguments(shell: TerminalProcessor, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  // Options end at the command, whose own options xargs must not read
+  const commandStart = args.findIndex((arg, index) => !arg.startsWith('-') && !/^-[nLI]$/.test(args[index - 1] ?? ''));
+  const { flags, values, operands, invalid } = parseOptions(commandStart === -1 ? args : args.slice(0, commandStart), 'n:L:I:rt', {
+    'max-args': 'n', 'max-lines': 'L', 'no-run-if-empty': 'r', verbose: 't'
+  });
+  if (invalid) return usageError(shell, 'xargs', invalid);
+  const command = operands.concat(commandStart === -1 ? [] : args.slice(commandStart));
+  if (command.length === 0) command.push('echo');
+
+  for (const flag of ['n', 'L']) {
+    if (values[flag] !== undefined && !/^[1-9]\d*$/.test(values[flag])) {
+      return shell.failure(`xargs: invalid number "${values[flag]}" for -${flag} option`);
+    }
+  }
+
+  const input = stdin?.read() ?? '';
+  // Each command line to run, before the command itself is put in front
+  const batches: string[][] = [];
+  if (values.I !== undefined) {
+    const replace = values.I;
+    splitLines(input).map(line => line.replace(/^[ \t]+/, '')).filter(line => line !== '').forEach(line => {
+      batches.push(command.slice(1).map(word => word.split(replace).join(line)));
+    });
+  } else {
+    const lines = values.L !== undefined ? splitLines(input).filter(line => line.trim() !== '') : [input];
+    const perLines = values.L !== undefined ? parseInt(values.L, 10) : 1;
+    for (let i = 0; i < lines.length; i += perLines) {
+      const items = splitArguments(lines.slice(i, i + perLines).join('\n'));
+      if (typeof items === 'string') return shell.failure(`xargs: ${items}`);
+      const size = values.n !== undefined ? parseInt(values.n, 10) : Math.max(items.length, 1);
+      for (let j = 0; j < items.length; j += size) {
+        batches.push(command.slice(1).concat(items.slice(j, j + size)));
+      }
+    }
+    // GNU xargs runs the command once even when there is no input
+    if (batches.length === 0 && !flags.has('r')) batches.push(command.slice(1));
+  }
+
+  const output: string[] = [];
+  const errors: string[] = [];
+  let status = 0;
+  for (const batch of batches) {
+    if (flags.has('t')) errors.push([command[0]].concat(batch).join(' '));
+    const result = await shell.dispatchCommand(command[0], batch);
+    const streams = resultStreams(result);
+    if (streams.stdout) output.push(streams.stdout);
+    if (streams.stderr) errors.push(streams.stderr);
+    const code = exitStatus(result);
+    // A command that can't be run, or exits with 255, stops xargs
+    if (code === 126 || code === 127) {
+      status = code;
+      break;
+    }
+    if (code === 255) {
+      errors.push(`xargs: ${command[0]}: exited with status 255; aborting`);
+      status = 124;
+      break;
+    }
+    if (code !== 0) status = 123;
+  }
+  return textResult(shell, output.join('\n'), errors, status);
+}
+
+async function numberLines(shell: TerminalProcessor, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  const { values, operands, invalid } = parseOptions(args, 'b:n:w:s:v:', {
+    'body-numbering': 'b', 'number-format': 'n', 'number-width': 'w', 'number-separator': 's', 'starting-line-number': 'v'
+  });
+  if (invalid) return usageError(shell, 'nl', invalid);
+
+  const style = values.b ?? 't';
+  if (['a', 't', 'n'].indexOf(style) === -1) return shell.failure(`nl: invalid body numbering style: '${style}'`);
+  const format = values.n ?? 'rn';
+  if (['ln', 'rn', 'rz'].indexOf(format) === -1) return shell.failure(`nl: invalid line numbering format: '${format}'`);
+  const width = values.w !== undefined ? parseInt(values.w, 10) : 6;
+  if (!(width > 0)) return shell.failure(`nl: invalid line number field width: '${values.w}'`);
+  let number = values.v !== undefined ? parseInt(values.v, 10) : 1;
+  if (isNaN(number)) return shell.failure(`nl: invalid starting line number: '${values.v}'`);
+  const separator = values.s ?? '\t';
+
+  const { inputs, errors } = await readInputs(shell, 'nl', operands, stdin);
+  const lines: string[] = [];
+  inputs.forEach(input => splitLines(input.content).forEach(line => {
+    if (style === 'n' || (style === 't' && line === '')) {
+      // Unnumbered lines are indented to line up with the numbered ones
+      lines.push(line === '' ? line : ' '.repeat(width + separator.length) + line);
+      return;
+    }
+    const text = String(number++);
+    const field = format === 'ln' ? text.padEnd(width) : format === 'rz' ? text.padStart(width, '0') : text.padStart(width);
+    lines.push(field + separator + line);
+  }));
+  return textResult(shell, lines.join('\n'), errors);
+}
+
+async function reverseLines(shell: TerminalProcessor, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  const { inputs, errors } = await readInputs(shell, 'rev', args, stdin);
+  const lines = inputs.reduce((all, input) => all.concat(splitLines(input.content).map(line => Array.from(line).reverse().join(''))), [] as string[]);
+  return textResult(shell, lines.join('\n'), errors);
+}
+
+async function pasteLines(shell: TerminalProcessor, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  const { flags, values, operands, invalid } = parseOptions(args, 'sd:', { serial: 's', delimiters: 'd' });
+  if (invalid) return usageError(shell, 'paste', invalid);
+  // "\0" in the list stands for no delimiter at all
+  const delimiters = values.d !== undefined ? Array.from(unescape(values.d.replace(/\\0/g, '\x00'))).map(char => char === '\x00' ? '' : char) : ['\t'];
+  if (delimiters.length === 0) delimiters.push('');
+  const delimiter = (index: number) => delimiters[index % delimiters.length];
+
+  // Several "-" operands take turns reading lines from stdin
+  const names = operands.length > 0 ? operands : ['-'];
+  const stdinCount = names.filter(name => name === '-').length;
+  const stdinLines = stdinCount > 0 ? splitLines(stdin?.read() ?? '') : [];
+  const columns: string[][] = [];
+  const errors: string[] = [];
+  let stdinIndex = 0;
+  for (const name of names) {
+    if (name === '-') {
+      const turn = stdinIndex++;
+      columns.push(flags.has('s') ? stdinLines.splice(0) : stdinLines.filter((line, index) => index % stdinCount === turn));
+      continue;
+    }
+    const input = await readInput(shell, 'paste', name, stdin);
+    if ('error' in input) errors.push(input.error);
+    else columns.push(splitLines(input.content));
+  }
+  if (errors.length > 0) return textResult(shell, '', errors);
+
+  const join = (fields: string[]) => fields.map((field, index) => (index > 0 ? delimiter(index - 1) : '') + field).join('');
+  const lines = flags.has('s')
+    ? columns.map(join)
+    : Array.from({ length: columns.reduce((max, column) => Math.max(max, column.length), 0) }, (_, row) => join(columns.map(column => column[row] ?? '')));
+  return textResult(shell, lines.join('\n'), []);
+}
@@ -0,0 +1,68 @@
+// Option parsing and name lookups shared by the shell and its commands
+
+// Splits flags from operands. Short flags may be bundled (-rf), long flags map
+// onto their short letter, and "--" ends option parsing. A letter followed by
+// ":" in shortOptions takes a value, attached (-n5) or as the next argument
+// (-n 5), as does a long option written "--lines=5" or "--lines 5".
+export function parseOptions(args: string[], shortOptions: string, longOptions: Record<string, string> = {}) {
+  const flags = new Set<string>();
+  const values: Record<string, string> = {};
+  const operands: string[] = [];
+  let invalid: string | undefined;
+  let endOfOptions = false;
+  const takesValue = (flag: string) => shortOptions.charAt(shortOptions.indexOf(flag) + 1) === ':';
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (endOfOptions || arg === '-' || !arg.startsWith('-')) {
+      operands.push(arg);
+    } else if (arg === '--') {
+      endOfOptions = true;
+    } else if (arg.startsWith('--')) {
+      const equals = arg.indexOf('=');
+      const name = equals === -1 ? arg.substring(2) : arg.substring(2, equals);
+      const flag = lookup(longOptions, name);
+      if (!flag) {
+        invalid = invalid ?? `unrecognized option '${arg}'`;
+      } else if (takesValue(flag)) {
+        const value = equals === -1 ? args[++i] : arg.substring(equals + 1);
+        if (value === undefined) {
+          invalid = invalid ?? `option '--${name}' requires an argument`;
+        } else {
+          flags.add(flag);
+          values[flag] = value;
+        }
+      } else if (equals !== -1) {
+        invalid = invalid ?? `option '--${name}' doesn't allow an argument`;
+      } else {
+        flags.add(flag);
+      }
+    } else {
+      for (let j = 1; j < arg.length; j++) {
+        const flag = arg[j];
+        if (flag === ':' || !shortOptions.includes(flag)) {
+          invalid = invalid ?? `invalid option -- '${flag}'`;
+        } else if (takesValue(flag)) {
+          const value = j + 1 < arg.length ? arg.substring(j + 1) : args[++i];
+          if (value === undefined) {
+            invalid = invalid ?? `option requires an argument -- '${flag}'`;
+          } else {
+            flags.add(flag);
+            values[flag] = value;
+          }
+          break;
+        } else {
+          flags.add(flag);
+        }
+      }
+    }
+  }
+
+  return { flags, values, operands, invalid };
+}
+
+// Looks a name up in a record of shell names without tripping over
+// inherited properties like "constructor"
+export function lookup<T>(record: Record<string, T>, name: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(record, name) ? record[name] : undefined;
+}
@@ -0,0 +1,251 @@
+// Small utilities, and the commands that describe other commands: help,
+// which, type and command all answer from the shell's command registry.
+
+import { storage } from "../storage";
+import { RESERVED_WORDS } from "../shell/parser";
+import type { InputStream } from "../shell/io";
+import type { CommandResult } from "@shared/schema";
+import type { TerminalProcessor } from "../terminal";
+import type { CommandDefinition } from "./registry";
+import { lookup } from "./util";
+
+const category = 'Utilities';
+
+export const utilityCommands: CommandDefinition[] = [
+  {
+    name: 'basename',
+    usage: 'basename NAME [SUFFIX]',
+    description: 'Strip directory from a path',
+    category,
+    handler: ({ shell, name, args }) => pathComponent(shell, name, args),
+  },
+  {
+    name: 'dirname',
+    usage: 'dirname NAME...',
+    description: 'Strip last part of a path',
+    category,
+    handler: ({ shell, name, args }) => pathComponent(shell, name, args),
+  },
+  {
+    name: 'clear',
+    usage: 'clear',
+    description: 'Clear terminal',
+    category,
+    handler: ({ shell }) => ({ output: "\x1b[2J\x1b[H", currentDirectory: shell.currentDirectory, success: true }),
+  },
+  {
+    name: 'help',
+    usage: 'help [COMMAND...]',
+    description: 'Show help for shell commands',
+    category,
+    builtin: true,
+    handler: ({ shell, args }) => showHelp(shell, args),
+  },
+  {
+    name: 'which',
+    usage: 'which NAME...',
+    description: 'Locate a command',
+    category,
+    handler: ({ shell, args }) => locateCommands(shell, args),
+  },
+  {
+    name: 'type',
+    usage: 'type [-t] NAME...',
+    description: 'Describe how a name would be run',
+    category,
+    builtin: true,
+    flags: [
+      { flag: '-t', description: 'Print only alias, keyword, function, builtin or file' },
+    ],
+    handler: ({ shell, args }) => describeCommands(shell, args),
+  },
+  {
+    name: 'command',
+    usage: 'command [-vV] NAME [ARG...]',
+    description: 'Run a command, ignoring functions',
+    category,
+    builtin: true,
+    flags: [
+      { flag: '-v', description: 'Print how NAME would be run' },
+      { flag: '-V', description: 'Describe NAME like type does' },
+    ],
+    handler: ({ shell, args, stdin }) => runCommand(shell, args, stdin),
+  },
+];
+
+// What a name typed as a command would run, in the order the shell looks
+type Resolution =
+  | { kind: 'alias'; value: string }
+  | { kind: 'keyword' | 'function' | 'builtin' }
+  | { kind: 'file'; path: string };
+
+async function resolveCommand(shell: TerminalProcessor, name: string): Promise<Resolution | undefined> {
+  const alias = lookup(shell.aliases, name);
+  if (alias !== undefined) return { kind: 'alias', value: alias };
+  if (RESERVED_WORDS.indexOf(name) !== -1) return { kind: 'keyword' };
+  if (lookup(shell.functions, name)) return { kind: 'function' };
+
+  if (shell.commands.get(name)?.builtin) return { kind: 'builtin' };
+  const path = await programPath(shell, name);
+  return path ? { kind: 'file', path } : undefined;
+}
+
+// Where the program a name runs lives: a registered command that isn't a
+// builtin, or an executable file named by a path
+async function programPath(shell: TerminalProcessor, name: string): Promise<string | undefined> {
+  if (name.includes('/')) {
+    const item = await storage.getFileSystemItem(shell.owner, shell.resolvePath(name));
+    return item && item.type !== 'directory' && item.permissions[3] === 'x' ? name : undefined;
+  }
+  const definition = shell.commands.get(name);
+  return definition && !definition.builtin ? `/usr/bin/${name}` : undefined;
+}
+
+function describe(name: string, resolution: Resolution): string {
+  switch (resolution.kind) {
+    case 'alias': return `${name} is aliased to \`${resolution.value}'`;
+    case 'keyword': return `${name} is a shell keyword`;
+    case 'function': return `${name} is a function`;
+    case 'builtin': return `${name} is a shell builtin`;
+    case 'file': return `${name} is ${resolution.path}`;
+  }
+}
+
+// help lists every enabled command by category; help NAME shows its usage and flags
+function showHelp(shell: TerminalProcessor, args: string[]): CommandResult {
+  const definitions = shell.commands.list();
+
+  if (args.length === 0) {
+    const categories: string[] = [];
+    definitions.forEach(definition => {
+      if (categories.indexOf(definition.category) === -1) categories.push(definition.category);
+    });
+
+    const sections = categories.map(heading => {
+      const lines = definitions
+        .filter(definition => definition.category === heading)
+        .map(definition => `${shell.commands.namesOf(definition).join('/').padEnd(11)} - ${definition.description}`);
+      return `${heading}:\n${lines.join('\n')}`;
+    });
+
+    const output = `Available Commands:\n\n${sections.join('\n\n')}\n\nType \`help NAME' or \`man NAME' for a command's usage and options.`;
+    return { output, currentDirectory: shell.currentDirectory, success: true };
+  }
+
+  const topics: string[] = [];
+  const errors: string[] = [];
+  args.forEach(name => {
+    const definition = shell.commands.get(name);
+    if (!definition) {
+      errors.push(`help: no help topics match \`${name}'`);
+      return;
+    }
+
+    let topic = `${name}: ${definition.usage}\n    ${definition.description}`;
+    if (definition.flags && definition.flags.length > 0) {
+      const width = Math.max(...definition.flags.map(flag => flag.flag.length));
+      topic += '\n\n    Options:\n' + definition.flags
+        .map(flag => `      ${flag.flag.padEnd(width)}  ${flag.description}`)
+        .join('\n');
+    }
+    topics.push(topic);
+  });
+
+  return {
+    output: topics.join('\n\n'),
+    stderr: errors.join('\n'),
+    currentDirectory: shell.currentDirectory,
+    success: errors.length === 0
+  };
+}
+
+// which only finds programs, so builtins, functions and aliases don't count
+async function locateCommands(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  const paths: string[] = [];
+  let missing = false;
+  for (const name of args) {
+    const path = await programPath(shell, name);
+    if (path) {
+      paths.push(path);
+    } else {
+      missing = true;
+    }
+  }
+
+  const status = args.length === 0 || missing ? 1 : 0;
+  return { output: paths.join('\n'), stderr: '', currentDirectory: shell.currentDirectory, success: status === 0, exitCode: status };
+}
+
+async function describeCommands(shell: TerminalProcessor, args: string[]): Promise<CommandResult> {
+  const kindOnly = args[0] === '-t';
+  const names = kindOnly ? args.slice(1) : args;
+
+  const lines: string[] = [];
+  const errors: string[] = [];
+  for (const name of names) {
+    const resolution = await resolveCommand(shell, name);
+    if (!resolution) {
+      if (!kindOnly) errors.push(`type: ${name}: not found`);
+      continue;
+    }
+    lines.push(kindOnly ? resolution.kind : describe(name, resolution));
+  }
+
+  const status = lines.length === names.length ? 0 : 1;
+  return { output: lines.join('\n'), stderr: errors.join('\n'), currentDirectory: shell.currentDirectory, success: status === 0, exitCode: status };
+}
+
+// command NAME runs NAME even when a function shadows it; -v and -V only
+// report what NAME is
+async function runCommand(shell: TerminalProcessor, args: string[], stdin?: InputStream): Promise<CommandResult> {
+  const mode = args[0] === '-v' || args[0] === '-V' ? args[0] : undefined;
+  if (!mode) {
+    if (args.length === 0) return { output: "", currentDirectory: shell.currentDirectory, success: true };
+    return shell.dispatchCommand(args[0], args.slice(1), stdin);
+  }
+
+  const lines: string[] = [];
+  const errors: string[] = [];
+  const names = args.slice(1);
+  for (const name of names) {
+    const resolution = await resolveCommand(shell, name);
+    if (!resolution) {
+      if (mode === '-V') errors.push(`command: ${name}: not found`);
+    } else if (mode === '-V') {
+      lines.push(describe(name, resolution));
+    } else if (resolution.kind === 'alias') {
+      lines.push(`alias ${name}='${resolution.value.replace(/'/g, "'\\''")}'`);
+    } else {
+      lines.push(resolution.kind === 'file' ? resolution.path : name);
+    }
+  }
+
+  const status = lines.length === names.length ? 0 : 1;
+  return { output: lines.join('\n'), stderr: errors.join('\n'), currentDirectory: shell.currentDirectory, success: status === 0, exitCode: status };
+}
+
+// basename NAME [SUFFIX] and dirname NAME..., working on the text alone
+function pathComponent(shell: TerminalProcessor, cmd: string, args: string[]): CommandResult {
+  if (args.length === 0) {
+    return { output: `${cmd}: missing operand`, error: "Missing operand", currentDirectory: shell.currentDirectory, success: false };
+  }
+
+  if (cmd === 'basename') {
+    const trimmed = args[0].replace(/\/+$/, '');
+    let name = trimmed === '' ? (args[0] === '' ? '' : '/') : trimmed.substring(trimmed.lastIndexOf('/') + 1);
+    const suffix = args[1];
+    if (suffix && name !== suffix && name.endsWith(suffix)) {
+      name = name.substring(0, name.length - suffix.length);
+    }
+    return { output: name, currentDirectory: shell.currentDirectory, success: true };
+  }
+
+  const directories = args.map(arg => {
+    const trimmed = arg.replace(/\/+$/, '');
+    if (trimmed === '') return arg.startsWith('/') ? '/' : '.';
+    const slash = trimmed.lastIndexOf('/');
+    if (slash === -1) return '.';
+    return trimmed.substring(0, slash).replace(/\/+$/, '') || '/';
+  });
+  return { output: directories.join('\n'), currentDirectory: shell.currentDirectory, success: true };
+}
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { completeLine } from "./completion";
+import type { TerminalProcessor } from "./terminal";
+import { newShell, writeFile } from "./testing";
+
+const complete = async (shell: TerminalProcessor, line: string) =>
+  (await completeLine(shell, line, line.length)).candidates;
+
+test("commands complete where a command starts", async () => {
+  const shell = await newShell();
+  await shell.executeCommand("alias gst='git status'; greet() { echo hi; }");
+  assert.ok((await complete(shell, "ech")).indexOf("echo") !== -1);
+  assert.deepEqual((await complete(shell, "gs")).filter(name => name === "gst"), ["gst"]);
+  assert.ok((await complete(shell, "ls | gre")).indexOf("greet") !== -1);
+  assert.ok((await complete(shell, "if gre")).indexOf("grep") !== -1);
+  assert.ok((await complete(shell, "man gre")).indexOf("grep") !== -1);
+  assert.deepEqual(await complete(shell, "echo ech"), []);
+});
+
+test("paths complete relative to the working directory, escaped", async () => {
+  const shell = await newShell();
+  await shell.executeCommand("mkdir -p work/src work/spare");
+  await writeFile(shell, "work/my notes.txt", "x\n");
+  await writeFile(shell, "work/.hidden", "x\n");
+
+  const result = await completeLine(shell, "cat work/m > out", 10);
+  assert.deepEqual(result, { line: "cat work/m > out", start: 4, end: 10, candidates: ["work/my\\ notes.txt"] });
+  assert.deepEqual(await complete(shell, "ls work/s"), ["work/spare/", "work/src/"]);
+  assert.deepEqual(await complete(shell, "cd work/"), ["work/spare/", "work/src/"]);
+  assert.deepEqual(await complete(shell, "ls work/."), ["work/.hidden"]);
+  assert.deepEqual(await complete(shell, 'cat "work/my'), ["work/my\\ notes.txt"]);
+  await shell.executeCommand("cd work");
+  assert.deepEqual(await complete(shell, "ls; cat m"), ["my\\ notes.txt"]);
+});
+
+test("flags and variables complete from the registry and the environment", async () => {
+  const shell = await newShell();
+  await shell.executeCommand("export COMPLETE_ME=1");
+  assert.deepEqual(await complete(shell, "echo $COMPLETE"), ["$COMPLETE_ME"]);
+  assert.deepEqual(await complete(shell, "echo ${COMPLETE"), ["${COMPLETE_ME}"]);
+  assert.ok((await complete(shell, "rm --rec")).indexOf("--recursive") !== -1);
+  assert.ok((await complete(shell, "ls -")).indexOf("-l") !== -1);
+});
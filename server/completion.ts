@@ -0,0 +1,152 @@
+// Tab completion for the line being typed: command names where a command
+// starts, then the command's declared flags, variable names after "$", and
+// paths in the session's file system everywhere else
+
+import { storage } from "./storage";
+import { RESERVED_WORDS } from "./shell/parser";
+import { expandTildePrefix } from "./shell/expand";
+import { HOME_DIRECTORY } from "@shared/path";
+import type { CompletionResult } from "@shared/schema";
+import type { TerminalProcessor } from "./terminal";
+
+// Keywords after which the next word is a command again
+const COMMAND_KEYWORDS = ['!', 'do', 'elif', 'else', 'if', 'then', 'until', 'while', '{'];
+
+// Commands whose arguments are themselves command names
+const COMMAND_ARGUMENTS = ['command', 'help', 'man', 'type', 'which'];
+
+// Characters a completed path escapes with a backslash
+const SPECIAL_CHARACTERS = /([\s'"\\$`&|;<>()*?\[\]!#{}])/g;
+
+// Where the word under the cursor starts and what surrounds it
+interface WordContext {
+  start: number;
+  // Earlier words of the simple command the word belongs to
+  words: string[];
+  // The word follows a redirection operator
+  redirect: boolean;
+}
+
+function scanLine(text: string): WordContext {
+  let words: string[] = [];
+  let start = 0;
+  let redirect = false;
+  let quote: string | null = null;
+
+  const endWord = (end: number) => {
+    const word = text.substring(start, end);
+    if (word) {
+      if (redirect) {
+        redirect = false;
+      } else if (words.length > 0 || (COMMAND_KEYWORDS.indexOf(word) === -1 && !/^[A-Za-z_][A-Za-z0-9_]*=/.test(word))) {
+        words.push(word);
+      }
+    }
+    start = end + 1;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+      else if (char === '\\' && quote === '"') i++;
+    } else if (char === '\\') {
+      i++;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (/\s/.test(char)) {
+      endWord(i);
+    } else if (';&|('.indexOf(char) !== -1) {
+      endWord(i);
+      words = [];
+      redirect = false;
+    } else if (char === '<' || char === '>') {
+      // A file descriptor number like the 2 in 2> is part of the operator
+      if (!/^\d*$/.test(text.substring(start, i))) endWord(i);
+      start = i + 1;
+      redirect = true;
+    }
+  }
+  return { start, words, redirect };
+}
+
+// The word as the shell would see it, minus quotes and backslashes
+function unquote(word: string): string {
+  return word.replace(/\\(.)|["']/g, (match, escaped?: string) => escaped ?? '');
+}
+
+function commandNames(shell: TerminalProcessor): string[] {
+  const names: string[] = RESERVED_WORDS.slice();
+  shell.commands.list().forEach(definition => {
+    shell.commands.namesOf(definition).forEach(name => names.push(name));
+  });
+  return names.concat(Object.keys(shell.aliases), Object.keys(shell.functions));
+}
+
+// Every flag spelled out in a command's option list, e.g. "-r" and
+// "--recursive" from "-r, --recursive"
+function flagNames(shell: TerminalProcessor, command: string): string[] {
+  const definition = shell.commands.get(command);
+  if (!definition) return [];
+  const names: string[] = definition.noHelpOption ? [] : ['--help'];
+  (definition.flags ?? []).forEach(({ flag }) => {
+    flag.split(/[\s,]+/).forEach(part => {
+      if (/^--?[A-Za-z0-9]/.test(part)) names.push(part.replace(/[=[].*$/, ''));
+    });
+  });
+  return names;
+}
+
+// Entries of the word's directory whose names start with what follows the
+// last slash; directories end in "/" so completion can carry on into them
+async function pathCandidates(shell: TerminalProcessor, word: string, directoriesOnly: boolean): Promise<string[]> {
+  const plain = unquote(word);
+  if (plain === '~') return ['~/'];
+  const slash = plain.lastIndexOf('/');
+  const directoryPart = plain.substring(0, slash + 1);
+  const partial = plain.substring(slash + 1);
+  const home = shell.environment.HOME ?? HOME_DIRECTORY;
+  const directory = shell.resolvePath(expandTildePrefix(directoryPart, home) || '.');
+
+  // What was typed before the name is kept as it is unless it was quoted
+  const rawSlash = word.lastIndexOf('/');
+  const prefix = /["'\\]/.test(word) ? directoryPart.replace(SPECIAL_CHARACTERS, '\\$1') : word.substring(0, rawSlash + 1);
+
+  const item = await storage.getFileSystemItem(shell.owner, directory);
+  if (!item || item.type !== 'directory') return [];
+  const entries = await storage.getDirectoryContents(shell.owner, directory);
+  return entries
+    .filter(entry => entry.name.substring(0, partial.length) === partial)
+    .filter(entry => partial.charAt(0) === '.' || entry.name.charAt(0) !== '.')
+    .filter(entry => !directoriesOnly || entry.type === 'directory')
+    .map(entry => prefix + entry.name.replace(SPECIAL_CHARACTERS, '\\$1') + (entry.type === 'directory' ? '/' : ''));
+}
+
+export async function completeLine(shell: TerminalProcessor, line: string, cursor: number): Promise<CompletionResult> {
+  const text = line.substring(0, cursor);
+  const { start, words, redirect } = scanLine(text);
+  const word = text.substring(start);
+  const command = words[0];
+
+  let candidates: string[];
+  const variable = /^\$(\{?)([A-Za-z0-9_]*)$/.exec(word);
+  if (variable) {
+    const close = variable[1] ? '}' : '';
+    candidates = Object.keys(shell.environment)
+      .filter(name => name.substring(0, variable[2].length) === variable[2])
+      .map(name => `$${variable[1]}${name}${close}`);
+  } else if (redirect) {
+    candidates = await pathCandidates(shell, word, false);
+  } else if (command === undefined || (COMMAND_ARGUMENTS.indexOf(command) !== -1 && !word.startsWith('-'))) {
+    candidates = word.indexOf('/') !== -1
+      ? await pathCandidates(shell, word, false)
+      : commandNames(shell).filter(name => name.substring(0, word.length) === word);
+  } else if (word.startsWith('-')) {
+    candidates = flagNames(shell, command).filter(flag => flag.substring(0, word.length) === word);
+  } else {
+    candidates = await pathCandidates(shell, word, command === 'cd');
+  }
+
+  const unique = candidates.filter((candidate, index) => candidates.indexOf(candidate) === index).sort();
+  return { line, start, end: cursor, candidates: unique };
+}
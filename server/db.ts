@@ -0,0 +1,51 @@
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import { readMigrationFiles } from "drizzle-orm/migrator";
+import { sql } from "drizzle-orm";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+// Plain node-postgres works against Render, Neon and a local Postgres alike,
+// so the same DATABASE_URL can point at any of them.
+export function createDatabase(connectionString: string): Database {
+  const pool = new pg.Pool({ connectionString });
+  pool.on("error", (error) => {
+    console.error("PostgreSQL pool error:", error);
+  });
+  return drizzle(pool, { schema });
+}
+
+const MIGRATIONS_FOLDER = "migrations";
+
+// Brings the schema up to date from the SQL files drizzle-kit generates into
+// migrations/; drizzle records which have run, so this is safe on every start
+export async function migrateDatabase(db: Database): Promise<void> {
+  await adoptPushedSchema(db);
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+}
+
+// Databases set up with "npm run db:push" have the tables but no record of
+// any migration having run. Records the migrations their schema already has:
+// the first one for a schema from before file owners, all of them otherwise.
+async function adoptPushedSchema(db: Database): Promise<void> {
+  const { rows } = await db.execute(sql`
+    SELECT to_regclass('drizzle.__drizzle_migrations') IS NOT NULL AS "journal",
+      to_regclass('public.terminal_sessions') IS NOT NULL AS "tables",
+      EXISTS (SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'file_system' AND column_name = 'owner') AS "owners"
+  `);
+  const { journal, tables, owners } = rows[0];
+  if (journal || !tables) return;
+
+  const migrations = readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER });
+  const applied = owners ? migrations : migrations.slice(0, 1);
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`CREATE SCHEMA IF NOT EXISTS "drizzle"`);
+    await tx.execute(sql`CREATE TABLE IF NOT EXISTS "drizzle"."__drizzle_migrations" (id SERIAL PRIMARY KEY, hash text NOT NULL, created_at bigint)`);
+    for (const migration of applied) {
+      await tx.execute(sql`INSERT INTO "drizzle"."__drizzle_migrations" ("hash", "created_at") VALUES (${migration.hash}, ${migration.folderMillis})`);
+    }
+  });
+}
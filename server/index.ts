@@ -1,5 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { prepareStorage } from "./storage";
+import { createDefaultRegistry } from "./commands";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -37,7 +39,14 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  const server = await registerRoutes(app);
+  await prepareStorage();
+
+  // Built-in commands can be turned off with a comma-separated list,
+  // e.g. DISABLED_COMMANDS=ssh,scp,rsync
+  const commands = createDefaultRegistry();
+  commands.disable(...(process.env.DISABLED_COMMANDS ?? '').split(',').map(name => name.trim()).filter(Boolean));
+
+  const server = await registerRoutes(app, { commands });
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,93 @@
+// MIME type detection for virtual file system content. Magic numbers win over
+// the file extension so renamed binaries are still recognised.
+
+const signatures: { bytes: number[]; offset?: number; type: string }[] = [
+  { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], type: "image/png" },
+  { bytes: [0xff, 0xd8, 0xff], type: "image/jpeg" },
+  { bytes: [0x47, 0x49, 0x46, 0x38], type: "image/gif" },
+  { bytes: [0x42, 0x4d], type: "image/bmp" },
+  { bytes: [0x57, 0x45, 0x42, 0x50], offset: 8, type: "image/webp" },
+  { bytes: [0x25, 0x50, 0x44, 0x46, 0x2d], type: "application/pdf" },
+  { bytes: [0x50, 0x4b, 0x03, 0x04], type: "application/zip" },
+  { bytes: [0x1f, 0x8b], type: "application/gzip" },
+  { bytes: [0x42, 0x5a, 0x68], type: "application/x-bzip2" },
+  { bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00], type: "application/x-xz" },
+  { bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c], type: "application/x-7z-compressed" },
+  { bytes: [0x75, 0x73, 0x74, 0x61, 0x72], offset: 257, type: "application/x-tar" },
+  { bytes: [0x7f, 0x45, 0x4c, 0x46], type: "application/x-executable" },
+  { bytes: [0xca, 0xfe, 0xba, 0xbe], type: "application/java-vm" },
+  { bytes: [0x00, 0x61, 0x73, 0x6d], type: "application/wasm" },
+];
+
+const extensions: Record<string, string> = {
+  txt: "text/plain",
+  md: "text/markdown",
+  html: "text/html",
+  htm: "text/html",
+  css: "text/css",
+  csv: "text/csv",
+  js: "text/javascript",
+  mjs: "text/javascript",
+  ts: "text/x-typescript",
+  json: "application/json",
+  xml: "application/xml",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  sh: "application/x-sh",
+  py: "text/x-python",
+  java: "text/x-java",
+  c: "text/x-c",
+  h: "text/x-c",
+  cpp: "text/x-c++",
+  svg: "image/svg+xml",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  ico: "image/x-icon",
+  pdf: "application/pdf",
+  zip: "application/zip",
+  gz: "application/gzip",
+  tgz: "application/gzip",
+  tar: "application/x-tar",
+  jar: "application/java-archive",
+  class: "application/java-vm",
+  wasm: "application/wasm",
+};
+
+function matchesSignature(content: Buffer, bytes: number[], offset = 0): boolean {
+  if (content.length < offset + bytes.length) return false;
+  return bytes.every((byte, index) => content[offset + index] === byte);
+}
+
+// Text if it has no NUL bytes and decodes as UTF-8 without replacement characters
+export function isTextContent(content: Buffer): boolean {
+  const sample = content.subarray(0, 8192);
+  if (sample.includes(0)) return false;
+  let decoded = sample.toString("utf8");
+  if (sample.length < content.length) {
+    // The sample may end in the middle of a multi-byte character
+    decoded = decoded.slice(0, -1);
+  }
+  return !decoded.includes("\uFFFD");
+}
+
+export function detectMimeType(name: string, content: Buffer | null): string {
+  if (content === null) return "inode/directory";
+  if (content.length === 0) return "inode/x-empty";
+
+  const signature = signatures.find(({ bytes, offset }) => matchesSignature(content, bytes, offset));
+  if (signature) return signature.type;
+
+  const dot = name.lastIndexOf(".");
+  const extension = dot > 0 ? name.substring(dot + 1).toLowerCase() : "";
+  // Own keys only, so names like "x.constructor" don't pick up Object's members
+  const extensionType = Object.prototype.hasOwnProperty.call(extensions, extension) ? extensions[extension] : undefined;
+  const text = isTextContent(content);
+  if (extensionType && (text || !extensionType.startsWith("text/"))) {
+    return extensionType;
+  }
+
+  return text ? "text/plain" : "application/octet-stream";
+}
@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateArithmetic, ArithmeticError, type ArithmeticContext } from "./arithmetic";
+import { newShell } from "../testing";
+
+function variables(values: Record<string, string>): ArithmeticContext {
+  return {
+    get: name => Object.prototype.hasOwnProperty.call(values, name) ? values[name] : undefined,
+    set: (name, value) => { values[name] = value; },
+  };
+}
+
+test("arithmetic follows C precedence and integer division", () => {
+  const context = variables({});
+  const evaluate = (expression: string) => evaluateArithmetic(expression, context);
+  assert.equal(evaluate("1 + 2 * 3"), 7);
+  assert.equal(evaluate("(1 + 2) * 3"), 9);
+  assert.equal(evaluate("2 ** 3 ** 2"), 512);
+  assert.equal(evaluate("-7 / 2"), -3);
+  assert.equal(evaluate("-7 % 2"), -1);
+  assert.equal(evaluate("1 < 2 && 2 != 2 || !0"), 1);
+  assert.equal(evaluate("5 > 3 ? 10 : 20"), 10);
+  assert.equal(evaluate("0x1f + 010 + 2#101"), 44);
+  assert.equal(evaluate("~0 & 6 | 1 ^ 3 << 1"), 6 | (1 ^ (3 << 1)));
+});
+
+test("arithmetic reads and assigns variables by name", () => {
+  const values: Record<string, string> = { x: "4", ref: "x", text: "" };
+  const context = variables(values);
+  assert.equal(evaluateArithmetic("x * 2 + unset", context), 8);
+  assert.equal(evaluateArithmetic("ref + text", context), 4);
+  assert.equal(evaluateArithmetic("y = x++ + 1, x += 10", context), 15);
+  assert.deepEqual([values.x, values.y], ["15", "5"]);
+  assert.equal(evaluateArithmetic("--x", context), 14);
+
+  assert.throws(() => evaluateArithmetic("1 / 0", context), ArithmeticError);
+  assert.throws(() => evaluateArithmetic("2 +", context), /syntax error/);
+  assert.throws(() => evaluateArithmetic("09", context), /value too great for base/);
+});
+
+test("$(( )) expands in commands and a bad expression fails the command", async () => {
+  const shell = await newShell();
+  assert.equal((await shell.executeCommand("n=3; echo $((n * (n + 1) / 2)) $(( n > 2 ))")).output, "6 1");
+  assert.equal((await shell.executeCommand("i=0; while [ $i -lt 3 ]; do i=$((i + 1)); done; echo $i")).output, "3");
+  const result = await shell.executeCommand("echo $((1 / 0))");
+  assert.equal(result.success, false);
+  assert.match(result.stderr ?? result.output, /division by 0/);
+});
@@ -0,0 +1,244 @@
+// Evaluates shell arithmetic as used by $(( )): integer operators with C
+// precedence, variables by bare name and assignment operators. Values are
+// JavaScript numbers, so integers stay exact up to 2^53; bitwise operators
+// work on 32 bits.
+
+export class ArithmeticError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArithmeticError";
+  }
+}
+
+export interface ArithmeticContext {
+  get(name: string): string | undefined;
+  set(name: string, value: string): void;
+}
+
+type ArithmeticToken = { kind: "number"; value: number } | { kind: "name"; name: string } | { kind: "op"; op: string };
+
+const OPERATORS = [
+  "<<=", ">>=", "**", "++", "--", "<<", ">>", "<=", ">=", "==", "!=", "&&", "||",
+  "+=", "-=", "*=", "/=", "%=", "&=", "|=", "^=",
+  "+", "-", "*", "/", "%", "<", ">", "=", "!", "~", "&", "|", "^", "?", ":", "(", ")", ",",
+];
+
+function tokenizeArithmetic(expression: string): ArithmeticToken[] {
+  const tokens: ArithmeticToken[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const rest = expression.substring(i);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      i += space[0].length;
+      continue;
+    }
+    // Decimal, 0x hex, leading-zero octal and base#digits
+    const number = /^(\d+#[0-9a-zA-Z@_]+|0[xX][0-9a-fA-F]+|\d+)/.exec(rest);
+    if (number) {
+      tokens.push({ kind: "number", value: parseNumber(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+    const name = /^[a-zA-Z_][a-zA-Z0-9_]*/.exec(rest);
+    if (name) {
+      tokens.push({ kind: "name", name: name[0] });
+      i += name[0].length;
+      continue;
+    }
+    const op = OPERATORS.find(candidate => rest.startsWith(candidate));
+    if (!op) {
+      throw new ArithmeticError(`${expression}: syntax error: invalid arithmetic operator (error token is "${rest}")`);
+    }
+    tokens.push({ kind: "op", op });
+    i += op.length;
+  }
+  return tokens;
+}
+
+function parseNumber(text: string): number {
+  if (text.indexOf("#") !== -1) {
+    const [base, digits] = text.split("#");
+    const value = parseInt(digits, parseInt(base, 10));
+    if (isNaN(value)) throw new ArithmeticError(`${text}: invalid number`);
+    return value;
+  }
+  if (/^0[xX]/.test(text)) return parseInt(text, 16);
+  if (text.length > 1 && text[0] === "0") {
+    if (/[89]/.test(text)) throw new ArithmeticError(`${text}: value too great for base (error token is "${text}")`);
+    return parseInt(text, 8);
+  }
+  return parseInt(text, 10);
+}
+
+// Binary operators by precedence, lowest first
+const BINARY_LEVELS = [
+  ["||"], ["&&"], ["|"], ["^"], ["&"], ["==", "!="], ["<", "<=", ">", ">="], ["<<", ">>"], ["+", "-"], ["*", "/", "%"],
+];
+
+const ASSIGNMENTS = ["=", "+=", "-=", "*=", "/=", "%=", "<<=", ">>=", "&=", "|=", "^="];
+
+// Recursive descent over the token list. Evaluation happens while parsing,
+// and "skip" suppresses side effects in the branches && || ?: don't take.
+class ArithmeticParser {
+  private position = 0;
+
+  constructor(private expression: string, private tokens: ArithmeticToken[], private context: ArithmeticContext) {}
+
+  evaluate(): number {
+    if (this.tokens.length === 0) return 0;
+    const value = this.comma(false);
+    if (this.position < this.tokens.length) this.fail();
+    return value;
+  }
+
+  private fail(): never {
+    const rest = this.tokens.slice(this.position).map(token =>
+      token.kind === "number" ? String(token.value) : token.kind === "name" ? token.name : token.op).join(" ");
+    throw new ArithmeticError(`${this.expression}: syntax error in expression (error token is "${rest}")`);
+  }
+
+  private peekOp(): string | undefined {
+    const token = this.tokens[this.position];
+    return token?.kind === "op" ? token.op : undefined;
+  }
+
+  private expect(op: string) {
+    if (this.peekOp() !== op) this.fail();
+    this.position++;
+  }
+
+  private variable(name: string): number {
+    const value = this.context.get(name);
+    if (!value) return 0;
+    // A variable holding an expression is evaluated in turn
+    return /^-?\d+$/.test(value.trim()) ? parseInt(value, 10) : evaluateArithmetic(value, this.context);
+  }
+
+  private comma(skip: boolean): number {
+    let value = this.assignment(skip);
+    while (this.peekOp() === ",") {
+      this.position++;
+      value = this.assignment(skip);
+    }
+    return value;
+  }
+
+  private assignment(skip: boolean): number {
+    const token = this.tokens[this.position];
+    const next = this.tokens[this.position + 1];
+    if (token?.kind === "name" && next?.kind === "op" && ASSIGNMENTS.indexOf(next.op) !== -1) {
+      this.position += 2;
+      const right = this.assignment(skip);
+      const value = next.op === "=" ? right : this.apply(next.op.slice(0, -1), this.variable(token.name), right);
+      if (!skip) this.context.set(token.name, String(value));
+      return value;
+    }
+    return this.conditional(skip);
+  }
+
+  private conditional(skip: boolean): number {
+    const condition = this.binary(0, skip);
+    if (this.peekOp() !== "?") return condition;
+    this.position++;
+    const whenTrue = this.assignment(skip || condition === 0);
+    this.expect(":");
+    const whenFalse = this.conditional(skip || condition !== 0);
+    return condition !== 0 ? whenTrue : whenFalse;
+  }
+
+  private binary(level: number, skip: boolean): number {
+    if (level >= BINARY_LEVELS.length) return this.power(skip);
+    let left = this.binary(level + 1, skip);
+    for (let op = this.peekOp(); op && BINARY_LEVELS[level].indexOf(op) !== -1; op = this.peekOp()) {
+      this.position++;
+      // Short-circuit: the right side is parsed but not acted on
+      const shortCircuit = (op === "&&" && left === 0) || (op === "||" && left !== 0);
+      const right = this.binary(level + 1, skip || shortCircuit);
+      left = shortCircuit ? (op === "||" ? 1 : 0) : this.apply(op, left, right, skip);
+    }
+    return left;
+  }
+
+  private power(skip: boolean): number {
+    const base = this.unary(skip);
+    if (this.peekOp() !== "**") return base;
+    this.position++;
+    const exponent = this.power(skip);
+    if (exponent < 0) throw new ArithmeticError(`${this.expression}: exponent less than 0`);
+    return Math.pow(base, exponent);
+  }
+
+  private unary(skip: boolean): number {
+    const op = this.peekOp();
+    if (op === "+" || op === "-" || op === "!" || op === "~") {
+      this.position++;
+      const value = this.unary(skip);
+      return op === "-" ? -value : op === "!" ? Number(value === 0) : op === "~" ? ~value : value;
+    }
+    if (op === "++" || op === "--") {
+      this.position++;
+      const token = this.tokens[this.position++];
+      if (token?.kind !== "name") this.fail();
+      const value = this.variable(token.name) + (op === "++" ? 1 : -1);
+      if (!skip) this.context.set(token.name, String(value));
+      return value;
+    }
+    return this.postfix(skip);
+  }
+
+  private postfix(skip: boolean): number {
+    const token = this.tokens[this.position++];
+    if (!token) this.fail();
+    if (token.kind === "number") return token.value;
+    if (token.kind === "name") {
+      const value = this.variable(token.name);
+      const op = this.peekOp();
+      if (op === "++" || op === "--") {
+        this.position++;
+        if (!skip) this.context.set(token.name, String(value + (op === "++" ? 1 : -1)));
+      }
+      return value;
+    }
+    if (token.op === "(") {
+      const value = this.comma(skip);
+      this.expect(")");
+      return value;
+    }
+    this.position--;
+    return this.fail();
+  }
+
+  private apply(op: string, left: number, right: number, skip = false): number {
+    switch (op) {
+      case "+": return left + right;
+      case "-": return left - right;
+      case "*": return left * right;
+      case "/":
+      case "%":
+        if (right === 0) {
+          if (skip) return 0;
+          throw new ArithmeticError(`${this.expression}: division by 0`);
+        }
+        return op === "/" ? Math.trunc(left / right) : left % right;
+      case "<<": return left << right;
+      case ">>": return left >> right;
+      case "&": return left & right;
+      case "|": return left | right;
+      case "^": return left ^ right;
+      case "<": return Number(left < right);
+      case "<=": return Number(left <= right);
+      case ">": return Number(left > right);
+      case ">=": return Number(left >= right);
+      case "==": return Number(left === right);
+      case "!=": return Number(left !== right);
+      case "&&": return Number(left !== 0 && right !== 0);
+      case "||": return Number(left !== 0 || right !== 0);
+    }
+    return this.fail();
+  }
+}
+
+export function evaluateArithmetic(expression: string, context: ArithmeticContext): number {
+  return new ArithmeticParser(expression.trim(), tokenizeArithmetic(expression), context).evaluate();
+}
@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateConditional, ConditionalError, type FileStatus } from "./conditional";
+import { newShell, writeFile } from "../testing";
+
+const files: Record<string, FileStatus> = {
+  "notes.txt": { type: "file", permissions: "-rw-r--r--", size: 12, updatedAt: new Date(2000) },
+  "empty.txt": { type: "file", permissions: "-rwxr-xr-x", size: 0, updatedAt: new Date(1000) },
+  "docs": { type: "directory", permissions: "drwxr-xr-x", size: 0, updatedAt: new Date(1000) },
+};
+const context = { stat: async (path: string) => files[path] };
+const check = (expression: string) => evaluateConditional(expression.split(" "), context);
+
+test("test compares strings and integers", async () => {
+  assert.equal(await check("abc = abc"), 0);
+  assert.equal(await check("abc != abc"), 1);
+  assert.equal(await check("-z "), 0);
+  assert.equal(await check("-n x"), 0);
+  assert.equal(await check("a < b"), 0);
+  assert.equal(await check("10 -gt 9"), 0);
+  assert.equal(await check("-3 -le -4"), 1);
+  assert.equal(await check("word"), 0);
+  assert.equal(await evaluateConditional([""], context), 1);
+  await assert.rejects(check("ten -eq 10"), ConditionalError);
+});
+
+test("test checks files and combines expressions", async () => {
+  assert.equal(await check("-f notes.txt"), 0);
+  assert.equal(await check("-d notes.txt"), 1);
+  assert.equal(await check("-e missing"), 1);
+  assert.equal(await check("-s notes.txt -a ! -s empty.txt"), 0);
+  assert.equal(await check("-x notes.txt -o -x empty.txt"), 0);
+  assert.equal(await check("notes.txt -nt empty.txt"), 0);
+  assert.equal(await check("! ( -d docs -a -f docs )"), 0);
+  await assert.rejects(check("( -f notes.txt"), ConditionalError);
+});
+
+test("[ needs its closing bracket and reports errors with status 2", async () => {
+  const shell = await newShell();
+  await writeFile(shell, "present.txt", "data\n");
+  assert.equal((await shell.executeCommand('[ -f present.txt ] && [ "$HOME" = /home/user ] && echo yes')).output, "yes");
+  assert.equal((await shell.executeCommand("[ -d present.txt ]")).exitCode, 1);
+  assert.equal((await shell.executeCommand("[ -f present.txt")).exitCode, 2);
+  assert.equal((await shell.executeCommand("test 1 -eq one")).exitCode, 2);
+});
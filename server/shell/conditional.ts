@@ -0,0 +1,159 @@
+// The expression language of `test` and `[`: file checks, string and
+// integer comparisons, combined with ! -a -o and parentheses.
+
+export interface FileStatus {
+  type: string;
+  permissions: string;
+  size: number;
+  updatedAt: Date;
+}
+
+export interface ConditionalContext {
+  stat(path: string): Promise<FileStatus | undefined>;
+}
+
+export class ConditionalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConditionalError";
+  }
+}
+
+const UNARY_FILE = ["-e", "-f", "-d", "-r", "-w", "-x", "-s", "-L", "-h", "-b", "-c", "-p", "-S", "-O", "-G"];
+const UNARY_STRING = ["-z", "-n"];
+const BINARY = ["=", "==", "!=", "<", ">", "-eq", "-ne", "-lt", "-le", "-gt", "-ge", "-nt", "-ot", "-ef"];
+
+function integer(text: string): number {
+  if (!/^\s*-?\d+\s*$/.test(text)) {
+    throw new ConditionalError(`${text}: integer expression expected`);
+  }
+  return parseInt(text, 10);
+}
+
+class ConditionalParser {
+  private position = 0;
+
+  constructor(private args: string[], private context: ConditionalContext) {}
+
+  async evaluate(): Promise<boolean> {
+    if (this.args.length === 0) return false;
+    const result = await this.or();
+    if (this.position < this.args.length) {
+      throw new ConditionalError(`${this.args[this.position]}: unexpected operator`);
+    }
+    return result;
+  }
+
+  private remaining(): number {
+    return this.args.length - this.position;
+  }
+
+  private async or(): Promise<boolean> {
+    let result = await this.and();
+    while (this.args[this.position] === "-o") {
+      this.position++;
+      const right = await this.and();
+      result = result || right;
+    }
+    return result;
+  }
+
+  private async and(): Promise<boolean> {
+    let result = await this.not();
+    while (this.args[this.position] === "-a") {
+      this.position++;
+      const right = await this.not();
+      result = result && right;
+    }
+    return result;
+  }
+
+  private async not(): Promise<boolean> {
+    // "!" on its own, or followed only by a binary operator and operand, is a string
+    if (this.args[this.position] === "!" && this.remaining() > 1 && BINARY.indexOf(this.args[this.position + 1]) === -1) {
+      this.position++;
+      return !(await this.not());
+    }
+    return this.primary();
+  }
+
+  private async primary(): Promise<boolean> {
+    const arg = this.args[this.position];
+    if (arg === undefined) throw new ConditionalError("argument expected");
+
+    if (BINARY.indexOf(this.args[this.position + 1]) !== -1 && this.remaining() >= 3) {
+      const left = arg;
+      const op = this.args[this.position + 1];
+      const right = this.args[this.position + 2];
+      this.position += 3;
+      return this.binary(left, op, right);
+    }
+
+    if (arg === "(" && this.remaining() > 2) {
+      this.position++;
+      const result = await this.or();
+      if (this.args[this.position] !== ")") throw new ConditionalError("`)' expected");
+      this.position++;
+      return result;
+    }
+
+    if ((UNARY_FILE.indexOf(arg) !== -1 || UNARY_STRING.indexOf(arg) !== -1) && this.remaining() >= 2) {
+      const operand = this.args[this.position + 1];
+      this.position += 2;
+      return this.unary(arg, operand);
+    }
+
+    this.position++;
+    return arg !== "";
+  }
+
+  private async unary(op: string, operand: string): Promise<boolean> {
+    if (op === "-z") return operand === "";
+    if (op === "-n") return operand !== "";
+
+    const status = await this.context.stat(operand);
+    if (!status) return false;
+    switch (op) {
+      case "-e": return true;
+      case "-f": return status.type !== "directory";
+      case "-d": return status.type === "directory";
+      case "-r": return status.permissions[1] === "r";
+      case "-w": return status.permissions[2] === "w";
+      case "-x": return status.permissions[3] === "x";
+      case "-s": return status.size > 0;
+      // Everything belongs to the session's user, and there are no links or devices
+      case "-O":
+      case "-G": return true;
+      default: return false;
+    }
+  }
+
+  private async binary(left: string, op: string, right: string): Promise<boolean> {
+    switch (op) {
+      case "=":
+      case "==": return left === right;
+      case "!=": return left !== right;
+      case "<": return left < right;
+      case ">": return left > right;
+      case "-eq": return integer(left) === integer(right);
+      case "-ne": return integer(left) !== integer(right);
+      case "-lt": return integer(left) < integer(right);
+      case "-le": return integer(left) <= integer(right);
+      case "-gt": return integer(left) > integer(right);
+      case "-ge": return integer(left) >= integer(right);
+    }
+
+    const [first, second] = await Promise.all([this.context.stat(left), this.context.stat(right)]);
+    switch (op) {
+      case "-nt": return !!first && (!second || first.updatedAt > second.updatedAt);
+      case "-ot": return !!second && (!first || first.updatedAt < second.updatedAt);
+      default: return !!first && !!second && left === right;
+    }
+  }
+}
+
+// Exit status of `test args`: 0 true, 1 false. Malformed expressions throw
+// ConditionalError, which the command reports with status 2.
+export async function evaluateConditional(args: string[], context: ConditionalContext): Promise<number> {
+  return (await new ConditionalParser(args, context).evaluate()) ? 0 : 1;
+}
@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { diffHunks, diffLines, diffRows, hasChanges, textLines } from "./diff";
+
+// The edit script in a compact form: " a" kept, "-b" removed, "+c" added
+function script(a: string[], b: string[], key?: (line: string) => string): string[] {
+  return diffLines(a, b, key).map(edit =>
+    edit.kind === 'equal' ? ` ${a[edit.oldIndex]}` : edit.kind === 'delete' ? `-${a[edit.oldIndex]}` : `+${b[edit.newIndex]}`);
+}
+
+test("diffLines finds a shortest edit script", () => {
+  assert.deepEqual(script(["a", "b", "c"], ["a", "x", "c", "d"]), [" a", "-b", "+x", " c", "+d"]);
+  assert.deepEqual(script([], ["a"]), ["+a"]);
+  assert.deepEqual(script(["a"], []), ["-a"]);
+  assert.deepEqual(script(["A", "b"], ["a", "b"], line => line.toLowerCase()), [" A", " b"]);
+  assert.equal(script("abcabba".split(""), "cbabac".split("")).filter(line => line[0] !== " ").length, 5);
+  assert.ok(!hasChanges(diffLines(["same"], ["same"])));
+});
+
+test("hunks keep context and merge changes that are close together", () => {
+  const a = "1 2 3 4 5 6 7 8 9 10 11 12".split(" ");
+  const b = a.slice();
+  b[1] = "two";
+  b[4] = "five";
+  b[10] = "eleven";
+  const hunks = diffHunks(diffLines(a, b), 2);
+  assert.deepEqual(hunks.map(hunk => [hunk.oldStart, hunk.oldCount, hunk.newStart, hunk.newCount]), [[0, 7, 0, 7], [8, 4, 8, 4]]);
+
+  const rows = diffRows(diffLines(["a", "b", "c"], ["a", "B", "c", "d"]));
+  assert.deepEqual(rows.map(row => row.kind), ["same", "changed", "same", "added"]);
+});
+
+test("textLines remembers a missing final newline", () => {
+  assert.deepEqual(textLines("a\nb\n"), { lines: ["a", "b"], finalNewline: true });
+  assert.deepEqual(textLines("a\nb"), { lines: ["a", "b"], finalNewline: false });
+  assert.deepEqual(textLines(""), { lines: [], finalNewline: true });
+});
@@ -0,0 +1,183 @@
+// Line diffs for diff, patch and the file manager's comparison view: Myers'
+// shortest edit script between two lists of lines, grouped into hunks of
+// changes with the unchanged lines around them.
+
+// One step from the old lines to the new. oldIndex and newIndex are where
+// the step happens in each: the line itself, or for a line only one side
+// has, how many lines of the other side come before it.
+export interface DiffEdit {
+  kind: 'equal' | 'delete' | 'insert';
+  oldIndex: number;
+  newIndex: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  edits: DiffEdit[];
+}
+
+// A row of a side-by-side listing: a line kept, a removed line beside the
+// one added in its place, or a line only one side has
+export interface DiffRow {
+  kind: 'same' | 'changed' | 'removed' | 'added';
+  oldIndex?: number;
+  newIndex?: number;
+}
+
+// Text as lines, and whether the last one ended with a newline
+export interface TextLines {
+  lines: string[];
+  finalNewline: boolean;
+}
+
+export function textLines(text: string): TextLines {
+  const finalNewline = text === '' || text.endsWith('\n');
+  if (text === '') return { lines: [], finalNewline };
+  return { lines: (finalNewline ? text.substring(0, text.length - 1) : text).split('\n'), finalNewline };
+}
+
+export function isBinary(text: string): boolean {
+  return text.indexOf('\0') !== -1;
+}
+
+// The shortest edit script turning a into b, comparing lines by key
+export function diffLines(a: string[], b: string[], key: (line: string) => string = line => line): DiffEdit[] {
+  const oldKeys = a.map(key);
+  const newKeys = b.map(key);
+
+  // Lines both start or end with need no search
+  let prefix = 0;
+  while (prefix < oldKeys.length && prefix < newKeys.length && oldKeys[prefix] === newKeys[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < oldKeys.length - prefix && suffix < newKeys.length - prefix
+    && oldKeys[oldKeys.length - 1 - suffix] === newKeys[newKeys.length - 1 - suffix]) suffix++;
+
+  const edits: DiffEdit[] = [];
+  for (let i = 0; i < prefix; i++) edits.push({ kind: 'equal', oldIndex: i, newIndex: i });
+  middleEdits(oldKeys.slice(prefix, oldKeys.length - suffix), newKeys.slice(prefix, newKeys.length - suffix))
+    .forEach(edit => edits.push({ kind: edit.kind, oldIndex: edit.oldIndex + prefix, newIndex: edit.newIndex + prefix }));
+  for (let i = suffix; i > 0; i--) {
+    edits.push({ kind: 'equal', oldIndex: oldKeys.length - i, newIndex: newKeys.length - i });
+  }
+  return edits;
+}
+
+function middleEdits(a: string[], b: string[]): DiffEdit[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  if (max === 0) return [];
+
+  // v[k] is the furthest x reached on diagonal k = x - y; trace keeps each
+  // round's v, trimmed to the diagonals it can reach, to walk back through
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+  let done = false;
+  for (let d = 0; d <= max && !done; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        done = true;
+        break;
+      }
+    }
+  }
+
+  const edits: DiffEdit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const at = (k: number) => previous[k + d + 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = d === 0 ? 0 : at(previousK);
+    const previousY = d === 0 ? 0 : previousX - previousK;
+    while (x > previousX && y > previousY) {
+      x--;
+      y--;
+      edits.push({ kind: 'equal', oldIndex: x, newIndex: y });
+    }
+    if (d > 0) {
+      if (x === previousX) edits.push({ kind: 'insert', oldIndex: x, newIndex: y - 1 });
+      else edits.push({ kind: 'delete', oldIndex: x - 1, newIndex: y });
+    }
+    x = previousX;
+    y = previousY;
+  }
+  return edits.reverse();
+}
+
+export function hasChanges(edits: DiffEdit[]): boolean {
+  return edits.some(edit => edit.kind !== 'equal');
+}
+
+// Changes with up to context unchanged lines around them. Changes closer
+// together than twice that share a hunk.
+export function diffHunks(edits: DiffEdit[], context: number): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let index = 0;
+  while (index < edits.length) {
+    while (index < edits.length && edits[index].kind === 'equal') index++;
+    if (index >= edits.length) break;
+
+    const start = Math.max(0, index - context);
+    let end = index;
+    for (;;) {
+      while (end < edits.length && edits[end].kind !== 'equal') end++;
+      let next = end;
+      while (next < edits.length && edits[next].kind === 'equal') next++;
+      if (next < edits.length && next - end <= 2 * context) {
+        end = next;
+        continue;
+      }
+      end = Math.min(edits.length, end + context);
+      break;
+    }
+
+    const hunkEdits = edits.slice(start, end);
+    hunks.push({
+      oldStart: hunkEdits[0].oldIndex,
+      oldCount: hunkEdits.filter(edit => edit.kind !== 'insert').length,
+      newStart: hunkEdits[0].newIndex,
+      newCount: hunkEdits.filter(edit => edit.kind !== 'delete').length,
+      edits: hunkEdits,
+    });
+    index = end;
+  }
+  return hunks;
+}
+
+// Pairs each run of removed lines with the added lines that follow it
+export function diffRows(edits: DiffEdit[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let index = 0;
+  while (index < edits.length) {
+    const edit = edits[index];
+    if (edit.kind === 'equal') {
+      rows.push({ kind: 'same', oldIndex: edit.oldIndex, newIndex: edit.newIndex });
+      index++;
+      continue;
+    }
+    const removed: number[] = [];
+    const added: number[] = [];
+    while (index < edits.length && edits[index].kind === 'delete') removed.push(edits[index++].oldIndex);
+    while (index < edits.length && edits[index].kind === 'insert') added.push(edits[index++].newIndex);
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      const kind = i >= added.length ? 'removed' : i >= removed.length ? 'added' : 'changed';
+      rows.push({ kind, oldIndex: removed[i], newIndex: added[i] });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { expandBraces, expandTildePrefix, expandWords, ExpansionError, type ExpansionContext } from "./expand";
+import { newShell } from "../testing";
+
+// Variables only; no files to glob and no commands to substitute
+function context(variables: Record<string, string>, positional: string[] = []): ExpansionContext {
+  return {
+    cwd: "/home/user",
+    home: "/home/user",
+    readDirectory: async () => undefined,
+    parameter: name => Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : undefined,
+    assign: (name, value) => { variables[name] = value; },
+    positional: () => positional,
+  };
+}
+
+test("braces and tildes expand before parameters", () => {
+  assert.deepEqual(expandBraces("file{1..3}.txt"), ["file1.txt", "file2.txt", "file3.txt"]);
+  assert.deepEqual(expandBraces("{a,b{x,y}}-{c..a}"), ["a-c", "a-b", "a-a", "bx-c", "bx-b", "bx-a", "by-c", "by-b", "by-a"]);
+  assert.deepEqual(expandBraces("'{a,b}' ${x}"), ["'{a,b}' ${x}"]);
+  assert.equal(expandTildePrefix("~/notes", "/home/user"), "/home/user/notes");
+  assert.equal(expandTildePrefix("~root", "/home/user"), "/root");
+  assert.equal(expandTildePrefix("a~b", "/home/user"), "a~b");
+});
+
+test("parameters expand with defaults, lengths, trimming and replacement", async () => {
+  const variables: Record<string, string> = { name: "report.tar.gz", empty: "", words: "a  b" };
+  const values = context(variables, ["one", "two words"]);
+  const expand = async (line: string) => (await expandWords(line.split(" "), values)).join("|");
+
+  assert.equal(await expand("$name"), "report.tar.gz");
+  assert.equal(await expand("${#name}"), "13");
+  assert.equal(await expand("${name%.*} ${name%%.*} ${name#*.} ${name##*.}"), "report.tar|report|tar.gz|gz");
+  assert.equal(await expand('"${name/./-}" "${name//./-}"'), "report-tar.gz|report-tar-gz");
+  assert.equal(await expand('"${name:0:6}" "${name:(-2)}"'), "report|gz");
+  assert.equal(await expand('"${empty-x}" "${empty:-x}" "${unset+y}" "${name:+y}"'), "|x||y");
+  assert.equal(await expand("${created:=new}"), "new");
+  assert.equal(variables.created, "new");
+  assert.equal(await expand("$words"), "a|b");
+  assert.equal(await expand('"$words"'), "a  b");
+  assert.equal(await expand('"$@"'), "one|two words");
+  await assert.rejects(expand("${unset:?missing}"), ExpansionError);
+  await assert.rejects(expand("${name^}"), /bad substitution/);
+});
+
+test("variables are kept per session and env can set them for one command", async () => {
+  const shell = await newShell();
+  await shell.executeCommand("greeting=hello; export target=world");
+  assert.equal((await shell.executeCommand('echo "$greeting, ${target}!"')).output, "hello, world!");
+  assert.equal((await shell.executeCommand("printenv target")).output, "world");
+  assert.equal((await shell.executeCommand("env target=there printenv target; echo $target")).output, "there\nworld");
+  await shell.executeCommand("unset greeting");
+  assert.equal((await shell.executeCommand('echo "[$greeting]"; printenv greeting')).output, "[]");
+
+  const other = await newShell();
+  assert.equal((await other.executeCommand('echo "[$target]"')).output, "[]");
+});
@@ -0,0 +1,538 @@
+// Turns the raw words produced by the lexer into command arguments: brace
+// expansion, tilde expansion, parameter, command and arithmetic substitution,
+// field splitting, quote removal and pathname globbing, in the order a POSIX
+// shell applies them.
+
+import { expandGlob, globToRegExp, hasGlobChars, type GlobContext } from "./glob";
+import { evaluateArithmetic } from "./arithmetic";
+import { skipQuoted, skipSubstitution } from "./lexer";
+
+export interface ExpansionContext extends GlobContext {
+  home: string;
+  // Value of a variable or special parameter such as "?"; unset ones expand to nothing
+  parameter?(name: string): string | undefined;
+  // Sets a variable, for ${name:=word} and arithmetic assignments
+  assign?(name: string, value: string): void;
+  // $1, $2, ... which "$@" expands to as separate fields
+  positional?(): string[];
+  // Runs the command of a $(...) or `...` substitution and returns its output
+  substitute?(command: string): Promise<string>;
+  // set -u: expanding an unset variable is an error
+  nounset?: boolean;
+}
+
+// Index of the unquoted "}" matching the "{" at start, collecting the
+// positions of top-level commas on the way; -1 when there is none
+function braceEnd(word: string, start: number, commas: number[]): number {
+  let depth = 0;
+  for (let i = start; i < word.length; i++) {
+    const char = word[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "'" || char === '"') {
+      const close = word.indexOf(char, i + 1);
+      if (close === -1) return -1;
+      i = close;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}") {
+      if (--depth === 0) return i;
+    } else if (char === "," && depth === 1) {
+      commas.push(i);
+    }
+  }
+  return -1;
+}
+
+// {1..5}, {a..e} and their descending forms
+function braceSequence(body: string): string[] | undefined {
+  const numeric = /^(-?\d+)\.\.(-?\d+)$/.exec(body);
+  const alphabetic = /^([a-zA-Z])\.\.([a-zA-Z])$/.exec(body);
+  const range = numeric || alphabetic;
+  if (!range) return undefined;
+
+  const from = numeric ? parseInt(range[1], 10) : range[1].charCodeAt(0);
+  const to = numeric ? parseInt(range[2], 10) : range[2].charCodeAt(0);
+  const step = from <= to ? 1 : -1;
+  const items: string[] = [];
+  for (let value = from; step > 0 ? value <= to : value >= to; value += step) {
+    items.push(numeric ? String(value) : String.fromCharCode(value));
+  }
+  return items;
+}
+
+export function expandBraces(word: string): string[] {
+  for (let i = 0; i < word.length; i++) {
+    const char = word[i];
+    if (char === "\\") {
+      i++;
+      continue;
+    }
+    if (char === "'" || char === '"' || char === "`") {
+      const close = word.indexOf(char, i + 1);
+      if (close === -1) break;
+      i = close;
+      continue;
+    }
+    // Braces inside a command substitution belong to that command
+    if (char === "$" && word[i + 1] === "(") {
+      i = skipSubstitution(word, i) - 1;
+      continue;
+    }
+    // "${" starts a parameter expansion, not a brace list
+    if (char !== "{" || word[i - 1] === "$") continue;
+
+    const commas: number[] = [];
+    const end = braceEnd(word, i, commas);
+    if (end === -1) continue;
+
+    const prefix = word.substring(0, i);
+    const suffix = word.substring(end + 1);
+    let alternatives: string[] | undefined;
+    if (commas.length > 0) {
+      const bounds = [i].concat(commas, [end]);
+      alternatives = bounds.slice(1).map((bound, index) => word.substring(bounds[index] + 1, bound));
+    } else {
+      alternatives = braceSequence(word.substring(i + 1, end));
+    }
+    if (!alternatives) continue;
+
+    const expanded: string[] = [];
+    alternatives.forEach(alternative => {
+      expandBraces(prefix + alternative + suffix).forEach(result => expanded.push(result));
+    });
+    return expanded;
+  }
+  return [word];
+}
+
+// "~" and "~name" at the start of an unquoted word, up to the first slash
+export function expandTildePrefix(word: string, home: string): string {
+  const match = /^~([a-zA-Z0-9_.-]*)(?=\/|$)/.exec(word);
+  if (!match) return word;
+  const user = match[1];
+  const directory = user === "" ? home : user === "root" ? "/root" : "/home/" + user;
+  return directory + word.substring(match[0].length);
+}
+
+// A field being built during expansion. Alongside the plain text it keeps a
+// glob pattern in which every quoted character is backslash-escaped, so that
+// "*.txt" in quotes never matches files.
+interface Field {
+  text: string;
+  pattern: string;
+  // Quotes or literal characters keep a field even when it ends up empty
+  keep: boolean;
+}
+
+const SPECIAL_PARAMETER = /^[?$!#@*0-9-]/;
+const NAME = /^[a-zA-Z_][a-zA-Z0-9_]*/;
+
+// The parameter reference starting at the "$" at index, and where it ends.
+// For "${...}" the whole expression between the braces is returned.
+function parameterAt(word: string, index: number): { expression: string; end: number } | undefined {
+  const rest = word.substring(index + 1);
+  if (rest[0] === "{") {
+    let depth = 0;
+    for (let i = index + 1; i < word.length; i++) {
+      if (word[i] === "\\") {
+        i++;
+      } else if (word[i] === "{") {
+        depth++;
+      } else if (word[i] === "}" && --depth === 0) {
+        return { expression: word.substring(index + 2, i), end: i + 1 };
+      }
+    }
+    return undefined;
+  }
+  const name = NAME.exec(rest)?.[0] ?? (SPECIAL_PARAMETER.test(rest) ? rest[0] : undefined);
+  return name === undefined ? undefined : { expression: name, end: index + 1 + name.length };
+}
+
+// Index of the ")" matching the "(" at open, or -1
+function closingParenthesis(word: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < word.length; i++) {
+    if (word[i] === "\\") {
+      i++;
+    } else if (word[i] === "(") {
+      depth++;
+    } else if (word[i] === ")" && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// The expression inside a "$(( ))" starting at index, and where it ends
+function arithmeticAt(word: string, index: number): { expression: string; end: number } | undefined {
+  if (!word.startsWith("$((", index)) return undefined;
+  const outer = closingParenthesis(word, index + 1);
+  if (outer === -1 || closingParenthesis(word, index + 2) !== outer - 1) return undefined;
+  return { expression: word.substring(index + 3, outer - 1), end: outer + 1 };
+}
+
+// The command inside a "$( )" or backquotes starting at index, and where it
+// ends. Inside backquotes a backslash only escapes $ ` and itself.
+function commandAt(word: string, index: number): { command: string; end: number } | undefined {
+  if (word[index] === "`") {
+    const end = skipQuoted(word, index);
+    return { command: word.substring(index + 1, end - 1).replace(/\\([$`\\])/g, "$1"), end };
+  }
+  if (word[index + 1] !== "(") return undefined;
+  const end = skipSubstitution(word, index);
+  return { command: word.substring(index + 2, end - 1), end };
+}
+
+// Output of a command substitution, with its trailing newlines removed
+async function substituteCommand(command: string, context: ExpansionContext): Promise<string> {
+  const output = context.substitute ? await context.substitute(command) : "";
+  return output.replace(/\n+$/, "");
+}
+
+async function expandArithmetic(expression: string, context: ExpansionContext): Promise<string> {
+  return String(evaluateArithmetic(await expandValue(expression, context), {
+    get: name => context.parameter?.(name),
+    set: (name, value) => context.assign?.(name, value),
+  }));
+}
+
+// A ${...} expression the shell cannot make sense of, or ${name:?message}
+// with name unset; the command it appears in fails
+export class ExpansionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpansionError";
+  }
+}
+
+// Index of the first "/" in a ${name/pattern/replacement} operand that is
+// not quoted or escaped, or -1
+function replacementStart(operand: string): number {
+  for (let i = 0; i < operand.length; i++) {
+    const char = operand[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "'" || char === '"') {
+      i = skipQuoted(operand, i) - 1;
+    } else if (char === "$" && (operand[i + 1] === "(" || operand[i + 1] === "{")) {
+      i = skipSubstitution(operand, i) - 1;
+    } else if (char === "/") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// ${name#pattern} and ${name##pattern} remove the shortest or longest
+// matching prefix, % and %% the same for a suffix
+function removeMatch(value: string, pattern: string, operator: string): string {
+  const regex = globToRegExp(pattern, "", false);
+  const longest = operator.length === 2;
+  for (let i = 0; i <= value.length; i++) {
+    const length = longest ? value.length - i : i;
+    if (operator[0] === "#" ? regex.test(value.substring(0, length)) : regex.test(value.substring(value.length - length))) {
+      return operator[0] === "#" ? value.substring(length) : value.substring(0, value.length - length);
+    }
+  }
+  return value;
+}
+
+// ${name/pattern/string} replaces the longest match of pattern, // every
+// match, /# one at the start and /% one at the end
+function replaceMatch(value: string, pattern: string, replacement: string, operator: string): string {
+  if (pattern === "") return value;
+  const regex = globToRegExp(pattern, "", false);
+  if (operator === "/#") {
+    for (let end = value.length; end >= 0; end--) {
+      if (regex.test(value.substring(0, end))) return replacement + value.substring(end);
+    }
+    return value;
+  }
+  if (operator === "/%") {
+    for (let start = 0; start <= value.length; start++) {
+      if (regex.test(value.substring(start))) return value.substring(0, start) + replacement;
+    }
+    return value;
+  }
+
+  let result = "";
+  let i = 0;
+  while (i < value.length) {
+    let end = value.length;
+    while (end > i && !regex.test(value.substring(i, end))) end--;
+    if (end === i) {
+      result += value[i++];
+      continue;
+    }
+    result += replacement;
+    i = end;
+    if (operator === "/") break;
+  }
+  return result + value.substring(i);
+}
+
+// Evaluates a parameter expression: a plain name, "#name" for its length, or
+// name followed by an operator. - = + and ? with an optional leading ":",
+// which makes an empty value count as unset, supply defaults or report an
+// error; # ## % %% remove a matching prefix or suffix; / // /# /% replace a
+// pattern; ":offset:length" takes a substring.
+async function expandParameter(expression: string, context: ExpansionContext): Promise<string> {
+  const lookup = (name: string) => context.parameter?.(name);
+  // Under set -u only the default operators may look at an unset variable
+  const required = (name: string) => {
+    const value = lookup(name);
+    if (value === undefined && context.nounset && name !== "@" && name !== "*") {
+      throw new ExpansionError(`${name}: unbound variable`);
+    }
+    return value;
+  };
+  const length = /^#([a-zA-Z_][a-zA-Z0-9_]*|\d+|[?$!#@*-])$/.exec(expression);
+  if (length) {
+    if (length[1] === "@" || length[1] === "*") return String((context.positional?.() ?? []).length);
+    return String((required(length[1]) ?? "").length);
+  }
+
+  const match = /^([a-zA-Z_][a-zA-Z0-9_]*|\d+|[?$!#@*-])([^]*)$/.exec(expression);
+  if (!match) throw new ExpansionError(`\${${expression}}: bad substitution`);
+  const [, name, rest] = match;
+  const value = lookup(name);
+  if (rest === "") return required(name) ?? "";
+
+  const defaults = /^(:?)([-=+?])([^]*)$/.exec(rest);
+  if (defaults) {
+    const [, colon, operator, operand] = defaults;
+    const isSet = colon ? !!value : value !== undefined;
+    if (operator === "+") {
+      return isSet ? await expandValue(operand, context) : "";
+    }
+    if (isSet) return value as string;
+
+    const fallback = await expandValue(operand, context);
+    if (operator === "?") {
+      throw new ExpansionError(`${name}: ${fallback || (colon ? "parameter null or not set" : "parameter not set")}`);
+    }
+    if (operator === "=") context.assign?.(name, fallback);
+    return fallback;
+  }
+
+  required(name);
+  const removal = /^(##?|%%?)([^]*)$/.exec(rest);
+  if (removal) {
+    return removeMatch(value ?? "", await expandPattern(removal[2], context), removal[1]);
+  }
+
+  const replace = /^(\/[/#%]?)([^]*)$/.exec(rest);
+  if (replace) {
+    const split = replacementStart(replace[2]);
+    const pattern = split === -1 ? replace[2] : replace[2].substring(0, split);
+    const replacement = split === -1 ? "" : await expandValue(replace[2].substring(split + 1), context);
+    return replaceMatch(value ?? "", await expandPattern(pattern, context), replacement, replace[1]);
+  }
+
+  const substring = /^:([^:]*)(?::([^]*))?$/.exec(rest);
+  if (substring) {
+    const text = value ?? "";
+    let start = Number(await expandArithmetic(substring[1], context));
+    if (start < 0) start = Math.max(0, text.length + start);
+    if (substring[2] === undefined) return text.substring(start);
+    let end = Number(await expandArithmetic(substring[2], context));
+    end = end < 0 ? text.length + end : start + end;
+    if (end < start) throw new ExpansionError(`${substring[2].trim()}: substring expression < 0`);
+    return text.substring(start, end);
+  }
+
+  throw new ExpansionError(`\${${expression}}: bad substitution`);
+}
+
+// IFS when it is unset: fields are split on space, tab and newline
+export const DEFAULT_IFS = " \t\n";
+
+// The field delimiter that starts at index, if one does: a run of the IFS
+// whitespace characters around at most one of its other characters, which
+// (unlike whitespace alone) ends a field even when that field is empty.
+// An empty IFS has no delimiters, so nothing is split.
+export function fieldDelimiter(text: string, index: number, ifs: string): { end: number; hard: boolean } | undefined {
+  const separator = (char: string | undefined) => char !== undefined && ifs.indexOf(char) !== -1;
+  const whitespace = (char: string | undefined) => separator(char) && DEFAULT_IFS.indexOf(char as string) !== -1;
+  if (!separator(text[index])) return undefined;
+  let end = index;
+  while (whitespace(text[end])) end++;
+  const hard = separator(text[end]);
+  if (hard) {
+    end++;
+    while (whitespace(text[end])) end++;
+  }
+  return { end, hard };
+}
+
+// Splits a word into fields: removes quotes and escapes, substitutes
+// parameters and commands and, unless told not to, splits unquoted
+// substitutions on the characters in IFS. A here-document body is expanded
+// as if it were inside double quotes, except that " stays an ordinary character.
+export async function expandFields(word: string, context: ExpansionContext, splitFields = true, hereDocument = false): Promise<Field[]> {
+  const fields: Field[] = [];
+  let current: Field = { text: "", pattern: "", keep: false };
+  const ifs = context.parameter?.("IFS") ?? DEFAULT_IFS;
+
+  const literal = (chars: string) => {
+    current.text += chars;
+    current.pattern += chars.replace(/[\\*?[\]]/g, "\\$&");
+    current.keep = true;
+  };
+  const unquoted = (chars: string) => {
+    current.text += chars;
+    current.pattern += chars;
+    current.keep = true;
+  };
+  // Unquoted substitutions are split into separate fields at IFS delimiters
+  const split = (value: string) => {
+    let i = 0;
+    while (i < value.length) {
+      const delimiter = fieldDelimiter(value, i, ifs);
+      if (!delimiter) {
+        current.text += value[i];
+        current.pattern += value[i];
+        i++;
+        continue;
+      }
+      if (delimiter.hard || current.keep || current.text) fields.push(current);
+      current = { text: "", pattern: "", keep: false };
+      i = delimiter.end;
+    }
+  };
+  const substitute = async (index: number, quoted: boolean): Promise<number> => {
+    const arithmetic = arithmeticAt(word, index);
+    if (arithmetic) {
+      const value = await expandArithmetic(arithmetic.expression, context);
+      (quoted ? literal : splitFields ? split : unquoted)(value);
+      return arithmetic.end;
+    }
+
+    const command = commandAt(word, index);
+    if (command) {
+      const value = await substituteCommand(command.command, context);
+      (quoted ? literal : splitFields ? split : unquoted)(value);
+      return command.end;
+    }
+
+    const parameter = parameterAt(word, index);
+    if (!parameter) {
+      (quoted ? literal : unquoted)("$");
+      return index + 1;
+    }
+    // Quoted "$@" keeps each positional parameter a separate field
+    if (quoted && parameter.expression === "@") {
+      (context.positional?.() ?? []).forEach((value, position) => {
+        if (position > 0) {
+          fields.push(current);
+          current = { text: "", pattern: "", keep: true };
+        }
+        literal(value);
+      });
+      return parameter.end;
+    }
+
+    const value = await expandParameter(parameter.expression, context);
+    if (quoted) {
+      literal(value);
+    } else if (splitFields) {
+      split(value);
+    } else {
+      unquoted(value);
+    }
+    return parameter.end;
+  };
+
+  // Inside double quotes a backslash only escapes $ ` " \ and newline;
+  // returns the index of the closing quote
+  const quoted = async (start: number, closing?: string): Promise<number> => {
+    const escapable = closing ? /[$`"\\\n]/ : /[$`\\\n]/;
+    let i = start;
+    while (i < word.length && word[i] !== closing) {
+      if (word[i] === "\\" && escapable.test(word[i + 1] || "")) {
+        if (word[i + 1] !== "\n") literal(word[i + 1]);
+        i += 2;
+      } else if (word[i] === "$" || word[i] === "`") {
+        i = await substitute(i, true);
+      } else {
+        literal(word[i]);
+        i++;
+      }
+    }
+    return i;
+  };
+
+  if (hereDocument) {
+    await quoted(0);
+    return [current];
+  }
+
+  let i = 0;
+  while (i < word.length) {
+    const char = word[i];
+    if (char === "\\") {
+      if (i + 1 < word.length) literal(word[i + 1]);
+      i += 2;
+    } else if (char === "'") {
+      const close = word.indexOf("'", i + 1);
+      literal(word.substring(i + 1, close));
+      i = close + 1;
+    } else if (char === '"') {
+      current.keep = true;
+      i = await quoted(i + 1, '"') + 1;
+    } else if (char === "$" || char === "`") {
+      i = await substitute(i, false);
+    } else {
+      unquoted(char);
+      i++;
+    }
+  }
+
+  if (current.keep || current.text) fields.push(current);
+  return fields;
+}
+
+// Expansion for assignment values and operands of ${name:-word}: no field
+// splitting and no globbing, so the result is always one string
+export async function expandValue(word: string, context: ExpansionContext): Promise<string> {
+  return (await expandFields(expandTildePrefix(word, context.home), context, false)).map(field => field.text).join(" ");
+}
+
+// A case pattern: expanded like a value, but with quoted characters still
+// escaped so they match literally
+export async function expandPattern(word: string, context: ExpansionContext): Promise<string> {
+  return (await expandFields(expandTildePrefix(word, context.home), context, false)).map(field => field.pattern).join(" ");
+}
+
+export async function expandHereDocument(body: string, context: ExpansionContext): Promise<string> {
+  return (await expandFields(body, context, false, true))[0].text;
+}
+
+export async function expandWord(word: string, context: ExpansionContext): Promise<string[]> {
+  // "$@" with no positional parameters disappears entirely
+  if (/^"\$(@|\{@\})"$/.test(word) && (context.positional?.() ?? []).length === 0) {
+    return [];
+  }
+  const results: string[] = [];
+  for (const braced of expandBraces(word)) {
+    for (const field of await expandFields(expandTildePrefix(braced, context.home), context)) {
+      // A pattern that matches nothing is passed through unchanged
+      const matches = hasGlobChars(field.pattern) ? await expandGlob(field.pattern, context) : [];
+      if (matches.length > 0) {
+        matches.forEach(match => results.push(match));
+      } else {
+        results.push(field.text);
+      }
+    }
+  }
+  return results;
+}
+
+export async function expandWords(words: string[], context: ExpansionContext): Promise<string[]> {
+  const fields: string[] = [];
+  for (const word of words) {
+    (await expandWord(word, context)).forEach(field => fields.push(field));
+  }
+  return fields;
+}
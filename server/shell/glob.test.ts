@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { hasGlobChars, matchGlob } from "./glob";
+import { newShell, writeFile } from "../testing";
+
+test("glob patterns match wildcards, classes and escaped characters", () => {
+  assert.ok(matchGlob("*.txt", "notes.txt"));
+  assert.ok(!matchGlob("*.txt", "dir/notes.txt"));
+  assert.ok(matchGlob("*.txt", "dir/notes.txt", false));
+  assert.ok(matchGlob("file?.[ch]", "file1.c"));
+  assert.ok(!matchGlob("file[!0-9]", "file5"));
+  assert.ok(matchGlob("a\\*", "a*"));
+  assert.ok(!matchGlob("a\\*", "ab"));
+
+  assert.ok(hasGlobChars("[ab]"));
+  assert.ok(!hasGlobChars("a\\*"));
+  assert.ok(!hasGlobChars("[unterminated"));
+});
+
+test("unquoted patterns expand to the matching paths, sorted", async () => {
+  const shell = await newShell();
+  await shell.executeCommand("mkdir -p globs/sub");
+  for (const name of ["globs/b.txt", "globs/a.txt", "globs/c.md", "globs/sub/d.txt"]) {
+    await writeFile(shell, name, "x\n");
+  }
+  assert.equal((await shell.executeCommand("echo globs/*.txt")).output, "globs/a.txt globs/b.txt");
+  assert.equal((await shell.executeCommand("echo globs/*/*.txt")).output, "globs/sub/d.txt");
+  assert.equal((await shell.executeCommand("cd globs && echo [ab].*")).output, "a.txt b.txt");
+  assert.equal((await shell.executeCommand("echo 'globs/*.txt' globs/*.none")).output, "globs/*.txt globs/*.none");
+});
@@ -0,0 +1,132 @@
+// Pathname pattern matching: "*", "?" and "[...]" classes, with backslash
+// quoting a character so it matches literally.
+
+export function hasGlobChars(pattern: string): boolean {
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "*" || char === "?" || (char === "[" && classEnd(pattern, i) !== -1)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Index of the "]" closing the class opened at start, or -1 when it is unterminated
+function classEnd(pattern: string, start: number): number {
+  let i = start + 1;
+  if (pattern[i] === "!" || pattern[i] === "^") i++;
+  // A "]" straight after the opening bracket is part of the class
+  if (pattern[i] === "]") i++;
+  while (i < pattern.length && pattern[i] !== "]") {
+    if (pattern[i] === "\\") i++;
+    i++;
+  }
+  return i < pattern.length ? i : -1;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\\/-]/g, "\\$&");
+}
+
+// With pathname set, wildcards never match "/" so that each path segment is
+// matched on its own; case patterns and name tests match whole strings.
+export function globToRegExp(pattern: string, flags = "", pathname = true): RegExp {
+  const any = pathname ? "[^/]" : "[\\s\\S]";
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\" && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === "*") {
+      source += any + "*";
+    } else if (char === "?") {
+      source += any;
+    } else if (char === "[" && classEnd(pattern, i) !== -1) {
+      const end = classEnd(pattern, i);
+      let body = pattern.substring(i + 1, end);
+      let negate = false;
+      if (body[0] === "!" || body[0] === "^") {
+        negate = true;
+        body = body.substring(1);
+      }
+      // Keep ranges like a-z, escape everything else regex-special
+      const members = body.replace(/\\(.)/g, "$1").replace(/[\\\]^[]/g, "\\$&");
+      source += `[${negate ? (pathname ? "^/" : "^") : ""}${members}]`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`, flags);
+}
+
+export function matchGlob(pattern: string, text: string, pathname = true): boolean {
+  return globToRegExp(pattern, "", pathname).test(text);
+}
+
+export interface GlobContext {
+  cwd: string;
+  // Names inside the directory at an absolute path, or undefined when it isn't one
+  readDirectory(path: string): Promise<string[] | undefined>;
+}
+
+function joinAbsolute(directory: string, name: string): string {
+  return directory === "/" ? "/" + name : directory + "/" + name;
+}
+
+function unescapeGlob(segment: string): string {
+  return segment.replace(/\\(.)/g, "$1");
+}
+
+// Every existing path matching pattern, sorted. Relative patterns produce
+// relative matches, just as typed.
+export async function expandGlob(pattern: string, context: GlobContext): Promise<string[]> {
+  const absolute = pattern.startsWith("/");
+  const segments = pattern.split("/");
+  if (absolute) segments.shift();
+
+  // Each candidate pairs the text shown to the user with the path it names
+  let candidates = [{ display: absolute ? "/" : "", path: absolute ? "/" : context.cwd }];
+
+  for (let index = 0; index < segments.length; index++) {
+    const segment = segments[index];
+    const last = index === segments.length - 1;
+    const next: typeof candidates = [];
+
+    for (const candidate of candidates) {
+      const entries = await context.readDirectory(candidate.path);
+      if (!entries) continue;
+
+      // Empty segments come from doubled or trailing slashes and only require a directory
+      if (segment === "") {
+        next.push({ display: candidate.display + (last ? "/" : ""), path: candidate.path });
+        continue;
+      }
+
+      const separator = candidate.display === "" || candidate.display.endsWith("/") ? "" : "/";
+      if (!hasGlobChars(segment)) {
+        const name = unescapeGlob(segment);
+        if (name === "." || name === ".." || entries.indexOf(name) !== -1) {
+          const path = name === "." ? candidate.path
+            : name === ".." ? (candidate.path.substring(0, candidate.path.lastIndexOf("/")) || "/")
+            : joinAbsolute(candidate.path, name);
+          next.push({ display: candidate.display + separator + name, path });
+        }
+        continue;
+      }
+
+      // Leading dots are only matched by a pattern that spells them out
+      const regex = globToRegExp(segment);
+      const showHidden = segment.startsWith(".");
+      entries
+        .filter(name => regex.test(name) && (showHidden || !name.startsWith(".")))
+        .forEach(name => next.push({ display: candidate.display + separator + name, path: joinAbsolute(candidate.path, name) }));
+    }
+
+    candidates = next;
+  }
+
+  return candidates.map(candidate => candidate.display).sort();
+}
@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { newShell, writeFile } from "../testing";
+import { expandHistory, formatHistoryFile, parseHistoryFile, HistoryError } from "./history";
+
+test("history files keep the time of every entry", () => {
+  const text = "#100\nls\n#200\nfor f in *; do\necho $f\ndone\n";
+  const entries = parseHistoryFile(text);
+  assert.deepEqual(entries, [{ command: "ls", time: 100 }, { command: "for f in *; do\necho $f\ndone", time: 200 }]);
+  assert.equal(formatHistoryFile(entries), text);
+  assert.deepEqual(parseHistoryFile("pwd\n\ncd /\n", 5), [{ command: "pwd", time: 5 }, { command: "cd /", time: 5 }]);
+});
+
+test("saving the history only stamps new entries", async () => {
+  const shell = await newShell();
+  await writeFile(shell, '.bash_history', '#100\nfirst\n#200\nsecond\n');
+  await shell.loadHistory();
+
+  await shell.executeCommand('history -d 1');
+  const saved = await storage.getFileSystemItem(shell.owner, '/home/user/.bash_history');
+  const entries = parseHistoryFile(saved?.content?.toString('utf8') ?? '');
+  assert.deepEqual(entries.map(entry => entry.command), ['second', 'history -d 1']);
+  assert.equal(entries[0].time, 200);
+  assert.ok(entries[1].time > 200);
+});
+
+test("history reads its options before acting on them", async () => {
+  const shell = await newShell();
+  await shell.executeCommand('echo one');
+  await shell.executeCommand('echo two');
+
+  const dashed = await shell.executeCommand('history -- -c');
+  assert.equal(dashed.stderr, 'history: -c: numeric argument required');
+  assert.equal(shell.history.length, 3);
+
+  assert.equal((await shell.executeCommand('history -d 1 2')).stderr, 'history: too many arguments');
+  assert.equal((await shell.executeCommand('history -d 1x')).stderr, 'history: 1x: history position out of range');
+  assert.equal((await shell.executeCommand('history -x')).exitCode, 2);
+
+  await shell.executeCommand('history -d1');
+  assert.equal(shell.commandHistory[0], 'echo two');
+  await shell.executeCommand('history -d -1');
+  assert.equal(shell.commandHistory[shell.commandHistory.length - 1], 'history -d1');
+
+  await shell.executeCommand('history -c');
+  assert.deepEqual(shell.commandHistory, []);
+});
+
+test("! expands from the history, outside single quotes", () => {
+  const entries = ["ls -la /tmp", "echo one two", "grep -r todo src"];
+  assert.equal(expandHistory("sudo !!", entries), "sudo grep -r todo src");
+  assert.equal(expandHistory("!1; !-2", entries), "ls -la /tmp; echo one two");
+  assert.equal(expandHistory("!ec | wc", entries), "echo one two | wc");
+  assert.equal(expandHistory("!?todo?", entries), "grep -r todo src");
+  assert.equal(expandHistory("cd !$", entries), "cd src");
+  assert.equal(expandHistory("echo '!!' \\!! \"a!\" ${!x} != x!", entries), "echo '!!' \\!! \"a!\" ${!x} != x!");
+  assert.throws(() => expandHistory("!missing", entries), HistoryError);
+  assert.throws(() => expandHistory("!9", entries), /!9: event not found/);
+});
+
+test("an expanded line runs and is remembered as expanded", async () => {
+  const shell = await newShell();
+  await shell.executeCommand("echo first");
+  const repeated = await shell.executeCommand("!! again");
+  assert.equal(repeated.output, "echo first again\nfirst again");
+  assert.equal(shell.commandHistory[shell.commandHistory.length - 1], "echo first again");
+
+  const missing = await shell.executeCommand("!nothing");
+  assert.equal(missing.success, false);
+  assert.match(missing.stderr ?? missing.output, /!nothing: event not found/);
+  assert.equal(shell.commandHistory[shell.commandHistory.length - 1], "echo first again");
+});
@@ -0,0 +1,130 @@
+// Command history: the ~/.bash_history file format and the "!" expansions
+// applied to a line typed at the prompt before it is parsed.
+
+export class HistoryError extends Error {}
+
+export interface HistoryEntry {
+  command: string;
+  // When it was run, in seconds since the epoch, as the file records it
+  time: number;
+}
+
+// Lines starting with "#" and a timestamp separate entries, so a command that
+// spans several lines reads back as one entry, as bash does
+const TIMESTAMP = /^#(\d+)$/;
+
+// Entries from a file without timestamps are taken to have run at now
+export function parseHistoryFile(text: string, now = historyTime()): HistoryEntry[] {
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  if (!lines.some(line => TIMESTAMP.test(line))) {
+    return lines.filter(line => line.trim() !== "").map(command => ({ command, time: now }));
+  }
+
+  const entries: HistoryEntry[] = [];
+  let current: { lines: string[]; time: number } | undefined;
+  const finish = () => {
+    if (current && current.lines.length > 0) entries.push({ command: current.lines.join("\n"), time: current.time });
+  };
+  lines.forEach(line => {
+    const timestamp = TIMESTAMP.exec(line);
+    if (timestamp) {
+      finish();
+      current = { lines: [], time: parseInt(timestamp[1], 10) };
+    } else if (current) {
+      current.lines.push(line);
+    } else {
+      entries.push({ command: line, time: now });
+    }
+  });
+  finish();
+  return entries;
+}
+
+export function formatHistoryFile(entries: HistoryEntry[]): string {
+  return entries.map(entry => `#${entry.time}\n${entry.command}\n`).join("");
+}
+
+// The time now, as history entries record it
+export function historyTime(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+// Characters that end the word in "!prefix"
+const WORD_END = /[\s;&|<>()'"`]/;
+
+// Expands !!, !N, !-N, !PREFIX, !?TEXT? and !$ from the entries, most recent
+// last. "!" is left alone inside single quotes, after a backslash, "$" or
+// "${", and when followed by a blank, "=", "(" or the end of the line.
+export function expandHistory(line: string, entries: string[]): string {
+  let result = "";
+  let singleQuoted = false;
+  let doubleQuoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (singleQuoted) {
+      if (char === "'") singleQuoted = false;
+      result += char;
+      continue;
+    }
+    if (char === "\\") {
+      result += line.substring(i, i + 2);
+      i++;
+      continue;
+    }
+    if (char === "'" && !doubleQuoted) {
+      singleQuoted = true;
+    } else if (char === '"') {
+      doubleQuoted = !doubleQuoted;
+    }
+
+    const next = line[i + 1];
+    if (char !== "!" || next === undefined || /[\s=(]/.test(next) || (doubleQuoted && next === '"') || line[i - 1] === "$" || line.substring(i - 2, i) === "${") {
+      result += char;
+      continue;
+    }
+
+    let end = i + 2;
+    let entry: string | undefined;
+    if (next === "!") {
+      entry = entries[entries.length - 1];
+    } else if (next === "$") {
+      const words = (entries[entries.length - 1] ?? "").trim().split(/\s+/);
+      entry = entries.length > 0 ? words[words.length - 1] : undefined;
+    } else if (next === "?") {
+      const close = line.indexOf("?", i + 2);
+      end = close === -1 ? line.length : close + 1;
+      const text = line.substring(i + 2, close === -1 ? line.length : close);
+      entry = mostRecent(entries, candidate => candidate.indexOf(text) !== -1);
+    } else {
+      end = i + 1;
+      while (end < line.length && !WORD_END.test(line[end])) end++;
+      const word = line.substring(i + 1, end);
+      if (word === "") {
+        result += char;
+        continue;
+      }
+      if (/^-?\d+$/.test(word)) {
+        const number = parseInt(word, 10);
+        entry = entries[number < 0 ? entries.length + number : number - 1];
+      } else {
+        entry = mostRecent(entries, candidate => candidate.substring(0, word.length) === word);
+      }
+    }
+
+    if (entry === undefined) {
+      throw new HistoryError(`${line.substring(i, end)}: event not found`);
+    }
+    result += entry;
+    i = end - 1;
+  }
+  return result;
+}
+
+function mostRecent(entries: string[], matches: (entry: string) => boolean): string | undefined {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (matches(entries[i])) return entries[i];
+  }
+  return undefined;
+}
@@ -0,0 +1,62 @@
+// Standard streams as commands see them. Several commands can share one input
+// stream, as in `while read line; do ...; done < file`, so reads consume it.
+
+import type { CommandResult } from "@shared/schema";
+
+export class InputStream {
+  private position = 0;
+
+  constructor(private text: string) {}
+
+  // Everything not read yet
+  read(): string {
+    const rest = this.text.substring(this.position);
+    this.position = this.text.length;
+    return rest;
+  }
+
+  // The next line without its newline, or undefined at end of input
+  readLine(): string | undefined {
+    if (this.position >= this.text.length) return undefined;
+    const end = this.text.indexOf("\n", this.position);
+    const line = this.text.substring(this.position, end === -1 ? this.text.length : end);
+    this.position = end === -1 ? this.text.length : end + 1;
+    return line;
+  }
+}
+
+// What a command wrote to each stream. Handlers that don't report stderr
+// separately put their diagnostics in output when they fail.
+export function resultStreams(result: CommandResult): { stdout: string; stderr: string } {
+  if (result.stderr !== undefined) {
+    return { stdout: result.output, stderr: result.stderr };
+  }
+  return result.success ? { stdout: result.output, stderr: "" } : { stdout: "", stderr: result.output };
+}
+
+// Handlers that don't set an exit code report plain success or failure
+export function exitStatus(result: CommandResult): number {
+  return result.exitCode ?? (result.success ? 0 : 1);
+}
+
+// Text as it travels through a pipe or into a file: output is shown without
+// a final newline, but every line in a stream is terminated, unless the
+// command wrote exactly what it meant to
+export function toStream(output: string, exact = false): string {
+  return exact || output === "" || output.endsWith("\n") ? output : output + "\n";
+}
+
+// What a command writes as text of its own, as echo -n and printf do: the
+// usual output when the text ends in a single newline, otherwise exact output
+export function writtenOutput(text: string): { output: string; exactOutput?: boolean } {
+  if (text.endsWith("\n") && !text.endsWith("\n\n")) {
+    return { output: text.substring(0, text.length - 1) };
+  }
+  return text === "" ? { output: "" } : { output: text, exactOutput: true };
+}
+
+// Lines of text as a stream carries them: a final newline ends the last line
+export function splitLines(text: string): string[] {
+  if (text === "") return [];
+  return (text.endsWith("\n") ? text.substring(0, text.length - 1) : text).split("\n");
+}
@@ -0,0 +1,196 @@
+// The session's process table. Every command the shell runs has a PID while
+// it runs, and a list started with "&" becomes a job: a process of its own
+// that jobs, fg, bg, kill and wait can find by number.
+
+import type { CommandResult } from "@shared/schema";
+import { exitStatus } from "./io";
+
+// Signal numbers as Linux has them on x86
+export const SIGNALS: Record<string, number> = {
+  HUP: 1, INT: 2, QUIT: 3, KILL: 9, USR1: 10, USR2: 12, PIPE: 13, ALRM: 14,
+  TERM: 15, CHLD: 17, CONT: 18, STOP: 19, TSTP: 20,
+};
+
+// What jobs says about a job a signal ended
+const SIGNAL_DESCRIPTIONS: Record<string, string> = {
+  HUP: 'Hangup', INT: 'Interrupt', QUIT: 'Quit', KILL: 'Killed', USR1: 'User defined signal 1',
+  USR2: 'User defined signal 2', PIPE: 'Broken pipe', ALRM: 'Alarm clock', TERM: 'Terminated',
+};
+
+// Where PIDs start counting; the shell itself gets the first one
+const FIRST_PID = 1000;
+
+export class Process {
+  stopped = false;
+  // Waiting in sleep rather than doing anything, as ps reports it
+  sleeping = false;
+  // The signal that ended the process, once one has
+  signal?: string;
+  readonly startedAt = new Date();
+
+  // name is what ps shows in its short listing, command the whole line
+  constructor(readonly pid: number, readonly name: string, readonly command: string, readonly parent?: Process) {}
+
+  // A process ends or stops along with whatever started it
+  get terminatedBy(): string | undefined {
+    return this.signal ?? this.parent?.terminatedBy;
+  }
+
+  get suspended(): boolean {
+    return this.stopped || (this.parent?.suspended ?? false);
+  }
+}
+
+export interface Job {
+  number: number;
+  process: Process;
+  // The command line as it was typed, which jobs shows
+  command: string;
+  // Set once the job has finished
+  result?: CommandResult;
+  // Brought back by fg, so that Ctrl-C reaches it
+  foreground: boolean;
+  // Whether the user has been told the job stopped since it last did
+  reportedStop: boolean;
+}
+
+export class ProcessTable {
+  private nextPid = FIRST_PID;
+  private processes: Process[] = [];
+  private waiters: (() => void)[] = [];
+  jobs: Job[] = [];
+  // The interactive shell, as $$ names it
+  readonly shell: Process;
+
+  constructor() {
+    this.shell = this.spawn('bash', '-bash');
+  }
+
+  spawn(name: string, command: string, parent?: Process): Process {
+    const process = new Process(this.nextPid++, name, command, parent);
+    this.processes.push(process);
+    return process;
+  }
+
+  exit(process: Process) {
+    this.processes = this.processes.filter(other => other !== process);
+    this.changed();
+  }
+
+  // Live processes, oldest first
+  list(): Process[] {
+    return this.processes.slice();
+  }
+
+  find(pid: number): Process | undefined {
+    return this.processes.find(process => process.pid === pid);
+  }
+
+  // Numbers a job one past the highest still listed and records its result
+  // once finished settles
+  addJob(process: Process, command: string, finished: Promise<CommandResult>): Job {
+    const number = this.jobs.reduce((highest, job) => Math.max(highest, job.number), 0) + 1;
+    const job: Job = { number, process, command, foreground: false, reportedStop: false };
+    this.jobs.push(job);
+    finished.then(result => {
+      job.result = result;
+      this.exit(process);
+    });
+    return job;
+  }
+
+  removeJob(job: Job) {
+    this.jobs = this.jobs.filter(other => other !== job);
+  }
+
+  // %N, %+ or %% (the current job), %- (the one before), %NAME for the job
+  // whose command starts with NAME and %?TEXT for one containing TEXT
+  findJob(spec: string): Job | undefined {
+    const current = this.jobs[this.jobs.length - 1];
+    if (spec === '%' || spec === '%%' || spec === '%+') return current;
+    if (spec === '%-') return this.jobs[this.jobs.length - 2] ?? current;
+    if (/^%\d+$/.test(spec)) {
+      const number = parseInt(spec.substring(1), 10);
+      return this.jobs.find(job => job.number === number);
+    }
+    const text = spec.substring(1);
+    const matches = spec.startsWith('%?')
+      ? this.jobs.filter(job => job.command.indexOf(text.substring(1)) !== -1)
+      : this.jobs.filter(job => job.command.substring(0, text.length) === text);
+    return matches[matches.length - 1];
+  }
+
+  // Stop signals suspend a process and CONT resumes it; anything else ends
+  // it and everything it started. The interactive shell ignores them all.
+  signal(process: Process, name: string) {
+    if (process === this.shell || name === 'CHLD') return;
+    if (name === 'CONT') {
+      process.stopped = false;
+    } else if (name === 'STOP' || name === 'TSTP') {
+      process.stopped = true;
+      this.jobs.filter(job => job.process === process).forEach(job => { job.reportedStop = false; });
+    } else {
+      process.signal = process.signal ?? name;
+      process.stopped = false;
+    }
+    this.changed();
+  }
+
+  // Wakes everything waiting on a process to finish, stop or resume
+  changed() {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(wake => wake());
+  }
+
+  nextChange(): Promise<void> {
+    return new Promise(resolve => this.waiters.push(resolve));
+  }
+
+  // Sleeps on behalf of process, holding still while it is stopped. Returns
+  // the signal that cut it short, if one did.
+  async sleep(process: Process, milliseconds: number): Promise<string | undefined> {
+    let remaining = milliseconds;
+    process.sleeping = true;
+    while (remaining > 0 && !process.terminatedBy) {
+      if (process.suspended) {
+        await this.nextChange();
+        continue;
+      }
+      const started = Date.now();
+      let wake: () => void = () => {};
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      await new Promise<void>(resolve => {
+        wake = resolve;
+        timer = setTimeout(resolve, remaining);
+        this.waiters.push(resolve);
+      });
+      clearTimeout(timer);
+      this.waiters = this.waiters.filter(waiter => waiter !== wake);
+      remaining -= Date.now() - started;
+    }
+    process.sleeping = false;
+    return process.terminatedBy;
+  }
+}
+
+// How jobs describes a job's state
+export function jobState(job: Job): string {
+  if (!job.result) {
+    return job.process.suspended ? 'Stopped' : 'Running';
+  }
+  const signal = job.process.terminatedBy;
+  if (signal) return SIGNAL_DESCRIPTIONS[signal] ?? signal;
+  const status = exitStatus(job.result);
+  return status === 0 ? 'Done' : `Exit ${status}`;
+}
+
+// A line of jobs output: "[1]+  Running                 sleep 10 &". The
+// current job is marked "+" and the one before it "-".
+export function formatJob(job: Job, jobs: Job[], showPid = false): string {
+  const index = jobs.indexOf(job);
+  const marker = index === jobs.length - 1 ? '+' : index === jobs.length - 2 ? '-' : ' ';
+  const state = jobState(job);
+  const command = state === 'Running' ? `${job.command} &` : job.command;
+  return `[${job.number}]${marker}  ${showPid ? `${job.process.pid} ` : ''}${state.padEnd(24)}${command}`;
+}
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { tokenize, ShellSyntaxError, type Token } from "./lexer";
+import { newShell } from "../testing";
+
+const words = (tokens: Token[]) => tokens.map(token => token.kind === "word" ? token.text : token.op);
+
+test("tokenize keeps quotes and escapes in words and splits off operators", () => {
+  assert.deepEqual(words(tokenize(`echo 'a b' "c d" e\\ f`)), ["echo", "'a b'", '"c d"', "e\\ f"]);
+  assert.deepEqual(words(tokenize("a|b&&c>>out 2>&1; d # note")), ["a", "|", "b", "&&", "c", ">>", "out", ">&", "1", ";", "d"]);
+  assert.deepEqual(words(tokenize("echo a\\\nb c \\\nd")), ["echo", "ab", "c", "d"]);
+
+  const redirect = tokenize("cmd 2>err")[1];
+  assert.equal(redirect.kind === "operator" && redirect.fd, 2);
+});
+
+test("an open quote is an incomplete syntax error", () => {
+  for (const input of [`echo 'abc`, `echo "abc`]) {
+    assert.throws(() => tokenize(input), (error: unknown) => error instanceof ShellSyntaxError && error.incomplete);
+  }
+});
+
+test("quoting and escapes reach commands as single arguments", async () => {
+  const shell = await newShell();
+  await shell.executeCommand('set -- "a  b" \'$HOME\' c\\ d');
+  assert.deepEqual(shell.positional, ["a  b", "$HOME", "c d"]);
+  assert.equal((await shell.executeCommand(`echo "it's" 'say "hi"' \\# # comment`)).output, `it's say "hi" #`);
+});
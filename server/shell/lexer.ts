@@ -0,0 +1,197 @@
+// Splits a command line into words and operators the way a POSIX shell does.
+// Words keep their raw text, quotes and escapes included, so that expansion
+// can still tell quoted characters from unquoted ones.
+
+// The lines following a "<<" or "<<-" operator, up to its delimiter
+export interface HereDocument {
+  body: string;
+  // Only an unquoted delimiter lets $ and ` expand inside the body
+  expand: boolean;
+}
+
+export type Token =
+  | { kind: "word"; text: string }
+  // fd is set for an IO number written directly before a redirection, as in 2>
+  | { kind: "operator"; op: string; fd?: number; hereDocument?: HereDocument };
+
+export class ShellSyntaxError extends Error {
+  // Set when the input simply stopped too early, as with an open quote or
+  // here-document, so that more lines could still complete it
+  readonly incomplete: boolean;
+
+  constructor(message: string, incomplete = false) {
+    super(message);
+    this.name = "ShellSyntaxError";
+    this.incomplete = incomplete;
+  }
+}
+
+// Longest operators first so that ">>" wins over ">"
+const OPERATORS = ["<<<", "<<-", "&&", "||", ";;", ">>", ">&", "<&", "<<", "<>", ">|", "|", "&", ";", "<", ">", "(", ")", "\n"];
+
+const BLANK = /[ \t\r]/;
+
+function operatorAt(input: string, index: number): string | undefined {
+  return OPERATORS.find(op => input.startsWith(op, index));
+}
+
+// Index just past the quote that closes the one at start
+export function skipQuoted(input: string, start: number): number {
+  const quote = input[start];
+  let i = start + 1;
+  while (i < input.length && input[i] !== quote) {
+    if (quote === '"' && input[i] === "$" && (input[i + 1] === "(" || input[i + 1] === "{")) {
+      i = skipSubstitution(input, i);
+      continue;
+    }
+    if (quote !== "'" && input[i] === "\\") i++;
+    i++;
+  }
+  if (i >= input.length) {
+    throw new ShellSyntaxError(`unexpected EOF while looking for matching \`${quote}'`, true);
+  }
+  return i + 1;
+}
+
+// Index just past the bracket closing the "$(" or "${" at start, skipping
+// anything quoted or nested inside
+export function skipSubstitution(input: string, start: number): number {
+  const open = input[start + 1];
+  const close = open === "(" ? ")" : "}";
+  let depth = 0;
+  let i = start + 1;
+  while (i < input.length) {
+    const char = input[i];
+    if (char === "\\") {
+      i += 2;
+      continue;
+    }
+    if (char === "'" || char === '"' || char === "`") {
+      i = skipQuoted(input, i);
+      continue;
+    }
+    if (char === "$" && (input[i + 1] === "(" || input[i + 1] === "{")) {
+      i = skipSubstitution(input, i);
+      continue;
+    }
+    if (char === open) depth++;
+    if (char === close && --depth === 0) return i + 1;
+    i++;
+  }
+  throw new ShellSyntaxError(`unexpected EOF while looking for matching \`${close}'`, true);
+}
+
+type PendingHereDocument = { operator: Token & { kind: "operator" }; delimiter: string; strip: boolean; quoted: boolean };
+
+// Reads the bodies of here-documents opened on the line that ended just
+// before start, one after another, and returns where the next line begins.
+// "<<-" strips leading tabs from each line and from the delimiter line.
+function readHereDocuments(input: string, start: number, documents: PendingHereDocument[]): number {
+  let i = start;
+  for (const document of documents) {
+    const lines: string[] = [];
+    for (;;) {
+      if (i >= input.length) {
+        throw new ShellSyntaxError(`here-document delimited by end-of-file (wanted \`${document.delimiter}')`, true);
+      }
+      const end = input.indexOf("\n", i);
+      const line = input.substring(i, end === -1 ? input.length : end);
+      i = end === -1 ? input.length : end + 1;
+      const text = document.strip ? line.replace(/^\t+/, "") : line;
+      if (text === document.delimiter) break;
+      lines.push(text + "\n");
+    }
+    document.operator.hereDocument = { body: lines.join(""), expand: !document.quoted };
+  }
+  return i;
+}
+
+export function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  const hereDocuments: PendingHereDocument[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (BLANK.test(char)) {
+      i++;
+      continue;
+    }
+
+    // A line continuation between words is just whitespace
+    if (char === "\\" && input[i + 1] === "\n") {
+      i += 2;
+      continue;
+    }
+
+    if (char === "#") {
+      while (i < input.length && input[i] !== "\n") i++;
+      continue;
+    }
+
+    const op = operatorAt(input, i);
+    if (op) {
+      tokens.push({ kind: "operator", op });
+      i += op.length;
+      if (op === "\n" && hereDocuments.length > 0) {
+        i = readHereDocuments(input, i, hereDocuments.splice(0));
+      }
+      continue;
+    }
+
+    const start = i;
+    let text = "";
+    while (i < input.length) {
+      const current = input[i];
+      if (BLANK.test(current) || operatorAt(input, i)) break;
+
+      if (current === "\\") {
+        if (i + 1 >= input.length) {
+          throw new ShellSyntaxError("unexpected end of file after `\\'", true);
+        }
+        if (input[i + 1] === "\n") {
+          i += 2;
+        } else {
+          text += input.substring(i, i + 2);
+          i += 2;
+        }
+        continue;
+      }
+
+      let end = i + 1;
+      if (current === "'" || current === '"' || current === "`") {
+        end = skipQuoted(input, i);
+      } else if (current === "$" && (input[i + 1] === "(" || input[i + 1] === "{")) {
+        end = skipSubstitution(input, i);
+      }
+      text += input.substring(i, end);
+      i = end;
+    }
+
+    // Digits right before a redirection name the file descriptor it applies to
+    const next = operatorAt(input, i);
+    if (/^\d+$/.test(text) && i - start === text.length && next && /^[<>]/.test(next)) {
+      tokens.push({ kind: "operator", op: next, fd: parseInt(text, 10) });
+      i += next.length;
+      continue;
+    }
+
+    // The word after "<<" is a here-document delimiter, used with quotes removed
+    const previous = tokens[tokens.length - 1];
+    if (previous?.kind === "operator" && (previous.op === "<<" || previous.op === "<<-")) {
+      hereDocuments.push({
+        operator: previous,
+        delimiter: text.replace(/\\([^])|["']/g, "$1"),
+        strip: previous.op === "<<-",
+        quoted: /["'\\]/.test(text),
+      });
+    }
+    tokens.push({ kind: "word", text });
+  }
+
+  if (hereDocuments.length > 0) {
+    throw new ShellSyntaxError(`here-document delimited by end-of-file (wanted \`${hereDocuments[0].delimiter}')`, true);
+  }
+  return tokens;
+}
@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseCommandList, type Command, type CommandList } from "./parser";
+import { tokenize, ShellSyntaxError } from "./lexer";
+import { newShell } from "../testing";
+
+const parse = (input: string, aliases: Record<string, string> = {}) =>
+  parseCommandList(tokenize(input), name => aliases[name]);
+const first = (list: CommandList): Command => list.items[0].pipeline.commands[0];
+
+test("lists keep their connectors and pipelines their commands", () => {
+  const list = parse("a | b && ! c || d; e &");
+  assert.deepEqual(list.items.map(item => item.connector), [";", "&&", "||", ";"]);
+  assert.equal(list.items[0].pipeline.commands.length, 2);
+  assert.equal(list.items[1].pipeline.negated, true);
+  assert.equal(list.items[3].job, "e");
+
+  const command = first(parse("A=1 B=2 cmd arg 2>&1 >out <in"));
+  assert.equal(command.kind, "simple");
+  if (command.kind !== "simple") return;
+  assert.deepEqual(command.assignments, [{ name: "A", value: "1" }, { name: "B", value: "2" }]);
+  assert.deepEqual(command.words, ["cmd", "arg"]);
+  assert.deepEqual(command.redirects.map(redirect => [redirect.fd, redirect.op, redirect.target]),
+    [[2, ">&", "1"], [1, ">", "out"], [0, "<", "in"]]);
+});
+
+test("compound commands parse into their clauses", () => {
+  const conditional = first(parse("if a; then b; elif c; then d; else e; fi"));
+  assert.ok(conditional.kind === "if" && conditional.branches.length === 2 && conditional.otherwise);
+
+  const loop = first(parse("for f in x y; do echo $f; done"));
+  assert.ok(loop.kind === "for" && loop.variable === "f");
+  assert.deepEqual(loop.kind === "for" && loop.words, ["x", "y"]);
+  const positional = first(parse("for f\ndo :; done"));
+  assert.equal(positional.kind === "for" && positional.words, undefined);
+
+  const until = first(parse("until a; do b; done > log"));
+  assert.ok(until.kind === "while" && until.until && until.redirects[0].target === "log");
+
+  const choice = first(parse("case $x in a|b) one;; *) two;; esac"));
+  assert.deepEqual(choice.kind === "case" && choice.items.map(item => item.patterns), [["a", "b"], ["*"]]);
+
+  const definition = first(parse("greet() { echo hi; }"));
+  assert.ok(definition.kind === "function" && definition.name === "greet" && definition.body.kind === "group");
+  const subshell = first(parse("( cd /tmp )"));
+  assert.ok(subshell.kind === "group" && subshell.subshell);
+});
+
+test("aliases expand where a command starts", () => {
+  const command = first(parse("ll -a", { ll: "ls -l" }));
+  assert.deepEqual(command.kind === "simple" && command.words, ["ls", "-l", "-a"]);
+  const argument = first(parse("echo ll", { ll: "ls -l" }));
+  assert.deepEqual(argument.kind === "simple" && argument.words, ["echo", "ll"]);
+});
+
+test("unfinished input is incomplete, misplaced tokens are not", () => {
+  for (const input of ["if true; then", "while :; do echo", "for x in a", "case x in", "{ echo", "a &&", "a |"]) {
+    assert.throws(() => parse(input), (error: unknown) => error instanceof ShellSyntaxError && error.incomplete, input);
+  }
+  for (const input of ["fi", "then echo", "a ;; b", "done", "| a"]) {
+    assert.throws(() => parse(input), (error: unknown) => error instanceof ShellSyntaxError && !error.incomplete, input);
+  }
+});
+
+test("control flow runs in scripts", async () => {
+  const shell = await newShell();
+  const script = [
+    "total=0",
+    "for n in 1 2 3 4 5; do",
+    "  case $n in",
+    "    2|4) continue ;;",
+    "  esac",
+    "  [ $n -gt 4 ] && break",
+    "  total=$((total + n))",
+    "done",
+    "count() { local i=0; while [ $i -lt $1 ]; do i=$((i + 1)); done; echo $i; return 3; }",
+    "if count 2; then echo no; elif [ $? -eq 3 ]; then echo \"total $total\"; fi",
+  ].join("\n");
+  await shell.executeCommand(`cat > flow.sh <<'EOF'\n${script}\nEOF`);
+  assert.equal((await shell.executeCommand("sh flow.sh")).output, "2\ntotal 4");
+});
@@ -0,0 +1,451 @@
+// Groups lexer tokens into the structures the shell executes. Words stay
+// raw here; they are expanded just before each command runs.
+
+import { ShellSyntaxError, tokenize, type HereDocument, type Token } from "./lexer";
+
+// A redirection such as "2> file" or "2>&1". Without an explicit fd, input
+// redirections apply to stdin (0) and output redirections to stdout (1).
+export interface Redirect {
+  fd: number;
+  op: string;
+  // For here-documents this is the delimiter and the text is in hereDocument
+  target: string;
+  hereDocument?: HereDocument;
+}
+
+// NAME=value words written before the command name
+export interface Assignment {
+  name: string;
+  value: string;
+}
+
+export interface SimpleCommand {
+  kind: "simple";
+  assignments: Assignment[];
+  words: string[];
+  redirects: Redirect[];
+}
+
+export interface IfClause {
+  kind: "if";
+  // Each condition is tried in turn; the first that succeeds runs its body
+  branches: { condition: CommandList; body: CommandList }[];
+  otherwise?: CommandList;
+  redirects: Redirect[];
+}
+
+export interface ForClause {
+  kind: "for";
+  variable: string;
+  // Without "in", a for loop walks the positional parameters
+  words?: string[];
+  body: CommandList;
+  redirects: Redirect[];
+}
+
+export interface WhileClause {
+  kind: "while";
+  // "until" loops run while the condition fails
+  until: boolean;
+  condition: CommandList;
+  body: CommandList;
+  redirects: Redirect[];
+}
+
+export interface CaseClause {
+  kind: "case";
+  word: string;
+  items: { patterns: string[]; body: CommandList }[];
+  redirects: Redirect[];
+}
+
+// { list; } runs in the current shell, ( list ) in a subshell
+export interface Group {
+  kind: "group";
+  subshell: boolean;
+  body: CommandList;
+  redirects: Redirect[];
+}
+
+export interface FunctionDefinition {
+  kind: "function";
+  name: string;
+  body: Command;
+  redirects: Redirect[];
+}
+
+export type Command = SimpleCommand | IfClause | ForClause | WhileClause | CaseClause | Group | FunctionDefinition;
+
+// Commands joined by "|", each reading the previous one's output.
+// A leading "!" inverts the exit status.
+export interface Pipeline {
+  commands: Command[];
+  negated: boolean;
+}
+
+// Pipelines joined by ";", "&&" or "||". Each item records the operator
+// that connects it to the one before; the first always has ";". An item
+// ended by "&" runs in the background and keeps its source text for jobs;
+// "a && b &" becomes a single item running ( a && b ).
+export interface CommandList {
+  items: { connector: ";" | "&&" | "||"; pipeline: Pipeline; job?: string }[];
+}
+
+const REDIRECTIONS = [">", ">>", ">|", "<", "<>", ">&", "<&", "<<", "<<-", "<<<"];
+
+const ASSIGNMENT = /^([a-zA-Z_][a-zA-Z0-9_]*)=/;
+
+const NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+// Words that mean something to the parser where a command would start
+export const RESERVED_WORDS = ["!", "case", "do", "done", "elif", "else", "esac", "fi", "for", "function", "if", "in", "then", "until", "while", "{", "}"];
+
+// Words that end a list when they appear where a command would start
+const CLOSING_WORDS = ["then", "elif", "else", "fi", "do", "done", "esac", "}"];
+
+function unexpected(token: Token | undefined): ShellSyntaxError {
+  if (!token) return new ShellSyntaxError("syntax error: unexpected end of file", true);
+  const text = token.kind === "word" ? token.text : token.op === "\n" ? "newline" : token.op;
+  return new ShellSyntaxError(`syntax error near unexpected token \`${text}'`);
+}
+
+// Tokens written back out as a command line, for jobs to show
+function sourceText(tokens: Token[]): string {
+  return tokens
+    .map(token => token.kind === "word" ? token.text : token.op === "\n" ? ";" : `${token.fd ?? ""}${token.op}`)
+    .join(" ")
+    .replace(/ ;/g, ";");
+}
+
+// The value of an alias, or undefined when name isn't one
+export type AliasLookup = (name: string) => string | undefined;
+
+class Parser {
+  private position = 0;
+  // Which aliases each token came out of, so that an alias is never expanded
+  // again inside its own expansion, as in alias ls='ls -F'
+  private aliasOrigins = new Map<Token, string[]>();
+
+  constructor(private tokens: Token[], private aliases?: AliasLookup) {}
+
+  parseProgram(): CommandList {
+    const list = this.parseList();
+    if (this.peek()) throw unexpected(this.peek());
+    return list;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private isOperator(...ops: string[]): boolean {
+    const token = this.peek();
+    return token?.kind === "operator" && ops.indexOf(token.op) !== -1;
+  }
+
+  private isWord(...texts: string[]): boolean {
+    const token = this.peek();
+    return token?.kind === "word" && texts.indexOf(token.text) !== -1;
+  }
+
+  private skipNewlines() {
+    while (this.isOperator("\n")) this.position++;
+  }
+
+  private expectWord(text: string) {
+    if (!this.isWord(text)) throw unexpected(this.peek());
+    this.position++;
+  }
+
+  private expectOperator(op: string) {
+    if (!this.isOperator(op)) throw unexpected(this.peek());
+    this.position++;
+  }
+
+  // A list runs until the input ends or something that closes an enclosing
+  // construct comes up: a reserved word, ")" or ";;"
+  private atListEnd(): boolean {
+    return !this.peek() || this.isWord(...CLOSING_WORDS) || this.isOperator(")", ";;");
+  }
+
+  private parseList(): CommandList {
+    const items: CommandList["items"] = [];
+    let connector: ";" | "&&" | "||" = ";";
+
+    this.skipNewlines();
+    // Where the current "&&"/"||" chain starts, in items and in the tokens
+    let chainItem = 0;
+    let chainToken = this.position;
+    while (!this.atListEnd()) {
+      items.push({ connector, pipeline: this.parsePipeline() });
+
+      const token = this.peek();
+      if (this.isOperator("&")) {
+        const job = sourceText(this.tokens.slice(chainToken, this.position));
+        const chain = items.splice(chainItem);
+        const pipeline: Pipeline = chain.length === 1
+          ? chain[0].pipeline
+          : { commands: [{ kind: "group", subshell: true, body: { items: chain.map((item, index) => index === 0 ? { ...item, connector: ";" } : item) }, redirects: [] }], negated: false };
+        items.push({ connector: chain[0].connector, pipeline, job });
+        connector = ";";
+        this.position++;
+        this.skipNewlines();
+        chainItem = items.length;
+        chainToken = this.position;
+      } else if (token?.kind === "operator" && (token.op === "&&" || token.op === "||")) {
+        connector = token.op;
+        this.position++;
+        // An operator at the end of a line carries the list onto the next one
+        this.skipNewlines();
+        if (this.atListEnd()) throw unexpected(this.peek());
+      } else if (this.isOperator(";", "\n")) {
+        connector = ";";
+        this.position++;
+        this.skipNewlines();
+        chainItem = items.length;
+        chainToken = this.position;
+      } else if (!this.atListEnd()) {
+        throw unexpected(token);
+      }
+    }
+    return { items };
+  }
+
+  // Bodies of if, while, for and groups must contain at least one command
+  private parseBody(): CommandList {
+    const list = this.parseList();
+    if (list.items.length === 0) throw unexpected(this.peek());
+    return list;
+  }
+
+  private parsePipeline(): Pipeline {
+    let negated = false;
+    if (this.isWord("!")) {
+      negated = true;
+      this.position++;
+    }
+
+    const commands = [this.parseCommand()];
+    while (this.isOperator("|")) {
+      this.position++;
+      this.skipNewlines();
+      commands.push(this.parseCommand());
+    }
+    return { commands, negated };
+  }
+
+  // Replaces an alias name where a command starts with the tokens of its
+  // value. A value ending in a blank makes the next word a candidate too.
+  private expandAlias(position: number) {
+    const token = this.tokens[position];
+    if (!this.aliases || token?.kind !== "word") return;
+    const origins = this.aliasOrigins.get(token) ?? [];
+    const value = origins.indexOf(token.text) === -1 ? this.aliases(token.text) : undefined;
+    if (value === undefined) return;
+
+    const replacement = tokenize(value);
+    replacement.forEach(expanded => this.aliasOrigins.set(expanded, origins.concat(token.text)));
+    this.tokens.splice(position, 1, ...replacement);
+    const last = replacement[replacement.length - 1];
+    this.expandAlias(position);
+
+    if (/[ \t]$/.test(value)) {
+      // After an empty alias the next word already sits at position
+      const next = last ? this.tokens.indexOf(last) + 1 : position;
+      if (!last || next > 0) this.expandAlias(next);
+    }
+  }
+
+  private parseCommand(): Command {
+    this.expandAlias(this.position);
+    const token = this.peek();
+    if (token?.kind === "word") {
+      switch (token.text) {
+        case "if": return this.withRedirects(this.parseIf());
+        case "for": return this.withRedirects(this.parseFor());
+        case "while":
+        case "until": return this.withRedirects(this.parseWhile());
+        case "case": return this.withRedirects(this.parseCase());
+        case "{": return this.withRedirects(this.parseGroup());
+        case "function": return this.parseFunction();
+      }
+      const next = this.peek(1);
+      if (NAME.test(token.text) && next?.kind === "operator" && next.op === "(") {
+        return this.parseFunction();
+      }
+    }
+    if (this.isOperator("(")) {
+      return this.withRedirects(this.parseGroup());
+    }
+    return this.parseSimpleCommand();
+  }
+
+  // Redirections written after a compound command apply to all of it
+  private withRedirects<T extends Command>(command: T): T {
+    for (let token = this.peek(); token?.kind === "operator" && REDIRECTIONS.indexOf(token.op) !== -1; token = this.peek()) {
+      command.redirects.push(this.parseRedirect(token));
+    }
+    return command;
+  }
+
+  private parseRedirect(token: Token & { kind: "operator" }): Redirect {
+    const target = this.peek(1);
+    // A redirection can't continue on the next line, so the end here is a newline
+    if (!target || target.kind !== "word") throw unexpected(target ?? { kind: "operator", op: "\n" });
+    this.position += 2;
+    return { fd: token.fd ?? (token.op[0] === "<" ? 0 : 1), op: token.op, target: target.text, hereDocument: token.hereDocument };
+  }
+
+  private parseIf(): IfClause {
+    const clause: IfClause = { kind: "if", branches: [], redirects: [] };
+    do {
+      this.position++;
+      const condition = this.parseBody();
+      this.expectWord("then");
+      const body = this.parseBody();
+      clause.branches.push({ condition, body });
+    } while (this.isWord("elif"));
+
+    if (this.isWord("else")) {
+      this.position++;
+      clause.otherwise = this.parseBody();
+    }
+    this.expectWord("fi");
+    return clause;
+  }
+
+  private parseFor(): ForClause {
+    this.position++;
+    const variable = this.peek();
+    if (variable?.kind !== "word" || !NAME.test(variable.text)) throw unexpected(variable);
+    this.position++;
+
+    let words: string[] | undefined;
+    this.skipNewlines();
+    if (this.isWord("in")) {
+      this.position++;
+      words = [];
+      for (let token = this.peek(); token?.kind === "word"; token = this.peek()) {
+        words.push(token.text);
+        this.position++;
+      }
+      if (!this.isOperator(";", "\n")) throw unexpected(this.peek());
+      this.position++;
+    } else if (this.isOperator(";")) {
+      this.position++;
+    }
+    this.skipNewlines();
+
+    this.expectWord("do");
+    const body = this.parseBody();
+    this.expectWord("done");
+    return { kind: "for", variable: variable.text, words, body, redirects: [] };
+  }
+
+  private parseWhile(): WhileClause {
+    const until = this.isWord("until");
+    this.position++;
+    const condition = this.parseBody();
+    this.expectWord("do");
+    const body = this.parseBody();
+    this.expectWord("done");
+    return { kind: "while", until, condition, body, redirects: [] };
+  }
+
+  private parseCase(): CaseClause {
+    this.position++;
+    const word = this.peek();
+    if (word?.kind !== "word") throw unexpected(word);
+    this.position++;
+    this.skipNewlines();
+    this.expectWord("in");
+    this.skipNewlines();
+
+    const items: CaseClause["items"] = [];
+    while (!this.isWord("esac")) {
+      if (this.isOperator("(")) this.position++;
+      const patterns: string[] = [];
+      for (;;) {
+        const pattern = this.peek();
+        if (pattern?.kind !== "word") throw unexpected(pattern);
+        patterns.push(pattern.text);
+        this.position++;
+        if (!this.isOperator("|")) break;
+        this.position++;
+      }
+      this.expectOperator(")");
+
+      const body = this.parseList();
+      items.push({ patterns, body });
+      if (this.isOperator(";;")) {
+        this.position++;
+        this.skipNewlines();
+      } else if (!this.isWord("esac")) {
+        throw unexpected(this.peek());
+      }
+    }
+    this.position++;
+    return { kind: "case", word: word.text, items, redirects: [] };
+  }
+
+  private parseGroup(): Group {
+    const subshell = this.isOperator("(");
+    this.position++;
+    const body = this.parseBody();
+    if (subshell) {
+      this.expectOperator(")");
+    } else {
+      this.expectWord("}");
+    }
+    return { kind: "group", subshell, body, redirects: [] };
+  }
+
+  // name() body, function name body, or function name() body
+  private parseFunction(): FunctionDefinition {
+    if (this.isWord("function")) this.position++;
+    const name = this.peek();
+    if (name?.kind !== "word" || !NAME.test(name.text)) throw unexpected(name);
+    this.position++;
+    if (this.isOperator("(")) {
+      this.position++;
+      this.expectOperator(")");
+    }
+    this.skipNewlines();
+
+    if (!this.isWord("{", "if", "for", "while", "until", "case") && !this.isOperator("(")) {
+      throw unexpected(this.peek());
+    }
+    return { kind: "function", name: name.text, body: this.parseCommand(), redirects: [] };
+  }
+
+  private parseSimpleCommand(): SimpleCommand {
+    const command: SimpleCommand = { kind: "simple", assignments: [], words: [], redirects: [] };
+
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.kind === "word") {
+        const assignment = command.words.length === 0 ? ASSIGNMENT.exec(token.text) : null;
+        if (assignment) {
+          command.assignments.push({ name: assignment[1], value: token.text.substring(assignment[0].length) });
+        } else {
+          command.words.push(token.text);
+        }
+      } else if (REDIRECTIONS.indexOf(token.op) !== -1) {
+        command.redirects.push(this.parseRedirect(token));
+        continue;
+      } else {
+        break;
+      }
+      this.position++;
+    }
+
+    if (command.assignments.length === 0 && command.words.length === 0 && command.redirects.length === 0) {
+      throw unexpected(this.peek());
+    }
+    return command;
+  }
+}
+
+// Aliases are only expanded when a lookup is given, as in an interactive shell
+export function parseCommandList(tokens: Token[], aliases?: AliasLookup): CommandList {
+  return new Parser(tokens, aliases).parseProgram();
+}
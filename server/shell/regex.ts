@@ -0,0 +1,165 @@
+// POSIX regular expressions as grep, sed and awk take them, translated into
+// JavaScript ones. Basic expressions spell grouping, alternation and
+// intervals with a backslash, \( \| \{; extended ones without.
+
+export class RegexError extends Error {}
+
+// Members of the [:name:] classes, ASCII only
+const CHARACTER_CLASSES: Record<string, string> = {
+  alpha: "A-Za-z", digit: "0-9", alnum: "0-9A-Za-z", upper: "A-Z", lower: "a-z",
+  space: " \\t\\n\\r\\f\\v", blank: " \\t", punct: "!-\\/:-@\\[-`{-~", xdigit: "0-9A-Fa-f",
+  cntrl: "\\x00-\\x1f\\x7f", print: " -~", graph: "!-~",
+};
+
+// Characters a basic expression only treats as operators after a backslash
+const BASIC_ESCAPED = "(){}|+?";
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\\/-]/g, "\\$&");
+}
+
+// A bracket expression starting at start: its JavaScript form and the index
+// of its closing "]". Backslashes inside one are ordinary characters.
+function bracketExpression(pattern: string, start: number): { source: string; end: number } {
+  let i = start + 1;
+  let source = "[";
+  if (pattern[i] === "^") {
+    source += "^";
+    i++;
+  }
+  if (pattern[i] === "]") {
+    source += "\\]";
+    i++;
+  }
+  while (i < pattern.length && pattern[i] !== "]") {
+    const named = /^\[([:=.])([a-z]+|.)\1\]/.exec(pattern.substring(i));
+    if (named) {
+      if (named[1] === ":") {
+        const members = CHARACTER_CLASSES[named[2]];
+        if (members === undefined) throw new RegexError("Invalid character class name");
+        source += members;
+      } else {
+        source += escapeRegExp(named[2]);
+      }
+      i += named[0].length;
+      continue;
+    }
+    const char = pattern[i];
+    source += char === "\\" || char === "[" || char === "^" ? `\\${char}` : char;
+    i++;
+  }
+  if (i >= pattern.length) throw new RegexError("Unmatched [, [^, [:, [., or [=");
+  return { source: source + "]", end: i };
+}
+
+// The JavaScript source for a POSIX pattern
+export function posixToSource(pattern: string, extended: boolean): string {
+  let source = "";
+  // Where "*" is literal and, in a basic expression, "^" an anchor: the
+  // start of the pattern, of a group or of an alternative
+  let atStart = true;
+  let depth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    let operator: string | undefined;
+    let literal: string | undefined;
+
+    if (char === "\\") {
+      const next = pattern[++i];
+      if (next === undefined) throw new RegexError("Trailing backslash");
+      if (!extended && BASIC_ESCAPED.indexOf(next) !== -1) {
+        operator = next;
+      } else if (next === "<") {
+        source += "\\b(?=\\w)";
+        continue;
+      } else if (next === ">") {
+        source += "\\b(?<=\\w)";
+        continue;
+      } else if (/[1-9wWsSbBnt]/.test(next)) {
+        // Back-references, GNU's class shorthands, and \n and \t for the
+        // newlines and tabs sed's pattern space can hold
+        source += `\\${next}`;
+        atStart = false;
+        continue;
+      } else {
+        literal = next;
+      }
+    } else if (extended && BASIC_ESCAPED.indexOf(char) !== -1) {
+      operator = char;
+    } else {
+      literal = char;
+    }
+
+    if (operator !== undefined) {
+      if (operator === "(") {
+        depth++;
+        source += "(";
+        atStart = true;
+        continue;
+      }
+      if (operator === ")") {
+        if (depth === 0) {
+          if (!extended) throw new RegexError("Unmatched ) or \\)");
+          source += "\\)";
+        } else {
+          depth--;
+          source += ")";
+        }
+      } else if (operator === "|") {
+        source += "|";
+        atStart = true;
+        continue;
+      } else if (operator === "{" && !/^\d+(,\d*)?\\?\}/.test(pattern.substring(i + 1))) {
+        // Only a well-formed interval counts as one
+        if (!extended) throw new RegexError("Invalid preceding regular expression");
+        source += "\\{";
+      } else if ((operator === "+" || operator === "?" || operator === "{") && atStart) {
+        source += escapeRegExp(operator);
+      } else {
+        source += operator;
+      }
+      atStart = false;
+      continue;
+    }
+
+    const text = literal as string;
+    if (char === "\\") {
+      source += escapeRegExp(text);
+    } else if (text === "[") {
+      const bracket = bracketExpression(pattern, i);
+      source += bracket.source;
+      i = bracket.end;
+    } else if (text === "*") {
+      source += atStart ? "\\*" : "*";
+    } else if (text === "^") {
+      source += extended || atStart ? "^" : "\\^";
+      if (!extended && atStart) continue;
+    } else if (text === "$") {
+      const rest = pattern.substring(i + 1);
+      const atEnd = rest === "" || (!extended && (rest.substring(0, 2) === "\\)" || rest.substring(0, 2) === "\\|"));
+      source += extended || atEnd ? "$" : "\\$";
+    } else if (text === ".") {
+      source += ".";
+    } else {
+      source += escapeRegExp(text);
+    }
+    atStart = false;
+  }
+
+  if (depth > 0) throw new RegexError("Unmatched ( or \\(");
+  return source;
+}
+
+export function posixToRegExp(pattern: string, extended: boolean, flags = ""): RegExp {
+  const source = posixToSource(pattern, extended);
+  try {
+    return new RegExp(source, flags);
+  } catch (error) {
+    throw new RegexError(error instanceof Error ? error.message.replace(/^Invalid regular expression: /, "") : String(error));
+  }
+}
+
+export function fixedToSource(text: string): string {
+  return escapeRegExp(text);
+}
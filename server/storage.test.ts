@@ -0,0 +1,118 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { cpSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import { DatabaseStorage } from "./storage";
+import type { Database } from "./db";
+
+// DatabaseStorage against a real Postgres, running in-process through PGlite
+async function newDatabase() {
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+  return { client, db, storage: new DatabaseStorage(db as unknown as Database) };
+}
+
+// A copy of migrations/ holding only the first count migrations
+function migrationsUpTo(count: number): string {
+  const folder = mkdtempSync(join(tmpdir(), "migrations-"));
+  cpSync("migrations", folder, { recursive: true });
+  const journalPath = join(folder, "meta", "_journal.json");
+  const journal = JSON.parse(readFileSync(journalPath, "utf8"));
+  journal.entries = journal.entries.slice(0, count);
+  writeFileSync(journalPath, JSON.stringify(journal));
+  return folder;
+}
+
+test("migrations build the schema DatabaseStorage works against", async () => {
+  const { storage } = await newDatabase();
+  await storage.migrate();
+
+  const session = await storage.createTerminalSession({});
+  await storage.initializeFileSystem(session.id);
+  const home = await storage.getDirectoryContents(session.id, "/home/user");
+  assert.ok(home.some(item => item.name === ".bashrc"));
+
+  const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff]);
+  await storage.createFileSystemItem(session.id, { path: "/home/user/a.png", name: "a.png", type: "file", content: bytes, permissions: "-rw-r--r--" });
+  const file = await storage.getFileSystemItem(session.id, "/home/user/a.png");
+  assert.deepEqual(file?.content, bytes);
+  assert.equal(file?.size, bytes.length);
+  assert.equal(file?.mimeType, "image/png");
+
+  assert.equal(await storage.moveSubtree(session.id, "/home/user", "/home/moved"), true);
+  assert.equal(await storage.fileSystemItemExists(session.id, "/home/moved/a.png"), true);
+  assert.equal(await storage.deleteSubtree(session.id, "/home/moved/Documents"), 1);
+
+  // Other owners don't see the session's files
+  assert.equal(await storage.fileSystemItemExists("someone-else", "/home/moved/a.png"), false);
+});
+
+test("moveSubtree keeps the destination when the source is missing", async () => {
+  const { storage } = await newDatabase();
+  await storage.migrate();
+  await storage.initializeFileSystem("owner");
+
+  assert.equal(await storage.moveSubtree("owner", "/home/user/missing", "/home/user/Documents", { replace: true }), false);
+  assert.equal(await storage.fileSystemItemExists("owner", "/home/user/Documents"), true);
+});
+
+test("migrating gives files written before owners existed to every session", async () => {
+  const { client, db, storage } = await newDatabase();
+  await migrate(db, { migrationsFolder: migrationsUpTo(1) });
+  await client.exec(`
+    INSERT INTO terminal_sessions (id) VALUES ('first'), ('second');
+    INSERT INTO file_system (path, name, type, content, size) VALUES
+      ('/', '/', 'directory', NULL, '4096'),
+      ('/home', 'home', 'directory', NULL, '4096'),
+      ('/home/notes.txt', 'notes.txt', 'file', 'héllo', '5');
+  `);
+
+  await storage.migrate();
+  for (const owner of ["first", "second"]) {
+    const notes = await storage.getFileSystemItem(owner, "/home/notes.txt");
+    assert.equal(notes?.content?.toString("utf8"), "héllo");
+    assert.equal(notes?.size, 6);
+    assert.equal(notes?.parentPath, "/home");
+    assert.equal(notes?.mimeType, "text/plain");
+    assert.deepEqual((await storage.getDirectoryContents(owner, "/")).map(item => item.name), ["home"]);
+  }
+});
+
+// Runs migration files the way "npm run db:push" creates tables: without
+// drizzle's record of them
+async function pushSchema(client: PGlite, count: number) {
+  const journal = JSON.parse(readFileSync("migrations/meta/_journal.json", "utf8"));
+  for (const entry of journal.entries.slice(0, count)) {
+    const statements = readFileSync(join("migrations", `${entry.tag}.sql`), "utf8").split("--> statement-breakpoint");
+    for (const statement of statements) {
+      await client.exec(statement);
+    }
+  }
+}
+
+test("migrating a database set up with db:push before owners existed", async () => {
+  const { client, storage } = await newDatabase();
+  await pushSchema(client, 1);
+  await client.exec(`
+    INSERT INTO terminal_sessions (id) VALUES ('only');
+    INSERT INTO file_system (path, name, type, content, size) VALUES ('/', '/', 'directory', NULL, '4096');
+  `);
+
+  await storage.migrate();
+  assert.equal((await storage.getFileSystemItem("only", "/"))?.type, "directory");
+  // Later starts find everything recorded
+  await storage.migrate();
+});
+
+test("migrating a database set up with db:push from the current schema", async () => {
+  const { client, storage } = await newDatabase();
+  await pushSchema(client, 2);
+  await storage.migrate();
+  const session = await storage.createTerminalSession({});
+  assert.equal((await storage.getTerminalSession(session.id))?.id, session.id);
+});
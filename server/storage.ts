@@ -1,5 +1,9 @@
-import { type User, type InsertUser, type TerminalSession, type InsertTerminalSession, type FileSystemItem, type InsertFileSystemItem, type CommandResult } from "@shared/schema";
+import { type User, type InsertUser, type TerminalSession, type InsertTerminalSession, type FileSystemItem, type InsertFileSystemItem, type CommandResult, users, terminalSessions, fileSystem } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, eq, like, or, sql, type SQL } from "drizzle-orm";
+import { createDatabase, migrateDatabase, type Database } from "./db";
+import { detectMimeType } from "./mime";
+import { basename, dirname, isSameOrInside } from "@shared/path";
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
@@ -11,57 +15,173 @@ export interface IStorage {
   createTerminalSession(session: InsertTerminalSession): Promise<TerminalSession>;
   updateTerminalSession(id: string, updates: Partial<TerminalSession>): Promise<TerminalSession | undefined>;
   
-  // File system methods
-  getFileSystemItem(path: string): Promise<FileSystemItem | undefined>;
-  getDirectoryContents(path: string): Promise<FileSystemItem[]>;
-  createFileSystemItem(item: InsertFileSystemItem): Promise<FileSystemItem>;
-  updateFileSystemItem(path: string, updates: Partial<FileSystemItem>): Promise<FileSystemItem | undefined>;
-  deleteFileSystemItem(path: string): Promise<boolean>;
-  fileSystemItemExists(path: string): Promise<boolean>;
+  // File system methods, scoped to the owner (user or anonymous session) of the tree
+  initializeFileSystem(owner: string): Promise<void>;
+  getFileSystemItem(owner: string, path: string): Promise<FileSystemItem | undefined>;
+  getDirectoryContents(owner: string, path: string): Promise<FileSystemItem[]>;
+  createFileSystemItem(owner: string, item: InsertFileSystemItem): Promise<FileSystemItem>;
+  updateFileSystemItem(owner: string, path: string, updates: Partial<FileSystemItem>): Promise<FileSystemItem | undefined>;
+  deleteFileSystemItem(owner: string, path: string): Promise<boolean>;
+  fileSystemItemExists(owner: string, path: string): Promise<boolean>;
+  // The item at path followed by all of its descendants, parents before children
+  getSubtree(owner: string, path: string): Promise<FileSystemItem[]>;
+  // Rename a whole subtree in one step; false if the source is missing, the destination is
+  // taken (unless replacing it) or lies inside the source
+  moveSubtree(owner: string, from: string, to: string, options?: { replace?: boolean }): Promise<boolean>;
+  // Copy a whole subtree in one step, merging into whatever already exists at the destination
+  copySubtree(owner: string, from: string, to: string, options?: { overwrite?: boolean }): Promise<boolean>;
+  // Delete an item and everything below it, returning how many entries were removed
+  deleteSubtree(owner: string, path: string): Promise<number>;
+}
+
+function parentPathOf(path: string): string | null {
+  return path === '/' ? null : dirname(path);
+}
+
+// Size and MIME type always come from the bytes actually stored, never from callers
+function contentMetadata(item: { name: string; type: string; content?: Buffer | null }) {
+  if (item.type === 'directory') {
+    return { content: null, size: 4096, mimeType: 'inode/directory' };
+  }
+  const content = item.content ?? Buffer.alloc(0);
+  return { content, size: content.length, mimeType: detectMimeType(item.name, content) };
+}
+
+// Re-roots a path that lies inside `from` onto `to`
+function rebasePath(path: string, from: string, to: string): string {
+  return to + path.substring(from.length);
+}
+
+// Startup files a new session sources, .profile first
+const defaultProfile = `# ~/.profile: read when a new session starts
+
+export EDITOR=nano
+`;
+
+const defaultBashrc = `# ~/.bashrc: read when a new session starts, after ~/.profile
+
+PS1='\\[\\e[33m\\]\\u@\\h\\[\\e[0m\\]:\\[\\e[34m\\]\\w\\[\\e[0m\\]\\$ '
+
+alias ll='ls -l'
+alias la='ls -a'
+alias grep='grep --color=auto'
+`;
+
+// Basic directory structure every owner's file system starts from
+const defaultFileSystem: InsertFileSystemItem[] = [
+  { path: "/", name: "/", type: "directory", content: null, permissions: "drwxr-xr-x" },
+  { path: "/home", name: "home", type: "directory", content: null, permissions: "drwxr-xr-x" },
+  { path: "/home/user", name: "user", type: "directory", content: null, permissions: "drwxr-xr-x" },
+  { path: "/home/user/Documents", name: "Documents", type: "directory", content: null, permissions: "drwxr-xr-x" },
+  { path: "/home/user/Projects", name: "Projects", type: "directory", content: null, permissions: "drwxr-xr-x" },
+  { path: "/home/user/.bashrc", name: ".bashrc", type: "file", content: Buffer.from(defaultBashrc), permissions: "-rw-r--r--" },
+  { path: "/home/user/.profile", name: ".profile", type: "file", content: Buffer.from(defaultProfile), permissions: "-rw-r--r--" },
+  { path: "/home/user/.bash_logout", name: ".bash_logout", type: "file", content: Buffer.from("# logout"), permissions: "-rw-r--r--" },
+  // Where pages that take the place of man's generated ones go
+  { path: "/usr", name: "usr", type: "directory", content: null, permissions: "drwxr-xr-x" },
+  { path: "/usr/share", name: "share", type: "directory", content: null, permissions: "drwxr-xr-x" },
+  { path: "/usr/share/man", name: "man", type: "directory", content: null, permissions: "drwxr-xr-x" },
+  { path: "/usr/share/man/man1", name: "man1", type: "directory", content: null, permissions: "drwxr-xr-x" },
+];
+
+// One owner's file system: items by path plus an index of each directory's
+// children, so listings and subtree walks never scan unrelated entries
+class MemFileTree {
+  private items = new Map<string, FileSystemItem>();
+  private children = new Map<string, Set<string>>();
+
+  get size(): number {
+    return this.items.size;
+  }
+
+  get(path: string): FileSystemItem | undefined {
+    return this.items.get(path);
+  }
+
+  has(path: string): boolean {
+    return this.items.has(path);
+  }
+
+  set(item: FileSystemItem): void {
+    this.items.set(item.path, item);
+    if (item.parentPath !== null) {
+      let siblings = this.children.get(item.parentPath);
+      if (!siblings) {
+        siblings = new Set();
+        this.children.set(item.parentPath, siblings);
+      }
+      siblings.add(item.path);
+    }
+  }
+
+  delete(path: string): boolean {
+    const item = this.items.get(path);
+    if (!item) return false;
+    this.items.delete(path);
+    if (item.parentPath !== null) {
+      this.children.get(item.parentPath)?.delete(path);
+    }
+    return true;
+  }
+
+  list(path: string): FileSystemItem[] {
+    const childPaths = this.children.get(path);
+    if (!childPaths) return [];
+    return Array.from(childPaths, childPath => this.items.get(childPath)!);
+  }
+
+  subtree(path: string): FileSystemItem[] {
+    const root = this.items.get(path);
+    if (!root) return [];
+    const result: FileSystemItem[] = [];
+    const stack = [root];
+    while (stack.length > 0) {
+      const item = stack.pop()!;
+      result.push(item);
+      // Push in reverse so children come out in name order
+      stack.push(...this.list(item.path).sort((a, b) => b.path.localeCompare(a.path)));
+    }
+    return result;
+  }
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private terminalSessions: Map<string, TerminalSession>;
-  private fileSystem: Map<string, FileSystemItem>;
+  private fileSystems: Map<string, MemFileTree>;
 
   constructor() {
     this.users = new Map();
     this.terminalSessions = new Map();
-    this.fileSystem = new Map();
-    this.initializeFileSystem();
+    this.fileSystems = new Map();
+  }
+
+  private fileSystem(owner: string): MemFileTree {
+    let tree = this.fileSystems.get(owner);
+    if (!tree) {
+      tree = new MemFileTree();
+      this.fileSystems.set(owner, tree);
+    }
+    return tree;
   }
 
-  private initializeFileSystem() {
-    // Create basic directory structure
+  async initializeFileSystem(owner: string): Promise<void> {
+    const tree = this.fileSystem(owner);
+    if (tree.size > 0) return;
+
     const now = new Date();
-    const rootDirs = [
-      { path: "/", name: "/", type: "directory", permissions: "drwxr-xr-x" },
-      { path: "/home", name: "home", type: "directory", permissions: "drwxr-xr-x" },
-      { path: "/home/user", name: "user", type: "directory", permissions: "drwxr-xr-x" },
-      { path: "/home/user/Documents", name: "Documents", type: "directory", permissions: "drwxr-xr-x" },
-      { path: "/home/user/Projects", name: "Projects", type: "directory", permissions: "drwxr-xr-x" },
-    ];
-
-    const files = [
-      { path: "/home/user/.bashrc", name: ".bashrc", type: "file", content: "# .bashrc", permissions: "-rw-r--r--", size: "3526" },
-      { path: "/home/user/.profile", name: ".profile", type: "file", content: "# .profile", permissions: "-rw-r--r--", size: "807" },
-      { path: "/home/user/.bash_logout", name: ".bash_logout", type: "file", content: "# logout", permissions: "-rw-r--r--", size: "220" },
-    ];
-
-    [...rootDirs, ...files].forEach(item => {
+    defaultFileSystem.forEach(item => {
       const fileItem: FileSystemItem = {
         id: randomUUID(),
-        path: item.path,
-        name: item.name,
-        type: item.type as "file" | "directory",
-        content: item.type === "file" ? (item as any).content : null,
-        permissions: item.permissions,
-        size: item.type === "file" ? (item as any).size : "4096",
+        owner,
+        permissions: "-rw-r--r--",
+        ...item,
+        ...contentMetadata(item),
+        parentPath: parentPathOf(item.path),
         createdAt: now,
         updatedAt: now,
       };
-      this.fileSystem.set(item.path, fileItem);
+      tree.set(fileItem);
     });
   }
 
@@ -92,6 +212,9 @@ export class MemStorage implements IStorage {
     const terminalSession: TerminalSession = { 
       currentDirectory: "/home/user",
       commandHistory: [] as string[],
+      scrollback: [],
+      environment: {},
+      aliases: {},
       userId: null,
       ...session, 
       id, 
@@ -115,54 +238,379 @@ export class MemStorage implements IStorage {
     return updatedSession;
   }
 
-  async getFileSystemItem(path: string): Promise<FileSystemItem | undefined> {
-    return this.fileSystem.get(path);
+  async getFileSystemItem(owner: string, path: string): Promise<FileSystemItem | undefined> {
+    return this.fileSystem(owner).get(path);
   }
 
-  async getDirectoryContents(path: string): Promise<FileSystemItem[]> {
+  async getDirectoryContents(owner: string, path: string): Promise<FileSystemItem[]> {
     const normalizedPath = path.endsWith('/') && path !== '/' ? path.slice(0, -1) : path;
-    return Array.from(this.fileSystem.values()).filter(item => {
-      const itemDir = item.path.substring(0, item.path.lastIndexOf('/')) || '/';
-      return itemDir === normalizedPath && item.path !== normalizedPath;
-    });
+    return this.fileSystem(owner).list(normalizedPath);
   }
 
-  async createFileSystemItem(item: InsertFileSystemItem): Promise<FileSystemItem> {
+  async createFileSystemItem(owner: string, item: InsertFileSystemItem): Promise<FileSystemItem> {
     const id = randomUUID();
     const now = new Date();
     const fileItem: FileSystemItem = { 
       permissions: "-rw-r--r--",
-      size: "0",
-      content: null,
       ...item, 
+      ...contentMetadata(item),
       id, 
+      owner,
+      parentPath: parentPathOf(item.path),
       createdAt: now, 
       updatedAt: now 
     };
-    this.fileSystem.set(item.path, fileItem);
+    this.fileSystem(owner).set(fileItem);
     return fileItem;
   }
 
-  async updateFileSystemItem(path: string, updates: Partial<FileSystemItem>): Promise<FileSystemItem | undefined> {
-    const item = this.fileSystem.get(path);
+  async updateFileSystemItem(owner: string, path: string, updates: Partial<FileSystemItem>): Promise<FileSystemItem | undefined> {
+    const tree = this.fileSystem(owner);
+    const item = tree.get(path);
     if (!item) return undefined;
     
+    const merged = { ...item, ...updates };
     const updatedItem: FileSystemItem = { 
-      ...item, 
-      ...updates, 
+      ...merged, 
+      ...contentMetadata(merged),
+      owner,
+      path: item.path,
+      parentPath: item.parentPath,
       updatedAt: new Date() 
     };
-    this.fileSystem.set(path, updatedItem);
+    tree.set(updatedItem);
     return updatedItem;
   }
 
-  async deleteFileSystemItem(path: string): Promise<boolean> {
-    return this.fileSystem.delete(path);
+  async deleteFileSystemItem(owner: string, path: string): Promise<boolean> {
+    return this.fileSystem(owner).delete(path);
+  }
+
+  async fileSystemItemExists(owner: string, path: string): Promise<boolean> {
+    return this.fileSystem(owner).has(path);
+  }
+
+  async getSubtree(owner: string, path: string): Promise<FileSystemItem[]> {
+    return this.fileSystem(owner).subtree(path);
+  }
+
+  async moveSubtree(owner: string, from: string, to: string, options: { replace?: boolean } = {}): Promise<boolean> {
+    const tree = this.fileSystem(owner);
+    if (from === '/' || !tree.has(from) || isSameOrInside(to, from) || (tree.has(to) && !options.replace)) {
+      return false;
+    }
+
+    tree.subtree(to).forEach(item => tree.delete(item.path));
+    const now = new Date();
+    const items = tree.subtree(from);
+    items.forEach(item => tree.delete(item.path));
+    items.forEach(item => {
+      const path = rebasePath(item.path, from, to);
+      tree.set({
+        ...item,
+        path,
+        parentPath: parentPathOf(path),
+        name: basename(path),
+        updatedAt: item.path === from ? now : item.updatedAt,
+      });
+    });
+    return true;
+  }
+
+  async copySubtree(owner: string, from: string, to: string, options: { overwrite?: boolean } = {}): Promise<boolean> {
+    const tree = this.fileSystem(owner);
+    if (!tree.has(from) || isSameOrInside(to, from)) {
+      return false;
+    }
+
+    const now = new Date();
+    tree.subtree(from).forEach(item => {
+      const path = rebasePath(item.path, from, to);
+      if (tree.has(path) && options.overwrite === false) return;
+      tree.set({
+        ...item,
+        id: randomUUID(),
+        path,
+        parentPath: parentPathOf(path),
+        name: basename(path),
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+    return true;
+  }
+
+  async deleteSubtree(owner: string, path: string): Promise<number> {
+    const tree = this.fileSystem(owner);
+    const items = tree.subtree(path);
+    items.forEach(item => tree.delete(item.path));
+    return items.length;
+  }
+}
+
+// LIKE treats % and _ as wildcards, so escape them before matching on path prefixes
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => "\\" + char);
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async migrate(): Promise<void> {
+    await migrateDatabase(this.db);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getTerminalSession(id: string): Promise<TerminalSession | undefined> {
+    const [session] = await this.db.select().from(terminalSessions).where(eq(terminalSessions.id, id));
+    return session;
+  }
+
+  async createTerminalSession(session: InsertTerminalSession): Promise<TerminalSession> {
+    const [terminalSession] = await this.db
+      .insert(terminalSessions)
+      .values(session)
+      .returning();
+    return terminalSession;
+  }
+
+  async updateTerminalSession(id: string, updates: Partial<TerminalSession>): Promise<TerminalSession | undefined> {
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const [session] = await this.db
+      .update(terminalSessions)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(terminalSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async initializeFileSystem(owner: string): Promise<void> {
+    await this.db
+      .insert(fileSystem)
+      .values(defaultFileSystem.map(item => ({
+        ...item,
+        ...contentMetadata(item),
+        owner,
+        parentPath: parentPathOf(item.path),
+      })))
+      .onConflictDoNothing({ target: [fileSystem.owner, fileSystem.path] });
+  }
+
+  async getFileSystemItem(owner: string, path: string): Promise<FileSystemItem | undefined> {
+    const [item] = await this.db
+      .select()
+      .from(fileSystem)
+      .where(and(eq(fileSystem.owner, owner), eq(fileSystem.path, path)));
+    return item;
+  }
+
+  async getDirectoryContents(owner: string, path: string): Promise<FileSystemItem[]> {
+    const normalizedPath = path.endsWith('/') && path !== '/' ? path.slice(0, -1) : path;
+    return this.db
+      .select()
+      .from(fileSystem)
+      .where(and(eq(fileSystem.owner, owner), eq(fileSystem.parentPath, normalizedPath)));
+  }
+
+  async createFileSystemItem(owner: string, item: InsertFileSystemItem): Promise<FileSystemItem> {
+    const now = new Date();
+    const values = { permissions: "-rw-r--r--", ...item, ...contentMetadata(item) };
+    // Creating over an existing path replaces it, matching MemStorage
+    const [fileItem] = await this.db
+      .insert(fileSystem)
+      .values({ ...values, owner, parentPath: parentPathOf(item.path) })
+      .onConflictDoUpdate({
+        target: [fileSystem.owner, fileSystem.path],
+        set: {
+          ...values,
+          createdAt: now,
+          updatedAt: now,
+        },
+      })
+      .returning();
+    return fileItem;
   }
 
-  async fileSystemItemExists(path: string): Promise<boolean> {
-    return this.fileSystem.has(path);
+  async updateFileSystemItem(owner: string, path: string, updates: Partial<FileSystemItem>): Promise<FileSystemItem | undefined> {
+    // Paths only change through moveSubtree so the parent index stays consistent
+    const {
+      id: _id, owner: _owner, path: _path, parentPath: _parentPath, createdAt: _createdAt,
+      size: _size, mimeType: _mimeType, ...changes
+    } = updates;
+
+    if (changes.content !== undefined || changes.type !== undefined || changes.name !== undefined) {
+      const existing = await this.getFileSystemItem(owner, path);
+      if (!existing) return undefined;
+      Object.assign(changes, contentMetadata({ ...existing, ...changes }));
+    }
+
+    const [item] = await this.db
+      .update(fileSystem)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(fileSystem.owner, owner), eq(fileSystem.path, path)))
+      .returning();
+    return item;
+  }
+
+  async deleteFileSystemItem(owner: string, path: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(fileSystem)
+      .where(and(eq(fileSystem.owner, owner), eq(fileSystem.path, path)))
+      .returning({ id: fileSystem.id });
+    return deleted.length > 0;
+  }
+
+  async fileSystemItemExists(owner: string, path: string): Promise<boolean> {
+    const [item] = await this.db
+      .select({ id: fileSystem.id })
+      .from(fileSystem)
+      .where(and(eq(fileSystem.owner, owner), eq(fileSystem.path, path)))
+      .limit(1);
+    return item !== undefined;
+  }
+
+  private subtreeCondition(owner: string, path: string): SQL | undefined {
+    if (path === '/') {
+      return eq(fileSystem.owner, owner);
+    }
+    return and(
+      eq(fileSystem.owner, owner),
+      or(eq(fileSystem.path, path), like(fileSystem.path, escapeLike(path) + '/%')),
+    );
+  }
+
+  async getSubtree(owner: string, path: string): Promise<FileSystemItem[]> {
+    // Byte-wise ordering always sorts a directory before anything inside it
+    return this.db
+      .select()
+      .from(fileSystem)
+      .where(this.subtreeCondition(owner, path))
+      .orderBy(sql`${fileSystem.path} collate "C"`);
   }
+
+  async moveSubtree(owner: string, from: string, to: string, options: { replace?: boolean } = {}): Promise<boolean> {
+    if (from === '/' || isSameOrInside(to, from)) {
+      return false;
+    }
+
+    return this.db.transaction(async (tx) => {
+      // Check the source first, so a failed move never costs the destination
+      const [source] = await tx
+        .select({ id: fileSystem.id })
+        .from(fileSystem)
+        .where(and(eq(fileSystem.owner, owner), eq(fileSystem.path, from)))
+        .limit(1);
+      if (!source) return false;
+
+      const [destination] = await tx
+        .select({ id: fileSystem.id })
+        .from(fileSystem)
+        .where(and(eq(fileSystem.owner, owner), eq(fileSystem.path, to)))
+        .limit(1);
+      if (destination) {
+        if (!options.replace) return false;
+        await tx.delete(fileSystem).where(this.subtreeCondition(owner, to));
+      }
+
+      // One UPDATE re-roots every row; SET expressions see the pre-update values
+      const suffixStart = from.length + 1;
+      const moved = await tx
+        .update(fileSystem)
+        .set({
+          path: sql`${to}::text || substring(${fileSystem.path} from ${suffixStart}::int)`,
+          parentPath: sql`case when ${fileSystem.path} = ${from} then ${parentPathOf(to)}::text
+            else ${to}::text || substring(${fileSystem.parentPath} from ${suffixStart}::int) end`,
+          name: sql`case when ${fileSystem.path} = ${from} then ${basename(to)}::text else ${fileSystem.name} end`,
+          updatedAt: sql`case when ${fileSystem.path} = ${from} then now() else ${fileSystem.updatedAt} end`,
+        })
+        .where(this.subtreeCondition(owner, from))
+        .returning({ id: fileSystem.id });
+      return moved.length > 0;
+    });
+  }
+
+  async copySubtree(owner: string, from: string, to: string, options: { overwrite?: boolean } = {}): Promise<boolean> {
+    if (isSameOrInside(to, from)) {
+      return false;
+    }
+
+    return this.db.transaction(async (tx) => {
+      const items = await tx
+        .select()
+        .from(fileSystem)
+        .where(this.subtreeCondition(owner, from));
+      if (items.length === 0) return false;
+
+      const now = new Date();
+      const rows = items.map(({ id: _id, ...item }) => {
+        const path = rebasePath(item.path, from, to);
+        return { ...item, path, parentPath: parentPathOf(path), name: basename(path), createdAt: now, updatedAt: now };
+      });
+
+      // Stay well below PostgreSQL's bind parameter limit on large trees
+      for (let i = 0; i < rows.length; i += 1000) {
+        const insert = tx.insert(fileSystem).values(rows.slice(i, i + 1000));
+        if (options.overwrite === false) {
+          await insert.onConflictDoNothing({ target: [fileSystem.owner, fileSystem.path] });
+        } else {
+          await insert.onConflictDoUpdate({
+            target: [fileSystem.owner, fileSystem.path],
+            set: {
+              type: sql`excluded.type`,
+              content: sql`excluded.content`,
+              mimeType: sql`excluded.mime_type`,
+              permissions: sql`excluded.permissions`,
+              size: sql`excluded.size`,
+              updatedAt: now,
+            },
+          });
+        }
+      }
+      return true;
+    });
+  }
+
+  async deleteSubtree(owner: string, path: string): Promise<number> {
+    const deleted = await this.db
+      .delete(fileSystem)
+      .where(this.subtreeCondition(owner, path))
+      .returning({ id: fileSystem.id });
+    return deleted.length;
+  }
+}
+
+// Use PostgreSQL when a database is configured so files, users and sessions
+// survive restarts; fall back to in-memory storage for local development.
+function createStorage(): IStorage {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (databaseUrl) {
+    console.log("Using PostgreSQL storage");
+    return new DatabaseStorage(createDatabase(databaseUrl));
+  }
+  console.log("DATABASE_URL not set, using in-memory storage");
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
+
+// Applies pending migrations before the server uses the database; in-memory
+// storage has nothing to migrate
+export async function prepareStorage(): Promise<void> {
+  if (storage instanceof DatabaseStorage) {
+    await storage.migrate();
+  }
+}
@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { newShell } from "./testing";
+
+test("the stored scrollback cuts long outputs short and stays under its byte limit", async () => {
+  const shell = await newShell();
+  const output = 'é'.repeat(20000);
+  for (let i = 0; i < 30; i++) {
+    await shell.saveSession('cat big.txt', { output, currentDirectory: shell.currentDirectory, success: true, exitCode: 0 });
+  }
+
+  const { scrollback } = shell.getSessionState();
+  const stored = scrollback[scrollback.length - 1].result.output;
+  assert.match(stored, /\n\[output truncated: 40000 bytes\]$/);
+  assert.ok(!stored.includes('\uFFFD'));
+  assert.ok(scrollback.length < 30);
+  assert.ok(Buffer.byteLength(JSON.stringify(scrollback)) <= 256 * 1024);
+
+  const saved = await storage.getTerminalSession(shell.sessionId);
+  assert.deepEqual(saved?.scrollback, scrollback);
+});
+
+test("here-documents expand unless their delimiter is quoted", async () => {
+  const shell = await newShell();
+  await shell.executeCommand("name=world");
+  assert.equal((await shell.executeCommand("cat <<EOF\nhello $name\n$((1 + 1)) `echo ok`\nEOF")).output, "hello world\n2 ok");
+  assert.equal((await shell.executeCommand("cat <<'EOF'\nhello $name\nEOF")).output, "hello $name");
+  assert.equal((await shell.executeCommand("cat <<-END\n\t\tindented\n\tEND")).output, "indented");
+  assert.equal((await shell.executeCommand("tr a-z A-Z <<< \"$name\"")).output, "WORLD");
+  assert.equal((await shell.executeCommand("cat <<A; cat <<B\none\nA\ntwo\nB")).output, "one\ntwo");
+
+  // Without its delimiter the here-document waits for more lines
+  const unfinished = await shell.executeCommand("cat <<EOF\nno end");
+  assert.equal(unfinished.incomplete, true);
+  assert.equal(unfinished.prompt, "> ");
+});
+
+test("command substitution captures output without its trailing newlines", async () => {
+  const shell = await newShell();
+  assert.equal((await shell.executeCommand('files=$(printf "a\\nb\\n\\n"); echo "[$files]"')).output, "[a\nb]");
+  assert.equal((await shell.executeCommand("echo $(echo $(echo nested)) `echo back`")).output, "nested back");
+  assert.equal((await shell.executeCommand('words=$(echo "x   y"); echo $words; echo "$words"')).output, "x y\nx   y");
+  assert.equal((await shell.executeCommand("x=$(false); echo $?")).output, "1");
+  assert.equal((await shell.executeCommand("mkdir -p sub; x=$(cd sub; pwd); echo $x $(pwd)")).output, "/home/user/sub /home/user");
+});
+
+test("a failing pipeline's output stays on stdout", async () => {
+  const shell = await newShell();
+  const result = await shell.executeCommand("echo found | grep -c missing; echo $?");
+  assert.equal(result.output, "0\n1");
+  assert.equal(result.stderr, "");
+  assert.equal((await shell.executeCommand("echo a | grep -c b > count.txt; cat count.txt")).output, "0");
+});
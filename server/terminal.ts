@@ -0,0 +1,1252 @@
+// The shell behind a terminal session: its state, the interpreter for parsed
+// command lines, and dispatch to the commands in its registry
+
+import { storage } from "./storage";
+import { tokenize, ShellSyntaxError } from "./shell/lexer";
+import { parseCommandList, type AliasLookup, type CaseClause, type Command, type CommandList, type ForClause, type Group, type IfClause, type Pipeline, type Redirect, type SimpleCommand, type WhileClause } from "./shell/parser";
+import { ExpansionError, expandHereDocument, expandPattern, expandValue, expandWord, expandWords, type ExpansionContext } from "./shell/expand";
+import { ArithmeticError } from "./shell/arithmetic";
+import { matchGlob } from "./shell/glob";
+import { InputStream, resultStreams, exitStatus, toStream } from "./shell/io";
+import { expandHistory, parseHistoryFile, formatHistoryFile, historyTime, HistoryError, type HistoryEntry } from "./shell/history";
+import { ProcessTable, SIGNALS, formatJob, type Job, type Process } from "./shell/jobs";
+import { lookup } from "./commands/util";
+import type { CommandRegistry } from "./commands/registry";
+import { formatUsage } from "./commands/manual";
+import { resolvePath, basename, joinPath, isSameOrInside, ancestorsOf, HOME_DIRECTORY } from "@shared/path";
+import type { CommandResult, TerminalSession, TerminalSessionState, ScrollbackEntry } from "@shared/schema";
+
+// Signed-in users keep one file system across sessions; anonymous sessions get their own
+export function fileSystemOwner(session: TerminalSession): string {
+  return session.userId ?? session.id;
+}
+
+// Where a command's stdout or stderr ends up once redirections are applied
+type OutputTarget =
+  | { kind: 'stdout' }
+  | { kind: 'stderr' }
+  | { kind: 'null' }
+  | { kind: 'file'; path: string; chunks: string[] };
+
+// Options turned on and off by set
+export interface ShellOptions {
+  // -e: leave the script when a command fails
+  errexit: boolean;
+  // -u: expanding an unset variable is an error
+  nounset: boolean;
+  // -x: show each command before it runs
+  xtrace: boolean;
+}
+
+// The environment a new session starts with
+function defaultEnvironment(): Record<string, string> {
+  return {
+    HOME: HOME_DIRECTORY,
+    USER: 'user',
+    LOGNAME: 'user',
+    HOSTNAME: 'webtermux',
+    SHELL: '/bin/bash',
+    PATH: '/usr/local/bin:/usr/bin:/bin',
+    TERM: 'xterm-256color',
+    LANG: 'C.UTF-8',
+    PWD: HOME_DIRECTORY,
+    HISTSIZE: String(DEFAULT_HISTSIZE),
+  };
+}
+
+// History entries kept when HISTSIZE is unset or not a number
+const DEFAULT_HISTSIZE = 500;
+
+// Keep persisted scrollback bounded so session rows don't grow forever. The
+// whole row is rewritten after every command, so long outputs are cut short
+// and the oldest entries dropped once the rest add up to the byte limit
+const MAX_SCROLLBACK_ENTRIES = 500;
+const MAX_SCROLLBACK_BYTES = 256 * 1024;
+const MAX_SCROLLBACK_OUTPUT_BYTES = 16 * 1024;
+
+// Scripts run inside the server process, so runaway loops and recursion are
+// cut off. The iterations are counted over every loop a command line runs,
+// nested ones included, and the shell lets the event loop (other sessions,
+// timers, Ctrl-C) in every YIELD_INTERVAL milliseconds.
+const MAX_LOOP_ITERATIONS = 100000;
+const MAX_CALL_DEPTH = 100;
+const YIELD_INTERVAL = 50;
+
+// Used when PS1 or PS2 is unset
+const DEFAULT_PS1 = '\\u@\\h:\\w\\$ ';
+const DEFAULT_PS2 = '> ';
+
+// Sourced in this order when a session is created
+const STARTUP_FILES = ['.profile', '.bashrc'];
+
+// --help among the options a command starts with, so aliases that add
+// options in front of it (grep --color=auto --help) still get the usage
+function asksForHelp(args: string[]): boolean {
+  for (let i = 0; i < args.length && args[i].startsWith('-') && args[i] !== '--' && args[i] !== '-'; i++) {
+    if (args[i] === '--help') return true;
+  }
+  return false;
+}
+
+// An argument as set -x shows it, quoted when the shell would need it to be
+function traceQuote(arg: string): string {
+  return /^[a-zA-Z0-9_@%+=:,.\/-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+// The start of an output as the scrollback stores it, with a note of how much there was
+function truncateOutput(text: string): string {
+  const bytes = Buffer.byteLength(text);
+  if (bytes <= MAX_SCROLLBACK_OUTPUT_BYTES) return text;
+  // Cutting through a multi-byte character leaves a replacement character
+  const kept = Buffer.from(text).subarray(0, MAX_SCROLLBACK_OUTPUT_BYTES).toString('utf8').replace(/\uFFFD$/, '');
+  return `${kept}\n[output truncated: ${bytes} bytes]`;
+}
+
+// The newest entries that fit in MAX_SCROLLBACK_BYTES, keeping at least the last one
+function trimScrollback(scrollback: ScrollbackEntry[]): ScrollbackEntry[] {
+  let total = 0;
+  let start = scrollback.length;
+  while (start > 0) {
+    total += Buffer.byteLength(JSON.stringify(scrollback[start - 1]));
+    if (total > MAX_SCROLLBACK_BYTES && start < scrollback.length) break;
+    start--;
+  }
+  return scrollback.slice(start);
+}
+
+// Terminal command processor
+export class TerminalProcessor {
+  readonly sessionId: string;
+  // Whose virtual file system this session works in
+  readonly owner: string;
+  currentDirectory: string;
+  // Commands typed at the prompt, oldest first, kept in HISTFILE
+  history: HistoryEntry[];
+  private scrollback: ScrollbackEntry[];
+  // Exit status of the last pipeline, as $? reports it
+  lastExitCode = 0;
+  // Shell variables, which double as the session's environment
+  environment: Record<string, string>;
+  aliases: Record<string, string>;
+  // PS1 as last expanded, shown before the next command
+  private prompt = '';
+  // $1, $2, ... and $0 of the running script or function
+  positional: string[] = [];
+  private scriptName = 'bash';
+  shellOptions: ShellOptions = { errexit: false, nounset: false, xtrace: false };
+  // Inside the condition of an if, while or until, where set -e doesn't apply
+  private conditionDepth = 0;
+  functions: Record<string, Command> = {};
+  // Values that variables declared local had before, one scope per running function
+  localScopes: Record<string, string | undefined>[] = [];
+  callDepth = 0;
+  loopDepth = 0;
+  // Loop iterations run for the current command line, and when the shell
+  // last yielded to the event loop
+  private loopIterations = 0;
+  private sliceStart = Date.now();
+  // Set by break, continue, return and exit; commands unwind until
+  // whatever it targets handles it
+  control?: { kind: 'break' | 'continue' | 'return' | 'exit'; levels: number };
+  // Stderr and exit status of the command substitutions made while
+  // expanding the current command
+  private substitutionErrors: string[] = [];
+  private substitutionStatus?: number;
+  // The process this shell runs as: the session's shell, or the job it was
+  // forked for
+  private process: Process;
+  // The command being run now, which sleep and the like wait on behalf of
+  currentProcess?: Process;
+  // A background job of a single command runs it in the job's own process
+  private exec?: Process;
+  // Only the shell at the prompt announces and reports jobs
+  private interactive = true;
+  // Set by Ctrl-C until the command line it interrupted has ended
+  interrupted = false;
+  // PID of the last job started with "&", as $! reports it
+  private lastBackgroundPid?: number;
+  // False while stdout goes into a pipe, a file or a substitution, so
+  // commands like grep --color=auto know not to add escape sequences
+  stdoutIsTerminal = true;
+
+  constructor(private readonly session: TerminalSession, readonly commands: CommandRegistry, readonly processes = new ProcessTable()) {
+    this.process = processes.shell;
+    this.sessionId = session.id;
+    this.owner = fileSystemOwner(session);
+    this.currentDirectory = session.currentDirectory;
+    const now = historyTime();
+    this.history = session.commandHistory.map(command => ({ command, time: now }));
+    this.scrollback = [...session.scrollback];
+    // Sessions saved before environments existed start from the defaults
+    this.environment = Object.keys(session.environment).length > 0
+      ? { ...session.environment }
+      : defaultEnvironment();
+    this.environment.PWD = this.currentDirectory;
+    this.aliases = { ...session.aliases };
+  }
+
+  get commandHistory(): string[] {
+    return this.history.map(entry => entry.command);
+  }
+
+  getSessionState(): TerminalSessionState {
+    return {
+      currentDirectory: this.currentDirectory,
+      commandHistory: this.commandHistory,
+      scrollback: this.scrollback,
+      prompt: this.prompt,
+    };
+  }
+
+  getPrompt(): string {
+    return this.prompt;
+  }
+
+  // Record a finished command, typed at prompt, and write the session state through to storage
+  async saveSession(command: string, result: CommandResult, prompt?: string): Promise<void> {
+    if (result.output === "\x1b[2J\x1b[H") {
+      this.scrollback = [];
+    } else {
+      const stored = { ...result, output: truncateOutput(result.output), stderr: result.stderr && truncateOutput(result.stderr) };
+      this.scrollback.push({ command, result: stored, timestamp: new Date().toISOString(), prompt });
+      this.scrollback = trimScrollback(this.scrollback.slice(-MAX_SCROLLBACK_ENTRIES));
+    }
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    await storage.updateTerminalSession(this.sessionId, {
+      currentDirectory: this.currentDirectory,
+      scrollback: this.scrollback,
+      environment: this.environment,
+      aliases: this.aliases,
+    });
+  }
+
+  // Sessions saved before there was a history file keep the history stored with them
+  async loadHistory(): Promise<void> {
+    const item = await storage.getFileSystemItem(this.owner, this.historyFile());
+    if (item && item.type === 'file') {
+      this.history = parseHistoryFile(item.content?.toString('utf8') ?? '');
+    }
+    this.history = this.trimHistory(this.history);
+  }
+
+  private historyFile(): string {
+    return this.resolvePath(this.environment.HISTFILE || joinPath(this.environment.HOME ?? HOME_DIRECTORY, '.bash_history'));
+  }
+
+  // The newest HISTSIZE entries; a negative size keeps everything
+  private trimHistory(entries: HistoryEntry[]): HistoryEntry[] {
+    const size = parseInt(this.environment.HISTSIZE ?? '', 10);
+    const limit = isNaN(size) ? DEFAULT_HISTSIZE : size;
+    if (limit < 0) return entries;
+    return limit === 0 ? [] : entries.slice(-limit);
+  }
+
+  // Writes the history out to HISTFILE, unless its directory is gone
+  async saveHistory(): Promise<void> {
+    const path = this.historyFile();
+    const content = Buffer.from(formatHistoryFile(this.history));
+    const existing = await storage.getFileSystemItem(this.owner, path);
+    if (existing?.type === 'directory') return;
+    if (existing) {
+      await storage.updateFileSystemItem(this.owner, path, { content });
+    } else if (!(await this.parentDirectoryError(path))) {
+      await storage.createFileSystemItem(this.owner, {
+        path,
+        name: basename(path),
+        type: 'file',
+        content,
+        permissions: '-rw-------'
+      });
+    }
+  }
+
+  // A new session reads ~/.profile and ~/.bashrc, like a login shell.
+  // What they print is not shown anywhere.
+  async runStartupFiles(): Promise<void> {
+    const home = this.environment.HOME ?? HOME_DIRECTORY;
+    for (const name of STARTUP_FILES) {
+      const path = joinPath(home, name);
+      if (await storage.fileSystemItemExists(this.owner, path)) {
+        await this.sourceFile('source', [path]);
+        this.control = undefined;
+      }
+    }
+    this.lastExitCode = 0;
+    await this.persist();
+  }
+
+  // Expands PS1 into this.prompt, as is done before every command
+  async refreshPrompt(): Promise<void> {
+    this.prompt = await this.expandPrompt(this.environment.PS1 ?? DEFAULT_PS1);
+  }
+
+  // Prompt escapes like \u and \w first, then the usual $ expansions. $?
+  // survives, so a prompt can show it without changing it.
+  private async expandPrompt(template: string): Promise<string> {
+    const now = new Date();
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const home = this.environment.HOME;
+    const directory = home && isSameOrInside(this.currentDirectory, home)
+      ? '~' + this.currentDirectory.substring(home.length)
+      : this.currentDirectory;
+    const hostname = this.environment.HOSTNAME ?? 'webtermux';
+    const hours12 = pad(now.getHours() % 12 || 12);
+    const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+    const escapes: Record<string, string> = {
+      u: this.environment.USER ?? 'user',
+      h: hostname.split('.')[0],
+      H: hostname,
+      w: directory,
+      W: directory === '~' ? '~' : basename(this.currentDirectory),
+      $: '$',
+      s: 'bash',
+      v: '5.2',
+      V: '5.2.0',
+      n: '\n',
+      t: `${pad(now.getHours())}:${pad(now.getMinutes())}:${pad(now.getSeconds())}`,
+      T: `${hours12}:${pad(now.getMinutes())}:${pad(now.getSeconds())}`,
+      '@': `${hours12}:${pad(now.getMinutes())} ${now.getHours() < 12 ? 'AM' : 'PM'}`,
+      A: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+      d: `${days[now.getDay()]} ${months[now.getMonth()]} ${pad(now.getDate())}`,
+      '#': String(this.commandHistory.length + 1),
+      '!': String(this.commandHistory.length + 1),
+      e: '\x1b',
+      '\\': '\\',
+      // \[ and \] only mark non-printing text for line editing
+      '[': '',
+      ']': '',
+    };
+    const text = template.replace(/\\([0-7]{3}|[^])/g, (match, code: string) =>
+      code.length === 3 ? String.fromCharCode(parseInt(code, 8)) : lookup(escapes, code) ?? match);
+
+    const status = this.lastExitCode;
+    const errors = this.substitutionErrors;
+    try {
+      return await expandHereDocument(text, this.expansionContext());
+    } catch (error) {
+      return text;
+    } finally {
+      this.lastExitCode = status;
+      this.substitutionErrors = errors;
+    }
+  }
+
+  // Only commands typed at the prompt and files sourced into the session
+  // expand aliases; scripts don't
+  private aliasLookup(): AliasLookup {
+    return (name: string) => lookup(this.aliases, name);
+  }
+
+  async executeCommand(command: string): Promise<CommandResult> {
+    this.interrupted = false;
+    this.loopIterations = 0;
+    this.sliceStart = Date.now();
+    const trimmedCommand = command.trim();
+    if (!trimmedCommand) {
+      return { output: "", currentDirectory: this.currentDirectory, success: true };
+    }
+
+    // History expansion happens before anything else, and the expanded line
+    // is echoed and remembered in place of what was typed
+    let line: string;
+    try {
+      line = expandHistory(trimmedCommand, this.commandHistory);
+    } catch (error) {
+      if (!(error instanceof HistoryError)) throw error;
+      this.lastExitCode = 1;
+      return { ...this.failure(`bash: ${error.message}`), prompt: this.prompt };
+    }
+
+    let list: CommandList | undefined;
+    let syntaxError = '';
+    try {
+      list = parseCommandList(tokenize(line), this.aliasLookup());
+    } catch (error) {
+      if (!(error instanceof ShellSyntaxError)) throw error;
+      // An open quote, here-document or compound command continues on the
+      // next line; nothing runs until the client sends the rest
+      if (error.incomplete) {
+        const prompt = await this.expandPrompt(this.environment.PS2 ?? DEFAULT_PS2);
+        return { output: "", currentDirectory: this.currentDirectory, success: true, incomplete: true, prompt };
+      }
+      syntaxError = error.message;
+    }
+
+    this.history = this.trimHistory(this.history.concat([{ command: line, time: historyTime() }]));
+    await this.saveHistory();
+
+    let result: CommandResult;
+    if (!list) {
+      result = { output: syntaxError, error: syntaxError, currentDirectory: this.currentDirectory, success: false, exitCode: 2 };
+    } else {
+      try {
+        result = await this.runList(list);
+      } catch (error) {
+        result = { 
+          output: `Error executing command: ${error}`, 
+          error: error instanceof Error ? error.message : String(error),
+          currentDirectory: this.currentDirectory, 
+          success: false 
+        };
+      }
+    }
+
+    // An exit or stray break at the prompt just ends the command line
+    this.control = undefined;
+    this.interrupted = false;
+    this.lastExitCode = exitStatus(result);
+    await this.refreshPrompt();
+
+    // The terminal starts a new line for the prompt after any output anyway
+    if (result.exactOutput) {
+      result = { ...result, output: result.output.replace(/\n$/, ''), exactOutput: undefined };
+    }
+
+    const echo = line !== trimmedCommand ? [line] : [];
+    const notices = this.jobNotices();
+    if (echo.length > 0 || notices.length > 0) {
+      const streams = resultStreams(result);
+      result = { ...result, output: echo.concat(streams.stdout ? [streams.stdout] : [], notices).join('\n'), stderr: streams.stderr };
+    }
+    return { ...result, exitCode: this.lastExitCode, prompt: this.prompt };
+  }
+
+  // What finished jobs wrote and how they ended, and which jobs stopped
+  // since the last prompt, as bash reports them before showing the next one
+  private jobNotices(): string[] {
+    const jobs = this.processes.jobs;
+    const lines: string[] = [];
+    jobs.forEach(job => {
+      if (job.result && !job.foreground) {
+        const { stdout, stderr } = resultStreams(job.result);
+        [stdout, stderr].filter(Boolean).forEach(text => lines.push(text));
+        lines.push(formatJob(job, jobs));
+      } else if (!job.result && job.process.suspended && !job.reportedStop) {
+        job.reportedStop = true;
+        lines.push(formatJob(job, jobs));
+      }
+    });
+    jobs.filter(job => job.result && !job.foreground).forEach(job => this.processes.removeJob(job));
+    return lines;
+  }
+
+  // Ctrl-C: whatever runs in the foreground gets SIGINT and the rest of the
+  // command line is skipped. Background jobs carry on.
+  interrupt() {
+    const background = this.processes.jobs.filter(job => !job.foreground).map(job => job.process);
+    const inBackground = (process?: Process): boolean =>
+      process !== undefined && (background.indexOf(process) !== -1 || inBackground(process.parent));
+    this.processes.list()
+      .filter(process => !inBackground(process))
+      .forEach(process => this.processes.signal(process, 'INT'));
+    this.interrupted = true;
+    this.processes.changed();
+  }
+
+  // Merges the results of several commands into one, stdout and stderr apart
+  private combineResults(results: CommandResult[], status: number): CommandResult {
+    if (results.length === 1 && exitStatus(results[0]) === status) {
+      return results[0];
+    }
+
+    const streams = results.map(resultStreams);
+    const errors = streams.map(stream => stream.stderr).filter(Boolean);
+    // Output that ends mid-line runs straight on into the next
+    let output = '';
+    let exactOutput = false;
+    streams.forEach((stream, index) => {
+      if (!stream.stdout) return;
+      output += (output && !exactOutput ? '\n' : '') + stream.stdout;
+      exactOutput = results[index].exactOutput === true;
+    });
+    return {
+      output,
+      exactOutput: exactOutput || undefined,
+      stderr: errors.join('\n'),
+      error: results.length > 0 ? results[results.length - 1].error : undefined,
+      currentDirectory: this.currentDirectory,
+      success: status === 0,
+      exitCode: status
+    };
+  }
+
+  failure(message: string, exitCode = 1): CommandResult {
+    return { output: "", stderr: message, error: message, currentDirectory: this.currentDirectory, success: false, exitCode };
+  }
+
+  // Runs pipelines in order, skipping those whose "&&" or "||" condition
+  // fails on the status of the last one that ran
+  private async runList(list: CommandList, input?: InputStream): Promise<CommandResult> {
+    const results: CommandResult[] = [];
+    let status = this.lastExitCode;
+    for (let index = 0; index < list.items.length; index++) {
+      const { connector, pipeline, job } = list.items[index];
+      if (this.control) break;
+      if ((connector === '&&' && status !== 0) || (connector === '||' && status === 0)) {
+        continue;
+      }
+      const stopped = await this.pause();
+      if (stopped) {
+        status = this.lastExitCode = exitStatus(stopped);
+        results.push(stopped);
+        break;
+      }
+      if (job !== undefined) {
+        const started = this.startJob(pipeline, job);
+        if (this.interactive) {
+          results.push({ output: "", stderr: `[${started.number}] ${started.process.pid}`, currentDirectory: this.currentDirectory, success: true });
+        }
+        status = this.lastExitCode = 0;
+        continue;
+      }
+      // set -e leaves on a failure, unless the status is being tested: in a
+      // condition, negated with !, or followed by && or ||
+      const next = list.items[index + 1];
+      const tested = pipeline.negated || (next !== undefined && next.connector !== ';');
+      const result = tested
+        ? await this.asCondition(() => this.runPipeline(pipeline, input))
+        : await this.runPipeline(pipeline, input);
+      status = this.lastExitCode = exitStatus(result);
+      results.push(result);
+      if (status !== 0 && this.shellOptions.errexit && this.conditionDepth === 0 && !tested) {
+        this.control = this.control ?? { kind: 'exit', levels: 1 };
+      }
+    }
+    return this.combineResults(results, status);
+  }
+
+  // Runs something whose exit status is tested rather than acted on by set -e
+  private async asCondition<T>(run: () => Promise<T>): Promise<T> {
+    this.conditionDepth++;
+    try {
+      return await run();
+    } finally {
+      this.conditionDepth--;
+    }
+  }
+
+  // "&": runs the pipeline in a copy of the shell without waiting for it
+  private startJob(pipeline: Pipeline, command: string): Job {
+    const first = pipeline.commands[0];
+    const simple = pipeline.commands.length === 1 && !pipeline.negated && first.kind === 'simple';
+    const name = first.kind === 'simple' && simple && first.words.length > 0 ? first.words[0] : 'bash';
+    const leader = this.processes.spawn(name, command, this.process);
+    const child = this.fork(leader);
+    if (simple) child.exec = leader;
+    const finished = child.runPipeline(pipeline)
+      .catch(error => child.failure(`Error executing command: ${error}`));
+    this.lastBackgroundPid = leader.pid;
+    return this.processes.addJob(leader, command, finished);
+  }
+
+  // A shell with this one's variables, functions and directory, running as
+  // process and sharing the session's process table
+  private fork(process: Process): TerminalProcessor {
+    const child = new TerminalProcessor(this.session, this.commands, this.processes);
+    child.process = process;
+    child.interactive = false;
+    child.currentDirectory = this.currentDirectory;
+    child.environment = { ...this.environment };
+    child.aliases = { ...this.aliases };
+    child.functions = { ...this.functions };
+    child.positional = this.positional;
+    child.scriptName = this.scriptName;
+    child.shellOptions = { ...this.shellOptions };
+    child.localScopes = this.localScopes.map(scope => ({ ...scope }));
+    child.lastExitCode = this.lastExitCode;
+    child.callDepth = this.callDepth;
+    child.stdoutIsTerminal = this.stdoutIsTerminal;
+    return child;
+  }
+
+  // Runs each command with the previous one's stdout as its stdin. Stderr
+  // from every stage is shown; the last stage decides success.
+  private async runPipeline(pipeline: Pipeline, input?: InputStream): Promise<CommandResult> {
+    let result: CommandResult = { output: "", currentDirectory: this.currentDirectory, success: true };
+    if (pipeline.negated) {
+      const inner = await this.runPipeline({ ...pipeline, negated: false }, input);
+      const { stdout, stderr } = resultStreams(inner);
+      const status = exitStatus(inner) === 0 ? 1 : 0;
+      return { ...inner, output: stdout, stderr, success: status === 0, exitCode: status };
+    }
+    if (pipeline.commands.length === 1) {
+      return await this.runCommandNode(pipeline.commands[0], input);
+    }
+
+    // Stages of a real pipeline run in subshells, so a cd inside one doesn't stick
+    const errors: string[] = [];
+    let stdin = input;
+    const last = pipeline.commands[pipeline.commands.length - 1];
+    for (const command of pipeline.commands) {
+      result = await this.inSubshell(() => {
+        this.stdoutIsTerminal = this.stdoutIsTerminal && command === last;
+        return this.runCommandNode(command, stdin);
+      });
+      const { stdout, stderr } = resultStreams(result);
+      if (stderr) errors.push(stderr);
+      stdin = new InputStream(toStream(stdout, result.exactOutput));
+    }
+
+    return {
+      output: resultStreams(result).stdout,
+      exactOutput: result.exactOutput,
+      // Always set, so that a failing pipeline's output stays on stdout
+      stderr: errors.join('\n'),
+      error: result.error,
+      currentDirectory: this.currentDirectory,
+      success: result.success,
+      exitCode: exitStatus(result),
+      // The last stage writes to the terminal, so it can still page
+      pager: result.pager
+    };
+  }
+
+  // Runs with a copy of the shell state that is thrown away afterwards
+  private async inSubshell(run: () => Promise<CommandResult>): Promise<CommandResult> {
+    const saved = {
+      currentDirectory: this.currentDirectory,
+      environment: { ...this.environment },
+      functions: { ...this.functions },
+      positional: this.positional,
+      scriptName: this.scriptName,
+      shellOptions: { ...this.shellOptions },
+      localScopes: this.localScopes,
+      interactive: this.interactive,
+      stdoutIsTerminal: this.stdoutIsTerminal,
+    };
+    try {
+      return await run();
+    } finally {
+      this.currentDirectory = saved.currentDirectory;
+      this.environment = saved.environment;
+      this.functions = saved.functions;
+      this.positional = saved.positional;
+      this.scriptName = saved.scriptName;
+      this.shellOptions = saved.shellOptions;
+      this.localScopes = saved.localScopes;
+      this.interactive = saved.interactive;
+      this.stdoutIsTerminal = saved.stdoutIsTerminal;
+      // exit, break and the like end the subshell, not the caller
+      this.control = undefined;
+    }
+  }
+
+  private async runCommandNode(node: Command, input?: InputStream): Promise<CommandResult> {
+    const outerErrors = this.substitutionErrors;
+    this.substitutionErrors = [];
+    let result: CommandResult;
+    let errors: string[] = [];
+    try {
+      switch (node.kind) {
+        case 'simple':
+          result = await this.runSimpleCommand(node, input);
+          break;
+        case 'function':
+          this.functions[node.name] = node.body;
+          result = { output: "", currentDirectory: this.currentDirectory, success: true };
+          break;
+        default:
+          result = await this.withRedirections(node.redirects, input, stdin => this.runCompound(node, stdin));
+      }
+    } catch (error) {
+      // Bad arithmetic or substitutions fail the command they appear in, not the whole line
+      if (!(error instanceof ArithmeticError) && !(error instanceof ExpansionError)) throw error;
+      result = this.failure(error.message);
+      // A script stops at a substitution it can't expand
+      if (error instanceof ExpansionError && !this.interactive) {
+        this.control = { kind: 'exit', levels: 1 };
+      }
+    } finally {
+      errors = this.substitutionErrors;
+      this.substitutionErrors = outerErrors;
+    }
+
+    // What command substitutions wrote to stderr shows up ahead of the command's own
+    if (errors.length === 0) return result;
+    const { stdout, stderr } = resultStreams(result);
+    return { ...result, output: stdout, stderr: errors.concat(stderr ? [stderr] : []).join('\n') };
+  }
+
+  // $(command): runs in a subshell; stdout becomes the substituted text
+  private async substituteCommand(command: string): Promise<string> {
+    let result: CommandResult;
+    try {
+      result = await this.inSubshell(async () => {
+        this.stdoutIsTerminal = false;
+        return this.runList(parseCommandList(tokenize(command)));
+      });
+    } catch (error) {
+      if (!(error instanceof ShellSyntaxError)) throw error;
+      result = this.failure(`command substitution: ${error.message}`, 2);
+    }
+
+    const { stdout, stderr } = resultStreams(result);
+    if (stderr) this.substitutionErrors.push(stderr);
+    this.substitutionStatus = this.lastExitCode = exitStatus(result);
+    return stdout;
+  }
+
+  private async runCompound(node: IfClause | ForClause | WhileClause | CaseClause | Group, input?: InputStream): Promise<CommandResult> {
+    const results: CommandResult[] = [];
+    const run = async (list: CommandList) => {
+      const result = await this.runList(list, input);
+      results.push(result);
+      return exitStatus(result);
+    };
+
+    switch (node.kind) {
+      case 'if': {
+        let status = 0;
+        let taken = false;
+        for (const branch of node.branches) {
+          const condition = await this.asCondition(() => run(branch.condition));
+          // exit, return or Ctrl-C in a condition leave with its status
+          if (this.control) return this.combineResults(results, condition);
+          if (condition === 0) {
+            status = await run(branch.body);
+            taken = true;
+            break;
+          }
+        }
+        if (!taken && !this.control && node.otherwise) {
+          status = await run(node.otherwise);
+        }
+        return this.combineResults(results, taken || node.otherwise ? status : 0);
+      }
+
+      case 'for': {
+        const values = node.words ? await expandWords(node.words, this.expansionContext()) : this.positional;
+        let status = 0;
+        this.loopDepth++;
+        try {
+          for (let index = 0; index < values.length; index++) {
+            if (++this.loopIterations > MAX_LOOP_ITERATIONS) {
+              return this.loopLimitExceeded(results, 'for');
+            }
+            this.environment[node.variable] = values[index];
+            status = await run(node.body);
+            if (this.loopShouldStop()) break;
+          }
+        } finally {
+          this.loopDepth--;
+        }
+        return this.combineResults(results, status);
+      }
+
+      case 'while': {
+        let status = 0;
+        this.loopDepth++;
+        try {
+          for (;;) {
+            if (++this.loopIterations > MAX_LOOP_ITERATIONS) {
+              return this.loopLimitExceeded(results, node.until ? 'until' : 'while');
+            }
+            const condition = await this.asCondition(() => run(node.condition));
+            if (this.loopShouldStop() || (condition === 0) === node.until) {
+              if (this.control) status = condition;
+              break;
+            }
+            status = await run(node.body);
+            if (this.loopShouldStop()) break;
+          }
+        } finally {
+          this.loopDepth--;
+        }
+        return this.combineResults(results, status);
+      }
+
+      case 'case': {
+        // Patterns are only expanded until one matches
+        const context = this.expansionContext();
+        const value = await expandValue(node.word, context);
+        for (const item of node.items) {
+          for (const pattern of item.patterns) {
+            if (matchGlob(await expandPattern(pattern, context), value, false)) {
+              return this.combineResults(results, await run(item.body));
+            }
+          }
+        }
+        return this.combineResults(results, 0);
+      }
+
+      case 'group':
+        return node.subshell
+          ? await this.inSubshell(() => this.runList(node.body, input))
+          : await this.runList(node.body, input);
+    }
+  }
+
+  // After a loop condition or body: whether the loop is done, consuming a
+  // break or continue aimed at this loop. Deeper levels pass on outwards.
+  private loopShouldStop(): boolean {
+    const control = this.control;
+    if (!control) return false;
+    if (control.kind === 'break' || control.kind === 'continue') {
+      if (control.levels > 1) {
+        control.levels--;
+        return true;
+      }
+      this.control = undefined;
+      return control.kind === 'break';
+    }
+    return true;
+  }
+
+  // Scripts run inside the server, so loops that go on too long are stopped
+  // and end the whole command line
+  private loopLimitExceeded(results: CommandResult[], loop: string): CommandResult {
+    results.push(this.failure(`${loop}: loops stopped after ${MAX_LOOP_ITERATIONS} iterations`));
+    this.control = { kind: 'exit', levels: 1 };
+    return this.combineResults(results, 1);
+  }
+
+  private async callFunction(name: string, body: Command, args: string[], input?: InputStream): Promise<CommandResult> {
+    if (this.callDepth >= MAX_CALL_DEPTH) {
+      this.control = { kind: 'exit', levels: 1 };
+      return this.failure(`${name}: maximum function nesting level exceeded (${MAX_CALL_DEPTH})`);
+    }
+
+    const positional = this.positional;
+    const locals: Record<string, string | undefined> = {};
+    this.positional = args;
+    this.localScopes = [...this.localScopes, locals];
+    this.callDepth++;
+    try {
+      const result = await this.runCommandNode(body, input);
+      if (this.control?.kind === 'return') {
+        this.control = undefined;
+      }
+      return result;
+    } finally {
+      this.callDepth--;
+      this.localScopes = this.localScopes.slice(0, -1);
+      this.positional = positional;
+      Object.keys(locals).forEach(variable => {
+        const value = locals[variable];
+        if (value === undefined) {
+          delete this.environment[variable];
+        } else {
+          this.environment[variable] = value;
+        }
+      });
+    }
+  }
+
+  // Runs script source as a child shell would: its own $0 and positional
+  // parameters, and nothing it changes survives it
+  private async runScript(name: string, source: string, args: string[], input?: InputStream): Promise<CommandResult> {
+    let list: CommandList;
+    try {
+      list = parseCommandList(tokenize(source));
+    } catch (error) {
+      if (error instanceof ShellSyntaxError) {
+        return this.failure(`${name}: ${error.message}`, 2);
+      }
+      throw error;
+    }
+
+    if (this.callDepth >= MAX_CALL_DEPTH) {
+      return this.failure(`${name}: maximum nesting level exceeded (${MAX_CALL_DEPTH})`);
+    }
+    return this.inSubshell(async () => {
+      this.positional = args;
+      this.scriptName = name;
+      this.interactive = false;
+      this.shellOptions = { errexit: false, nounset: false, xtrace: false };
+      this.functions = {};
+      this.localScopes = [];
+      const conditionDepth = this.conditionDepth;
+      this.conditionDepth = 0;
+      this.callDepth++;
+      try {
+        return await this.runList(list, input);
+      } finally {
+        this.callDepth--;
+        this.conditionDepth = conditionDepth;
+      }
+    });
+  }
+
+  // sh and bash: run a script file, a -c string, or a script piped in
+  async runShell(cmd: string, args: string[], input?: InputStream): Promise<CommandResult> {
+    if (args[0] === '-c') {
+      if (args.length < 2) {
+        return this.failure(`${cmd}: -c: option requires an argument`, 2);
+      }
+      return this.runScript(args[2] ?? cmd, args[1], args.slice(3), input);
+    }
+    if (args.length === 0) {
+      return input
+        ? this.runScript(cmd, input.read(), [])
+        : { output: "", currentDirectory: this.currentDirectory, success: true };
+    }
+
+    const item = await storage.getFileSystemItem(this.owner, this.resolvePath(args[0]));
+    if (!item) {
+      return this.failure(`${cmd}: ${args[0]}: No such file or directory`, 127);
+    }
+    if (item.type === 'directory') {
+      return this.failure(`${cmd}: ${args[0]}: Is a directory`, 126);
+    }
+    return this.runScript(args[0], item.content?.toString('utf8') || '', args.slice(1), input);
+  }
+
+  // source and ".": run a file in the current shell, so its variables,
+  // functions, aliases and cd stick. Extra arguments become $1, $2, ...
+  async sourceFile(cmd: string, args: string[], input?: InputStream): Promise<CommandResult> {
+    if (args.length === 0) {
+      return this.failure(`${cmd}: filename argument required`, 2);
+    }
+
+    const item = await storage.getFileSystemItem(this.owner, this.resolvePath(args[0]));
+    if (!item) {
+      return this.failure(`${cmd}: ${args[0]}: No such file or directory`);
+    }
+    if (item.type === 'directory') {
+      return this.failure(`${cmd}: ${args[0]}: is a directory`);
+    }
+    if (this.callDepth >= MAX_CALL_DEPTH) {
+      this.control = { kind: 'exit', levels: 1 };
+      return this.failure(`${cmd}: ${args[0]}: maximum nesting level exceeded (${MAX_CALL_DEPTH})`);
+    }
+
+    let list: CommandList;
+    try {
+      list = parseCommandList(tokenize(item.content?.toString('utf8') || ''), this.aliasLookup());
+    } catch (error) {
+      if (error instanceof ShellSyntaxError) {
+        return this.failure(`${args[0]}: ${error.message}`, 2);
+      }
+      throw error;
+    }
+
+    const positional = this.positional;
+    if (args.length > 1) this.positional = args.slice(1);
+    this.callDepth++;
+    try {
+      const result = await this.runList(list, input);
+      // return ends the file early
+      if (this.control?.kind === 'return') {
+        this.control = undefined;
+      }
+      return result;
+    } finally {
+      this.callDepth--;
+      if (args.length > 1) this.positional = positional;
+    }
+  }
+
+  // ./script.sh and other paths: only files with the execute bit set run
+  private async executeFile(path: string, args: string[], input?: InputStream): Promise<CommandResult> {
+    const item = await storage.getFileSystemItem(this.owner, this.resolvePath(path));
+    if (!item) {
+      return this.failure(`${path}: No such file or directory`, 127);
+    }
+    if (item.type === 'directory') {
+      return this.failure(`${path}: Is a directory`, 126);
+    }
+    if (item.permissions[3] !== 'x') {
+      return this.failure(`${path}: Permission denied`, 126);
+    }
+
+    const content = item.content ?? Buffer.alloc(0);
+    if (content.subarray(0, 4).equals(Buffer.from([0x7f, 0x45, 0x4c, 0x46]))) {
+      return this.failure(`${path}: cannot execute binary file: Exec format error`, 126);
+    }
+    return this.runScript(path, content.toString('utf8'), args, input);
+  }
+
+  // Expands a command's words, sets up its redirections and runs it. The
+  // result only carries what was left for the terminal or the next stage.
+  private async runSimpleCommand(command: SimpleCommand, input?: InputStream): Promise<CommandResult> {
+    const context = this.expansionContext();
+    this.substitutionStatus = undefined;
+    const args = await expandWords(command.words, context);
+    const assignments: { name: string; value: string }[] = [];
+    for (const { name, value } of command.assignments) {
+      assignments.push({ name, value: await expandValue(value, context) });
+    }
+    if (this.shellOptions.xtrace) {
+      const traced = assignments.map(({ name, value }) => `${name}=${traceQuote(value)}`).concat(args.map(traceQuote));
+      this.substitutionErrors.push((this.environment.PS4 ?? '+ ') + traced.join(' '));
+    }
+    // Assignments on their own set variables for good; in front of a
+    // command they only last while it runs
+    return this.withRedirections(command.redirects, input, async stdin => {
+      if (args.length === 0) {
+        assignments.forEach(({ name, value }) => { this.environment[name] = value; });
+        // x=$(cmd) reports how cmd went
+        const status = this.substitutionStatus ?? 0;
+        return { output: "", currentDirectory: this.currentDirectory, success: status === 0, exitCode: status };
+      }
+      return this.withVariables(assignments, () => this.runCommand(args[0], args.slice(1), stdin));
+    });
+  }
+
+  private async withRedirections(
+    redirects: Redirect[],
+    input: InputStream | undefined,
+    run: (input?: InputStream) => Promise<CommandResult>
+  ): Promise<CommandResult> {
+    if (redirects.length === 0) {
+      return await run(input);
+    }
+
+    // Redirections apply left to right, so "> f 2>&1" and "2>&1 > f" differ
+    const context = this.expansionContext();
+    const targets: { [fd: number]: OutputTarget } = { 1: { kind: 'stdout' }, 2: { kind: 'stderr' } };
+    for (const redirect of redirects) {
+      // Here-documents and here-strings feed their text to stdin
+      if (redirect.hereDocument || redirect.op === '<<<') {
+        const text = redirect.hereDocument
+          ? (redirect.hereDocument.expand ? await expandHereDocument(redirect.hereDocument.body, context) : redirect.hereDocument.body)
+          : await expandValue(redirect.target, context) + '\n';
+        if (redirect.fd === 0) input = new InputStream(text);
+        continue;
+      }
+
+      const fields = await expandWord(redirect.target, context);
+      if (fields.length !== 1) {
+        return this.failure(`${redirect.target}: ambiguous redirect`);
+      }
+      const target = fields[0];
+
+      if (redirect.op === '>&' || redirect.op === '<&') {
+        if (target === '-') {
+          targets[redirect.fd] = { kind: 'null' };
+        } else if (/^\d+$/.test(target) && targets[parseInt(target, 10)]) {
+          targets[redirect.fd] = targets[parseInt(target, 10)];
+        } else {
+          return this.failure(`${target}: Bad file descriptor`);
+        }
+        continue;
+      }
+
+      if (redirect.op === '<' || redirect.op === '<>') {
+        const file = await this.openRedirectInput(target);
+        if (file.error) return this.failure(`${target}: ${file.error}`);
+        if (redirect.fd === 0) input = new InputStream(file.content);
+        continue;
+      }
+
+      const output = await this.openRedirectOutput(target, redirect.op === '>>');
+      if ('error' in output) return this.failure(`${target}: ${output.error}`);
+      targets[redirect.fd] = output;
+    }
+
+    const toTerminal = this.stdoutIsTerminal;
+    this.stdoutIsTerminal = toTerminal && (targets[1].kind === 'stdout' || targets[1].kind === 'stderr');
+    let result: CommandResult;
+    try {
+      result = await run(input);
+    } finally {
+      this.stdoutIsTerminal = toTerminal;
+    }
+    const streams = resultStreams(result);
+    const shown = { stdout: [] as string[], stderr: [] as string[] };
+    const files: OutputTarget[] = [];
+    const write = (target: OutputTarget, text: string, exact = false) => {
+      if (!text) return;
+      if (target.kind === 'stdout' || target.kind === 'stderr') {
+        shown[target.kind].push(text);
+      } else if (target.kind === 'file') {
+        target.chunks.push(toStream(text, exact));
+        if (files.indexOf(target) === -1) files.push(target);
+      }
+    };
+    write(targets[1], streams.stdout, result.exactOutput);
+    write(targets[2], streams.stderr);
+
+    for (const file of files) {
+      if (file.kind !== 'file') continue;
+      const existing = await storage.getFileSystemItem(this.owner, file.path);
+      const previous = existing?.content ?? Buffer.alloc(0);
+      await storage.updateFileSystemItem(this.owner, file.path, {
+        content: Buffer.concat([previous, Buffer.from(file.chunks.join(''))])
+      });
+    }
+
+    return {
+      output: shown.stdout.join('\n'),
+      exactOutput: targets[1].kind === 'stdout' ? result.exactOutput : undefined,
+      stderr: shown.stderr.join('\n'),
+      error: result.error,
+      currentDirectory: this.currentDirectory,
+      success: result.success,
+      exitCode: exitStatus(result)
+    };
+  }
+
+  async withVariables(assignments: { name: string; value: string }[], run: () => Promise<CommandResult>): Promise<CommandResult> {
+    const previous = assignments.map(({ name }) => ({ name, value: this.environment[name] }));
+    assignments.forEach(({ name, value }) => { this.environment[name] = value; });
+    try {
+      return await run();
+    } finally {
+      previous.forEach(({ name, value }) => {
+        if (value === undefined) {
+          delete this.environment[name];
+        } else {
+          this.environment[name] = value;
+        }
+      });
+    }
+  }
+
+  private async openRedirectInput(target: string): Promise<{ content: string; error?: string }> {
+    if (target === '/dev/null') return { content: '' };
+    const item = await storage.getFileSystemItem(this.owner, this.resolvePath(target));
+    if (!item) return { content: '', error: 'No such file or directory' };
+    if (item.type === 'directory') return { content: '', error: 'Is a directory' };
+    return { content: item.content?.toString('utf8') || '' };
+  }
+
+  // Creates or truncates the file up front, before the command runs, as a shell does
+  private async openRedirectOutput(target: string, append: boolean): Promise<OutputTarget | { error: string }> {
+    if (target === '/dev/null') return { kind: 'null' };
+
+    const path = this.resolvePath(target);
+    const existing = await storage.getFileSystemItem(this.owner, path);
+    if (existing?.type === 'directory') return { error: 'Is a directory' };
+
+    if (!existing) {
+      const parentError = await this.parentDirectoryError(path);
+      if (parentError) return { error: parentError };
+      await storage.createFileSystemItem(this.owner, {
+        path,
+        name: basename(path),
+        type: 'file',
+        content: Buffer.alloc(0),
+        permissions: '-rw-r--r--'
+      });
+    } else if (!append) {
+      await storage.updateFileSystemItem(this.owner, path, { content: Buffer.alloc(0) });
+    }
+    return { kind: 'file', path, chunks: [] };
+  }
+
+  async runCommand(cmd: string, args: string[], stdin?: InputStream): Promise<CommandResult> {
+    // Functions shadow commands of the same name
+    const body = lookup(this.functions, cmd);
+    if (body) {
+      return await this.callFunction(cmd, body, args, stdin);
+    }
+    return await this.dispatchCommand(cmd, args, stdin);
+  }
+
+  // Runs a registered command, or the file at a path when cmd has a slash,
+  // without looking at functions; the command builtin goes straight here
+  // Every program run gets a process of its own while it runs
+  async dispatchCommand(cmd: string, args: string[], stdin?: InputStream): Promise<CommandResult> {
+    const stopped = await this.checkpoint();
+    if (stopped) return stopped;
+
+    const parent = this.currentProcess;
+    const exec = this.exec?.name === cmd ? this.exec : undefined;
+    this.exec = undefined;
+    const process = exec ?? this.processes.spawn(cmd, [cmd].concat(args).join(' '), parent ?? this.process);
+    this.currentProcess = process;
+    try {
+      return await this.runProgram(cmd, args, stdin);
+    } finally {
+      this.currentProcess = parent;
+      if (!exec) this.processes.exit(process);
+    }
+  }
+
+  // Yields to the event loop once the shell has run for YIELD_INTERVAL
+  // without doing so, then checks for Ctrl-C, kill and stop
+  private async pause(): Promise<CommandResult | undefined> {
+    if (Date.now() - this.sliceStart >= YIELD_INTERVAL) {
+      await new Promise(resolve => setImmediate(resolve));
+      this.sliceStart = Date.now();
+    }
+    return this.checkpoint();
+  }
+
+  // Holds a stopped job still; once it has been killed, or Ctrl-C was
+  // pressed, ends the command line instead of running anything more
+  private async checkpoint(): Promise<CommandResult | undefined> {
+    while (this.process.suspended && !this.process.terminatedBy) {
+      await this.processes.nextChange();
+    }
+    const signal = this.interrupted ? 'INT' : this.process.terminatedBy;
+    if (!signal) return undefined;
+    this.control = { kind: 'exit', levels: 1 };
+    return { output: "", currentDirectory: this.currentDirectory, success: false, exitCode: 128 + SIGNALS[signal] };
+  }
+
+  private async runProgram(cmd: string, args: string[], stdin?: InputStream): Promise<CommandResult> {
+    if (cmd.includes('/')) {
+      return await this.executeFile(cmd, args, stdin);
+    }
+
+    const definition = this.commands.get(cmd);
+    if (!definition) {
+      return { 
+        output: `Command not found: ${cmd}`, 
+        error: `${cmd}: command not found`,
+        currentDirectory: this.currentDirectory, 
+        success: false,
+        exitCode: 127
+      };
+    }
+    if (!definition.noHelpOption && asksForHelp(args)) {
+      return { output: formatUsage(definition, cmd), currentDirectory: this.currentDirectory, success: true };
+    }
+    return await definition.handler({ shell: this, name: cmd, args, stdin });
+  }
+
+  // Special parameters first, then shell variables
+  private parameter(name: string): string | undefined {
+    if (name === '?') return String(this.lastExitCode);
+    if (name === '#') return String(this.positional.length);
+    if (name === '@') return this.positional.join(' ');
+    // "$*" joins them with the first character of IFS
+    if (name === '*') return this.positional.join((this.environment.IFS ?? ' ').charAt(0));
+    if (name === '0') return this.scriptName;
+    if (name === '$') return String(this.processes.shell.pid);
+    if (name === '-') return (this.shellOptions.errexit ? 'e' : '') + 'h' + (this.shellOptions.nounset ? 'u' : '')
+      + (this.shellOptions.xtrace ? 'x' : '') + 'B' + (this.interactive ? 'i' : '');
+    if (name === '!') return this.lastBackgroundPid === undefined ? undefined : String(this.lastBackgroundPid);
+    if (/^\d+$/.test(name)) return this.positional[parseInt(name, 10) - 1];
+    return lookup(this.environment, name);
+  }
+
+  private expansionContext(): ExpansionContext {
+    return {
+      cwd: this.currentDirectory,
+      home: this.environment.HOME ?? HOME_DIRECTORY,
+      parameter: (name: string) => this.parameter(name),
+      positional: () => this.positional,
+      substitute: (command: string) => this.substituteCommand(command),
+      nounset: this.shellOptions.nounset,
+      assign: (name: string, value: string) => { this.environment[name] = value; },
+      readDirectory: async (path: string) => {
+        const item = await storage.getFileSystemItem(this.owner, path);
+        if (item?.type !== 'directory') return undefined;
+        return (await storage.getDirectoryContents(this.owner, path)).map(entry => entry.name);
+      }
+    };
+  }
+
+  resolvePath(path: string): string {
+    return resolvePath(this.currentDirectory, path);
+  }
+
+  // Why a new entry at path can't be created: a missing ancestor (ENOENT)
+  // or one that is a file (ENOTDIR). Undefined when the parent is usable.
+  async parentDirectoryError(path: string): Promise<string | undefined> {
+    for (const ancestor of ancestorsOf(path)) {
+      const item = await storage.getFileSystemItem(this.owner, ancestor);
+      if (!item) return 'No such file or directory';
+      if (item.type !== 'directory') return 'Not a directory';
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,24 @@
+// Fixtures shared by the tests: a shell on a fresh session, backed by the
+// in-memory storage the server falls back to without DATABASE_URL
+
+import { storage } from "./storage";
+import { TerminalProcessor, fileSystemOwner } from "./terminal";
+import { createDefaultRegistry } from "./commands";
+import { basename } from "@shared/path";
+
+export async function newShell(): Promise<TerminalProcessor> {
+  const session = await storage.createTerminalSession({});
+  await storage.initializeFileSystem(fileSystemOwner(session));
+  return new TerminalProcessor(session, createDefaultRegistry());
+}
+
+// Puts a file in the shell's file system, relative to its working directory
+export async function writeFile(shell: TerminalProcessor, path: string, content: string): Promise<void> {
+  await storage.createFileSystemItem(shell.owner, {
+    path: shell.resolvePath(path),
+    name: basename(path),
+    type: 'file',
+    content: Buffer.from(content),
+    permissions: '-rw-r--r--'
+  });
+}
@@ -0,0 +1,64 @@
+// POSIX-style path handling for the virtual file system. All paths produced
+// here are absolute and normalized: no ".", "..", empty or trailing segments.
+
+export const HOME_DIRECTORY = "/home/user";
+
+// Collapses duplicate slashes and resolves "." and ".." in an absolute path.
+// ".." at the root stays at the root, as in POSIX.
+export function normalizePath(path: string): string {
+  const segments: string[] = [];
+  path.split("/").forEach(segment => {
+    if (segment === "" || segment === ".") return;
+    if (segment === "..") {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  });
+  return "/" + segments.join("/");
+}
+
+// Expands "~", "~/..." and "~name/..." to home directories
+export function expandTilde(path: string, home = HOME_DIRECTORY): string {
+  if (!path.startsWith("~")) return path;
+  const slash = path.indexOf("/");
+  const user = slash === -1 ? path.substring(1) : path.substring(1, slash);
+  const rest = slash === -1 ? "" : path.substring(slash);
+  if (user === "") return home + rest;
+  return (user === "root" ? "/root" : "/home/" + user) + rest;
+}
+
+// Resolves a path typed by the user against the working directory
+export function resolvePath(cwd: string, path: string, home = HOME_DIRECTORY): string {
+  const expanded = expandTilde(path, home);
+  return normalizePath(expanded.startsWith("/") ? expanded : cwd + "/" + expanded);
+}
+
+export function dirname(path: string): string {
+  const normalized = normalizePath(path);
+  if (normalized === "/") return "/";
+  return normalized.substring(0, normalized.lastIndexOf("/")) || "/";
+}
+
+export function basename(path: string): string {
+  const normalized = normalizePath(path);
+  return normalized === "/" ? "/" : normalized.substring(normalized.lastIndexOf("/") + 1);
+}
+
+export function joinPath(directory: string, ...names: string[]): string {
+  return normalizePath([directory, ...names].join("/"));
+}
+
+export function isSameOrInside(path: string, ancestor: string): boolean {
+  return path === ancestor || path.startsWith(ancestor === "/" ? "/" : ancestor + "/");
+}
+
+// Every ancestor of path from the root down, excluding path itself
+export function ancestorsOf(path: string): string[] {
+  const ancestors: string[] = [];
+  for (let current = dirname(path); ; current = dirname(current)) {
+    ancestors.unshift(current);
+    if (current === "/") break;
+  }
+  return path === "/" ? [] : ancestors;
+}
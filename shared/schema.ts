@@ -1,8 +1,18 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, jsonb, timestamp, unique, index, integer, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Raw bytes so binary files round-trip unchanged
+const bytea = customType<{ data: Buffer; driverData: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+  fromDriver(value) {
+    return Buffer.from(value);
+  },
+});
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
@@ -14,28 +24,44 @@ export const terminalSessions = pgTable("terminal_sessions", {
   userId: varchar("user_id").references(() => users.id),
   currentDirectory: text("current_directory").notNull().default("/home/user"),
   commandHistory: jsonb("command_history").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  scrollback: jsonb("scrollback").$type<ScrollbackEntry[]>().notNull().default(sql`'[]'::jsonb`),
+  environment: jsonb("environment").$type<Record<string, string>>().notNull().default(sql`'{}'::jsonb`),
+  aliases: jsonb("aliases").$type<Record<string, string>>().notNull().default(sql`'{}'::jsonb`),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 export const fileSystem = pgTable("file_system", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  path: text("path").notNull().unique(),
+  owner: text("owner").notNull(), // user id, or session id for anonymous sessions
+  path: text("path").notNull(),
+  parentPath: text("parent_path"), // null only for the root directory
   name: text("name").notNull(),
   type: text("type").notNull(), // 'file' or 'directory'
-  content: text("content"), // null for directories
+  content: bytea("content"), // null for directories
+  mimeType: text("mime_type").notNull().default("inode/x-empty"),
   permissions: text("permissions").notNull().default("rw-r--r--"),
-  size: text("size").notNull().default("0"),
+  size: integer("size").notNull().default(0), // byte length of content, computed on write
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => [
+  unique("file_system_owner_path_unique").on(table.owner, table.path),
+  index("file_system_owner_parent_idx").on(table.owner, table.parentPath),
+  // Lets `path LIKE 'prefix/%'` subtree queries use an index regardless of collation
+  index("file_system_owner_path_prefix_idx").on(table.owner, table.path.op("text_pattern_ops")),
+]);
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
 });
 
-export const insertTerminalSessionSchema = createInsertSchema(terminalSessions).omit({
+export const insertTerminalSessionSchema = createInsertSchema(terminalSessions, {
+  commandHistory: z.array(z.string()).optional(),
+  scrollback: z.array(z.custom<ScrollbackEntry>()).optional(),
+  environment: z.record(z.string()).optional(),
+  aliases: z.record(z.string()).optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -43,6 +69,10 @@ export const insertTerminalSessionSchema = createInsertSchema(terminalSessions).
 
 export const insertFileSystemSchema = createInsertSchema(fileSystem).omit({
   id: true,
+  owner: true,
+  parentPath: true,
+  mimeType: true,
+  size: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -57,9 +87,43 @@ export type InsertFileSystemItem = z.infer<typeof insertFileSystemSchema>;
 // Command execution types
 export type CommandResult = {
   output: string;
+  // Diagnostics kept apart from output, e.g. from earlier stages of a pipeline
+  stderr?: string;
   error?: string;
   currentDirectory: string;
   success: boolean;
+  // 0 on success; the shell fills this in for every command it runs
+  exitCode?: number;
+  // The command stopped mid-way, e.g. inside a quote or here-document, and
+  // was not run; the client should collect more lines and send it again
+  incomplete?: boolean;
+  // The prompt to show next, expanded from PS1 (or PS2 while a command is
+  // incomplete); may contain ANSI color codes
+  prompt?: string;
+  // output is exactly what the command wrote, ending mid-line or in blank
+  // lines, as echo -n and printf can; pipes and files get it as it is
+  // rather than with a final newline added
+  exactOutput?: boolean;
+  // Output meant for the client's pager rather than the scrollback, as man
+  // and less produce when writing to the terminal; this is its title
+  pager?: string;
+};
+
+// A command and its result as shown in the terminal output area
+export type ScrollbackEntry = {
+  command: string;
+  result: CommandResult;
+  timestamp: string;
+  // The prompt the command was typed at
+  prompt?: string;
+};
+
+// What a client needs to pick a session back up after reconnecting
+export type TerminalSessionState = {
+  currentDirectory: string;
+  commandHistory: string[];
+  scrollback: ScrollbackEntry[];
+  prompt: string;
 };
 
 export type SystemResources = {
@@ -76,6 +140,17 @@ export type SystemResources = {
   };
   processes: number;
   uptime: number;
+  // The session's own processes, oldest first
+  processList: ProcessInfo[];
+};
+
+// A process in a session's process table
+export type ProcessInfo = {
+  pid: number;
+  ppid: number;
+  command: string;
+  state: 'running' | 'sleeping' | 'stopped';
+  started: string;
 };
 
 export type FileManagerItem = {
@@ -90,12 +165,54 @@ export type FileManagerItem = {
   group: string;
 };
 
+// Two files compared line by line for the file manager's diff view. Each row
+// holds a line kept, a removed line beside the one that replaced it, or a
+// line only one side has.
+export type FileDiffLine = {
+  number: number;
+  text: string;
+};
+
+export type FileDiffRow = {
+  kind: 'same' | 'changed' | 'removed' | 'added';
+  left?: FileDiffLine;
+  right?: FileDiffLine;
+};
+
+export type FileDiff = {
+  left: string;
+  right: string;
+  binary: boolean;
+  rows: FileDiffRow[];
+};
+
+// Sent when Tab is pressed: the input line and where the cursor is in it
+export type CompletionRequest = {
+  line: string;
+  cursor: number;
+};
+
+// Ways to complete the word in line from start to end, each one a full
+// replacement for it
+export type CompletionResult = {
+  line: string;
+  start: number;
+  end: number;
+  candidates: string[];
+};
+
 export type WebSocketMessage = {
-  type: 'command' | 'result' | 'error' | 'connect' | 'disconnect' | 'resources' | 'file_manager';
+  type: 'command' | 'result' | 'error' | 'connect' | 'disconnect' | 'resources' | 'file_manager' | 'history' | 'complete' | 'interrupt';
   command?: string;
+  // The session's whole command history, sent when it changes other than by
+  // the command the client just ran being added
+  history?: string[];
+  completion?: CompletionRequest;
+  completions?: CompletionResult;
   result?: CommandResult;
   error?: string;
   sessionId?: string;
+  session?: TerminalSessionState;
   resources?: SystemResources;
   fileManager?: {
     action: 'list' | 'create' | 'delete' | 'rename' | 'move' | 'copy';